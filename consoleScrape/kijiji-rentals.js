@@ -0,0 +1,146 @@
+// Kijiji rental console scraper
+// Run in the browser console on a Kijiji rental ad (kijiji.ca/v-apartments-condos/.../1712345678),
+// then paste the JSON into Add Rental → Kijiji JSON
+(async () => {
+  const extractedDate = new Date().toISOString();
+  const clean = (text) => (text || '').replace(/\s+/g, ' ').trim();
+
+  const raw_data = {
+    extractedDate: extractedDate,
+    id: null,
+    url: null,
+    title: null,
+    price: null,
+    address: null,
+    attributes: {},
+    description: null,
+    postedDate: null,
+    sellerInfo: {
+      name: null,
+      profileUrl: null
+    },
+    media: {
+      images: []
+    }
+  };
+
+  // Expand the description if it is collapsed
+  for (const btn of document.querySelectorAll('button')) {
+    if (/^(show more|read more|afficher plus|lire la suite)$/i.test(clean(btn.textContent))) {
+      btn.click();
+      await new Promise(r => setTimeout(r, 300));
+    }
+  }
+
+  // URL and ID - the ad ID is the last path segment
+  raw_data.url = window.location.href.split('?')[0];
+  const idMatch = raw_data.url.match(/\/(\d{6,})\/?$/);
+  if (idMatch) raw_data.id = idMatch[1];
+
+  // Title
+  raw_data.title = clean(document.querySelector('h1')?.textContent) || null;
+
+  // Price - the first "$1,850.00" / "1 850,00 $" near the title
+  const priceEl = document.querySelector('[data-testid="vip-price"], [itemprop="price"], [class*="priceWrapper"] span, [class*="price"]');
+  const priceText = clean(priceEl?.getAttribute('content') ? '$' + priceEl.getAttribute('content') : priceEl?.textContent);
+  if (/\d/.test(priceText)) {
+    raw_data.price = priceText;
+  } else {
+    for (const span of document.querySelectorAll('span, p')) {
+      const text = clean(span.textContent);
+      if (/^\$\s?[\d,]+(\.\d{2})?$|^[\d\s ]+(,\d{2})?\s?\$$/.test(text)) {
+        raw_data.price = text;
+        break;
+      }
+    }
+  }
+
+  // Address
+  const addressEl = document.querySelector('[itemprop="address"], [class*="address"], [data-testid="location-address"]');
+  raw_data.address = clean(addressEl?.textContent) || null;
+
+  // Posted date
+  const timeEl = document.querySelector('time[datetime]');
+  if (timeEl) raw_data.postedDate = timeEl.getAttribute('datetime');
+
+  // Attributes - "Bedrooms: 2", "Utilities Included: Heat, Water", ...
+  const addAttribute = (label, value) => {
+    label = clean(label).replace(/:$/, '');
+    value = clean(value);
+    if (label && value && label !== value && label.length < 60 && !(label in raw_data.attributes)) {
+      raw_data.attributes[label] = value;
+    }
+  };
+
+  document.querySelectorAll('dl').forEach(dl => {
+    dl.querySelectorAll('dt').forEach(dt => {
+      addAttribute(dt.textContent, dt.nextElementSibling?.textContent);
+    });
+  });
+
+  // Grouped attributes: a heading followed by a list of included items
+  document.querySelectorAll('li').forEach(li => {
+    const heading = li.querySelector('h4, h3, [class*="attributeTitle"], [class*="title"]');
+    const list = li.querySelector('ul');
+    if (heading && list) {
+      const items = [...list.querySelectorAll('li')]
+        .filter(item => !item.querySelector('svg[aria-label*="not" i], [class*="unavailable"]'))
+        .map(item => clean(item.textContent))
+        .filter(Boolean);
+      if (items.length > 0) addAttribute(heading.textContent, items.join(', '));
+    } else if (heading) {
+      addAttribute(heading.textContent, clean(li.textContent).replace(clean(heading.textContent), ''));
+    }
+  });
+
+  // Description
+  const descriptionEl = document.querySelector('[itemprop="description"], [class*="descriptionContainer"], [data-testid="vip-description-wrapper"]');
+  if (descriptionEl) {
+    raw_data.description = clean(descriptionEl.textContent).replace(/^Description\s*/i, '');
+  } else {
+    for (const heading of document.querySelectorAll('h2, h3')) {
+      if (/^description$/i.test(clean(heading.textContent))) {
+        raw_data.description = clean(heading.parentElement?.textContent).replace(/^Description\s*/i, '');
+        break;
+      }
+    }
+  }
+
+  // Seller Info
+  const profileLink = document.querySelector('a[href*="/o-profile/"]');
+  if (profileLink) {
+    raw_data.sellerInfo.name = clean(profileLink.textContent) || null;
+    raw_data.sellerInfo.profileUrl = new URL(profileLink.getAttribute('href'), window.location.origin).toString().split('?')[0];
+  }
+
+  // Images - full size gallery photos from Kijiji's CDN
+  document.querySelectorAll('img, source').forEach(el => {
+    const srcset = el.getAttribute('srcset');
+    const src = el.getAttribute('src') || el.getAttribute('data-src') || srcset?.split(',').pop().trim().split(' ')[0];
+    if (src && /media\.kijiji\.ca|i\.ebayimg\.com/.test(src) && !/avatar|profile|logo/i.test(src)) {
+      // Ask for the largest rendition
+      const fullSize = src.replace(/\?rule=kijijica-\d+-/, '?rule=kijijica-960-').replace(/\$_\d+\./, '$_57.');
+      if (!raw_data.media.images.includes(fullSize)) {
+        raw_data.media.images.push(fullSize);
+      }
+    }
+  });
+
+  // Wrap in KijijiRentalRaw format
+  const result = {
+    kijiji_id: raw_data.id,
+    source_url: raw_data.url,
+    extracted_date: extractedDate,
+    scraper_version: 'console-v1',
+    raw_data: raw_data
+  };
+
+  console.log(JSON.stringify(result, null, 2));
+
+  // Copy to clipboard
+  navigator.clipboard.writeText(JSON.stringify(result, null, 2))
+    .then(() => console.log('✅ JSON copied to clipboard!'))
+    .catch(() => console.log('⚠️ Could not copy to clipboard. Copy the JSON above manually.'));
+
+  return result;
+})();
@@ -0,0 +1,111 @@
+/**
+ * Backfill Unit Schedules
+ *
+ * Parses unit_details ("2 x 4½, 1 x 5½") into unit_schedule for properties saved
+ * before the schedule existed. Properties that already have a schedule are left alone.
+ *
+ * Usage:
+ *   npx tsx scripts/backfill/backfill-unit-schedules.ts [--dry-run]
+ *
+ * Options:
+ *   --dry-run    Parse and report, but don't write to the database
+ */
+
+import { config } from "dotenv";
+import { createClient } from "@supabase/supabase-js";
+import { buildUnitSchedule, formatUnitSchedule } from "../../src/lib/parsers/unit-mix-parser";
+
+// Load environment variables from .env.local
+config({ path: ".env.local" });
+
+const isDryRun = process.argv.slice(2).includes("--dry-run");
+
+const PAGE_SIZE = 1000; // PostgREST caps responses at 1000 rows
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+if (!supabaseUrl || !supabaseKey) {
+  console.error("❌ Missing Supabase environment variables");
+  console.error("   Make sure NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY are set");
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+async function main() {
+  console.log("\n🏢 Backfilling unit schedules from unit details");
+  console.log("================================================\n");
+  if (isDryRun) console.log("🧪 Dry run: nothing will be written\n");
+
+  const properties: { id: string; title: string; unit_details: string }[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("properties")
+      .select("id, title, unit_details")
+      .not("unit_details", "is", null)
+      .or("unit_schedule.is.null,unit_schedule.eq.[]")
+      .order("created_at", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("❌ Error fetching properties:", error.message);
+      process.exit(1);
+    }
+
+    properties.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  if (properties.length === 0) {
+    console.log("✅ No properties to backfill\n");
+    return;
+  }
+
+  const stats = { total: properties.length, updated: 0, unparsed: 0, failed: 0 };
+
+  for (let i = 0; i < properties.length; i++) {
+    const property = properties[i];
+    const progress = `[${i + 1}/${stats.total}]`;
+    const schedule = buildUnitSchedule(property.unit_details);
+
+    if (schedule.length === 0) {
+      stats.unparsed++;
+      console.log(`${progress} ⏭️  ${property.title}: nothing parsed from "${property.unit_details}"`);
+      continue;
+    }
+
+    if (!isDryRun) {
+      const { error } = await supabase
+        .from("properties")
+        .update({ unit_schedule: schedule })
+        .eq("id", property.id);
+
+      if (error) {
+        stats.failed++;
+        console.log(`${progress} ❌ ${property.title}: ${error.message}`);
+        continue;
+      }
+    }
+
+    stats.updated++;
+    console.log(`${progress} ✅ ${property.title}: ${formatUnitSchedule(schedule)}`);
+  }
+
+  console.log("\n================================================");
+  console.log("📊 Summary\n");
+  console.log(`Total:        ${stats.total}`);
+  console.log(`✅ Updated:   ${stats.updated}`);
+  console.log(`⏭️  Unparsed:  ${stats.unparsed}`);
+  console.log(`❌ Failed:    ${stats.failed}\n`);
+
+  if (stats.failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error("❌ Fatal error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,153 @@
+/**
+ * Re-scrape Saved Listings
+ *
+ * Scrapes the source URL of every active property again and records the price in
+ * listing_price_history, so price drops, relistings and days on market can be tracked.
+ * Field coverage is recorded too, so the nightly run doubles as a selector health check.
+ * Closed and dead deals are skipped.
+ *
+ * Usage:
+ *   npx tsx scripts/rescrape-listings.ts [--limit=50] [--dry-run]
+ *
+ * Options:
+ *   --limit=N    Only re-scrape N properties (least recently updated first)
+ *   --dry-run    Scrape and report, but don't write to the database
+ */
+
+import { config } from "dotenv";
+import { createClient } from "@supabase/supabase-js";
+import { getScraperForUrl } from "../src/lib/scrapers";
+import {
+  analyzePriceHistory,
+  fetchPriceHistory,
+  recordListingObservation,
+} from "../src/lib/listings/price-history";
+import { recordScrapeCoverage } from "../src/lib/listings/scrape-coverage";
+
+// Load environment variables from .env.local
+config({ path: ".env.local" });
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const limit = args.find(arg => arg.startsWith("--limit="))?.split("=")[1];
+const isDryRun = args.includes("--dry-run");
+
+const RATE_LIMIT_MS = 3000; // Be gentle with listing sites
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+if (!supabaseUrl || !supabaseKey) {
+  console.error("❌ Missing Supabase environment variables");
+  console.error("   Make sure NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY are set");
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+async function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+const formatPrice = (price: number | null) =>
+  price == null
+    ? "N/A"
+    : new Intl.NumberFormat("en-CA", { style: "currency", currency: "CAD", maximumFractionDigits: 0 }).format(price);
+
+async function main() {
+  console.log("\n🔁 Re-scraping saved listings");
+  console.log("=============================\n");
+  if (isDryRun) console.log("🧪 Dry run: nothing will be written\n");
+
+  let query = supabase
+    .from("properties")
+    .select("id, title, source_url, mls_number, address, price, property_type")
+    .not("source_url", "is", null)
+    .not("deal_stage", "in", "(closed,dead)")
+    .order("updated_at", { ascending: true });
+
+  if (limit) {
+    query = query.limit(parseInt(limit));
+  }
+
+  const { data: properties, error } = await query;
+
+  if (error) {
+    console.error("❌ Error fetching properties:", error.message);
+    process.exit(1);
+  }
+
+  if (!properties || properties.length === 0) {
+    console.log("✅ No properties to re-scrape\n");
+    return;
+  }
+
+  const stats = { total: properties.length, unchanged: 0, drops: 0, increases: 0, relisted: 0, failed: 0 };
+
+  for (let i = 0; i < properties.length; i++) {
+    const property = properties[i];
+    const progress = `[${i + 1}/${stats.total}]`;
+    console.log(`${progress} ${property.title}`);
+
+    try {
+      const scraped = await getScraperForUrl(property.source_url).scrape(property.source_url);
+
+      if (scraped.price != null && property.price != null && scraped.price !== property.price) {
+        const change = scraped.price - property.price;
+        if (change < 0) stats.drops++;
+        else stats.increases++;
+        console.log(
+          `  ${change < 0 ? "📉" : "📈"} ${formatPrice(property.price)} → ${formatPrice(scraped.price)} (${((change / property.price) * 100).toFixed(1)}%)`
+        );
+      } else {
+        stats.unchanged++;
+        console.log(`  ➖ ${formatPrice(scraped.price)}`);
+      }
+
+      if (!isDryRun) {
+        await recordListingObservation(scraped, property.id, supabase);
+        await recordScrapeCoverage(scraped, supabase);
+
+        const updates: Record<string, unknown> = {};
+        if (scraped.price != null && scraped.price !== property.price) updates.price = scraped.price;
+        if (scraped.mls_number && scraped.mls_number !== property.mls_number) {
+          updates.mls_number = scraped.mls_number;
+        }
+        if (Object.keys(updates).length > 0) {
+          await supabase.from("properties").update(updates).eq("id", property.id);
+        }
+
+        const history = analyzePriceHistory(
+          await fetchPriceHistory({ ...property, ...updates }, supabase)
+        );
+        if (history.relisted) {
+          stats.relisted++;
+          console.log(
+            `  🔁 Relisted ${history.listings.length - 1}x · ${history.cumulativeDaysOnMarket} days on market overall`
+          );
+        }
+      }
+    } catch (err) {
+      stats.failed++;
+      console.log(`  ❌ ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+
+    if (i < properties.length - 1) {
+      await sleep(RATE_LIMIT_MS);
+    }
+  }
+
+  console.log("\n=============================");
+  console.log("📊 Summary\n");
+  console.log(`Total:        ${stats.total}`);
+  console.log(`📉 Drops:     ${stats.drops}`);
+  console.log(`📈 Increases: ${stats.increases}`);
+  console.log(`➖ Unchanged: ${stats.unchanged}`);
+  console.log(`🔁 Relisted:  ${stats.relisted}`);
+  console.log(`❌ Failed:    ${stats.failed}\n`);
+}
+
+main().catch((err) => {
+  console.error("❌ Fatal error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,100 @@
+/**
+ * Run Saved Searches
+ *
+ * Re-crawls every active saved search whose interval has elapsed, records new
+ * matching listings and price drops as notifications and posts the digest to
+ * each search's webhook. Run it from cron, or leave it running with --watch.
+ *
+ * Usage:
+ *   npx tsx scripts/run-saved-searches.ts [--all] [--watch]
+ *
+ * Options:
+ *   --all      Run every active search, even if it isn't due yet
+ *   --watch    Keep running and check for due searches every 15 minutes
+ */
+
+import { config } from "dotenv";
+import { createClient } from "@supabase/supabase-js";
+import { runDueSavedSearches } from "../src/lib/listings/saved-searches";
+
+// Load environment variables from .env.local
+config({ path: ".env.local" });
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const runAll = args.includes("--all");
+const isWatch = args.includes("--watch");
+
+const WATCH_INTERVAL_MS = 15 * 60 * 1000;
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+if (!supabaseUrl || !supabaseKey) {
+  console.error("❌ Missing Supabase environment variables");
+  console.error("   Make sure NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY are set");
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+async function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function runOnce(force: boolean) {
+  console.log(`\n🔎 Running saved searches (${new Date().toLocaleString("en-CA")})`);
+  console.log("=============================\n");
+
+  const results = await runDueSavedSearches(force, supabase);
+
+  if (results.length === 0) {
+    console.log("✅ No saved searches due\n");
+    return;
+  }
+
+  const stats = { searches: results.length, listings: 0, newListings: 0, priceDrops: 0, failed: 0 };
+
+  for (const { search, run } of results) {
+    console.log(`${search.name}`);
+
+    if (run.status === "failed") {
+      stats.failed++;
+      console.log(`  ❌ ${run.error}`);
+      continue;
+    }
+
+    stats.listings += run.listings_seen;
+    stats.newListings += run.new_listings;
+    stats.priceDrops += run.price_drops;
+    console.log(
+      `  ✅ ${run.listings_seen} listings · 🆕 ${run.new_listings} new · 📉 ${run.price_drops} price drops`
+    );
+  }
+
+  console.log("\n=============================");
+  console.log("📊 Summary\n");
+  console.log(`Searches:       ${stats.searches}`);
+  console.log(`Listings seen:  ${stats.listings}`);
+  console.log(`🆕 New:         ${stats.newListings}`);
+  console.log(`📉 Price drops: ${stats.priceDrops}`);
+  console.log(`❌ Failed:      ${stats.failed}\n`);
+}
+
+async function main() {
+  await runOnce(runAll);
+
+  while (isWatch) {
+    await sleep(WATCH_INTERVAL_MS);
+    try {
+      await runOnce(false);
+    } catch (err) {
+      console.error("❌ Error running saved searches:", err);
+    }
+  }
+}
+
+main().catch((err) => {
+  console.error("❌ Fatal error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,89 @@
+/**
+ * Run Zone Scraping Jobs
+ *
+ * Picks up the zone scraping jobs queued from the zone page and scrapes each
+ * zone's unscraped buildings with the Montreal evaluation scraper, one job at
+ * a time. Progress is saved after every building, so the zone page shows it
+ * whether or not it is open. Leave it running with --watch.
+ *
+ * Usage:
+ *   npx tsx scripts/run-zone-scraping-jobs.ts [--watch]
+ *
+ * Options:
+ *   --watch    Keep running and check for queued jobs every 30 seconds
+ */
+
+import { config } from "dotenv";
+import { createClient } from "@supabase/supabase-js";
+import { runPendingZoneScrapingJobs } from "../src/lib/zones/zone-scraping-jobs";
+
+// Load environment variables from .env.local
+config({ path: ".env.local" });
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const isWatch = args.includes("--watch");
+
+const WATCH_INTERVAL_MS = 30 * 1000;
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+if (!supabaseUrl || !supabaseKey) {
+  console.error("❌ Missing Supabase environment variables");
+  console.error("   Make sure NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY are set");
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+async function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function runOnce(): Promise<boolean> {
+  const jobs = await runPendingZoneScrapingJobs(supabase);
+
+  if (jobs.length === 0) {
+    return false;
+  }
+
+  console.log(`\n🏙️  Zone scraping jobs (${new Date().toLocaleString("en-CA")})`);
+  console.log("=============================\n");
+
+  for (const job of jobs) {
+    const icon = job.status === "completed" ? "✅" : job.status === "cancelled" ? "⏹️ " : "❌";
+    console.log(`${icon} Job ${job.id} (zone ${job.zone_id}): ${job.status}`);
+    console.log(`   ${job.scraped_count} scraped · ${job.failed_count} failed · ${job.total_to_scrape} planned`);
+    if (job.error_message) {
+      console.log(`   ${job.error_message}`);
+    }
+  }
+
+  return true;
+}
+
+async function main() {
+  const ranJobs = await runOnce();
+  if (!ranJobs) {
+    console.log("✅ No zone scraping jobs queued");
+  }
+
+  if (isWatch) {
+    console.log(`👀 Watching for queued jobs every ${WATCH_INTERVAL_MS / 1000}s (Ctrl+C to stop)`);
+  }
+
+  while (isWatch) {
+    await sleep(WATCH_INTERVAL_MS);
+    try {
+      await runOnce();
+    } catch (err) {
+      console.error("❌ Error running zone scraping jobs:", err);
+    }
+  }
+}
+
+main().catch((err) => {
+  console.error("❌ Fatal error:", err);
+  process.exit(1);
+});
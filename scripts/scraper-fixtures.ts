@@ -0,0 +1,257 @@
+/**
+ * Scraper Fixture Check
+ *
+ * Runs each scraper offline against recorded pages in scripts/fixtures/scrapers and
+ * compares its output with the golden JSON recorded next to the page, so selector
+ * breakage is caught before it corrupts listings in the database.
+ *
+ * Fixtures are listed in scripts/fixtures/scrapers/manifest.json. For each fixture
+ * <name>.html is the recorded page (<name>.response.json for an API response) and
+ * <name>.json the expected output.
+ *
+ * Usage:
+ *   npx tsx scripts/scraper-fixtures.ts [--only=name] [--update]
+ *   npx tsx scripts/scraper-fixtures.ts --record [--only=name]
+ *   npx tsx scripts/scraper-fixtures.ts --add=name --scraper=listing --url=https://... [--format=json]
+ *
+ * Options:
+ *   --only=NAME      Only check (or record) this fixture
+ *   --update         Rewrite the golden JSON from the recorded pages (after an intended parser change)
+ *   --record         Fetch the live pages again, then rewrite their HTML and golden JSON
+ *   --add=NAME       Record a new fixture and add it to the manifest
+ *   --scraper=KIND   listing (scraper picked by URL), generic, centris-rental or montreal-evaluation
+ *   --url=URL        Page to record (listing, generic, centris-rental)
+ *   --matricule=M    Matricule to record (montreal-evaluation)
+ *   --format=json    The URL returns JSON (e.g. the realtor.ca listing API) instead of a page
+ */
+
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from "fs";
+import path from "path";
+import {
+  getScraperForUrl,
+  CentrisRentalScraper,
+  GenericScraper,
+} from "../src/lib/scrapers";
+import { MontrealEvaluationScraper } from "../src/lib/scrapers/montreal-evaluation-scraper";
+
+type ScraperKind = "listing" | "generic" | "centris-rental" | "montreal-evaluation";
+
+interface Fixture {
+  name: string;
+  scraper: ScraperKind;
+  url?: string;
+  matricule?: string;
+  format?: "html" | "json"; // What the URL returns; defaults to html
+}
+
+const SCRAPER_KINDS: ScraperKind[] = ["listing", "generic", "centris-rental", "montreal-evaluation"];
+const FIXTURES_DIR = path.join(__dirname, "fixtures", "scrapers");
+const MANIFEST_PATH = path.join(FIXTURES_DIR, "manifest.json");
+const MAX_DIFFS_SHOWN = 15;
+const RATE_LIMIT_MS = 3000; // Be gentle with listing sites when re-recording
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const argValue = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split("=").slice(1).join("=");
+const only = argValue("only");
+const addName = argValue("add");
+const isUpdate = args.includes("--update");
+const isRecord = args.includes("--record");
+
+async function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function loadManifest(): Fixture[] {
+  if (!existsSync(MANIFEST_PATH)) return [];
+  return JSON.parse(readFileSync(MANIFEST_PATH, "utf-8"));
+}
+
+const pagePath = (fixture: Fixture) =>
+  path.join(FIXTURES_DIR, `${fixture.name}.${fixture.format === "json" ? "response.json" : "html"}`);
+const goldenPath = (fixture: Fixture) => path.join(FIXTURES_DIR, `${fixture.name}.json`);
+
+/**
+ * Run the fixture's scraper on a recorded page, without touching the network
+ */
+async function extract(fixture: Fixture, html: string): Promise<unknown> {
+  switch (fixture.scraper) {
+    case "listing":
+      return getScraperForUrl(fixture.url!).parse(html, fixture.url!);
+    case "generic":
+      return new GenericScraper().parse(html, fixture.url!);
+    case "centris-rental":
+      return new CentrisRentalScraper().parse(html, fixture.url!);
+    case "montreal-evaluation":
+      return new MontrealEvaluationScraper().parseHtml(html, fixture.matricule!);
+  }
+}
+
+/**
+ * Fetch the live page the way the scraper does
+ */
+async function fetchPage(fixture: Fixture): Promise<string> {
+  switch (fixture.scraper) {
+    case "listing":
+      return getScraperForUrl(fixture.url!).fetchHtml(fixture.url!);
+    case "generic":
+      return new GenericScraper().fetchHtml(fixture.url!);
+    case "centris-rental":
+      return new CentrisRentalScraper().fetchHtml(fixture.url!);
+    case "montreal-evaluation": {
+      // The result page is only reachable through the search form
+      const scraper = new MontrealEvaluationScraper();
+      await scraper.scrape(fixture.matricule!);
+      if (!scraper.lastResultHtml) throw new Error("No result page was loaded");
+      return scraper.lastResultHtml;
+    }
+  }
+}
+
+// JSON round trip drops undefined values, as the golden file does
+const normalize = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+/**
+ * Paths where the output differs from the golden JSON
+ */
+function diffValues(expected: unknown, actual: unknown, at = ""): string[] {
+  if (JSON.stringify(expected) === JSON.stringify(actual)) return [];
+
+  const bothObjects =
+    expected !== null && actual !== null && typeof expected === "object" && typeof actual === "object" &&
+    Array.isArray(expected) === Array.isArray(actual);
+
+  if (!bothObjects) {
+    const show = (value: unknown) => {
+      const text = JSON.stringify(value) ?? "undefined";
+      return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+    };
+    return [`${at || "(root)"}: expected ${show(expected)}, got ${show(actual)}`];
+  }
+
+  const expectedRecord = expected as Record<string, unknown>;
+  const actualRecord = actual as Record<string, unknown>;
+  const keys = [...new Set([...Object.keys(expectedRecord), ...Object.keys(actualRecord)])];
+
+  return keys.flatMap((key) =>
+    diffValues(expectedRecord[key], actualRecord[key], Array.isArray(expected) ? `${at}[${key}]` : at ? `${at}.${key}` : key)
+  );
+}
+
+async function record(fixture: Fixture) {
+  const html = await fetchPage(fixture);
+  writeFileSync(pagePath(fixture), html);
+  writeFileSync(goldenPath(fixture), JSON.stringify(normalize(await extract(fixture, html)), null, 2) + "\n");
+}
+
+async function addFixture(name: string) {
+  const scraper = argValue("scraper") as ScraperKind | undefined;
+  const fixture: Fixture = { name, scraper: scraper ?? "listing", url: argValue("url"), matricule: argValue("matricule") };
+  if (argValue("format") === "json") fixture.format = "json";
+
+  if (!SCRAPER_KINDS.includes(fixture.scraper)) {
+    console.error(`❌ --scraper must be one of: ${SCRAPER_KINDS.join(", ")}`);
+    process.exit(1);
+  }
+  if (fixture.scraper === "montreal-evaluation" ? !fixture.matricule : !fixture.url) {
+    console.error(`❌ ${fixture.scraper === "montreal-evaluation" ? "--matricule" : "--url"} is required`);
+    process.exit(1);
+  }
+
+  const manifest = loadManifest().filter((f) => f.name !== name);
+  mkdirSync(FIXTURES_DIR, { recursive: true });
+
+  console.log(`📥 Recording ${name}...`);
+  await record(fixture);
+
+  writeFileSync(MANIFEST_PATH, JSON.stringify([...manifest, fixture], null, 2) + "\n");
+  console.log(`✅ Saved ${path.relative(process.cwd(), pagePath(fixture))} and its golden JSON\n`);
+}
+
+async function main() {
+  if (addName) {
+    await addFixture(addName);
+    return;
+  }
+
+  const fixtures = loadManifest().filter((fixture) => !only || fixture.name === only);
+
+  console.log(`\n🧪 ${isRecord ? "Re-recording" : isUpdate ? "Updating" : "Checking"} scraper fixtures`);
+  console.log("=============================\n");
+
+  if (fixtures.length === 0) {
+    console.log(only ? `❌ No fixture named ${only}\n` : "⚠️  No fixtures yet; add one with --add\n");
+    if (only) process.exit(1);
+    return;
+  }
+
+  const stats = { total: fixtures.length, passed: 0, failed: 0, updated: 0 };
+
+  for (let i = 0; i < fixtures.length; i++) {
+    const fixture = fixtures[i];
+    const progress = `[${i + 1}/${stats.total}]`;
+
+    try {
+      if (isRecord) {
+        await record(fixture);
+        stats.updated++;
+        console.log(`${progress} 📥 ${fixture.name}: recorded`);
+        if (i < fixtures.length - 1) await sleep(RATE_LIMIT_MS);
+        continue;
+      }
+
+      if (!existsSync(pagePath(fixture))) {
+        stats.failed++;
+        console.log(`${progress} ❌ ${fixture.name}: page not recorded (run with --record --only=${fixture.name})`);
+        continue;
+      }
+
+      const output = normalize(await extract(fixture, readFileSync(pagePath(fixture), "utf-8")));
+
+      if (isUpdate) {
+        writeFileSync(goldenPath(fixture), JSON.stringify(output, null, 2) + "\n");
+        stats.updated++;
+        console.log(`${progress} ✏️  ${fixture.name}: golden JSON rewritten`);
+        continue;
+      }
+
+      if (!existsSync(goldenPath(fixture))) {
+        stats.failed++;
+        console.log(`${progress} ❌ ${fixture.name}: no golden JSON (run with --update --only=${fixture.name})`);
+        continue;
+      }
+
+      const diffs = diffValues(JSON.parse(readFileSync(goldenPath(fixture), "utf-8")), output);
+      if (diffs.length === 0) {
+        stats.passed++;
+        console.log(`${progress} ✅ ${fixture.name}`);
+        continue;
+      }
+
+      stats.failed++;
+      console.log(`${progress} ❌ ${fixture.name}: ${diffs.length} difference(s)`);
+      diffs.slice(0, MAX_DIFFS_SHOWN).forEach((diff) => console.log(`     ${diff}`));
+      if (diffs.length > MAX_DIFFS_SHOWN) console.log(`     ... and ${diffs.length - MAX_DIFFS_SHOWN} more`);
+    } catch (err) {
+      stats.failed++;
+      console.log(`${progress} ❌ ${fixture.name}: ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+  }
+
+  console.log("\n=============================");
+  console.log("📊 Summary\n");
+  console.log(`Total:      ${stats.total}`);
+  if (isRecord || isUpdate) {
+    console.log(`✏️  Updated: ${stats.updated}`);
+  } else {
+    console.log(`✅ Passed:  ${stats.passed}`);
+  }
+  console.log(`❌ Failed:  ${stats.failed}\n`);
+
+  if (stats.failed > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error("❌ Fatal error:", err);
+  process.exit(1);
+});
@@ -5,12 +5,14 @@ import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { UrlInput } from "@/components/scraper/url-input";
 import { ScrapePreview } from "@/components/scraper/scrape-preview";
+import { SearchImport } from "@/components/scraper/search-import";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardHeader, CardContent } from "@/components/ui/card";
+import { UnitScheduleEditor } from "@/components/property/unit-schedule-editor";
 import type { ScrapedProperty, CreatePropertyInput } from "@/types/property";
 
-type Mode = "url" | "preview" | "manual";
+type Mode = "url" | "preview" | "search" | "manual";
 
 export default function AddPropertyPage() {
   const router = useRouter();
@@ -142,6 +144,15 @@ export default function AddPropertyPage() {
             >
               Add by URL
             </Button>
+            <Button
+              variant={mode === "search" ? "primary" : "ghost"}
+              onClick={() => {
+                setMode("search");
+                setError(null);
+              }}
+            >
+              Import Search
+            </Button>
             <Button
               variant={mode === "manual" ? "primary" : "ghost"}
               onClick={() => {
@@ -181,6 +192,9 @@ export default function AddPropertyPage() {
           />
         )}
 
+        {/* Search Import Mode */}
+        {mode === "search" && <SearchImport />}
+
         {/* Manual Mode */}
         {mode === "manual" && (
           <Card>
@@ -224,6 +238,15 @@ export default function AddPropertyPage() {
                     placeholder="For multi-residential"
                   />
 
+                  <Input
+                    label="Unit Details"
+                    value={manualProperty.unit_details || ""}
+                    onChange={(e) =>
+                      updateManualField("unit_details", e.target.value || undefined)
+                    }
+                    placeholder="e.g., 2 x 4½, 1 x 5½"
+                  />
+
                   <Input
                     label="Address"
                     value={manualProperty.address || ""}
@@ -301,6 +324,13 @@ export default function AddPropertyPage() {
                   />
                 </div>
 
+                <UnitScheduleEditor
+                  value={manualProperty.unit_schedule ?? []}
+                  onChange={(schedule) => updateManualField("unit_schedule", schedule)}
+                  units={manualProperty.units}
+                  unitDetails={manualProperty.unit_details}
+                />
+
                 <div className="flex justify-end gap-2 pt-4">
                   <Link href="/">
                     <Button variant="ghost" type="button">
@@ -3,10 +3,11 @@
 import { useState } from "react";
 import { FacebookRentalImport } from "@/components/rental/facebook-rental-import";
 import { CentrisRentalImport } from "@/components/rental/centris-rental-import";
+import { KijijiRentalImport } from "@/components/rental/kijiji-rental-import";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
 
-type ImportSource = "facebook" | "centris";
+type ImportSource = "facebook" | "kijiji" | "centris";
 
 export default function AddRentalPage() {
   const [importSource, setImportSource] = useState<ImportSource>("facebook");
@@ -25,14 +26,21 @@ export default function AddRentalPage() {
       <div className="flex gap-2 mb-6">
         <Button
           onClick={() => setImportSource("facebook")}
-          variant={importSource === "facebook" ? "default" : "outline"}
+          variant={importSource === "facebook" ? "primary" : "outline"}
           className="flex-1"
         >
           Facebook JSON
         </Button>
+        <Button
+          onClick={() => setImportSource("kijiji")}
+          variant={importSource === "kijiji" ? "primary" : "outline"}
+          className="flex-1"
+        >
+          Kijiji JSON
+        </Button>
         <Button
           onClick={() => setImportSource("centris")}
-          variant={importSource === "centris" ? "default" : "outline"}
+          variant={importSource === "centris" ? "primary" : "outline"}
           className="flex-1"
         >
           Centris URL
@@ -42,6 +50,9 @@ export default function AddRentalPage() {
       {/* Facebook Import Mode */}
       {importSource === "facebook" && <FacebookRentalImport />}
 
+      {/* Kijiji Import Mode */}
+      {importSource === "kijiji" && <KijijiRentalImport />}
+
       {/* Centris Import Mode */}
       {importSource === "centris" && <CentrisRentalImport />}
     </div>
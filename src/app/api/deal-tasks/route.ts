@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+// GET /api/deal-tasks - Open tasks across all deals, soonest due first
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("deal_tasks")
+      .select("*")
+      .is("completed_at", null)
+      .order("due_date", { ascending: true, nullsFirst: false });
+
+    if (error) {
+      console.error("Error fetching tasks:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch tasks" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,5 @@
 import { NextResponse } from 'next/server';
-import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
-import { processMediaArray } from '@/lib/storage/rental-media';
+import { findImportedRawRental, importRawRental } from '@/lib/storage/raw-rental-import';
 import type { FacebookRentalRaw } from '@/types/facebook-rental-raw';
 import type { FacebookRental } from '@/types/rental';
 
@@ -45,31 +44,22 @@ export async function POST(request: Request) {
     }
 
     const startTime = Date.now();
-    const supabase = await createClient();
 
     // Check for duplicate
-    const { data: existing } = await supabase
-      .from('facebook_rentals_metadata')
-      .select('id, facebook_id, transformation_status, rental_id')
-      .eq('facebook_id', facebookId)
-      .single();
+    const existing = await findImportedRawRental('facebook', facebookId);
 
     if (existing) {
       return NextResponse.json({
         message: 'Listing already imported',
         metadataId: existing.id,
-        facebookId: existing.facebook_id,
-        status: existing.transformation_status,
-        rentalId: existing.rental_id,
+        facebookId: existing.listingId,
+        status: existing.transformationStatus,
+        rentalId: existing.rentalId,
         alreadyExists: true,
       });
     }
 
-    // Upload raw JSON to Storage with date-based partitioning
     const now = new Date();
-    const year = now.getFullYear();
-    const month = String(now.getMonth() + 1).padStart(2, '0');
-    const storagePath = `${year}/${month}/${facebookId}.json`;
 
     // Normalize to FacebookRentalRaw structure
     const rawJson: FacebookRentalRaw = isNewFormat
@@ -95,105 +85,38 @@ export async function POST(request: Request) {
           },
         };
 
-    const rawJsonStr = JSON.stringify(rawJson, null, 2);
-
-    // Use service role client for storage operations (bypasses RLS)
-    const supabaseServiceRole = createServiceRoleClient();
-    const { error: uploadError } = await supabaseServiceRole.storage
-      .from('facebook-raw-rentals')
-      .upload(storagePath, rawJsonStr, {
-        contentType: 'application/json',
-        upsert: false,
+    let imported;
+    try {
+      imported = await importRawRental('facebook', {
+        listingId: facebookId,
+        sourceUrl,
+        rawJson,
+        preview: {
+          title: rawJson.raw_data.title || null,
+          price: rawJson.raw_data.price,
+          address: rawJson.raw_data.address,
+        },
+        media: {
+          images: rawJson.raw_data.media.images || [],
+          videos: rawJson.raw_data.media.videos || [],
+        },
+        startTime,
       });
-
-    if (uploadError) {
-      console.error('Storage upload error:', uploadError);
-      return NextResponse.json(
-        { error: 'Failed to upload data to storage: ' + uploadError.message },
-        { status: 500 }
-      );
-    }
-
-    // Extract preview data
-    const titlePreview = rawJson.raw_data.title?.substring(0, 100) || null;
-    const pricePreview = rawJson.raw_data.price;
-    const addressPreview = rawJson.raw_data.address;
-
-    // Download images and videos to storage using facebook_id as identifier
-    let imageStoragePaths: string[] = [];
-    let videoStoragePaths: string[] = [];
-    const imageUrls = rawJson.raw_data.media.images || [];
-    const videoUrls = rawJson.raw_data.media.videos || [];
-
-    if (imageUrls.length > 0) {
-      try {
-        const imageResult = await processMediaArray(
-          imageUrls,
-          facebookId, // Use facebook_id as identifier
-          'image',
-          'facebook' // Storage path: rentals/facebook/{facebook_id}/image-{index}.jpg
-        );
-        imageStoragePaths = imageResult.storagePaths;
-      } catch (imageError) {
-        console.error('Image download error:', imageError);
-        // Continue even if images fail - we can retry later
-      }
-    }
-
-    if (videoUrls.length > 0) {
-      try {
-        const videoResult = await processMediaArray(
-          videoUrls,
-          facebookId,
-          'video',
-          'facebook' // Storage path: rentals/facebook/{facebook_id}/video-{index}.mp4
-        );
-        videoStoragePaths = videoResult.storagePaths;
-      } catch (videoError) {
-        console.error('Video download error:', videoError);
-        // Continue even if videos fail
-      }
-    }
-
-    // Insert metadata into table
-    const { data: metadata, error: metadataError } = await supabase
-      .from('facebook_rentals_metadata')
-      .insert({
-        facebook_id: facebookId,
-        source_url: sourceUrl,
-        storage_path: storagePath,
-        raw_data_size_bytes: new Blob([rawJsonStr]).size,
-        scrape_status: 'success',
-        scrape_duration_ms: Date.now() - startTime,
-        title_preview: titlePreview,
-        price_preview: pricePreview,
-        address_preview: addressPreview,
-        images: imageStoragePaths,
-        videos: videoStoragePaths,
-      })
-      .select()
-      .single();
-
-    if (metadataError || !metadata) {
-      console.error('Metadata insert error:', metadataError);
+    } catch (importError) {
       return NextResponse.json(
-        { error: 'Failed to save metadata: ' + metadataError?.message },
+        { error: importError instanceof Error ? importError.message : 'Failed to import JSON data' },
         { status: 500 }
       );
     }
 
     return NextResponse.json({
-      metadataId: metadata.id,
-      facebookId: metadata.facebook_id,
-      storagePath: metadata.storage_path,
+      metadataId: imported.id,
+      facebookId: imported.listingId,
+      storagePath: imported.storagePath,
       message: 'JSON imported successfully. Ready for transformation.',
-      preview: {
-        title: metadata.title_preview,
-        price: metadata.price_preview,
-        address: metadata.address_preview,
-      },
-      imageCount: imageStoragePaths.length,
-      videoCount: videoStoragePaths.length,
+      preview: imported.preview,
+      imageCount: imported.imageCount,
+      videoCount: imported.videoCount,
     });
   } catch (error) {
     console.error('Unexpected error in scrape-json endpoint:', error);
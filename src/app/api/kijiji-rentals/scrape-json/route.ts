@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { findImportedRawRental, importRawRental } from '@/lib/storage/raw-rental-import';
+import type { KijijiRentalRaw } from '@/types/kijiji-rental-raw';
+
+/**
+ * POST /api/kijiji-rentals/scrape-json
+ * Accepts JSON from browser console script and saves to Storage + metadata
+ *
+ * Body: { jsonData: KijijiRentalRaw } - JSON from consoleScrape/kijiji-rentals.js
+ * Returns: { metadataId, kijijiId, storagePath, message, preview }
+ */
+export async function POST(request: Request) {
+  try {
+    const { jsonData } = await request.json();
+
+    if (!jsonData) {
+      return NextResponse.json(
+        { error: 'jsonData is required' },
+        { status: 400 }
+      );
+    }
+
+    const rawJson = jsonData as KijijiRentalRaw;
+
+    if (!rawJson.kijiji_id) {
+      return NextResponse.json(
+        { error: 'JSON must contain kijiji_id field (Kijiji ad ID)' },
+        { status: 400 }
+      );
+    }
+
+    if (!rawJson.source_url) {
+      return NextResponse.json(
+        { error: 'JSON must contain source_url field' },
+        { status: 400 }
+      );
+    }
+
+    if (!rawJson.raw_data?.title) {
+      return NextResponse.json(
+        { error: 'JSON raw_data must contain title field' },
+        { status: 400 }
+      );
+    }
+
+    const kijijiId = String(rawJson.kijiji_id);
+    const startTime = Date.now();
+
+    // Check for duplicate
+    const existing = await findImportedRawRental('kijiji', kijijiId);
+
+    if (existing) {
+      return NextResponse.json({
+        message: 'Listing already imported',
+        metadataId: existing.id,
+        kijijiId: existing.listingId,
+        status: existing.transformationStatus,
+        rentalId: existing.rentalId,
+        alreadyExists: true,
+      });
+    }
+
+    let imported;
+    try {
+      imported = await importRawRental('kijiji', {
+        listingId: kijijiId,
+        sourceUrl: rawJson.source_url,
+        rawJson,
+        preview: {
+          title: rawJson.raw_data.title,
+          price: rawJson.raw_data.price || null,
+          address: rawJson.raw_data.address || null,
+        },
+        media: { images: rawJson.raw_data.media?.images || [] },
+        startTime,
+      });
+    } catch (importError) {
+      return NextResponse.json(
+        { error: importError instanceof Error ? importError.message : 'Failed to import JSON data' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      metadataId: imported.id,
+      kijijiId: imported.listingId,
+      storagePath: imported.storagePath,
+      message: 'JSON imported successfully. Ready for transformation.',
+      preview: imported.preview,
+      imageCount: imported.imageCount,
+    });
+  } catch (error) {
+    console.error('Unexpected error in scrape-json endpoint:', error);
+    return NextResponse.json(
+      { error: 'Failed to import JSON data' },
+      { status: 500 }
+    );
+  }
+}
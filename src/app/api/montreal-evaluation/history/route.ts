@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  buildEvaluationChangeSets,
+  fetchEvaluationSnapshots,
+} from "@/lib/evaluations/evaluation-snapshots";
+
+// GET /api/montreal-evaluation/history?matricule= - Snapshots of a building and what changed between them
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const matricule = searchParams.get("matricule");
+
+    if (!matricule) {
+      return NextResponse.json(
+        { error: "Matricule parameter is required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const snapshots = await fetchEvaluationSnapshots(matricule, supabase);
+
+    return NextResponse.json({
+      data: {
+        snapshots,
+        changeSets: buildEvaluationChangeSets(snapshots),
+      },
+    });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch evaluation history" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,9 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { MontrealEvaluationScraper, type ScrapeOptions } from "@/lib/scrapers/montreal-evaluation-scraper";
-import type { MontrealEvaluationInsert } from "@/types/montreal-evaluation";
+import { buildEvaluationInsert, saveEvaluation } from "@/lib/evaluations/evaluation-snapshots";
 import { isValidForAddressScraping } from "@/lib/utils/street-name-cleaner";
 
-// Helper function to parse French-formatted numbers (with spaces)
-function parseNumber(value: string | null | undefined): number | null {
-  if (!value) return null;
-  // Remove all spaces and parse
-  const cleaned = value.replace(/\s/g, '');
-  const parsed = parseFloat(cleaned);
-  return isNaN(parsed) ? null : parsed;
-}
-
 // Request body interface
 interface PostRequestBody {
   // Support both methods
@@ -27,6 +18,9 @@ interface PostRequestBody {
 
   // Or auto-detect from property_evaluations
   propertyEvaluationId?: number; // id_uev from property_evaluations
+
+  // Scrape again even if the matricule is already saved; changed data gets a new snapshot
+  rescrape?: boolean;
 }
 
 export async function POST(request: Request) {
@@ -37,7 +31,8 @@ export async function POST(request: Request) {
       matricule,
       streetNumber,
       streetName,
-      propertyEvaluationId
+      propertyEvaluationId,
+      rescrape = false
     } = body;
 
     const supabase = await createClient();
@@ -104,18 +99,20 @@ export async function POST(request: Request) {
       }
 
       // Check if already scraped
-      const { data: existing } = await supabase
-        .from("montreal_evaluation_details")
-        .select("*")
-        .eq("matricule", scrapeParams.matricule)
-        .single();
-
-      if (existing) {
-        return NextResponse.json({
-          data: existing,
-          fromCache: true,
-          message: "Data already exists in database",
-        });
+      if (!rescrape) {
+        const { data: existing } = await supabase
+          .from("montreal_evaluation_details")
+          .select("*")
+          .eq("matricule", scrapeParams.matricule)
+          .single();
+
+        if (existing) {
+          return NextResponse.json({
+            data: existing,
+            fromCache: true,
+            message: "Data already exists in database",
+          });
+        }
       }
     }
 
@@ -124,82 +121,31 @@ export async function POST(request: Request) {
     const scraper = new MontrealEvaluationScraper();
     const scrapedData = await scraper.scrape(scrapeParams);
 
-    // Transform scraped data to database format
-    const insertData: MontrealEvaluationInsert = {
-      matricule: scrapedData.matricule,
-
-      // Identification
-      address: scrapedData.identification.address || null,
-      arrondissement: scrapedData.identification.arrondissement || null,
-      lot_exclusif: scrapedData.identification.lot_exclusif || null,
-      lot_commun: scrapedData.identification.lot_commun || null,
-      usage_predominant: scrapedData.identification.usage_predominant || null,
-      numero_unite_voisinage: scrapedData.identification.numero_unite_voisinage || null,
-      numero_compte_foncier: scrapedData.identification.numero_compte_foncier || null,
-
-      // Owner
-      owner_name: scrapedData.owner.name || null,
-      owner_status: scrapedData.owner.status || null,
-      owner_postal_address: scrapedData.owner.postal_address || null,
-      owner_registration_date: scrapedData.owner.registration_date || null,
-      owner_special_conditions: scrapedData.owner.special_conditions || null,
-
-      // Land
-      land_frontage: parseNumber(scrapedData.land.frontage),
-      land_area: parseNumber(scrapedData.land.area),
-
-      // Building
-      building_floors: parseNumber(scrapedData.building.floors),
-      building_year: parseNumber(scrapedData.building.year),
-      building_floor_area: parseNumber(scrapedData.building.floor_area),
-      building_construction_type: scrapedData.building.construction_type || null,
-      building_physical_link: scrapedData.building.physical_link || null,
-      building_units: parseNumber(scrapedData.building.units),
-      building_non_residential_spaces: parseNumber(scrapedData.building.non_residential_spaces),
-      building_rental_rooms: parseNumber(scrapedData.building.rental_rooms),
-
-      // Current valuation
-      current_market_date: scrapedData.valuation.current.market_date || null,
-      current_land_value: parseNumber(scrapedData.valuation.current.land_value),
-      current_building_value: parseNumber(scrapedData.valuation.current.building_value),
-      current_total_value: parseNumber(scrapedData.valuation.current.total_value),
-
-      // Previous valuation
-      previous_market_date: scrapedData.valuation.previous.market_date || null,
-      previous_total_value: parseNumber(scrapedData.valuation.previous.total_value),
-
-      // Fiscal
-      tax_category: scrapedData.fiscal.tax_category || null,
-      taxable_value: parseNumber(scrapedData.fiscal.taxable_value),
-      non_taxable_value: parseNumber(scrapedData.fiscal.non_taxable_value),
-
-      // Tax PDFs
-      tax_account_pdfs: scrapedData.tax_pdfs.length > 0 ? scrapedData.tax_pdfs : null,
-
-      // Metadata
-      roll_period: scrapedData.metadata.roll_period || null,
-      data_date: scrapedData.metadata.data_date || null,
-    };
-
-    // Insert into database
-    const { data: inserted, error: insertError } = await supabase
-      .from("montreal_evaluation_details")
-      .insert(insertData)
-      .select()
-      .single();
-
-    if (insertError) {
-      console.error("Database insert error:", insertError);
+    // Transform scraped data to database format and save it, snapshotting any changes
+    let saved;
+    try {
+      saved = await saveEvaluation(buildEvaluationInsert(scrapedData), supabase);
+    } catch (saveError) {
+      console.error("Database save error:", saveError);
       return NextResponse.json(
-        { error: "Failed to save data to database", details: insertError.message },
+        {
+          error: "Failed to save data to database",
+          details: saveError instanceof Error ? saveError.message : "Unknown error"
+        },
         { status: 500 }
       );
     }
 
     return NextResponse.json({
-      data: inserted,
+      data: saved.data,
       fromCache: false,
-      message: "Successfully scraped and saved data",
+      status: saved.status,
+      changes: saved.changes,
+      message: saved.status === "changed"
+        ? `Data changed since the last scrape (${saved.changes.length} fields)`
+        : saved.status === "unchanged"
+          ? "No changes since the last scrape"
+          : "Successfully scraped and saved data",
       searchMethod: scrapedData.searchMethod,
       hadMultipleResults: scrapedData.multipleResultsInfo?.hasMultiple || false,
     });
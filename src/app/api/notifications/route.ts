@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+const DEFAULT_LIMIT = 100;
+
+/**
+ * GET /api/notifications - Notifications feed, newest first
+ *
+ * Query params:
+ * - unread: "true" for unread notifications only
+ * - limit: Max notifications returned (default 100; 0 for the unread count only)
+ */
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient();
+    const { searchParams } = new URL(request.url);
+    const unreadOnly = searchParams.get("unread") === "true";
+    const limit = parseInt(searchParams.get("limit") ?? "");
+
+    const { count: unreadCount, error: countError } = await supabase
+      .from("notifications")
+      .select("*", { count: "exact", head: true })
+      .is("read_at", null);
+
+    if (countError) {
+      console.error("Error counting notifications:", countError);
+      return NextResponse.json({ error: countError.message }, { status: 500 });
+    }
+
+    if (limit === 0) {
+      return NextResponse.json({ data: [], unreadCount: unreadCount || 0 });
+    }
+
+    let query = supabase
+      .from("notifications")
+      .select("*, saved_searches(name)")
+      .order("created_at", { ascending: false })
+      .limit(isNaN(limit) ? DEFAULT_LIMIT : limit);
+
+    if (unreadOnly) {
+      query = query.is("read_at", null);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching notifications:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data, unreadCount: unreadCount || 0 });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notifications" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/notifications - Mark notifications as read
+ *
+ * Body:
+ * - ids: Notification ids to mark (all unread notifications when omitted)
+ */
+export async function PATCH(request: Request) {
+  try {
+    const supabase = await createClient();
+    const body = await request.json().catch(() => ({}));
+
+    let query = supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .is("read_at", null);
+
+    if (Array.isArray(body.ids)) {
+      query = query.in("id", body.ids);
+    }
+
+    const { error } = await query;
+
+    if (error) {
+      console.error("Error marking notifications read:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to update notifications" },
+      { status: 500 }
+    );
+  }
+}
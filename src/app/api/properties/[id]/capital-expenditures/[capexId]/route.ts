@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+// DELETE /api/properties/[id]/capital-expenditures/[capexId] - Delete a major work entry
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; capexId: string }> }
+) {
+  try {
+    const { id, capexId } = await params;
+    const supabase = await createClient();
+
+    const { error } = await supabase
+      .from("property_capital_expenditures")
+      .delete()
+      .eq("id", capexId)
+      .eq("property_id", id);
+
+    if (error) {
+      console.error("Error deleting capital expenditure:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete capital expenditure" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import type { CreateCapitalExpenditureInput } from "@/types/rent-increase";
+
+// GET /api/properties/[id]/capital-expenditures - List major work, optionally for one year (?year=)
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const supabase = await createClient();
+
+    let query = supabase
+      .from("property_capital_expenditures")
+      .select("*")
+      .eq("property_id", id)
+      .order("year", { ascending: false })
+      .order("created_at", { ascending: true });
+
+    const year = searchParams.get("year");
+    if (year) {
+      query = query.eq("year", parseInt(year));
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching capital expenditures:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch capital expenditures" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/properties/[id]/capital-expenditures - Record major work on the building or a unit
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const body: CreateCapitalExpenditureInput = await request.json();
+
+    if (!body.year || !body.description?.trim() || body.amount == null) {
+      return NextResponse.json(
+        { error: "Missing required fields: year, description, amount" },
+        { status: 400 }
+      );
+    }
+
+    if (body.amount < 0) {
+      return NextResponse.json(
+        { error: "Amount must be positive" },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("property_capital_expenditures")
+      .insert({
+        property_id: id,
+        unit_id: body.unit_id ?? null,
+        year: body.year,
+        description: body.description.trim(),
+        amount: body.amount,
+        completed_on: body.completed_on ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating capital expenditure:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to create capital expenditure" },
+      { status: 500 }
+    );
+  }
+}
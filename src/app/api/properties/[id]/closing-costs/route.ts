@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { estimateClosingCosts } from "@/lib/finance/closing-costs";
+import type { ClosingCostOptions } from "@/types/closing-costs";
+
+/**
+ * GET /api/properties/[id]/closing-costs
+ *
+ * Estimates welcome tax (droits de mutation) and closing costs for a property.
+ * Montreal brackets apply when the city or the arrondissement from
+ * montreal_evaluation_details is a City of Montreal borough.
+ *
+ * Query params (all optional):
+ * - matricule: evaluation roll matricule used to look up the arrondissement
+ * - price: purchase price override (defaults to properties.price)
+ * - notaryFees, inspectionFees, financingFees: fixed-fee overrides
+ * - financed: "false" for a cash purchase (no appraisal fees)
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const supabase = await createClient();
+
+    const { data: property, error } = await supabase
+      .from("properties")
+      .select("id, price, city, address, units")
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return NextResponse.json(
+          { error: "Property not found" },
+          { status: 404 }
+        );
+      }
+      console.error("Error fetching property:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const priceParam = searchParams.get("price");
+    const price = priceParam ? parseFloat(priceParam) : property.price;
+
+    if (!price) {
+      return NextResponse.json(
+        { error: "Property has no price" },
+        { status: 400 }
+      );
+    }
+
+    // Look up the borough from the evaluation roll, by matricule or by address
+    let arrondissement: string | null = null;
+    const matricule = searchParams.get("matricule");
+
+    if (matricule) {
+      const { data: details } = await supabase
+        .from("montreal_evaluation_details")
+        .select("arrondissement")
+        .eq("matricule", matricule)
+        .maybeSingle();
+      arrondissement = details?.arrondissement ?? null;
+    } else if (property.address) {
+      const { data: details } = await supabase
+        .from("montreal_evaluation_details")
+        .select("arrondissement")
+        .ilike("address", `${property.address}%`)
+        .limit(1);
+      arrondissement = details?.[0]?.arrondissement ?? null;
+    }
+
+    const options: ClosingCostOptions = {};
+    const notaryFees = searchParams.get("notaryFees");
+    const inspectionFees = searchParams.get("inspectionFees");
+    const financingFees = searchParams.get("financingFees");
+    if (notaryFees) options.notaryFees = parseFloat(notaryFees);
+    if (inspectionFees) options.inspectionFees = parseFloat(inspectionFees);
+    if (financingFees) options.financingFees = parseFloat(financingFees);
+
+    const estimate = estimateClosingCosts(
+      {
+        price,
+        city: property.city,
+        arrondissement,
+        units: property.units,
+        financed: searchParams.get("financed") !== "false",
+      },
+      options
+    );
+
+    return NextResponse.json({ data: { ...estimate, arrondissement } });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to estimate closing costs" },
+      { status: 500 }
+    );
+  }
+}
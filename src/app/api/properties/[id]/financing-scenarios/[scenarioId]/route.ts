@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import type { UpdateFinancingScenarioInput } from "@/types/financing";
+
+// PUT /api/properties/[id]/financing-scenarios/[scenarioId] - Update a financing scenario
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string; scenarioId: string }> }
+) {
+  try {
+    const { id, scenarioId } = await params;
+    const supabase = await createClient();
+    const body: Partial<UpdateFinancingScenarioInput> = await request.json();
+
+    // Remove id from body if present (shouldn't update id)
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { id: _bodyId, ...updateData } = body as UpdateFinancingScenarioInput;
+
+    const { data, error } = await supabase
+      .from("financing_scenarios")
+      .update(updateData)
+      .eq("id", scenarioId)
+      .eq("property_id", id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return NextResponse.json(
+          { error: "Financing scenario not found" },
+          { status: 404 }
+        );
+      }
+      console.error("Error updating financing scenario:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to update financing scenario" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/properties/[id]/financing-scenarios/[scenarioId] - Delete a financing scenario
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; scenarioId: string }> }
+) {
+  try {
+    const { id, scenarioId } = await params;
+    const supabase = await createClient();
+
+    const { error } = await supabase
+      .from("financing_scenarios")
+      .delete()
+      .eq("id", scenarioId)
+      .eq("property_id", id);
+
+    if (error) {
+      console.error("Error deleting financing scenario:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete financing scenario" },
+      { status: 500 }
+    );
+  }
+}
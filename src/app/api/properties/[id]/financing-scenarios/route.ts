@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import type { CreateFinancingScenarioInput } from "@/types/financing";
+
+// GET /api/properties/[id]/financing-scenarios - List saved financing scenarios
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("financing_scenarios")
+      .select("*")
+      .eq("property_id", id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching financing scenarios:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch financing scenarios" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/properties/[id]/financing-scenarios - Save a new financing scenario
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const body: CreateFinancingScenarioInput = await request.json();
+
+    if (!body.name || body.down_payment_percent == null || body.interest_rate == null || !body.amortization_years) {
+      return NextResponse.json(
+        { error: "Missing required fields: name, down_payment_percent, interest_rate, amortization_years" },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("financing_scenarios")
+      .insert({
+        property_id: id,
+        name: body.name,
+        purchase_price: body.purchase_price ?? null,
+        down_payment_percent: body.down_payment_percent,
+        interest_rate: body.interest_rate,
+        amortization_years: body.amortization_years,
+        term_years: body.term_years ?? 5,
+        insurance_program: body.insurance_program ?? "conventional",
+        mli_select_points: body.mli_select_points ?? null,
+        closing_costs: body.closing_costs ?? null,
+        notes: body.notes ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating financing scenario:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to create financing scenario" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { analyzePriceHistory, fetchPriceHistory } from "@/lib/listings/price-history";
+
+// GET /api/properties/[id]/price-history - Price timeline, drops, relistings and days on market
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data: property, error } = await supabase
+      .from("properties")
+      .select("id, mls_number, source_url, address, property_type")
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return NextResponse.json(
+          { error: "Property not found" },
+          { status: 404 }
+        );
+      }
+      console.error("Error fetching property:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const observations = await fetchPriceHistory(property, supabase);
+
+    return NextResponse.json({ data: analyzePriceHistory(observations) });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch price history" },
+      { status: 500 }
+    );
+  }
+}
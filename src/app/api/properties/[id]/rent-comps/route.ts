@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { fetchRentComps } from "@/lib/comps/fetch-rent-comps";
+import { parseRentCompsOptions } from "@/lib/comps/rent-comps";
+import { parseUnitMix, scheduleToUnitMix } from "@/lib/parsers/unit-mix-parser";
+
+/**
+ * GET /api/properties/[id]/rent-comps
+ *
+ * Estimates market rent per unit type for a saved property from nearby
+ * listings in the rentals table, and compares the resulting gross potential
+ * revenue with the listing's advertised potential_revenue.
+ *
+ * Query params (all optional):
+ * - unitMix: overrides properties.unit_schedule / unit_details (e.g., "2 x 4½, 1 x 5½")
+ * - radiusKm, monthsBack, sqftTolerancePercent, minComparables
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const supabase = await createClient();
+
+    const { data: property, error } = await supabase
+      .from("properties")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return NextResponse.json(
+          { error: "Property not found" },
+          { status: 404 }
+        );
+      }
+      console.error("Error fetching property:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    if (property.latitude == null || property.longitude == null) {
+      return NextResponse.json(
+        { error: "Property has no coordinates" },
+        { status: 400 }
+      );
+    }
+
+    // Prefer an explicit unit mix, then the structured schedule, then the raw string
+    const unitMixParam = searchParams.get("unitMix");
+    const unitMix = unitMixParam
+      ? parseUnitMix(unitMixParam)
+      : property.unit_schedule?.length
+        ? scheduleToUnitMix(property.unit_schedule)
+        : parseUnitMix(property.unit_details);
+    const unitSqft = property.sqft && property.units ? property.sqft / property.units : null;
+
+    const result = await fetchRentComps(
+      {
+        latitude: property.latitude,
+        longitude: property.longitude,
+        unitMix,
+        unitSqft,
+        advertisedPotentialRevenue: property.potential_revenue,
+      },
+      parseRentCompsOptions(searchParams),
+      supabase
+    );
+
+    return NextResponse.json({ data: result });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to compute rent comps" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  buildRentIncreaseExpenses,
+  computeRentIncreases,
+} from "@/lib/finance/rent-increase";
+import type { HeatingFuel, RentIncreaseExpenses } from "@/types/rent-increase";
+
+const HEATING_FUELS: HeatingFuel[] = ["oil", "gas", "electricity"];
+
+/**
+ * GET /api/properties/[id]/rent-increase
+ *
+ * Computes the allowable rent increase of each leased unit with the TAL method,
+ * using the property's taxes and energy expenses, the stored parameters of the
+ * year and the major work recorded for that year.
+ *
+ * Query params:
+ * - year: renewal year (required, must have stored TAL parameters)
+ * - previousTaxesMunicipal, previousTaxesSchool: last year's taxes (default: no variation)
+ * - insurance, previousInsurance: annual insurance premiums
+ * - taxesMunicipal, taxesSchool, heating, electricity: overrides of the property's values
+ * - heatingFuel: "oil" (default), "gas" or "electricity"
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const supabase = await createClient();
+
+    const year = parseInt(searchParams.get("year") || "");
+    if (!year) {
+      return NextResponse.json(
+        { error: "Missing required param: year" },
+        { status: 400 }
+      );
+    }
+
+    const { data: property, error } = await supabase
+      .from("properties")
+      .select("id, taxes_municipal, taxes_school, expense_heating, expense_electricity")
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return NextResponse.json(
+          { error: "Property not found" },
+          { status: 404 }
+        );
+      }
+      console.error("Error fetching property:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const { data: parameters, error: parametersError } = await supabase
+      .from("tal_parameters")
+      .select("*")
+      .eq("year", year)
+      .maybeSingle();
+
+    if (parametersError) {
+      console.error("Error fetching TAL parameters:", parametersError);
+      return NextResponse.json({ error: parametersError.message }, { status: 500 });
+    }
+
+    if (!parameters) {
+      return NextResponse.json(
+        { error: `No TAL parameters stored for ${year}` },
+        { status: 404 }
+      );
+    }
+
+    const [unitsResult, capexResult] = await Promise.all([
+      supabase
+        .from("property_units")
+        .select("*, leases(*)")
+        .eq("property_id", id),
+      supabase
+        .from("property_capital_expenditures")
+        .select("*")
+        .eq("property_id", id)
+        .eq("year", year),
+    ]);
+
+    if (unitsResult.error) {
+      console.error("Error fetching units:", unitsResult.error);
+      return NextResponse.json({ error: unitsResult.error.message }, { status: 500 });
+    }
+
+    if (capexResult.error) {
+      console.error("Error fetching capital expenditures:", capexResult.error);
+      return NextResponse.json({ error: capexResult.error.message }, { status: 500 });
+    }
+
+    const overrides: Partial<RentIncreaseExpenses> = {};
+    const numericParams = [
+      "taxesMunicipal",
+      "previousTaxesMunicipal",
+      "taxesSchool",
+      "previousTaxesSchool",
+      "insurance",
+      "previousInsurance",
+      "heating",
+      "electricity",
+    ] as const;
+
+    for (const key of numericParams) {
+      const value = searchParams.get(key);
+      if (value) overrides[key] = parseFloat(value);
+    }
+
+    const heatingFuel = searchParams.get("heatingFuel") as HeatingFuel | null;
+    if (heatingFuel && HEATING_FUELS.includes(heatingFuel)) {
+      overrides.heatingFuel = heatingFuel;
+    }
+
+    const result = computeRentIncreases(
+      unitsResult.data || [],
+      parameters,
+      buildRentIncreaseExpenses(property, overrides),
+      capexResult.data || []
+    );
+
+    return NextResponse.json({ data: result });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to compute rent increases" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getScraperForUrl } from "@/lib/scrapers";
+import {
+  analyzePriceHistory,
+  fetchPriceHistory,
+  recordListingObservation,
+} from "@/lib/listings/price-history";
+
+// POST /api/properties/[id]/rescrape - Scrape the listing again, record the price and update the property
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data: property, error } = await supabase
+      .from("properties")
+      .select("id, source_url, mls_number, address, price, property_type")
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return NextResponse.json(
+          { error: "Property not found" },
+          { status: 404 }
+        );
+      }
+      console.error("Error fetching property:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    if (!property.source_url) {
+      return NextResponse.json(
+        { error: "Property has no source URL to scrape" },
+        { status: 400 }
+      );
+    }
+
+    let scraped;
+    try {
+      scraped = await getScraperForUrl(property.source_url).scrape(property.source_url);
+    } catch (scrapeError) {
+      console.error("Scrape error:", scrapeError);
+      return NextResponse.json(
+        {
+          error:
+            scrapeError instanceof Error ? scrapeError.message : "Failed to scrape property",
+          suggestion: "The listing may have been removed or relisted under a new URL",
+        },
+        { status: 422 }
+      );
+    }
+
+    await recordListingObservation(scraped, id, supabase);
+
+    const updates: Record<string, unknown> = {};
+    if (scraped.price != null && scraped.price !== property.price) updates.price = scraped.price;
+    if (scraped.mls_number && scraped.mls_number !== property.mls_number) {
+      updates.mls_number = scraped.mls_number;
+    }
+
+    let updated = property;
+    if (Object.keys(updates).length > 0) {
+      const { data, error: updateError } = await supabase
+        .from("properties")
+        .update(updates)
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (updateError) {
+        console.error("Error updating property:", updateError);
+        return NextResponse.json({ error: updateError.message }, { status: 500 });
+      }
+      updated = data;
+    }
+
+    const observations = await fetchPriceHistory(updated, supabase);
+
+    return NextResponse.json({
+      data: {
+        property: updated,
+        priceHistory: analyzePriceHistory(observations),
+      },
+    });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to re-scrape property" },
+      { status: 500 }
+    );
+  }
+}
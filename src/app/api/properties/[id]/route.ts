@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
-import type { UpdatePropertyInput } from "@/types/property";
+import { rebuildUnitSchedule } from "@/lib/parsers/unit-mix-parser";
+import type { Property, UpdatePropertyInput } from "@/types/property";
 
 // GET /api/properties/[id] - Get a single property
 export async function GET(
@@ -52,6 +53,30 @@ export async function PUT(
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     const { id: _bodyId, ...updateData } = body as UpdatePropertyInput;
 
+    // A changed unit mix is parsed again unless the schedule is sent along with it
+    if (updateData.unit_details !== undefined && updateData.unit_schedule === undefined) {
+      const { data: current, error: currentError } = await supabase
+        .from("properties")
+        .select("unit_details, unit_schedule")
+        .eq("id", id)
+        .single<Pick<Property, "unit_details" | "unit_schedule">>();
+
+      if (currentError) {
+        if (currentError.code === "PGRST116") {
+          return NextResponse.json(
+            { error: "Property not found" },
+            { status: 404 }
+          );
+        }
+        console.error("Error fetching property:", currentError);
+        return NextResponse.json({ error: currentError.message }, { status: 500 });
+      }
+
+      if (current.unit_details !== updateData.unit_details) {
+        updateData.unit_schedule = rebuildUnitSchedule(updateData.unit_details, current.unit_schedule);
+      }
+    }
+
     const { data, error } = await supabase
       .from("properties")
       .update(updateData)
@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { isDealStage } from "@/lib/pipeline/deal-pipeline";
+import type { ChangeDealStageInput } from "@/types/deal-pipeline";
+
+// GET /api/properties/[id]/stage - Stage change history, most recent first
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("deal_stage_history")
+      .select("*")
+      .eq("property_id", id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching stage history:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch stage history" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/properties/[id]/stage - Move a property to another stage and record the change
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const body: ChangeDealStageInput = await request.json();
+
+    if (!isDealStage(body.stage)) {
+      return NextResponse.json(
+        { error: "Invalid stage" },
+        { status: 400 }
+      );
+    }
+
+    const { data: current, error: fetchError } = await supabase
+      .from("properties")
+      .select("deal_stage")
+      .eq("id", id)
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === "PGRST116") {
+        return NextResponse.json(
+          { error: "Property not found" },
+          { status: 404 }
+        );
+      }
+      console.error("Error fetching property:", fetchError);
+      return NextResponse.json({ error: fetchError.message }, { status: 500 });
+    }
+
+    if (current.deal_stage === body.stage) {
+      return NextResponse.json(
+        { error: "Property is already in this stage" },
+        { status: 400 }
+      );
+    }
+
+    const changedAt = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from("properties")
+      .update({ deal_stage: body.stage, deal_stage_changed_at: changedAt })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error updating stage:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const { error: historyError } = await supabase.from("deal_stage_history").insert({
+      property_id: id,
+      from_stage: current.deal_stage,
+      to_stage: body.stage,
+      note: body.note?.trim() || null,
+      created_at: changedAt,
+    });
+
+    if (historyError) {
+      console.error("Error recording stage history:", historyError);
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to change stage" },
+      { status: 500 }
+    );
+  }
+}
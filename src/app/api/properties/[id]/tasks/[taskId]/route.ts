@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import type { UpdateDealTaskInput } from "@/types/deal-pipeline";
+
+// PUT /api/properties/[id]/tasks/[taskId] - Update a task or mark it done
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string; taskId: string }> }
+) {
+  try {
+    const { id, taskId } = await params;
+    const supabase = await createClient();
+    const body: UpdateDealTaskInput = await request.json();
+
+    const updateData: Record<string, unknown> = {};
+    if (body.title !== undefined) updateData.title = body.title.trim();
+    if (body.due_date !== undefined) updateData.due_date = body.due_date || null;
+    if (body.notes !== undefined) updateData.notes = body.notes;
+    if (body.completed !== undefined) {
+      updateData.completed_at = body.completed ? new Date().toISOString() : null;
+    }
+
+    const { data, error } = await supabase
+      .from("deal_tasks")
+      .update(updateData)
+      .eq("id", taskId)
+      .eq("property_id", id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return NextResponse.json(
+          { error: "Task not found" },
+          { status: 404 }
+        );
+      }
+      console.error("Error updating task:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to update task" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/properties/[id]/tasks/[taskId] - Delete a task
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; taskId: string }> }
+) {
+  try {
+    const { id, taskId } = await params;
+    const supabase = await createClient();
+
+    const { error } = await supabase
+      .from("deal_tasks")
+      .delete()
+      .eq("id", taskId)
+      .eq("property_id", id);
+
+    if (error) {
+      console.error("Error deleting task:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete task" },
+      { status: 500 }
+    );
+  }
+}
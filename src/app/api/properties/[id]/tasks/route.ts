@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import type { CreateDealTaskInput } from "@/types/deal-pipeline";
+
+// GET /api/properties/[id]/tasks - List the tasks of a deal
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("deal_tasks")
+      .select("*")
+      .eq("property_id", id)
+      .order("due_date", { ascending: true, nullsFirst: false })
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching tasks:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch tasks" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/properties/[id]/tasks - Add a task to a deal
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const body: CreateDealTaskInput = await request.json();
+
+    if (!body.title?.trim()) {
+      return NextResponse.json(
+        { error: "Title is required" },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("deal_tasks")
+      .insert({
+        property_id: id,
+        title: body.title.trim(),
+        due_date: body.due_date || null,
+        notes: body.notes ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating task:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to create task" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import type { CreateLeaseInput } from "@/types/rent-roll";
+
+// PUT /api/properties/[id]/units/[unitId]/leases/[leaseId] - Update a lease
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string; unitId: string; leaseId: string }> }
+) {
+  try {
+    const { id, unitId, leaseId } = await params;
+    const supabase = await createClient();
+    const body: Partial<CreateLeaseInput> = await request.json();
+
+    const { data, error } = await supabase
+      .from("leases")
+      .update(body)
+      .eq("id", leaseId)
+      .eq("unit_id", unitId)
+      .eq("property_id", id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return NextResponse.json(
+          { error: "Lease not found" },
+          { status: 404 }
+        );
+      }
+      console.error("Error updating lease:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to update lease" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/properties/[id]/units/[unitId]/leases/[leaseId] - Delete a lease
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; unitId: string; leaseId: string }> }
+) {
+  try {
+    const { id, unitId, leaseId } = await params;
+    const supabase = await createClient();
+
+    const { error } = await supabase
+      .from("leases")
+      .delete()
+      .eq("id", leaseId)
+      .eq("unit_id", unitId)
+      .eq("property_id", id);
+
+    if (error) {
+      console.error("Error deleting lease:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete lease" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import type { CreateLeaseInput } from "@/types/rent-roll";
+
+// POST /api/properties/[id]/units/[unitId]/leases - Add a lease to a unit
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; unitId: string }> }
+) {
+  try {
+    const { id, unitId } = await params;
+    const supabase = await createClient();
+    const body: CreateLeaseInput = await request.json();
+
+    if (!body.tenant_name?.trim() || body.monthly_rent == null || !body.lease_start) {
+      return NextResponse.json(
+        { error: "Missing required fields: tenant_name, monthly_rent, lease_start" },
+        { status: 400 }
+      );
+    }
+
+    if (body.lease_end && body.lease_end < body.lease_start) {
+      return NextResponse.json(
+        { error: "Lease end must be after lease start" },
+        { status: 400 }
+      );
+    }
+
+    const { error: unitError } = await supabase
+      .from("property_units")
+      .select("id")
+      .eq("id", unitId)
+      .eq("property_id", id)
+      .single();
+
+    if (unitError) {
+      if (unitError.code === "PGRST116") {
+        return NextResponse.json(
+          { error: "Unit not found" },
+          { status: 404 }
+        );
+      }
+      console.error("Error fetching unit:", unitError);
+      return NextResponse.json({ error: unitError.message }, { status: 500 });
+    }
+
+    const { data, error } = await supabase
+      .from("leases")
+      .insert({
+        unit_id: unitId,
+        property_id: id,
+        tenant_name: body.tenant_name.trim(),
+        tenant_email: body.tenant_email ?? null,
+        tenant_phone: body.tenant_phone ?? null,
+        monthly_rent: body.monthly_rent,
+        lease_start: body.lease_start,
+        lease_end: body.lease_end ?? null,
+        includes_heating: body.includes_heating ?? false,
+        includes_electricity: body.includes_electricity ?? false,
+        last_increase_date: body.last_increase_date ?? null,
+        last_increase_percent: body.last_increase_percent ?? null,
+        notes: body.notes ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating lease:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to create lease" },
+      { status: 500 }
+    );
+  }
+}
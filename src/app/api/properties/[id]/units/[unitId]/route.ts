@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import type { CreatePropertyUnitInput } from "@/types/rent-roll";
+
+// PUT /api/properties/[id]/units/[unitId] - Update a unit
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string; unitId: string }> }
+) {
+  try {
+    const { id, unitId } = await params;
+    const supabase = await createClient();
+    const body: Partial<CreatePropertyUnitInput> = await request.json();
+
+    const { data, error } = await supabase
+      .from("property_units")
+      .update(body)
+      .eq("id", unitId)
+      .eq("property_id", id)
+      .select("*, leases(*)")
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return NextResponse.json(
+          { error: "Unit not found" },
+          { status: 404 }
+        );
+      }
+      console.error("Error updating unit:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to update unit" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/properties/[id]/units/[unitId] - Delete a unit and its leases
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; unitId: string }> }
+) {
+  try {
+    const { id, unitId } = await params;
+    const supabase = await createClient();
+
+    const { error } = await supabase
+      .from("property_units")
+      .delete()
+      .eq("id", unitId)
+      .eq("property_id", id);
+
+    if (error) {
+      console.error("Error deleting unit:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete unit" },
+      { status: 500 }
+    );
+  }
+}
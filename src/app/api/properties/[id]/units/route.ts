@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import type { CreatePropertyUnitInput } from "@/types/rent-roll";
+
+// GET /api/properties/[id]/units - List units with their leases
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("property_units")
+      .select("*, leases(*)")
+      .eq("property_id", id)
+      .order("unit_number", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching units:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch units" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/properties/[id]/units - Add a unit to the rent roll
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const body: CreatePropertyUnitInput = await request.json();
+
+    if (!body.unit_number?.trim()) {
+      return NextResponse.json(
+        { error: "Unit number is required" },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("property_units")
+      .insert({
+        property_id: id,
+        unit_number: body.unit_number.trim(),
+        rooms: body.rooms ?? null,
+        bedrooms: body.bedrooms ?? null,
+        square_footage: body.square_footage ?? null,
+        market_rent: body.market_rent ?? null,
+        notes: body.notes ?? null,
+      })
+      .select("*, leases(*)")
+      .single();
+
+    if (error) {
+      if (error.code === "23505") {
+        return NextResponse.json(
+          { error: "A unit with this number already exists" },
+          { status: 409 }
+        );
+      }
+      console.error("Error creating unit:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to create unit" },
+      { status: 500 }
+    );
+  }
+}
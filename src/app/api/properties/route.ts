@@ -1,5 +1,8 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { buildUnitSchedule } from "@/lib/parsers/unit-mix-parser";
+import { isDealStage } from "@/lib/pipeline/deal-pipeline";
+import { linkObservationsToProperty } from "@/lib/listings/price-history";
 import type { CreatePropertyInput } from "@/types/property";
 
 // GET /api/properties - List all properties with optional filters
@@ -19,6 +22,7 @@ export async function GET(request: Request) {
     const maxPrice = searchParams.get("maxPrice");
     const bedrooms = searchParams.get("bedrooms");
     const propertyType = searchParams.get("propertyType");
+    const stage = searchParams.get("stage");
     const search = searchParams.get("search");
 
     if (city) {
@@ -36,6 +40,9 @@ export async function GET(request: Request) {
     if (propertyType) {
       query = query.eq("property_type", propertyType);
     }
+    if (isDealStage(stage)) {
+      query = query.eq("deal_stage", stage);
+    }
     if (search) {
       query = query.or(
         `title.ilike.%${search}%,address.ilike.%${search}%,description.ilike.%${search}%`
@@ -90,6 +97,7 @@ export async function POST(request: Request) {
         property_type: body.property_type ?? null,
         units: body.units ?? null,
         unit_details: body.unit_details ?? null,
+        unit_schedule: body.unit_schedule ?? buildUnitSchedule(body.unit_details),
         mls_number: body.mls_number ?? null,
         description: body.description ?? null,
         features: body.features ?? [],
@@ -116,6 +124,8 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
+    await linkObservationsToProperty(data, supabase);
+
     return NextResponse.json({ data }, { status: 201 });
   } catch (error) {
     console.error("Unexpected error:", error);
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { fetchRentComps } from "@/lib/comps/fetch-rent-comps";
+import { parseRentCompsOptions } from "@/lib/comps/rent-comps";
+import { parseUnitMix } from "@/lib/parsers/unit-mix-parser";
+
+/**
+ * GET /api/property-evaluations/[id]/rent-comps
+ *
+ * Estimates market rent for an evaluation roll building. The roll only knows
+ * the number of units, so the unit mix must be passed explicitly.
+ *
+ * Query params:
+ * - unitMix (required): e.g., "2 x 4½, 1 x 5½"
+ * - potentialRevenue: advertised annual revenue to compare against
+ * - radiusKm, monthsBack, sqftTolerancePercent, minComparables
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const supabase = await createClient();
+
+    const unitMix = parseUnitMix(searchParams.get("unitMix"));
+    if (unitMix.length === 0) {
+      return NextResponse.json(
+        { error: "unitMix is required (e.g., \"2 x 4½, 1 x 5½\")" },
+        { status: 400 }
+      );
+    }
+
+    const { data: evaluation, error } = await supabase
+      .from("property_evaluations")
+      .select("*")
+      .eq("id_uev", parseInt(id))
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return NextResponse.json(
+          { error: "Property evaluation not found" },
+          { status: 404 }
+        );
+      }
+      console.error("Error fetching property evaluation:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    if (evaluation.latitude == null || evaluation.longitude == null) {
+      return NextResponse.json(
+        { error: "Property evaluation has no coordinates" },
+        { status: 400 }
+      );
+    }
+
+    const potentialRevenue = searchParams.get("potentialRevenue");
+
+    const result = await fetchRentComps(
+      {
+        latitude: evaluation.latitude,
+        longitude: evaluation.longitude,
+        unitMix,
+        unitSqft: null,
+        advertisedPotentialRevenue: potentialRevenue ? parseFloat(potentialRevenue) : null,
+      },
+      parseRentCompsOptions(searchParams),
+      supabase
+    );
+
+    return NextResponse.json({ data: result });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to compute rent comps" },
+      { status: 500 }
+    );
+  }
+}
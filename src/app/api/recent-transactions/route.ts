@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { fetchRecentTransactions, summarizeTransactions } from "@/lib/evaluations/recent-transactions";
+import type { RecentTransactionFilters } from "@/types/recent-transaction";
+
+const DEFAULT_DAYS = 90;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET /api/recent-transactions - Buildings whose owner registered in a date range, with estimated prices
+// Params: from / to (YYYY-MM-DD) or days (before today, default 90), zone, arrondissement, minUnits, maxUnits
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient();
+    const { searchParams } = new URL(request.url);
+
+    const days = Number(searchParams.get("days") || DEFAULT_DAYS);
+    if (!Number.isInteger(days) || days < 1) {
+      return NextResponse.json(
+        { error: "days must be a positive whole number" },
+        { status: 400 }
+      );
+    }
+
+    const from = searchParams.get("from")
+      || new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const to = searchParams.get("to") || undefined;
+
+    if (!DATE_PATTERN.test(from) || (to && !DATE_PATTERN.test(to))) {
+      return NextResponse.json(
+        { error: "Dates must be formatted YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+
+    const filters: RecentTransactionFilters = { from, to };
+
+    const arrondissement = searchParams.get("arrondissement");
+    if (arrondissement) filters.arrondissement = arrondissement;
+
+    const minUnits = searchParams.get("minUnits");
+    if (minUnits) filters.minUnits = parseInt(minUnits);
+
+    const maxUnits = searchParams.get("maxUnits");
+    if (maxUnits) filters.maxUnits = parseInt(maxUnits);
+
+    if (Number.isNaN(filters.minUnits) || Number.isNaN(filters.maxUnits)) {
+      return NextResponse.json(
+        { error: "minUnits and maxUnits must be numbers" },
+        { status: 400 }
+      );
+    }
+
+    let zone = null;
+    const zoneId = searchParams.get("zone");
+    if (zoneId) {
+      const { data, error: zoneError } = await supabase
+        .from("scraping_zones")
+        .select("min_lat, max_lat, min_lng, max_lng, geometry")
+        .eq("id", zoneId)
+        .single();
+
+      if (zoneError) {
+        return NextResponse.json(
+          { error: "Zone not found" },
+          { status: 404 }
+        );
+      }
+      zone = data;
+    }
+
+    const { transactions, truncated } = await fetchRecentTransactions(filters, zone, supabase);
+
+    return NextResponse.json({
+      data: transactions,
+      summary: summarizeTransactions(transactions),
+      truncated,
+    });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch recent transactions" },
+      { status: 500 }
+    );
+  }
+}
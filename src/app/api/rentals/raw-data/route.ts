@@ -7,7 +7,7 @@ import { createServiceRoleClient } from '@/lib/supabase/server';
  *
  * Query params:
  * - path: Storage path (e.g., "2026/01/123456789.json")
- * - bucket: Bucket name (e.g., "facebook-raw-rentals" or "centris-raw")
+ * - bucket: Bucket name (e.g., "facebook-raw-rentals", "kijiji-raw-rentals" or "centris-raw")
  */
 export async function GET(request: Request) {
   try {
@@ -30,7 +30,7 @@ export async function GET(request: Request) {
     }
 
     // Validate bucket name (security check)
-    const allowedBuckets = ['facebook-raw-rentals', 'centris-raw'];
+    const allowedBuckets = ['facebook-raw-rentals', 'kijiji-raw-rentals', 'centris-raw'];
     if (!allowedBuckets.includes(bucket)) {
       return NextResponse.json(
         { error: 'Invalid bucket name' },
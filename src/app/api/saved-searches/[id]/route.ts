@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { CentrisSearchCrawler } from "@/lib/scrapers";
+import { normalizeSavedSearchInput } from "@/lib/listings/saved-searches";
+
+// PATCH /api/saved-searches/[id] - Update a saved search
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const input = normalizeSavedSearchInput(await request.json());
+
+    if (input.search_url !== undefined && !new CentrisSearchCrawler().isSearchUrl(input.search_url)) {
+      return NextResponse.json(
+        { error: "search_url must be a Centris search results URL" },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .update(input)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return NextResponse.json({ error: "Saved search not found" }, { status: 404 });
+      }
+      console.error("Error updating saved search:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to update saved search" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/saved-searches/[id] - Delete a saved search (its notifications are kept)
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { error } = await supabase
+      .from("saved_searches")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      console.error("Error deleting saved search:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete saved search" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { runSavedSearch } from "@/lib/listings/saved-searches";
+
+// POST /api/saved-searches/[id]/run - Run a saved search now, regardless of its schedule
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data: search, error } = await supabase
+      .from("saved_searches")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return NextResponse.json({ error: "Saved search not found" }, { status: 404 });
+      }
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const run = await runSavedSearch(search, supabase);
+
+    return NextResponse.json({ data: run });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to run saved search" },
+      { status: 500 }
+    );
+  }
+}
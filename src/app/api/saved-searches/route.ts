@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { CentrisSearchCrawler } from "@/lib/scrapers";
+import { normalizeSavedSearchInput } from "@/lib/listings/saved-searches";
+import type { SavedSearchRun, SavedSearchWithLastRun } from "@/types/saved-search";
+
+// GET /api/saved-searches - List saved searches with their most recent run
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .select("*, saved_search_runs(*)")
+      .order("created_at", { ascending: false })
+      .order("started_at", { referencedTable: "saved_search_runs", ascending: false })
+      .limit(1, { referencedTable: "saved_search_runs" });
+
+    if (error) {
+      console.error("Error fetching saved searches:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const searches: SavedSearchWithLastRun[] = (data || []).map(
+      ({ saved_search_runs, ...search }: { saved_search_runs: SavedSearchRun[] } & Record<string, unknown>) => ({
+        ...(search as unknown as SavedSearchWithLastRun),
+        last_run: saved_search_runs?.[0] ?? null,
+      })
+    );
+
+    return NextResponse.json({ data: searches });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch saved searches" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/saved-searches - Save a search
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient();
+    const input = normalizeSavedSearchInput(await request.json());
+
+    if (!input.name || !input.search_url) {
+      return NextResponse.json(
+        { error: "Missing required fields: name, search_url" },
+        { status: 400 }
+      );
+    }
+
+    if (!new CentrisSearchCrawler().isSearchUrl(input.search_url)) {
+      return NextResponse.json(
+        { error: "search_url must be a Centris search results URL" },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .insert({ ...input, source_name: "centris" })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating saved search:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to create saved search" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { runDueSavedSearches } from "@/lib/listings/saved-searches";
+
+/**
+ * GET /api/saved-searches/run-due - Run every saved search whose interval has elapsed
+ *
+ * Meant to be called by cron, e.g. every hour:
+ *   curl -H "Authorization: Bearer $CRON_SECRET" https://<host>/api/saved-searches/run-due
+ *
+ * When CRON_SECRET is set, requests without it are rejected.
+ */
+export async function GET(request: Request) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (secret && request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const results = await runDueSavedSearches();
+
+    return NextResponse.json({
+      data: results.map(({ search, run }) => ({ id: search.id, name: search.name, run })),
+    });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to run saved searches" },
+      { status: 500 }
+    );
+  }
+}
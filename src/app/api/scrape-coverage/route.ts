@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { buildCoverageReport } from "@/lib/listings/field-coverage";
+import { fetchScrapeCoverage } from "@/lib/listings/scrape-coverage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DAYS = 60;
+const DEFAULT_RECENT_DAYS = 7;
+
+/**
+ * GET /api/scrape-coverage - Field coverage per source and scraper version
+ *
+ * Query params:
+ * - days: How far back to look (default 60)
+ * - recentDays: Window compared against the rest for fill rate drop alerts (default 7)
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const days = Math.max(parseInt(searchParams.get("days") ?? "") || DEFAULT_DAYS, 1);
+    const recentDays = Math.max(parseInt(searchParams.get("recentDays") ?? "") || DEFAULT_RECENT_DAYS, 1);
+
+    const since = new Date(Date.now() - days * DAY_MS);
+    const rows = await fetchScrapeCoverage(since);
+
+    return NextResponse.json({ data: buildCoverageReport(rows, since, recentDays) });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch scrape coverage" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { httpClient } from "@/lib/http/http-client";
+
+// GET /api/scrape/metrics - Scraper fetch metrics per host (requests, retries, blocked and 429 responses)
+export async function GET() {
+  return NextResponse.json({ data: httpClient.getMetrics() });
+}
+
+// DELETE /api/scrape/metrics - Reset the fetch metrics
+export async function DELETE() {
+  httpClient.resetMetrics();
+  return NextResponse.json({ success: true });
+}
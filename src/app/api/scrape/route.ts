@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { getScraperForUrl } from "@/lib/scrapers";
 import { isValidUrl } from "@/lib/utils/url-detector";
+import { recordListingObservation } from "@/lib/listings/price-history";
+import { recordScrapeCoverage } from "@/lib/listings/scrape-coverage";
 
 export async function POST(request: Request) {
   try {
@@ -22,6 +24,15 @@ export async function POST(request: Request) {
 
     try {
       const property = await scraper.scrape(url);
+
+      // Every scrape is a price observation and a coverage sample; a failure must not block the preview
+      try {
+        await recordListingObservation(property);
+        await recordScrapeCoverage(property);
+      } catch (recordError) {
+        console.error("Error recording listing observation:", recordError);
+      }
+
       return NextResponse.json({ data: property });
     } catch (scrapeError) {
       console.error("Scrape error:", scrapeError);
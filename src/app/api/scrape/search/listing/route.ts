@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { CentrisScraper } from "@/lib/scrapers";
+import { recordListingObservation } from "@/lib/listings/price-history";
+import { recordScrapeCoverage } from "@/lib/listings/scrape-coverage";
+import { classifyListings, fetchPropertiesByMlsNumber } from "@/lib/listings/search-import";
+
+/**
+ * POST /api/scrape/search/listing - Scrape one listing of a crawled search
+ *
+ * Body:
+ * - url: Centris listing URL returned by /api/scrape/search
+ *
+ * Classifies the listing against saved properties by MLS number. Nothing is
+ * saved; the client imports the listings it keeps.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { url } = body;
+    const scraper = new CentrisScraper();
+
+    if (!url || typeof url !== "string" || !scraper.canHandle(url)) {
+      return NextResponse.json(
+        { error: "A Centris listing URL is required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+
+    let listing;
+    try {
+      listing = await scraper.scrape(url);
+    } catch (scrapeError) {
+      console.error("Scrape error:", scrapeError);
+      return NextResponse.json(
+        { error: scrapeError instanceof Error ? scrapeError.message : "Failed to scrape listing" },
+        { status: 422 }
+      );
+    }
+
+    // Every scrape is a price observation and a coverage sample; a failure must not block the preview
+    try {
+      await recordListingObservation(listing, null, supabase);
+      await recordScrapeCoverage(listing, supabase);
+    } catch (recordError) {
+      console.error("Error recording listing observation:", recordError);
+    }
+
+    const existing = await fetchPropertiesByMlsNumber(
+      listing.mls_number ? [listing.mls_number] : [],
+      supabase
+    );
+    const [data] = classifyListings([listing], existing);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to process listing" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { CentrisSearchCrawler } from "@/lib/scrapers";
+import type { SearchCrawlResult } from "@/types/search-import";
+
+const DEFAULT_MAX_LISTINGS = 50;
+const MAX_LISTINGS_LIMIT = 100; // Each listing is a separate, rate-limited scrape
+
+/**
+ * POST /api/scrape/search - Crawl a Centris search results URL
+ *
+ * Body:
+ * - url: Centris search results URL
+ * - maxListings: Stop after this many listings (default 50, at most 100)
+ *
+ * Only collects the listing URLs; the client scrapes them one at a time
+ * through /api/scrape/search/listing so no request runs for minutes.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { url } = body;
+    const maxListings = Math.min(
+      Math.max(parseInt(body.maxListings) || DEFAULT_MAX_LISTINGS, 1),
+      MAX_LISTINGS_LIMIT
+    );
+
+    const crawler = new CentrisSearchCrawler();
+
+    if (!url || typeof url !== "string" || !crawler.isSearchUrl(url)) {
+      return NextResponse.json(
+        { error: "A Centris search results URL is required" },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const { listingUrls, totalResults } = await crawler.crawl(url, maxListings);
+      const data: SearchCrawlResult = { searchUrl: url, totalResults, listingUrls };
+
+      return NextResponse.json({ data });
+    } catch (crawlError) {
+      console.error("Search crawl error:", crawlError);
+      return NextResponse.json(
+        { error: crawlError instanceof Error ? crawlError.message : "Failed to crawl search results" },
+        { status: 422 }
+      );
+    }
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to process search" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+// DELETE /api/tal-parameters/[year] - Delete the parameters of a year
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ year: string }> }
+) {
+  try {
+    const { year } = await params;
+    const supabase = await createClient();
+
+    const { error } = await supabase
+      .from("tal_parameters")
+      .delete()
+      .eq("year", parseInt(year));
+
+    if (error) {
+      console.error("Error deleting TAL parameters:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete TAL parameters" },
+      { status: 500 }
+    );
+  }
+}
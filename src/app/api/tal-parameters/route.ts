@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import type { CreateTalParametersInput } from "@/types/rent-increase";
+
+// GET /api/tal-parameters - List yearly TAL parameters, most recent first
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("tal_parameters")
+      .select("*")
+      .order("year", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching TAL parameters:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch TAL parameters" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/tal-parameters - Create or replace the parameters of a year
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient();
+    const body: CreateTalParametersInput = await request.json();
+
+    if (!body.year || body.net_income_percent == null || body.capex_rate_percent == null) {
+      return NextResponse.json(
+        { error: "Missing required fields: year, net_income_percent, capex_rate_percent" },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("tal_parameters")
+      .upsert(
+        {
+          year: body.year,
+          net_income_percent: body.net_income_percent,
+          heating_oil_percent: body.heating_oil_percent ?? 0,
+          heating_gas_percent: body.heating_gas_percent ?? 0,
+          heating_electricity_percent: body.heating_electricity_percent ?? 0,
+          electricity_percent: body.electricity_percent ?? 0,
+          capex_rate_percent: body.capex_rate_percent,
+          notes: body.notes ?? null,
+        },
+        { onConflict: "year" }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error saving TAL parameters:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to save TAL parameters" },
+      { status: 500 }
+    );
+  }
+}
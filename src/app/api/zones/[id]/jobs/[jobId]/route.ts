@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { ACTIVE_JOB_STATUSES } from "@/lib/zones/zone-scraping-jobs";
+
+/**
+ * PATCH /api/zones/[id]/jobs/[jobId] - Cancel or resume a zone scraping job
+ *
+ * Body: { action: "cancel" | "resume" }
+ *
+ * Cancelling a running job stops it after the building in progress. Resuming
+ * a cancelled or failed job queues it again; it keeps its counts and carries
+ * on with the buildings still unscraped.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string; jobId: string }> }
+) {
+  try {
+    const { id, jobId } = await params;
+    const supabase = await createClient();
+    const { action } = await request.json();
+
+    if (action !== "cancel" && action !== "resume") {
+      return NextResponse.json(
+        { error: "action must be \"cancel\" or \"resume\"" },
+        { status: 400 }
+      );
+    }
+
+    if (action === "resume") {
+      const { data: activeJob } = await supabase
+        .from("zone_scraping_jobs")
+        .select("id")
+        .eq("zone_id", id)
+        .in("status", ACTIVE_JOB_STATUSES)
+        .limit(1)
+        .maybeSingle();
+
+      if (activeJob) {
+        return NextResponse.json(
+          { error: "This zone already has a scraping job in progress" },
+          { status: 409 }
+        );
+      }
+    }
+
+    const { data, error } = await supabase
+      .from("zone_scraping_jobs")
+      .update(
+        action === "cancel"
+          ? { status: "cancelled", completed_at: new Date().toISOString() }
+          : { status: "pending", completed_at: null, error_message: null }
+      )
+      .eq("id", jobId)
+      .eq("zone_id", id)
+      .in("status", action === "cancel" ? ACTIVE_JOB_STATUSES : ["cancelled", "failed"])
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error updating zone scraping job:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: action === "cancel" ? "Job is not in progress" : "Only cancelled or failed jobs can be resumed" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to update zone scraping job" },
+      { status: 500 }
+    );
+  }
+}
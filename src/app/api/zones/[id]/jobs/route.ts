@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { ACTIVE_JOB_STATUSES } from "@/lib/zones/zone-scraping-jobs";
+
+// GET /api/zones/[id]/jobs - Recent scraping jobs for a zone, newest first
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from("zone_scraping_jobs")
+      .select("*")
+      .eq("zone_id", id)
+      .order("created_at", { ascending: false })
+      .limit(10);
+
+    if (error) {
+      console.error("Error fetching zone scraping jobs:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch zone scraping jobs" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/zones/[id]/jobs - Queue a background scrape of the zone's unscraped buildings
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const body = await request.json();
+    const requestedLimit = Number(body.requested_limit);
+
+    if (!Number.isInteger(requestedLimit) || requestedLimit <= 0) {
+      return NextResponse.json(
+        { error: "requested_limit must be a positive whole number" },
+        { status: 400 }
+      );
+    }
+
+    const { data: zone, error: zoneError } = await supabase
+      .from("scraping_zones")
+      .select("id")
+      .eq("id", id)
+      .single();
+
+    if (zoneError || !zone) {
+      return NextResponse.json({ error: "Zone not found" }, { status: 404 });
+    }
+
+    // One job per zone at a time, so two jobs never scrape the same buildings
+    const { data: activeJob } = await supabase
+      .from("zone_scraping_jobs")
+      .select("id")
+      .eq("zone_id", id)
+      .in("status", ACTIVE_JOB_STATUSES)
+      .limit(1)
+      .maybeSingle();
+
+    if (activeJob) {
+      return NextResponse.json(
+        { error: "This zone already has a scraping job in progress" },
+        { status: 409 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("zone_scraping_jobs")
+      .insert({ zone_id: id, requested_limit: requestedLimit })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating zone scraping job:", error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Failed to create zone scraping job" },
+      { status: 500 }
+    );
+  }
+}
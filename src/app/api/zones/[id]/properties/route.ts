@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { zoneScrapedSince } from "@/lib/zones/zone-criteria";
+import { fetchScrapedMatricules, fetchZoneProperties } from "@/lib/zones/zone-properties";
 
 // GET /api/zones/[id]/properties - Get properties within zone
 export async function GET(
@@ -26,33 +28,10 @@ export async function GET(
     const onlyUnscraped = searchParams.get("onlyUnscraped") === "true";
     const limit = Math.min(parseInt(searchParams.get("limit") || "100"), 10000);
 
-    // Get properties within zone bounds with unit filters
-    let query = supabase
-      .from("property_evaluations")
-      .select("*")
-      .gte("latitude", zone.min_lat)
-      .lte("latitude", zone.max_lat)
-      .gte("longitude", zone.min_lng)
-      .lte("longitude", zone.max_lng)
-      .not("latitude", "is", null)
-      .not("longitude", "is", null)
-      .limit(limit);
-
-    // Apply unit filters from zone configuration
-    if (zone.min_units != null) {
-      query = query.gte("nombre_logement", zone.min_units);
-    }
-    if (zone.max_units != null) {
-      query = query.lte("nombre_logement", zone.max_units);
-    }
+    // Get properties within the zone's shape with unit filters
+    const properties = await fetchZoneProperties(zone, "*", limit, supabase);
 
-    const { data: properties, error } = await query;
-
-    if (error) {
-      return NextResponse.json({ error: error.message }, { status: 500 });
-    }
-
-    if (!properties || properties.length === 0) {
+    if (properties.length === 0) {
       return NextResponse.json({
         data: [],
         total: 0,
@@ -69,12 +48,7 @@ export async function GET(
       });
     }
 
-    const { data: scraped } = await supabase
-      .from("montreal_evaluation_details")
-      .select("matricule")
-      .in("matricule", matricules);
-
-    const scrapedSet = new Set(scraped?.map((s) => s.matricule) || []);
+    const scrapedSet = await fetchScrapedMatricules(matricules, zoneScrapedSince(zone.criteria), supabase);
 
     // Add is_scraped flag to all properties
     const propertiesWithStatus = properties.map((p) => ({
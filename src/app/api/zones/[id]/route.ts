@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { normalizeZoneCriteria } from "@/lib/zones/zone-criteria";
+import { geometryBounds, isZoneGeometry } from "@/lib/zones/zone-geometry";
 
 // GET /api/zones/[id] - Get zone details
 export async function GET(
@@ -43,6 +45,27 @@ export async function PATCH(
     const supabase = await createClient();
     const body = await request.json();
 
+    // Keep the bounding box in sync with a new shape
+    if (body.geometry != null) {
+      if (!isZoneGeometry(body.geometry)) {
+        return NextResponse.json(
+          { error: "geometry must be a GeoJSON Polygon or MultiPolygon" },
+          { status: 400 }
+        );
+      }
+      const bounds = geometryBounds(body.geometry);
+      Object.assign(body, {
+        min_lat: bounds.minLat,
+        max_lat: bounds.maxLat,
+        min_lng: bounds.minLng,
+        max_lng: bounds.maxLng,
+      });
+    }
+
+    if (body.criteria !== undefined) {
+      body.criteria = normalizeZoneCriteria(body.criteria);
+    }
+
     const { data, error } = await supabase
       .from("scraping_zones")
       .update(body)
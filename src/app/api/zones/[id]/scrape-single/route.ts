@@ -1,17 +1,10 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { MontrealEvaluationScraper } from "@/lib/scrapers/montreal-evaluation-scraper";
-import type { MontrealEvaluationInsert } from "@/types/montreal-evaluation";
-
-// Helper function to parse French-formatted numbers (with spaces)
-function parseNumber(value: string | null | undefined): number | null {
-  if (!value) return null;
-  const cleaned = value.replace(/\s/g, "");
-  const parsed = parseFloat(cleaned);
-  return isNaN(parsed) ? null : parsed;
-}
+import { buildEvaluationInsert, saveEvaluation } from "@/lib/evaluations/evaluation-snapshots";
 
 // POST /api/zones/[id]/scrape-single - Scrape a single building
+// Pass rescrape: true to scrape an already scraped building again; a snapshot is kept when its data changed
 export async function POST(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -20,7 +13,7 @@ export async function POST(
     const { id: zoneId } = await params;
     const supabase = await createClient();
     const body = await request.json();
-    const { matricule } = body;
+    const { matricule, rescrape = false } = body;
 
     if (!matricule) {
       return NextResponse.json(
@@ -36,7 +29,7 @@ export async function POST(
       .eq("matricule", matricule)
       .single();
 
-    if (existing) {
+    if (existing && !rescrape) {
       return NextResponse.json(
         { error: "Building already scraped", already_scraped: true },
         { status: 409 }
@@ -47,54 +40,14 @@ export async function POST(
     const scraper = new MontrealEvaluationScraper();
     const scrapedData = await scraper.scrape(matricule);
 
-    // Transform scraped data to database format
-    const insertData: MontrealEvaluationInsert = {
-      matricule: scrapedData.matricule,
-      address: scrapedData.identification.address || null,
-      arrondissement: scrapedData.identification.arrondissement || null,
-      lot_exclusif: scrapedData.identification.lot_exclusif || null,
-      lot_commun: scrapedData.identification.lot_commun || null,
-      usage_predominant: scrapedData.identification.usage_predominant || null,
-      numero_unite_voisinage: scrapedData.identification.numero_unite_voisinage || null,
-      numero_compte_foncier: scrapedData.identification.numero_compte_foncier || null,
-      owner_name: scrapedData.owner.name || null,
-      owner_status: scrapedData.owner.status || null,
-      owner_postal_address: scrapedData.owner.postal_address || null,
-      owner_registration_date: scrapedData.owner.registration_date || null,
-      owner_special_conditions: scrapedData.owner.special_conditions || null,
-      land_frontage: parseNumber(scrapedData.land.frontage),
-      land_area: parseNumber(scrapedData.land.area),
-      building_floors: parseNumber(scrapedData.building.floors),
-      building_year: parseNumber(scrapedData.building.year),
-      building_floor_area: parseNumber(scrapedData.building.floor_area),
-      building_construction_type: scrapedData.building.construction_type || null,
-      building_physical_link: scrapedData.building.physical_link || null,
-      building_units: parseNumber(scrapedData.building.units),
-      building_non_residential_spaces: parseNumber(scrapedData.building.non_residential_spaces),
-      building_rental_rooms: parseNumber(scrapedData.building.rental_rooms),
-      current_market_date: scrapedData.valuation.current.market_date || null,
-      current_land_value: parseNumber(scrapedData.valuation.current.land_value),
-      current_building_value: parseNumber(scrapedData.valuation.current.building_value),
-      current_total_value: parseNumber(scrapedData.valuation.current.total_value),
-      previous_market_date: scrapedData.valuation.previous.market_date || null,
-      previous_total_value: parseNumber(scrapedData.valuation.previous.total_value),
-      tax_category: scrapedData.fiscal.tax_category || null,
-      taxable_value: parseNumber(scrapedData.fiscal.taxable_value),
-      non_taxable_value: parseNumber(scrapedData.fiscal.non_taxable_value),
-      tax_account_pdfs: scrapedData.tax_pdfs.length > 0 ? scrapedData.tax_pdfs : null,
-      roll_period: scrapedData.metadata.roll_period || null,
-      data_date: scrapedData.metadata.data_date || null,
-    };
-
-    // Insert into database
-    const { error: insertError } = await supabase
-      .from("montreal_evaluation_details")
-      .insert(insertData);
-
-    if (insertError) {
-      console.error(`Database insert error:`, insertError);
+    // Transform scraped data to database format and save it, snapshotting any changes
+    let saved;
+    try {
+      saved = await saveEvaluation(buildEvaluationInsert(scrapedData), supabase);
+    } catch (saveError) {
+      console.error(`Database save error:`, saveError);
       return NextResponse.json(
-        { error: insertError.message },
+        { error: saveError instanceof Error ? saveError.message : "Failed to save building" },
         { status: 500 }
       );
     }
@@ -109,6 +62,8 @@ export async function POST(
         address: scrapedData.identification.address,
         units: scrapedData.building.units,
         value: scrapedData.valuation.current.total_value,
+        status: saved.status,
+        changes: saved.changes,
       },
     });
   } catch (error) {
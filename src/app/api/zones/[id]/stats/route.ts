@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { computeZoneStats } from "@/lib/zones/zone-properties";
 
 // GET /api/zones/[id]/stats - Refresh zone statistics
 export async function GET(
@@ -21,64 +22,15 @@ export async function GET(
       return NextResponse.json({ error: "Zone not found" }, { status: 404 });
     }
 
-    // Count total properties with unit filters
-    let totalPropertiesQuery = supabase
-      .from("property_evaluations")
-      .select("*", { count: "exact", head: true })
-      .gte("latitude", zone.min_lat)
-      .lte("latitude", zone.max_lat)
-      .gte("longitude", zone.min_lng)
-      .lte("longitude", zone.max_lng)
-      .not("latitude", "is", null)
-      .not("longitude", "is", null);
-
-    // Apply unit filters from zone configuration
-    if (zone.min_units != null) {
-      totalPropertiesQuery = totalPropertiesQuery.gte("nombre_logement", zone.min_units);
-    }
-    if (zone.max_units != null) {
-      totalPropertiesQuery = totalPropertiesQuery.lte("nombre_logement", zone.max_units);
-    }
-
-    const { count: totalProperties } = await totalPropertiesQuery;
-
-    // Get matricules in zone with unit filters
-    let propertiesQuery = supabase
-      .from("property_evaluations")
-      .select("matricule83")
-      .gte("latitude", zone.min_lat)
-      .lte("latitude", zone.max_lat)
-      .gte("longitude", zone.min_lng)
-      .lte("longitude", zone.max_lng)
-      .not("latitude", "is", null)
-      .not("longitude", "is", null);
-
-    // Apply unit filters from zone configuration
-    if (zone.min_units != null) {
-      propertiesQuery = propertiesQuery.gte("nombre_logement", zone.min_units);
-    }
-    if (zone.max_units != null) {
-      propertiesQuery = propertiesQuery.lte("nombre_logement", zone.max_units);
-    }
-
-    const { data: properties } = await propertiesQuery;
-
-    const matricules = properties?.map((p) => p.matricule83).filter(Boolean) || [];
-
-    let scrapedCount = 0;
-    if (matricules.length > 0) {
-      const { count } = await supabase
-        .from("montreal_evaluation_details")
-        .select("*", { count: "exact", head: true })
-        .in("matricule", matricules);
-      scrapedCount = count || 0;
-    }
+    // Count buildings inside the zone's shape, and how many are scraped
+    const { total_properties: totalProperties, scraped_count: scrapedCount } =
+      await computeZoneStats(zone, supabase);
 
     // Update zone stats
     const { data: updatedZone, error: updateError } = await supabase
       .from("scraping_zones")
       .update({
-        total_properties: totalProperties || 0,
+        total_properties: totalProperties,
         scraped_count: scrapedCount,
       })
       .eq("id", id)
@@ -91,9 +43,9 @@ export async function GET(
 
     return NextResponse.json({
       data: {
-        total_properties: totalProperties || 0,
+        total_properties: totalProperties,
         scraped_count: scrapedCount,
-        unscraped_count: (totalProperties || 0) - scrapedCount,
+        unscraped_count: totalProperties - scrapedCount,
         percentage_complete: totalProperties
           ? (scrapedCount / totalProperties) * 100
           : 0,
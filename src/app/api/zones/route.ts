@@ -1,5 +1,8 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { normalizeZoneCriteria } from "@/lib/zones/zone-criteria";
+import { geometryBounds, isZoneGeometry } from "@/lib/zones/zone-geometry";
+import { computeZoneStats } from "@/lib/zones/zone-properties";
 import type { ScrapingZoneInsert } from "@/types/scraping-zone";
 
 // GET /api/zones - List all zones
@@ -33,68 +36,43 @@ export async function POST(request: Request) {
     const supabase = await createClient();
     const body = await request.json();
 
-    const { name, description, min_lat, max_lat, min_lng, max_lng, target_limit, min_units, max_units } = body;
+    const { name, description, geometry, arrondissement, target_limit, min_units, max_units } = body;
+    const criteria = normalizeZoneCriteria(body.criteria);
+    let { min_lat, max_lat, min_lng, max_lng } = body;
+
+    // A polygon zone's bounding box is derived from its shape
+    if (geometry != null) {
+      if (!isZoneGeometry(geometry)) {
+        return NextResponse.json(
+          { error: "geometry must be a GeoJSON Polygon or MultiPolygon" },
+          { status: 400 }
+        );
+      }
+      ({ minLat: min_lat, maxLat: max_lat, minLng: min_lng, maxLng: max_lng } = geometryBounds(geometry));
+    }
 
     // Validate required fields
     if (!name || min_lat == null || max_lat == null || min_lng == null || max_lng == null) {
       return NextResponse.json(
-        { error: "Missing required fields: name, min_lat, max_lat, min_lng, max_lng" },
+        { error: "Missing required fields: name, and geometry or min_lat, max_lat, min_lng, max_lng" },
         { status: 400 }
       );
     }
 
-    // Build query for counting properties within bounds with unit filters
-    let propertiesQuery = supabase
-      .from("property_evaluations")
-      .select("*", { count: "exact", head: true })
-      .gte("latitude", min_lat)
-      .lte("latitude", max_lat)
-      .gte("longitude", min_lng)
-      .lte("longitude", max_lng)
-      .not("latitude", "is", null)
-      .not("longitude", "is", null);
-
-    // Apply unit filters
-    if (min_units != null) {
-      propertiesQuery = propertiesQuery.gte("nombre_logement", min_units);
-    }
-    if (max_units != null) {
-      propertiesQuery = propertiesQuery.lte("nombre_logement", max_units);
-    }
-
-    const { count: totalProperties } = await propertiesQuery;
-
-    // Count already scraped properties with same filters
-    let evaluationsQuery = supabase
-      .from("property_evaluations")
-      .select("matricule83")
-      .gte("latitude", min_lat)
-      .lte("latitude", max_lat)
-      .gte("longitude", min_lng)
-      .lte("longitude", max_lng)
-      .not("latitude", "is", null)
-      .not("longitude", "is", null);
-
-    // Apply unit filters
-    if (min_units != null) {
-      evaluationsQuery = evaluationsQuery.gte("nombre_logement", min_units);
-    }
-    if (max_units != null) {
-      evaluationsQuery = evaluationsQuery.lte("nombre_logement", max_units);
-    }
-
-    const { data: evaluationsInZone } = await evaluationsQuery;
-
-    const matricules = evaluationsInZone?.map((e) => e.matricule83).filter(Boolean) || [];
-
-    let scrapedCount = 0;
-    if (matricules.length > 0) {
-      const { count } = await supabase
-        .from("montreal_evaluation_details")
-        .select("*", { count: "exact", head: true })
-        .in("matricule", matricules);
-      scrapedCount = count || 0;
-    }
+    // Count buildings inside the zone's shape matching its criteria, and how many are scraped
+    const { total_properties: totalProperties, scraped_count: scrapedCount } = await computeZoneStats(
+      {
+        min_lat,
+        max_lat,
+        min_lng,
+        max_lng,
+        geometry: geometry ?? null,
+        min_units: min_units ?? null,
+        max_units: max_units ?? null,
+        criteria,
+      },
+      supabase
+    );
 
     // Insert zone
     const insertData: ScrapingZoneInsert = {
@@ -104,10 +82,13 @@ export async function POST(request: Request) {
       max_lat,
       min_lng,
       max_lng,
+      geometry: geometry ?? null,
+      arrondissement: arrondissement || null,
       target_limit: target_limit || null,
       min_units: min_units != null ? min_units : 3,
       max_units: max_units || null,
-      total_properties: totalProperties || 0,
+      criteria,
+      total_properties: totalProperties,
       scraped_count: scrapedCount,
     };
 
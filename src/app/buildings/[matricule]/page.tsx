@@ -6,6 +6,7 @@ import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { EvaluationHistoryCard } from "@/components/evaluation/evaluation-history-card";
 
 interface BuildingDetail {
   id: string;
@@ -83,14 +84,15 @@ export default function BuildingDetailPage() {
       const response = await fetch("/api/montreal-evaluation", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ matricule }),
+        // An already scraped building is scraped again to pick up owner and valuation changes
+        body: JSON.stringify({ matricule, rescrape: !!building }),
       });
 
       const result = await response.json();
 
       if (response.ok) {
         setBuilding(result.data);
-        alert(result.fromCache ? "Data loaded from cache" : "Successfully scraped new data!");
+        alert(result.fromCache ? "Data loaded from cache" : result.message);
       } else {
         setError(result.error || "Failed to scrape data");
         alert(`Error: ${result.error}`);
@@ -163,7 +165,7 @@ export default function BuildingDetailPage() {
             </Link>
           </div>
           <Button onClick={handleScrape} disabled={scraping} variant="outline" size="sm">
-            {scraping ? "Scraping..." : "Refresh Data"}
+            {scraping ? "Scraping..." : "Re-scrape"}
           </Button>
         </div>
 
@@ -303,6 +305,9 @@ export default function BuildingDetailPage() {
               <DetailRow label="Scraped At" value={formatDate(building.scraped_at)} />
             </div>
           </Card>
+
+          {/* Change History */}
+          <EvaluationHistoryCard matricule={building.matricule} scrapedAt={building.scraped_at} />
         </div>
       </div>
     </div>
@@ -10,8 +10,12 @@ import { MapFiltersPanel, type MapFilters } from "@/components/map/map-filters";
 import { createClient } from "@/lib/supabase/client";
 import type { Property } from "@/types/property";
 import type { PropertyEvaluation } from "@/types/property-evaluation";
+import type { RecentTransaction } from "@/types/recent-transaction";
 import type { ScrapingZone } from "@/types/scraping-zone";
 
+// Recent sales layer windows, in days before today
+const SALES_WINDOWS = [30, 90, 180, 365];
+
 // Dynamic import for Leaflet map (no SSR)
 const PropertiesMap = dynamic(
   () => import("@/components/map/properties-map").then((mod) => mod.PropertiesMap),
@@ -36,6 +40,12 @@ export default function MapPage() {
   const [loading, setLoading] = useState(true);
   const [filters, setFilters] = useState<MapFilters>({});
   const [filtersOpen, setFiltersOpen] = useState(false);
+  const [salesDays, setSalesDays] = useState<number | null>(() => {
+    const days = parseInt(searchParams.get('sales') || "");
+    return days > 0 ? days : null;
+  });
+  const [transactions, setTransactions] = useState<RecentTransaction[]>([]);
+  const zoneId = searchParams.get('zone');
 
   useEffect(() => {
     const zoneId = searchParams.get('zone');
@@ -60,6 +70,35 @@ export default function MapPage() {
     }
   }, [filters]);
 
+  useEffect(() => {
+    if (!salesDays) return;
+
+    const loadTransactions = async () => {
+      try {
+        const params = new URLSearchParams({ days: salesDays.toString() });
+        if (zoneId) params.set("zone", zoneId);
+
+        const res = await fetch(`/api/recent-transactions?${params}`);
+        const data = await res.json();
+        if (res.ok) {
+          setTransactions(data.data || []);
+        }
+      } catch (error) {
+        console.error("Failed to fetch recent transactions:", error);
+      }
+    };
+
+    loadTransactions();
+  }, [salesDays, zoneId]);
+
+  const handleSalesDaysChange = (value: string) => {
+    const days = value ? parseInt(value) : null;
+    setSalesDays(days);
+    if (!days) {
+      setTransactions([]);
+    }
+  };
+
   const fetchZoneData = async (zoneId: string) => {
     setLoading(true);
     try {
@@ -229,7 +268,11 @@ export default function MapPage() {
     ? evaluationsWithLocation.filter((e) => e.matricule83 === selectedPropertyMatricule)
     : evaluationsWithLocation;
 
-  const totalOnMap = propertiesWithLocation.length + displayEvaluations.length;
+  const transactionsWithLocation = transactions.filter(
+    (t) => t.latitude != null && t.longitude != null
+  );
+
+  const totalOnMap = propertiesWithLocation.length + displayEvaluations.length + transactionsWithLocation.length;
 
   return (
     <div className="h-screen flex flex-col bg-background">
@@ -272,15 +315,37 @@ export default function MapPage() {
               </>
             )}
           </div>
-          {(zone || selectedPropertyMatricule) && (
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => router.push('/map')}
-            >
-              Clear Selection
-            </Button>
-          )}
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 text-muted-foreground">
+              Recent sales
+              <select
+                value={salesDays ?? ""}
+                onChange={(e) => handleSalesDaysChange(e.target.value)}
+                className="rounded-lg border border-border bg-background px-2 py-1 text-sm text-foreground"
+              >
+                <option value="">Off</option>
+                {[...new Set([...SALES_WINDOWS, ...(salesDays ? [salesDays] : [])])]
+                  .sort((a, b) => a - b)
+                  .map((days) => (
+                    <option key={days} value={days}>
+                      Last {days} days
+                    </option>
+                  ))}
+              </select>
+              {salesDays && (
+                <span className="text-foreground font-medium">{transactionsWithLocation.length}</span>
+              )}
+            </label>
+            {(zone || selectedPropertyMatricule) && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => router.push('/map')}
+              >
+                Clear Selection
+              </Button>
+            )}
+          </div>
         </div>
       </div>
 
@@ -338,6 +403,7 @@ export default function MapPage() {
           <PropertiesMap
             properties={zone ? [] : propertiesWithLocation}
             evaluations={displayEvaluations}
+            transactions={transactionsWithLocation}
             onPropertyClick={handlePropertyClick}
             onScrapeSingle={handleScrapeSingle}
             highlightedMatricule={selectedPropertyMatricule}
@@ -347,6 +413,7 @@ export default function MapPage() {
               minLng: zone.min_lng,
               maxLng: zone.max_lng,
             } : undefined}
+            zoneGeometry={zone?.geometry}
           />
         )}
       </div>
@@ -0,0 +1,85 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { NotificationsFeed } from "@/components/notifications/notifications-feed";
+import type { ListingNotificationWithSearch } from "@/types/saved-search";
+
+export default function NotificationsPage() {
+  const [notifications, setNotifications] = useState<ListingNotificationWithSearch[]>([]);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchNotifications = async () => {
+      try {
+        const res = await fetch(`/api/notifications${unreadOnly ? "?unread=true" : ""}`);
+        const data = await res.json();
+        setNotifications(data.data || []);
+      } catch (error) {
+        console.error("Failed to fetch notifications:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchNotifications();
+  }, [unreadOnly]);
+
+  const handleMarkRead = async (ids?: string[]) => {
+    try {
+      const res = await fetch("/api/notifications", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(ids ? { ids } : {}),
+      });
+
+      if (res.ok) {
+        const readAt = new Date().toISOString();
+        setNotifications((prev) =>
+          prev
+            .map((n) => (!ids || ids.includes(n.id) ? { ...n, read_at: n.read_at ?? readAt } : n))
+            .filter((n) => !unreadOnly || !n.read_at)
+        );
+      }
+    } catch (error) {
+      console.error("Failed to mark notifications read:", error);
+    }
+  };
+
+  const unreadCount = notifications.filter((n) => !n.read_at).length;
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Alerts</h1>
+          <p className="text-muted-foreground">
+            New listings and price drops from your{" "}
+            <Link href="/searches" className="underline hover:text-foreground">
+              saved searches
+            </Link>
+          </p>
+        </div>
+
+        <div className="flex gap-3">
+          <Button variant="outline" onClick={() => setUnreadOnly(!unreadOnly)}>
+            {unreadOnly ? "Show All" : "Unread Only"}
+          </Button>
+          <Button onClick={() => handleMarkRead()} disabled={unreadCount === 0}>
+            Mark All Read
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <p className="text-muted-foreground">Loading alerts...</p>
+        </div>
+      ) : (
+        <NotificationsFeed notifications={notifications} onMarkRead={handleMarkRead} />
+      )}
+    </div>
+  );
+}
@@ -1,28 +1,31 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import Link from "next/link";
 import { PropertyGrid } from "@/components/property/property-grid";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { DealStageFilter } from "@/components/pipeline/deal-stage-filter";
 import type { Property } from "@/types/property";
+import type { DealStage } from "@/types/deal-pipeline";
 
 export default function Dashboard() {
   const [properties, setProperties] = useState<Property[]>([]);
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState("");
+  const [stage, setStage] = useState<DealStage | null>(null);
 
-  useEffect(() => {
-    fetchProperties();
-  }, []);
-
-  const fetchProperties = async (searchTerm?: string) => {
+  // Filters are passed in rather than read from state, so the callback stays stable
+  const fetchProperties = useCallback(async (searchTerm?: string, stageFilter?: DealStage | null) => {
     setLoading(true);
     try {
       const params = new URLSearchParams();
       if (searchTerm) {
         params.set("search", searchTerm);
       }
+      if (stageFilter) {
+        params.set("stage", stageFilter);
+      }
 
       const response = await fetch(`/api/properties?${params}`);
       const result = await response.json();
@@ -35,11 +38,20 @@ export default function Dashboard() {
     } finally {
       setLoading(false);
     }
-  };
+  }, []);
+
+  useEffect(() => {
+    fetchProperties();
+  }, [fetchProperties]);
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    fetchProperties(search);
+    fetchProperties(search, stage);
+  };
+
+  const handleStageChange = (value: DealStage | null) => {
+    setStage(value);
+    fetchProperties(search, value);
   };
 
   return (
@@ -84,11 +96,20 @@ export default function Dashboard() {
           </div>
         </form>
 
+      {/* Stage Filter */}
+      <div className="mb-6">
+        <DealStageFilter value={stage} onChange={handleStageChange} />
+      </div>
+
       {/* Properties Grid */}
       <PropertyGrid
         properties={properties}
         loading={loading}
-        emptyMessage="No properties yet. Add your first property to get started!"
+        emptyMessage={
+          stage
+            ? "No properties in this stage"
+            : "No properties yet. Add your first property to get started!"
+        }
       />
     </div>
   );
@@ -0,0 +1,99 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { KanbanBoard } from "@/components/pipeline/kanban-board";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { isTaskOverdue } from "@/lib/pipeline/deal-pipeline";
+import type { Property } from "@/types/property";
+import type { DealStage, DealTask } from "@/types/deal-pipeline";
+
+export default function PipelinePage() {
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [tasks, setTasks] = useState<DealTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPipeline();
+  }, []);
+
+  const fetchPipeline = async () => {
+    try {
+      const [propertiesResponse, tasksResponse] = await Promise.all([
+        fetch("/api/properties"),
+        fetch("/api/deal-tasks"),
+      ]);
+      const propertiesResult = await propertiesResponse.json();
+      const tasksResult = await tasksResponse.json();
+
+      if (propertiesResponse.ok) setProperties(propertiesResult.data || []);
+      if (tasksResponse.ok) setTasks(tasksResult.data || []);
+    } catch (err) {
+      console.error("Failed to fetch pipeline:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMove = async (propertyId: string, stage: DealStage) => {
+    const previous = properties;
+    setError(null);
+
+    // Optimistic move; reverted if the API rejects it
+    setProperties((prev) =>
+      prev.map((p) =>
+        p.id === propertyId
+          ? { ...p, deal_stage: stage, deal_stage_changed_at: new Date().toISOString() }
+          : p
+      )
+    );
+
+    try {
+      const response = await fetch(`/api/properties/${propertyId}/stage`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ stage }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to move deal");
+      }
+    } catch (err) {
+      setProperties(previous);
+      setError(err instanceof Error ? err.message : "Failed to move deal");
+    }
+  };
+
+  const overdueCount = tasks.filter((task) => isTaskOverdue(task)).length;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Deal Pipeline</h1>
+          <p className="text-muted-foreground">
+            {properties.length} deals · {tasks.length} open tasks
+            {overdueCount > 0 && <span className="text-destructive"> · {overdueCount} overdue</span>}
+          </p>
+        </div>
+        <Link href="/" className="text-sm text-muted-foreground hover:text-foreground">
+          Grid view →
+        </Link>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <KanbanBoard properties={properties} tasks={tasks} onMove={handleMove} />
+    </div>
+  );
+}
@@ -7,6 +7,18 @@ import dynamic from "next/dynamic";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardContent } from "@/components/ui/card";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { UnderwritingPanel } from "@/components/finance/underwriting-panel";
+import { MaxOfferPanel } from "@/components/finance/max-offer-panel";
+import { FinancingScenarios } from "@/components/finance/financing-scenarios";
+import { ClosingCostsSummary } from "@/components/finance/closing-costs-summary";
+import { RentCompsPanel } from "@/components/finance/rent-comps-panel";
+import { UnitScheduleCard } from "@/components/property/unit-schedule-card";
+import { RentRoll } from "@/components/property/rent-roll";
+import { DealPipelineCard } from "@/components/pipeline/deal-pipeline-card";
+import { PriceHistoryCard } from "@/components/property/price-history-card";
+import { useRentRoll } from "@/hooks/useRentRoll";
+import { summarizeRentRoll } from "@/lib/finance/rent-roll";
+import { solveMaxOffer } from "@/lib/finance/max-offer";
 import type { Property } from "@/types/property";
 
 // Dynamic import for Leaflet map (no SSR)
@@ -29,6 +41,9 @@ export default function PropertyDetailPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [activeTab, setActiveTab] = useState<"overview" | "rent_roll">("overview");
+  const rentRoll = useRentRoll(params.id as string);
+  const rentRollSummary = summarizeRentRoll(rentRoll.units, property?.potential_revenue ?? null);
 
   useEffect(() => {
     fetchProperty();
@@ -104,6 +119,8 @@ export default function PropertyDetailPage() {
     );
   }
 
+  const maxOffer = solveMaxOffer(property);
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -119,88 +136,134 @@ export default function PropertyDetailPage() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Main Column */}
           <div className="lg:col-span-2 space-y-6">
-            {/* Image Gallery */}
-            {property.images.length > 0 && (
-              <div className="aspect-[16/9] bg-secondary rounded-xl overflow-hidden">
-                <img
-                  src={property.images[0]}
-                  alt={property.title}
-                  className="w-full h-full object-cover"
-                />
-              </div>
+            {/* Tabs */}
+            <div className="flex gap-2">
+              <Button
+                variant={activeTab === "overview" ? "primary" : "ghost"}
+                onClick={() => setActiveTab("overview")}
+              >
+                Overview
+              </Button>
+              <Button
+                variant={activeTab === "rent_roll" ? "primary" : "ghost"}
+                onClick={() => setActiveTab("rent_roll")}
+              >
+                Rent Roll
+              </Button>
+            </div>
+
+            {activeTab === "rent_roll" && (
+              <RentRoll
+                propertyId={property.id}
+                units={rentRoll.units}
+                summary={rentRollSummary}
+                loading={rentRoll.loading}
+                onChange={rentRoll.refresh}
+              />
             )}
 
-            {property.images.length > 1 && (
-              <div className="flex gap-2 overflow-x-auto pb-2">
-                {property.images.slice(1, 6).map((img, i) => (
-                  <img
-                    key={i}
-                    src={img}
-                    alt={`${property.title} ${i + 2}`}
-                    className="w-24 h-24 object-cover rounded-lg flex-shrink-0"
-                  />
-                ))}
-                {property.images.length > 6 && (
-                  <div className="w-24 h-24 bg-secondary rounded-lg flex items-center justify-center flex-shrink-0">
-                    <span className="text-sm text-muted-foreground">
-                      +{property.images.length - 6}
-                    </span>
+            {activeTab === "overview" && (
+              <>
+                {/* Image Gallery */}
+                {property.images.length > 0 && (
+                  <div className="aspect-[16/9] bg-secondary rounded-xl overflow-hidden">
+                    <img
+                      src={property.images[0]}
+                      alt={property.title}
+                      className="w-full h-full object-cover"
+                    />
                   </div>
                 )}
-              </div>
-            )}
-
-            {/* Description */}
-            {property.description && (
-              <Card>
-                <CardHeader>
-                  <h2 className="text-lg font-semibold">Description</h2>
-                </CardHeader>
-                <CardContent>
-                  <p className="text-muted-foreground whitespace-pre-wrap">
-                    {property.description}
-                  </p>
-                </CardContent>
-              </Card>
-            )}
 
-            {/* Features */}
-            {property.features.length > 0 && (
-              <Card>
-                <CardHeader>
-                  <h2 className="text-lg font-semibold">Features</h2>
-                </CardHeader>
-                <CardContent>
-                  <ul className="grid grid-cols-2 gap-2">
-                    {property.features.map((feature, i) => (
-                      <li key={i} className="flex items-center gap-2 text-muted-foreground">
-                        <svg className="w-4 h-4 text-primary" fill="currentColor" viewBox="0 0 20 20">
-                          <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                        </svg>
-                        {feature}
-                      </li>
+                {property.images.length > 1 && (
+                  <div className="flex gap-2 overflow-x-auto pb-2">
+                    {property.images.slice(1, 6).map((img, i) => (
+                      <img
+                        key={i}
+                        src={img}
+                        alt={`${property.title} ${i + 2}`}
+                        className="w-24 h-24 object-cover rounded-lg flex-shrink-0"
+                      />
                     ))}
-                  </ul>
-                </CardContent>
-              </Card>
-            )}
-
-            {/* Map */}
-            {property.latitude && property.longitude && (
-              <Card>
-                <CardHeader>
-                  <h2 className="text-lg font-semibold">Location</h2>
-                </CardHeader>
-                <CardContent className="p-0">
-                  <div className="h-[300px]">
-                    <PropertyMap
-                      latitude={property.latitude}
-                      longitude={property.longitude}
-                      title={property.title}
-                    />
+                    {property.images.length > 6 && (
+                      <div className="w-24 h-24 bg-secondary rounded-lg flex items-center justify-center flex-shrink-0">
+                        <span className="text-sm text-muted-foreground">
+                          +{property.images.length - 6}
+                        </span>
+                      </div>
+                    )}
                   </div>
-                </CardContent>
-              </Card>
+                )}
+
+                {/* Description */}
+                {property.description && (
+                  <Card>
+                    <CardHeader>
+                      <h2 className="text-lg font-semibold">Description</h2>
+                    </CardHeader>
+                    <CardContent>
+                      <p className="text-muted-foreground whitespace-pre-wrap">
+                        {property.description}
+                      </p>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Features */}
+                {property.features.length > 0 && (
+                  <Card>
+                    <CardHeader>
+                      <h2 className="text-lg font-semibold">Features</h2>
+                    </CardHeader>
+                    <CardContent>
+                      <ul className="grid grid-cols-2 gap-2">
+                        {property.features.map((feature, i) => (
+                          <li key={i} className="flex items-center gap-2 text-muted-foreground">
+                            <svg className="w-4 h-4 text-primary" fill="currentColor" viewBox="0 0 20 20">
+                              <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                            </svg>
+                            {feature}
+                          </li>
+                        ))}
+                      </ul>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Underwriting */}
+                {(property.price != null || property.potential_revenue != null) && (
+                  <UnderwritingPanel
+                    property={property}
+                    inPlaceRevenue={rentRollSummary.occupiedUnits > 0 ? rentRollSummary.annualInPlaceIncome : null}
+                  />
+                )}
+
+                {/* Max Offer */}
+                {property.potential_revenue != null && <MaxOfferPanel property={property} />}
+
+                {/* Rent Comps */}
+                {property.latitude && property.longitude && (property.unit_details || property.unit_schedule?.length > 0) && (
+                  <RentCompsPanel propertyId={property.id} />
+                )}
+
+                {/* Map */}
+                {property.latitude && property.longitude && (
+                  <Card>
+                    <CardHeader>
+                      <h2 className="text-lg font-semibold">Location</h2>
+                    </CardHeader>
+                    <CardContent className="p-0">
+                      <div className="h-[300px]">
+                        <PropertyMap
+                          latitude={property.latitude}
+                          longitude={property.longitude}
+                          title={property.title}
+                        />
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+              </>
             )}
           </div>
 
@@ -212,6 +275,19 @@ export default function PropertyDetailPage() {
                 <p className="text-3xl font-bold text-primary mb-2">
                   {formatPrice(property.price)}
                 </p>
+                {maxOffer.maxPrice != null && (
+                  <p
+                    className="text-sm text-muted-foreground mb-2"
+                    title="Default financing scenario and targets; see the Max Offer panel to use your own"
+                  >
+                    {maxOffer.maxPrice > 0
+                      ? `Max offer ${formatPrice(maxOffer.maxPrice)} at default assumptions`
+                      : "No workable offer at default assumptions"}
+                    {maxOffer.gapPercent != null && maxOffer.gapPercent > 0 && (
+                      <span className="text-destructive"> · list is {maxOffer.gapPercent.toFixed(1)}% above</span>
+                    )}
+                  </p>
+                )}
                 <h1 className="text-xl font-semibold mb-2">{property.title}</h1>
                 {property.address && (
                   <p className="text-muted-foreground">
@@ -223,6 +299,14 @@ export default function PropertyDetailPage() {
               </CardContent>
             </Card>
 
+            {/* Deal Pipeline */}
+            <DealPipelineCard property={property} onUpdated={setProperty} />
+
+            {/* Price History */}
+            {(property.source_url || property.mls_number) && (
+              <PriceHistoryCard property={property} onUpdated={setProperty} />
+            )}
+
             {/* Details Card */}
             <Card>
               <CardHeader>
@@ -286,8 +370,13 @@ export default function PropertyDetailPage() {
               </CardContent>
             </Card>
 
+            {/* Unit Schedule */}
+            {(property.units != null || property.unit_details || property.unit_schedule?.length > 0) && (
+              <UnitScheduleCard property={property} onUpdated={setProperty} />
+            )}
+
             {/* Financial Details */}
-            {(property.potential_revenue != null || property.municipal_assessment != null || property.taxes != null || property.expenses != null) && (
+            {(property.price != null || property.potential_revenue != null || property.municipal_assessment != null || property.taxes != null || property.expenses != null) && (
               <Card>
                 <CardHeader>
                   <h2 className="text-lg font-semibold">Financial Details</h2>
@@ -380,10 +469,18 @@ export default function PropertyDetailPage() {
                       </div>
                     </div>
                   )}
+
+                  {/* Closing Costs */}
+                  {property.price != null && (
+                    <ClosingCostsSummary propertyId={property.id} />
+                  )}
                 </CardContent>
               </Card>
             )}
 
+            {/* Financing */}
+            <FinancingScenarios property={property} />
+
             {/* Source */}
             {property.source_url && (
               <Card>
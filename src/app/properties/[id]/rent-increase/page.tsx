@@ -0,0 +1,266 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { Card, CardHeader, CardContent } from "@/components/ui/card";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { TalParametersForm } from "@/components/finance/tal-parameters-form";
+import { CapitalExpendituresList } from "@/components/finance/capital-expenditures-list";
+import { RentIncreaseJustification } from "@/components/finance/rent-increase-justification";
+import { useRentRoll } from "@/hooks/useRentRoll";
+import { HEATING_FUEL_LABELS } from "@/lib/finance/rent-increase";
+import type { Property } from "@/types/property";
+import type {
+  CapitalExpenditure,
+  HeatingFuel,
+  RentIncreaseResult,
+  TalParameters,
+} from "@/types/rent-increase";
+
+const EXPENSE_FIELDS = [
+  { key: "previousTaxesMunicipal", label: "Taxes municipales (année précédente)" },
+  { key: "previousTaxesSchool", label: "Taxes scolaires (année précédente)" },
+  { key: "insurance", label: "Assurances" },
+  { key: "previousInsurance", label: "Assurances (année précédente)" },
+] as const;
+
+type ExpenseField = (typeof EXPENSE_FIELDS)[number]["key"];
+
+export default function RentIncreasePage() {
+  const params = useParams();
+  const propertyId = params.id as string;
+  const { units, loading: unitsLoading } = useRentRoll(propertyId);
+
+  const [property, setProperty] = useState<Property | null>(null);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [parametersList, setParametersList] = useState<TalParameters[]>([]);
+  const [capex, setCapex] = useState<CapitalExpenditure[]>([]);
+  const [expenses, setExpenses] = useState<Record<ExpenseField, string>>({
+    previousTaxesMunicipal: "",
+    previousTaxesSchool: "",
+    insurance: "",
+    previousInsurance: "",
+  });
+  const [heatingFuel, setHeatingFuel] = useState<HeatingFuel>("oil");
+  const [result, setResult] = useState<RentIncreaseResult | null>(null);
+  const [calculating, setCalculating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parameters = parametersList.find((p) => p.year === year) ?? null;
+
+  useEffect(() => {
+    const fetchInitial = async () => {
+      const [propertyResponse, parametersResponse] = await Promise.all([
+        fetch(`/api/properties/${propertyId}`),
+        fetch("/api/tal-parameters"),
+      ]);
+      const propertyResult = await propertyResponse.json();
+      const parametersResult = await parametersResponse.json();
+
+      if (propertyResponse.ok) setProperty(propertyResult.data);
+      if (parametersResponse.ok) setParametersList(parametersResult.data || []);
+    };
+
+    fetchInitial().catch(() => setError("Failed to load property"));
+  }, [propertyId]);
+
+  const fetchCapex = useCallback(async () => {
+    const response = await fetch(
+      `/api/properties/${propertyId}/capital-expenditures?year=${year}`
+    );
+    const data = await response.json();
+    if (response.ok) setCapex(data.data || []);
+  }, [propertyId, year]);
+
+  useEffect(() => {
+    fetchCapex();
+  }, [fetchCapex]);
+
+  const handleParametersSaved = (saved: TalParameters) => {
+    setParametersList((prev) => [saved, ...prev.filter((p) => p.year !== saved.year)]);
+  };
+
+  const handleCalculate = async () => {
+    setCalculating(true);
+    setError(null);
+
+    try {
+      const query = new URLSearchParams({ year: String(year), heatingFuel });
+      for (const field of EXPENSE_FIELDS) {
+        if (expenses[field.key]) query.set(field.key, expenses[field.key]);
+      }
+
+      const response = await fetch(`/api/properties/${propertyId}/rent-increase?${query}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to compute increases");
+      }
+
+      setResult(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to compute increases");
+      setResult(null);
+    } finally {
+      setCalculating(false);
+    }
+  };
+
+  const formatPrice = (price: number | null) => {
+    if (price == null) return "N/A";
+    return new Intl.NumberFormat("en-CA", {
+      style: "currency",
+      currency: "CAD",
+      maximumFractionDigits: 0,
+    }).format(price);
+  };
+
+  if (!property || unitsLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        {error ? <p className="text-muted-foreground">{error}</p> : <LoadingSpinner size="lg" />}
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between print:hidden">
+          <Link
+            href={`/properties/${propertyId}`}
+            className="text-sm text-muted-foreground hover:text-foreground"
+          >
+            ← Back to Property
+          </Link>
+          {result && result.units.length > 0 && (
+            <Button variant="outline" onClick={() => window.print()}>
+              Print Justification
+            </Button>
+          )}
+        </div>
+
+        <div className="print:hidden">
+          <h1 className="text-2xl font-bold">Augmentation de loyer (TAL)</h1>
+          <p className="text-muted-foreground">{property.address ?? property.title}</p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 print:hidden">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold">Paramètres TAL</h2>
+                <div className="w-28">
+                  <Input
+                    id="tal-year"
+                    type="number"
+                    value={year}
+                    onChange={(e) => setYear(parseInt(e.target.value) || new Date().getFullYear())}
+                  />
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <TalParametersForm year={year} parameters={parameters} onSaved={handleParametersSaved} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <h2 className="text-lg font-semibold">Dépenses</h2>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Taxes municipales</span>
+                  <span>{formatPrice(property.taxes_municipal)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Taxes scolaires</span>
+                  <span>{formatPrice(property.taxes_school)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Chauffage</span>
+                  <span>{formatPrice(property.expense_heating)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Électricité</span>
+                  <span>{formatPrice(property.expense_electricity)}</span>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                {EXPENSE_FIELDS.map((field) => (
+                  <Input
+                    key={field.key}
+                    id={`expense-${field.key}`}
+                    label={field.label}
+                    type="number"
+                    value={expenses[field.key]}
+                    onChange={(e) =>
+                      setExpenses((prev) => ({ ...prev, [field.key]: e.target.value }))
+                    }
+                  />
+                ))}
+                <Select
+                  label="Type de chauffage"
+                  value={heatingFuel}
+                  onChange={(e) => setHeatingFuel(e.target.value as HeatingFuel)}
+                >
+                  {(Object.keys(HEATING_FUEL_LABELS) as HeatingFuel[]).map((fuel) => (
+                    <option key={fuel} value={fuel}>
+                      {HEATING_FUEL_LABELS[fuel]}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <h2 className="text-lg font-semibold">Réparations majeures {year}</h2>
+            </CardHeader>
+            <CardContent>
+              <CapitalExpendituresList
+                propertyId={propertyId}
+                year={year}
+                items={capex}
+                units={units}
+                onChange={fetchCapex}
+              />
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="flex items-center gap-3 print:hidden">
+          <Button onClick={handleCalculate} loading={calculating} disabled={!parameters}>
+            Calculate Increases
+          </Button>
+          {!parameters && (
+            <span className="text-sm text-muted-foreground">
+              Save the {year} TAL parameters first
+            </span>
+          )}
+          {error && <span className="text-sm text-destructive">{error}</span>}
+        </div>
+
+        {result && (
+          <>
+            {result.warnings.length > 0 && (
+              <ul className="text-xs text-muted-foreground space-y-1 print:hidden">
+                {result.warnings.map((warning) => (
+                  <li key={warning}>⚠ {warning}</li>
+                ))}
+              </ul>
+            )}
+            <RentIncreaseJustification result={result} propertyAddress={property.address ?? property.title} />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -22,6 +22,18 @@ const PropertyMap = dynamic(
   { ssr: false }
 );
 
+// Storage bucket holding the raw JSON of each source
+function getRawBucket(sourceName: string | null) {
+  switch (sourceName) {
+    case 'centris':
+      return 'centris-raw';
+    case 'kijiji':
+      return 'kijiji-raw-rentals';
+    default:
+      return 'facebook-raw-rentals';
+  }
+}
+
 export default function RentalDetailPage() {
   const params = useParams();
   const router = useRouter();
@@ -85,7 +97,7 @@ export default function RentalDetailPage() {
     setLoadingRawJson(true);
     try {
       // Determine bucket based on source
-      const bucket = rental.source_name === 'centris' ? 'centris-raw' : 'facebook-raw-rentals';
+      const bucket = getRawBucket(rental.source_name);
 
       const response = await fetch(
         `/api/rentals/raw-data?path=${encodeURIComponent(rental.raw_data_storage_path)}&bucket=${bucket}`
@@ -187,6 +199,8 @@ export default function RentalDetailPage() {
         return 'bg-blue-500';
       case 'centris':
         return 'bg-green-500';
+      case 'kijiji':
+        return 'bg-purple-500';
       default:
         return 'bg-gray-500';
     }
@@ -199,6 +213,8 @@ export default function RentalDetailPage() {
         return 'Facebook Marketplace';
       case 'centris':
         return 'Centris';
+      case 'kijiji':
+        return 'Kijiji';
       default:
         return sourceName || 'Unknown';
     }
@@ -307,6 +323,12 @@ export default function RentalDetailPage() {
                     <p className="font-mono text-xs mt-1">{rental.centris_id}</p>
                   </div>
                 )}
+                {rental.kijiji_id && (
+                  <div>
+                    <span className="text-muted-foreground">Kijiji ID:</span>
+                    <p className="font-mono text-xs mt-1">{rental.kijiji_id}</p>
+                  </div>
+                )}
                 <div>
                   <span className="text-muted-foreground">Created:</span>
                   <p className="text-xs mt-1">{formatDate(rental.created_at)}</p>
@@ -364,7 +386,7 @@ export default function RentalDetailPage() {
                         <div className="space-y-2">
                           <div className="flex justify-between items-center">
                             <span className="text-sm text-muted-foreground">
-                              Source: {rental.source_name === 'centris' ? 'centris-raw' : 'facebook-raw-rentals'}
+                              Source: {getRawBucket(rental.source_name)}
                             </span>
                             <Button
                               size="sm"
@@ -0,0 +1,96 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Select } from "@/components/ui/select";
+import { FieldCoverageReport } from "@/components/scraper/field-coverage-report";
+import { FetchMetrics } from "@/components/scraper/fetch-metrics";
+import type { CoverageReport } from "@/types/scrape-coverage";
+import type { HttpMetrics } from "@/types/http-metrics";
+
+export default function ScraperHealthPage() {
+  const [days, setDays] = useState("60");
+  const [report, setReport] = useState<CoverageReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [metrics, setMetrics] = useState<HttpMetrics | null>(null);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        const res = await fetch(`/api/scrape-coverage?days=${days}`);
+        const data = await res.json();
+
+        if (!res.ok) {
+          throw new Error(data.error || "Failed to fetch scrape coverage");
+        }
+        setReport(data.data);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to fetch scrape coverage");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReport();
+  }, [days]);
+
+  useEffect(() => {
+    fetchMetrics();
+  }, []);
+
+  const fetchMetrics = async () => {
+    try {
+      const res = await fetch("/api/scrape/metrics");
+      const data = await res.json();
+      if (res.ok) {
+        setMetrics(data.data);
+      }
+    } catch (err) {
+      console.error("Failed to fetch scraper metrics:", err);
+    }
+  };
+
+  const handleResetMetrics = async () => {
+    await fetch("/api/scrape/metrics", { method: "DELETE" });
+    fetchMetrics();
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Scraper Health</h1>
+          <p className="text-muted-foreground">
+            How often each scraper fills each listing field, per source and scraper version
+          </p>
+        </div>
+
+        <div className="w-40">
+          <Select value={days} onChange={(e) => setDays(e.target.value)}>
+            <option value="14">Last 14 days</option>
+            <option value="30">Last 30 days</option>
+            <option value="60">Last 60 days</option>
+            <option value="90">Last 90 days</option>
+          </Select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-destructive/10 border border-destructive/20 rounded-lg">
+          <p className="text-destructive">{error}</p>
+        </div>
+      )}
+
+      {metrics && <FetchMetrics metrics={metrics} onReset={handleResetMetrics} />}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <p className="text-muted-foreground">Loading coverage...</p>
+        </div>
+      ) : (
+        report && <FieldCoverageReport report={report} />
+      )}
+    </div>
+  );
+}
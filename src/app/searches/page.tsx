@@ -0,0 +1,138 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { SavedSearchForm } from "@/components/saved-searches/saved-search-form";
+import { SavedSearchesList } from "@/components/saved-searches/saved-searches-list";
+import type { SavedSearchInsert, SavedSearchWithLastRun } from "@/types/saved-search";
+
+export default function SavedSearchesPage() {
+  const [searches, setSearches] = useState<SavedSearchWithLastRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [runningId, setRunningId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSearches();
+  }, []);
+
+  const fetchSearches = async () => {
+    try {
+      const res = await fetch("/api/saved-searches");
+      const data = await res.json();
+      setSearches(data.data || []);
+    } catch (error) {
+      console.error("Failed to fetch saved searches:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async (search: SavedSearchInsert) => {
+    try {
+      const res = await fetch("/api/saved-searches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(search),
+      });
+
+      if (res.ok) {
+        setCreating(false);
+        await fetchSearches();
+      } else {
+        const error = await res.json();
+        alert(`Failed to save search: ${error.error}`);
+      }
+    } catch (error) {
+      console.error("Failed to save search:", error);
+      alert("Failed to save search. Please try again.");
+    }
+  };
+
+  const handleRun = async (search: SavedSearchWithLastRun) => {
+    setRunningId(search.id);
+
+    try {
+      const res = await fetch(`/api/saved-searches/${search.id}/run`, { method: "POST" });
+      if (!res.ok) {
+        const error = await res.json();
+        alert(`Failed to run search: ${error.error}`);
+      }
+      await fetchSearches();
+    } catch (error) {
+      console.error("Failed to run search:", error);
+      alert("Failed to run search. Please try again.");
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  const handleToggleActive = async (search: SavedSearchWithLastRun) => {
+    try {
+      const res = await fetch(`/api/saved-searches/${search.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ is_active: !search.is_active }),
+      });
+
+      if (res.ok) {
+        setSearches((prev) =>
+          prev.map((s) => (s.id === search.id ? { ...s, is_active: !search.is_active } : s))
+        );
+      } else {
+        const error = await res.json();
+        alert(`Failed to update search: ${error.error}`);
+      }
+    } catch (error) {
+      console.error("Failed to update search:", error);
+    }
+  };
+
+  const handleDelete = async (searchId: string) => {
+    if (!confirm("Are you sure you want to delete this saved search?")) return;
+
+    try {
+      const res = await fetch(`/api/saved-searches/${searchId}`, { method: "DELETE" });
+      if (res.ok) {
+        setSearches((prev) => prev.filter((s) => s.id !== searchId));
+      } else {
+        const error = await res.json();
+        alert(`Failed to delete search: ${error.error}`);
+      }
+    } catch (error) {
+      console.error("Failed to delete search:", error);
+      alert("Failed to delete search. Please try again.");
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Saved Searches</h1>
+          <p className="text-muted-foreground">
+            Re-crawled on a schedule; new listings and price drops show up in Alerts
+          </p>
+        </div>
+
+        {!creating && <Button onClick={() => setCreating(true)}>New Search</Button>}
+      </div>
+
+      {creating && <SavedSearchForm onSave={handleSave} onCancel={() => setCreating(false)} />}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <p className="text-muted-foreground">Loading saved searches...</p>
+        </div>
+      ) : (
+        <SavedSearchesList
+          searches={searches}
+          runningId={runningId}
+          onRun={handleRun}
+          onToggleActive={handleToggleActive}
+          onDelete={handleDelete}
+        />
+      )}
+    </div>
+  );
+}
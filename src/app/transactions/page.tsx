@@ -0,0 +1,316 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import type {
+  RecentTransaction,
+  RecentTransactionSummary,
+  SalePriceEstimateMethod,
+} from "@/types/recent-transaction";
+import type { ScrapingZone } from "@/types/scraping-zone";
+
+interface TransactionFilters {
+  from: string;
+  to: string;
+  zone: string;
+  arrondissement: string;
+  minUnits: string;
+  maxUnits: string;
+}
+
+const ESTIMATE_LABELS: Record<SalePriceEstimateMethod, string> = {
+  current_valuation: "Current roll value",
+  interpolated: "Between roll values",
+  extrapolated: "Roll value + growth",
+  previous_valuation: "Previous roll value",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS).toISOString().slice(0, 10);
+
+const DEFAULT_FILTERS: TransactionFilters = {
+  from: daysAgo(90),
+  to: "",
+  zone: "",
+  arrondissement: "",
+  minUnits: "",
+  maxUnits: "",
+};
+
+export default function TransactionsPage() {
+  const [transactions, setTransactions] = useState<RecentTransaction[]>([]);
+  const [summary, setSummary] = useState<RecentTransactionSummary | null>(null);
+  const [truncated, setTruncated] = useState(false);
+  const [zones, setZones] = useState<ScrapingZone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [localFilters, setLocalFilters] = useState<TransactionFilters>(DEFAULT_FILTERS);
+  const [filters, setFilters] = useState<TransactionFilters>(DEFAULT_FILTERS);
+
+  useEffect(() => {
+    const loadZones = async () => {
+      try {
+        const res = await fetch("/api/zones");
+        const data = await res.json();
+        if (res.ok) {
+          setZones(data.data || []);
+        }
+      } catch (err) {
+        console.error("Failed to fetch zones:", err);
+      }
+    };
+
+    loadZones();
+  }, []);
+
+  useEffect(() => {
+    const loadTransactions = async () => {
+      const params = new URLSearchParams();
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) params.set(key, value);
+      });
+
+      try {
+        const res = await fetch(`/api/recent-transactions?${params}`);
+        const data = await res.json();
+
+        if (res.ok) {
+          setTransactions(data.data || []);
+          setSummary(data.summary);
+          setTruncated(data.truncated);
+          setError(null);
+        } else {
+          setError(data.error || "Failed to load transactions");
+        }
+      } catch (err) {
+        console.error("Failed to fetch transactions:", err);
+        setError("Failed to load transactions");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTransactions();
+  }, [filters]);
+
+  const handleChange = (key: keyof TransactionFilters, value: string) => {
+    setLocalFilters({ ...localFilters, [key]: value });
+  };
+
+  const handleApply = () => {
+    setLoading(true);
+    setFilters(localFilters);
+  };
+
+  const handleReset = () => {
+    setLoading(true);
+    setLocalFilters(DEFAULT_FILTERS);
+    setFilters(DEFAULT_FILTERS);
+  };
+
+  const formatCurrency = (value: number | null) => {
+    if (value == null) return "N/A";
+    return new Intl.NumberFormat("en-CA", {
+      style: "currency",
+      currency: "CAD",
+      maximumFractionDigits: 0,
+    }).format(value);
+  };
+
+  // The map layer takes a number of days back from today
+  const mapDays = Math.max(Math.ceil((Date.now() - new Date(filters.from).getTime()) / DAY_MS), 1);
+  const mapHref = `/map?sales=${mapDays}${filters.zone ? `&zone=${filters.zone}` : ""}`;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Recent Transactions</h1>
+          <p className="text-muted-foreground">
+            Scraped buildings whose current owner registered in the period. The registration date is when
+            the deed was registered, so it is treated as the sale date; prices are estimated from the
+            assessment roll.
+          </p>
+        </div>
+        <Link href={mapHref}>
+          <Button variant="outline">Show on Map</Button>
+        </Link>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        <div className="bg-card border border-border rounded-xl p-4">
+          <p className="text-sm text-muted-foreground">Transactions</p>
+          <p className="text-2xl font-bold">{summary?.count.toLocaleString() ?? "-"}</p>
+        </div>
+        <div className="bg-card border border-border rounded-xl p-4">
+          <p className="text-sm text-muted-foreground">Estimated Volume</p>
+          <p className="text-2xl font-bold">{summary ? formatCurrency(summary.total_estimated_volume) : "-"}</p>
+        </div>
+        <div className="bg-card border border-border rounded-xl p-4">
+          <p className="text-sm text-muted-foreground">Median Price</p>
+          <p className="text-2xl font-bold">{summary ? formatCurrency(summary.median_estimated_price) : "-"}</p>
+        </div>
+        <div className="bg-card border border-border rounded-xl p-4">
+          <p className="text-sm text-muted-foreground">Median Price / Unit</p>
+          <p className="text-2xl font-bold">{summary ? formatCurrency(summary.median_price_per_unit) : "-"}</p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-card border border-border rounded-xl p-6 mb-6">
+        <h2 className="text-lg font-semibold mb-4">Filters</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 mb-4">
+          <Input
+            label="Registered From"
+            type="date"
+            value={localFilters.from}
+            onChange={(e) => handleChange("from", e.target.value)}
+          />
+          <Input
+            label="Registered To"
+            type="date"
+            value={localFilters.to}
+            onChange={(e) => handleChange("to", e.target.value)}
+          />
+          <Select
+            label="Zone"
+            value={localFilters.zone}
+            onChange={(e) => handleChange("zone", e.target.value)}
+          >
+            <option value="">All Zones</option>
+            {zones.map((zone) => (
+              <option key={zone.id} value={zone.id}>
+                {zone.name}
+              </option>
+            ))}
+          </Select>
+          <Input
+            label="Arrondissement"
+            placeholder="e.g. Plateau"
+            value={localFilters.arrondissement}
+            onChange={(e) => handleChange("arrondissement", e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleApply()}
+          />
+          <Input
+            label="Min Units"
+            type="number"
+            min="0"
+            placeholder="Min"
+            value={localFilters.minUnits}
+            onChange={(e) => handleChange("minUnits", e.target.value)}
+          />
+          <Input
+            label="Max Units"
+            type="number"
+            min="0"
+            placeholder="Max"
+            value={localFilters.maxUnits}
+            onChange={(e) => handleChange("maxUnits", e.target.value)}
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={handleApply} disabled={!localFilters.from}>
+            Apply Filters
+          </Button>
+          <Button variant="outline" onClick={handleReset}>
+            Reset
+          </Button>
+        </div>
+      </div>
+
+      {!loading && !error && truncated && (
+        <p className="mb-4 text-sm text-yellow-500">
+          Showing the {transactions.length.toLocaleString()} most recent registrations only. Narrow the dates or
+          filters to see them all.
+        </p>
+      )}
+
+      {/* Results */}
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <div className="text-center py-12 bg-card border border-border rounded-xl">
+          <p className="text-destructive">{error}</p>
+        </div>
+      ) : transactions.length === 0 ? (
+        <div className="text-center py-12 bg-card border border-border rounded-xl">
+          <p className="text-muted-foreground">
+            No owner registrations found in this period. Scrape more buildings or widen the dates.
+          </p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto bg-card border border-border rounded-xl">
+          <table className="w-full">
+            <thead className="bg-muted/50">
+              <tr>
+                {["Registered", "Address", "Arrondissement", "Units", "Owner", "Roll Value", "Estimated Price", "Per Unit"].map(
+                  (heading) => (
+                    <th
+                      key={heading}
+                      className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  )
+                )}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {transactions.map((transaction) => (
+                <tr key={transaction.matricule} className="hover:bg-muted/30 transition-colors">
+                  <td className="px-4 py-3 text-sm whitespace-nowrap">{transaction.registration_date}</td>
+                  <td className="px-4 py-3">
+                    <Link
+                      href={`/buildings/${transaction.matricule}`}
+                      className="font-medium text-foreground hover:text-primary"
+                    >
+                      {transaction.address || transaction.matricule}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">{transaction.arrondissement || "-"}</td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">{transaction.units ?? "-"}</td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">
+                    {transaction.owner_name ? (
+                      <Link
+                        href={`/owners/${encodeURIComponent(transaction.owner_name)}`}
+                        className="hover:text-foreground"
+                      >
+                        {transaction.owner_name}
+                      </Link>
+                    ) : (
+                      "-"
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground whitespace-nowrap">
+                    {formatCurrency(transaction.current_total_value)}
+                  </td>
+                  <td className="px-4 py-3 text-sm whitespace-nowrap">
+                    <div className="font-semibold">{formatCurrency(transaction.estimated_price)}</div>
+                    {transaction.estimate_method && (
+                      <div className="text-xs text-muted-foreground">
+                        {ESTIMATE_LABELS[transaction.estimate_method]}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground whitespace-nowrap">
+                    {transaction.estimated_price != null && transaction.units
+                      ? formatCurrency(transaction.estimated_price / transaction.units)
+                      : "-"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
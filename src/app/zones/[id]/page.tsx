@@ -1,11 +1,17 @@
 "use client";
 
-import { useState, useEffect, use } from "react";
+import { useState, useEffect, useCallback, useRef, use } from "react";
 import { useRouter } from "next/navigation";
 import dynamic from "next/dynamic";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import type { ScrapingZone } from "@/types/scraping-zone";
+import { ZoneScrapingJobs } from "@/components/zones/zone-scraping-jobs";
+import { describeZoneCriteria } from "@/lib/zones/zone-criteria";
+import { describeZoneShape } from "@/lib/zones/zone-geometry";
+import type { EvaluationFieldChange } from "@/types/montreal-evaluation";
+import type { ScrapingZone, ZoneScrapingJob } from "@/types/scraping-zone";
+
+const JOB_POLL_INTERVAL_MS = 5000;
 
 const ZoneBuildingsMap = dynamic(
   () => import("@/components/map/zone-buildings-map").then((mod) => ({ default: mod.ZoneBuildingsMap })),
@@ -26,17 +32,13 @@ export default function ZoneDetailPage({
   const [showOnlyUnscraped, setShowOnlyUnscraped] = useState(false);
   const [scrapingMatricule, setScrapingMatricule] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
+  const [jobs, setJobs] = useState<ZoneScrapingJob[]>([]);
+  const [updatingJobId, setUpdatingJobId] = useState<string | null>(null);
+  const hadActiveJob = useRef(false);
 
-  useEffect(() => {
-    fetchZoneDetails();
-    fetchProperties();
-  }, [resolvedParams.id]);
+  const hasActiveJob = jobs.some((job) => job.status === "pending" || job.status === "running");
 
-  useEffect(() => {
-    fetchProperties();
-  }, [showOnlyUnscraped]);
-
-  const fetchZoneDetails = async () => {
+  const fetchZoneDetails = useCallback(async () => {
     try {
       const [zoneRes, statsRes] = await Promise.all([
         fetch(`/api/zones/${resolvedParams.id}`),
@@ -52,9 +54,9 @@ export default function ZoneDetailPage({
     } finally {
       setLoading(false);
     }
-  };
+  }, [resolvedParams.id]);
 
-  const fetchProperties = async () => {
+  const fetchProperties = useCallback(async () => {
     setPropertiesLoading(true);
     try {
       const params = new URLSearchParams();
@@ -73,10 +75,97 @@ export default function ZoneDetailPage({
     } finally {
       setPropertiesLoading(false);
     }
+  }, [resolvedParams.id, showOnlyUnscraped]);
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/zones/${resolvedParams.id}/jobs`);
+      const data = await res.json();
+
+      if (res.ok) {
+        setJobs(data.data || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch scraping jobs:", error);
+    }
+  }, [resolvedParams.id]);
+
+  useEffect(() => {
+    fetchZoneDetails();
+    fetchJobs();
+  }, [fetchZoneDetails, fetchJobs]);
+
+  // Refetches when the zone or the unscraped filter changes
+  useEffect(() => {
+    fetchProperties();
+  }, [fetchProperties]);
+
+  // Follow the worker's progress while a job is queued or running
+  useEffect(() => {
+    if (hasActiveJob) {
+      hadActiveJob.current = true;
+      const interval = setInterval(fetchJobs, JOB_POLL_INTERVAL_MS);
+      return () => clearInterval(interval);
+    }
+
+    if (hadActiveJob.current) {
+      hadActiveJob.current = false;
+      fetchZoneDetails();
+      fetchProperties();
+    }
+  }, [hasActiveJob, fetchJobs, fetchZoneDetails, fetchProperties]);
+
+  const handleStartJob = async (requestedLimit: number) => {
+    setUpdatingJobId("new");
+    try {
+      const res = await fetch(`/api/zones/${resolvedParams.id}/jobs`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ requested_limit: requestedLimit }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        alert(`Error: ${data.error}`);
+      }
+      await fetchJobs();
+    } catch (error) {
+      console.error("Failed to start scraping job:", error);
+      alert("Failed to start scraping job. Please try again.");
+    } finally {
+      setUpdatingJobId(null);
+    }
+  };
+
+  const handleUpdateJob = async (job: ZoneScrapingJob, action: "cancel" | "resume") => {
+    setUpdatingJobId(job.id);
+    try {
+      const res = await fetch(`/api/zones/${resolvedParams.id}/jobs/${job.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        alert(`Error: ${data.error}`);
+      }
+      await fetchJobs();
+    } catch (error) {
+      console.error(`Failed to ${action} scraping job:`, error);
+      alert(`Failed to ${action} scraping job. Please try again.`);
+    } finally {
+      setUpdatingJobId(null);
+    }
   };
 
-  const handleScrapeSingle = async (matricule: string) => {
-    if (!confirm("Scrape this building now? This will take about 2-3 seconds.")) {
+  const handleScrapeSingle = async (matricule: string, rescrape = false) => {
+    const prompt = rescrape
+      ? "Scrape this building again to check for a new owner or valuation? This will take about 2-3 seconds."
+      : "Scrape this building now? This will take about 2-3 seconds.";
+    if (!confirm(prompt)) {
       return;
     }
 
@@ -85,12 +174,19 @@ export default function ZoneDetailPage({
       const res = await fetch(`/api/zones/${resolvedParams.id}/scrape-single`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ matricule }),
+        body: JSON.stringify({ matricule, rescrape }),
       });
 
       const data = await res.json();
 
-      if (res.ok) {
+      if (res.ok && rescrape) {
+        alert(
+          data.data.status === "changed"
+            ? `Changes found:\n\n${data.data.changes.map((c: EvaluationFieldChange) => `${c.label}: ${c.previous ?? "N/A"} → ${c.current ?? "N/A"}`).join("\n")}`
+            : "No changes since the last scrape."
+        );
+        await fetchProperties();
+      } else if (res.ok) {
         alert(`Successfully scraped!\n\nAddress: ${data.data.address}\nUnits: ${data.data.units}\nValue: ${data.data.value}`);
         await Promise.all([fetchZoneDetails(), fetchProperties()]);
       } else if (data.already_scraped) {
@@ -131,6 +227,7 @@ export default function ZoneDetailPage({
     : 0;
 
   const remaining = zone.total_properties - zone.scraped_count;
+  const criteriaSummary = describeZoneCriteria(zone);
 
   return (
     <div className="min-h-screen bg-background">
@@ -142,6 +239,11 @@ export default function ZoneDetailPage({
             {zone.description && (
               <p className="text-muted-foreground">{zone.description}</p>
             )}
+            {criteriaSummary.length > 0 && (
+              <p className="text-sm text-muted-foreground mt-1">
+                Buildings: {criteriaSummary.join(" · ")}
+              </p>
+            )}
           </div>
           <Button
             onClick={() => router.push(`/map?zone=${zone.id}`)}
@@ -185,8 +287,18 @@ export default function ZoneDetailPage({
           </Card>
 
           <Card className="p-6">
-            <h3 className="font-bold mb-4">Zone Bounds</h3>
+            <h3 className="font-bold mb-4">Zone Shape</h3>
             <div className="space-y-2 font-mono text-sm">
+              <div className="flex justify-between font-sans">
+                <span className="text-muted-foreground">Shape:</span>
+                <span>{describeZoneShape(zone.geometry)}</span>
+              </div>
+              {zone.arrondissement && (
+                <div className="flex justify-between font-sans">
+                  <span className="text-muted-foreground">Arrondissement:</span>
+                  <span>{zone.arrondissement}</span>
+                </div>
+              )}
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Min Latitude:</span>
                 <span>{zone.min_lat.toFixed(6)}</span>
@@ -207,6 +319,17 @@ export default function ZoneDetailPage({
           </Card>
         </div>
 
+        <div className="mb-8">
+          <ZoneScrapingJobs
+            jobs={jobs}
+            defaultLimit={zone.target_limit || Math.min(remaining, 50) || 50}
+            updatingJobId={updatingJobId}
+            onStart={handleStartJob}
+            onCancel={(job) => handleUpdateJob(job, "cancel")}
+            onResume={(job) => handleUpdateJob(job, "resume")}
+          />
+        </div>
+
         <Card className="p-6">
           <div className="flex items-center justify-between mb-4">
             <h3 className="font-bold">Buildings in Zone</h3>
@@ -300,9 +423,20 @@ export default function ZoneDetailPage({
                     </div>
                     <div className="ml-4 flex flex-col gap-2">
                       {property.is_scraped ? (
-                        <span className="px-2 py-1 bg-green-600/20 text-green-600 text-xs rounded-full text-center">
-                          Scraped
-                        </span>
+                        <>
+                          <span className="px-2 py-1 bg-green-600/20 text-green-600 text-xs rounded-full text-center">
+                            Scraped
+                          </span>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleScrapeSingle(property.matricule83, true)}
+                            disabled={scrapingMatricule === property.matricule83}
+                            className="text-xs"
+                          >
+                            {scrapingMatricule === property.matricule83 ? "Scraping..." : "Re-scrape"}
+                          </Button>
+                        </>
                       ) : (
                         <>
                           <span className="px-2 py-1 bg-yellow-600/20 text-yellow-600 text-xs rounded-full text-center">
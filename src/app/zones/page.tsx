@@ -7,7 +7,9 @@ import dynamic from "next/dynamic";
 import { Button } from "@/components/ui/button";
 import { ZonesList } from "@/components/zones/zones-list";
 import { ZoneCreationModal } from "@/components/zones/zone-creation-modal";
-import type { ScrapingZone, ZoneBounds } from "@/types/scraping-zone";
+import { ArrondissementPicker } from "@/components/zones/arrondissement-picker";
+import type { Arrondissement } from "@/hooks/useArrondissements";
+import type { ScrapingZone, ZoneCriteria, ZoneGeometry } from "@/types/scraping-zone";
 import type { PropertyEvaluation } from "@/types/property-evaluation";
 
 const ZoneDrawingMap = dynamic(
@@ -21,7 +23,8 @@ export default function ZonesPage() {
   const [evaluations, setEvaluations] = useState<PropertyEvaluation[]>([]);
   const [loading, setLoading] = useState(true);
   const [drawingMode, setDrawingMode] = useState(false);
-  const [pendingZone, setPendingZone] = useState<ZoneBounds | null>(null);
+  const [pendingZone, setPendingZone] = useState<{ geometry: ZoneGeometry; arrondissement?: string } | null>(null);
+  const [pickingArrondissement, setPickingArrondissement] = useState(false);
   const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
 
   useEffect(() => {
@@ -51,17 +54,23 @@ export default function ZonesPage() {
     }
   };
 
-  const handleZoneDrawn = (bounds: ZoneBounds) => {
-    setPendingZone(bounds);
+  const handleZoneDrawn = (geometry: ZoneGeometry) => {
+    setPendingZone({ geometry });
     setDrawingMode(false);
   };
 
+  const handleArrondissementSelected = (arrondissement: Arrondissement) => {
+    setPendingZone({ geometry: arrondissement.geometry, arrondissement: arrondissement.name });
+    setPickingArrondissement(false);
+  };
+
   const handleSaveZone = async (data: {
     name: string;
     description: string;
     targetLimit: number;
     minUnits: number;
     maxUnits: number | null;
+    criteria: ZoneCriteria;
   }) => {
     if (!pendingZone) return;
 
@@ -75,10 +84,9 @@ export default function ZonesPage() {
           target_limit: data.targetLimit,
           min_units: data.minUnits,
           max_units: data.maxUnits,
-          min_lat: pendingZone.minLat,
-          max_lat: pendingZone.maxLat,
-          min_lng: pendingZone.minLng,
-          max_lng: pendingZone.maxLng,
+          criteria: data.criteria,
+          geometry: pendingZone.geometry,
+          arrondissement: pendingZone.arrondissement,
         }),
       });
 
@@ -134,6 +142,12 @@ export default function ZonesPage() {
             >
               {viewMode === 'list' ? 'Map View' : 'List View'}
             </Button>
+            <Button
+              variant="outline"
+              onClick={() => setPickingArrondissement(true)}
+            >
+              From Arrondissement
+            </Button>
             <Button
               onClick={() => {
                 setViewMode('map');
@@ -168,9 +182,17 @@ export default function ZonesPage() {
         )}
       </div>
 
+      {pickingArrondissement && (
+        <ArrondissementPicker
+          onSelect={handleArrondissementSelected}
+          onCancel={() => setPickingArrondissement(false)}
+        />
+      )}
+
       {pendingZone && (
         <ZoneCreationModal
-          bounds={pendingZone}
+          geometry={pendingZone.geometry}
+          defaultName={pendingZone.arrondissement}
           onSave={handleSaveZone}
           onCancel={() => setPendingZone(null)}
         />
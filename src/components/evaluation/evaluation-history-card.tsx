@@ -0,0 +1,124 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import type {
+  EvaluationChangeKind,
+  EvaluationChangeSet,
+  EvaluationFieldChange,
+  MontrealEvaluationSnapshot,
+} from "@/types/montreal-evaluation";
+
+interface EvaluationHistoryCardProps {
+  matricule: string;
+  scrapedAt: string; // Refetches after a re-scrape
+}
+
+interface EvaluationHistory {
+  snapshots: MontrealEvaluationSnapshot[];
+  changeSets: EvaluationChangeSet[];
+}
+
+// Owner, sale and valuation changes are what we re-scrape for; the rest is dimmed
+const KIND_STYLES: Record<EvaluationChangeKind, { row: string; badge: string; label: string }> = {
+  sale: { row: "bg-red-600/10", badge: "bg-red-600/20 text-red-400", label: "Sale signal" },
+  owner: { row: "bg-green-600/10", badge: "bg-green-600/20 text-green-400", label: "Owner change" },
+  valuation: { row: "bg-cyan-600/10", badge: "bg-cyan-600/20 text-cyan-400", label: "New valuation" },
+  other: { row: "", badge: "bg-gray-600/20 text-gray-400", label: "Other" },
+};
+
+const CURRENCY_FIELDS = new Set([
+  "current_land_value",
+  "current_building_value",
+  "current_total_value",
+  "previous_total_value",
+  "taxable_value",
+  "non_taxable_value",
+]);
+
+export function EvaluationHistoryCard({ matricule, scrapedAt }: EvaluationHistoryCardProps) {
+  const [history, setHistory] = useState<EvaluationHistory | null>(null);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        const response = await fetch(`/api/montreal-evaluation/history?matricule=${matricule}`);
+        const result = await response.json();
+
+        if (response.ok) {
+          setHistory(result.data);
+        }
+      } catch (err) {
+        console.error("Failed to load evaluation history:", err);
+      }
+    };
+
+    loadHistory();
+  }, [matricule, scrapedAt]);
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString("en-CA");
+
+  const formatValue = (change: EvaluationFieldChange, value: string | number | null) => {
+    if (value === null) return "N/A";
+    if (CURRENCY_FIELDS.has(change.field)) return `${Number(value).toLocaleString("en-CA")} $`;
+    return typeof value === "number" ? value.toLocaleString("en-CA") : value;
+  };
+
+  const firstSnapshot = history?.snapshots[0];
+
+  return (
+    <Card className="p-6 bg-gray-900 border-gray-800 md:col-span-2">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-red-400">Change History</h2>
+        {history && history.snapshots.length > 0 && (
+          <span className="text-sm text-gray-400">
+            {history.snapshots.length} {history.snapshots.length === 1 ? "version" : "versions"}
+          </span>
+        )}
+      </div>
+
+      {!history || !firstSnapshot ? (
+        <p className="text-gray-400">No snapshots recorded yet. Re-scrape to start tracking changes.</p>
+      ) : history.changeSets.length === 0 ? (
+        <p className="text-gray-400">No changes since the first scrape on {formatDate(firstSnapshot.captured_at)}.</p>
+      ) : (
+        <div className="space-y-6">
+          {history.changeSets.map((changeSet) => {
+            const kinds = [...new Set(changeSet.changes.map((c) => c.kind))].filter((k) => k !== "other");
+
+            return (
+              <div key={changeSet.snapshotId}>
+                <div className="flex flex-wrap items-center gap-2 mb-2">
+                  <span className="font-semibold">{formatDate(changeSet.capturedAt)}</span>
+                  <span className="text-sm text-gray-500">vs {formatDate(changeSet.previousCapturedAt)}</span>
+                  {kinds.map((kind) => (
+                    <span key={kind} className={`px-2 py-0.5 text-xs rounded-full ${KIND_STYLES[kind].badge}`}>
+                      {KIND_STYLES[kind].label}
+                    </span>
+                  ))}
+                </div>
+                <table className="w-full text-sm">
+                  <tbody>
+                    {changeSet.changes.map((change) => (
+                      <tr
+                        key={change.field}
+                        className={`border-t border-gray-800 ${KIND_STYLES[change.kind].row} ${
+                          change.kind === "other" ? "text-gray-400" : ""
+                        }`}
+                      >
+                        <td className="py-2 px-2 text-gray-400 w-1/4">{change.label}</td>
+                        <td className="py-2 px-2 line-through text-gray-500">{formatValue(change, change.previous)}</td>
+                        <td className="py-2 px-2 text-gray-500">→</td>
+                        <td className="py-2 px-2 font-semibold">{formatValue(change, change.current)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+}
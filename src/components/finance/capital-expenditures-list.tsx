@@ -0,0 +1,151 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import type { CapitalExpenditure, CreateCapitalExpenditureInput } from "@/types/rent-increase";
+import type { PropertyUnit } from "@/types/rent-roll";
+
+interface CapitalExpendituresListProps {
+  propertyId: string;
+  year: number;
+  items: CapitalExpenditure[];
+  units: PropertyUnit[];
+  onChange: () => void;
+}
+
+export function CapitalExpendituresList({
+  propertyId,
+  year,
+  items,
+  units,
+  onChange,
+}: CapitalExpendituresListProps) {
+  const emptyDraft: CreateCapitalExpenditureInput = { year, description: "", amount: 0, unit_id: null };
+  const [draft, setDraft] = useState<CreateCapitalExpenditureInput>(emptyDraft);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat("en-CA", {
+      style: "currency",
+      currency: "CAD",
+      maximumFractionDigits: 0,
+    }).format(price);
+  };
+
+  const unitLabel = (unitId: string | null) => {
+    if (!unitId) return "Immeuble";
+    const unit = units.find((u) => u.id === unitId);
+    return unit ? `Unit ${unit.unit_number}` : "Unit";
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/properties/${propertyId}/capital-expenditures`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...draft, year }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to add work");
+      }
+
+      setDraft(emptyDraft);
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add work");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (capexId: string) => {
+    if (!confirm("Delete this work entry?")) return;
+
+    try {
+      const response = await fetch(
+        `/api/properties/${propertyId}/capital-expenditures/${capexId}`,
+        { method: "DELETE" }
+      );
+
+      if (!response.ok) {
+        throw new Error("Failed to delete work");
+      }
+
+      onChange();
+    } catch {
+      alert("Failed to delete work");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {items.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No major work recorded for {year}</p>
+      ) : (
+        <div className="space-y-1 text-sm">
+          {items.map((item) => (
+            <div key={item.id} className="flex justify-between items-center">
+              <span>
+                {item.description}
+                <span className="text-muted-foreground"> · {unitLabel(item.unit_id)}</span>
+              </span>
+              <span className="flex items-center gap-3">
+                {formatPrice(item.amount)}
+                <button
+                  onClick={() => handleDelete(item.id)}
+                  className="text-xs text-muted-foreground hover:text-destructive"
+                >
+                  Delete
+                </button>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+        <Input
+          id="capex-description"
+          label="Description"
+          value={draft.description}
+          onChange={(e) => setDraft((prev) => ({ ...prev, description: e.target.value }))}
+          placeholder="Toiture"
+          required
+        />
+        <Input
+          id="capex-amount"
+          label="Amount"
+          type="number"
+          value={draft.amount || ""}
+          onChange={(e) => setDraft((prev) => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))}
+          required
+        />
+        <Select
+          label="Applies to"
+          value={draft.unit_id ?? ""}
+          onChange={(e) => setDraft((prev) => ({ ...prev, unit_id: e.target.value || null }))}
+        >
+          <option value="">Whole building</option>
+          {units.map((unit) => (
+            <option key={unit.id} value={unit.id}>
+              Unit {unit.unit_number}
+            </option>
+          ))}
+        </Select>
+        <Button type="submit" loading={saving}>
+          Add Work
+        </Button>
+      </form>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
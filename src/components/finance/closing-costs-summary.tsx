@@ -0,0 +1,75 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ClosingCostEstimate } from "@/types/closing-costs";
+
+interface ClosingCostsSummaryProps {
+  propertyId: string;
+}
+
+export function ClosingCostsSummary({ propertyId }: ClosingCostsSummaryProps) {
+  const [estimate, setEstimate] = useState<ClosingCostEstimate | null>(null);
+
+  useEffect(() => {
+    const fetchEstimate = async () => {
+      try {
+        const response = await fetch(`/api/properties/${propertyId}/closing-costs`);
+        const result = await response.json();
+
+        if (response.ok) {
+          setEstimate(result.data);
+        }
+      } catch {
+        // Closing costs are informational; leave the section hidden on failure
+      }
+    };
+
+    fetchEstimate();
+  }, [propertyId]);
+
+  if (!estimate) return null;
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat("en-CA", {
+      style: "currency",
+      currency: "CAD",
+      maximumFractionDigits: 0,
+    }).format(price);
+  };
+
+  return (
+    <div className="space-y-2">
+      <span className="text-sm font-medium">Frais d&apos;acquisition</span>
+      <div className="pl-3 space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">
+            Taxe de bienvenue{estimate.jurisdiction === "montreal" ? " (Montréal)" : ""}
+          </span>
+          <span>{formatPrice(estimate.welcomeTax)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Notaire</span>
+          <span>{formatPrice(estimate.notaryFees)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Inspection</span>
+          <span>{formatPrice(estimate.inspectionFees)}</span>
+        </div>
+        {estimate.financingFees > 0 && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Financement</span>
+            <span>{formatPrice(estimate.financingFees)}</span>
+          </div>
+        )}
+        <div className="flex justify-between font-medium border-t border-border pt-1 mt-1">
+          <span className="text-muted-foreground">Total</span>
+          <span>{formatPrice(estimate.totalClosingCosts)}</span>
+        </div>
+      </div>
+      <div className="flex justify-between font-medium">
+        <span>Coût total d&apos;acquisition</span>
+        <span className="text-primary">{formatPrice(estimate.totalAcquisitionCost)}</span>
+      </div>
+    </div>
+  );
+}
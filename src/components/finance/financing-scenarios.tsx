@@ -0,0 +1,343 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { Card, CardHeader, CardContent } from "@/components/ui/card";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import {
+  DEFAULT_FINANCING_SCENARIO,
+  INSURANCE_PROGRAM_LABELS,
+  analyzeFinancing,
+} from "@/lib/finance/financing";
+import { buildProForma, DEFAULT_UNDERWRITING_ASSUMPTIONS } from "@/lib/finance/underwriting";
+import type { Property } from "@/types/property";
+import type {
+  CreateFinancingScenarioInput,
+  FinancingScenario,
+  InsuranceProgram,
+} from "@/types/financing";
+
+interface FinancingScenariosProps {
+  property: Property;
+}
+
+export function FinancingScenarios({ property }: FinancingScenariosProps) {
+  const [scenarios, setScenarios] = useState<FinancingScenario[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CreateFinancingScenarioInput>(DEFAULT_FINANCING_SCENARIO);
+
+  const netOperatingIncome = property.potential_revenue
+    ? buildProForma(property, DEFAULT_UNDERWRITING_ASSUMPTIONS).netOperatingIncome
+    : null;
+
+  useEffect(() => {
+    fetchScenarios();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [property.id]);
+
+  const fetchScenarios = async () => {
+    try {
+      const response = await fetch(`/api/properties/${property.id}/financing-scenarios`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to load financing scenarios");
+      }
+
+      setScenarios(result.data || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load financing scenarios");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim()) {
+      setError("Scenario name is required");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/properties/${property.id}/financing-scenarios`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to save scenario");
+      }
+
+      setScenarios((prev) => [...prev, result.data]);
+      setDraft(DEFAULT_FINANCING_SCENARIO);
+      setShowForm(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save scenario");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (scenarioId: string) => {
+    if (!confirm("Delete this financing scenario?")) return;
+
+    try {
+      const response = await fetch(
+        `/api/properties/${property.id}/financing-scenarios/${scenarioId}`,
+        { method: "DELETE" }
+      );
+
+      if (!response.ok) {
+        throw new Error("Failed to delete scenario");
+      }
+
+      setScenarios((prev) => prev.filter((s) => s.id !== scenarioId));
+    } catch {
+      alert("Failed to delete scenario");
+    }
+  };
+
+  const updateDraft = <K extends keyof CreateFinancingScenarioInput>(
+    field: K,
+    value: CreateFinancingScenarioInput[K]
+  ) => {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const formatPrice = (value: number) => {
+    return new Intl.NumberFormat("en-CA", {
+      style: "currency",
+      currency: "CAD",
+      maximumFractionDigits: 0,
+    }).format(value);
+  };
+
+  const formatRatio = (value: number | null) => (value == null ? "N/A" : value.toFixed(2));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Financing Scenarios</h2>
+          <Button size="sm" variant="outline" onClick={() => setShowForm((v) => !v)}>
+            {showForm ? "Cancel" : "Add"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {showForm && (
+          <form onSubmit={handleSave} className="space-y-3 border border-border rounded-lg p-3">
+            <Input
+              id="financing-name"
+              label="Name"
+              value={draft.name}
+              onChange={(e) => updateDraft("name", e.target.value)}
+              required
+            />
+            <Select
+              label="Insurance"
+              value={draft.insurance_program}
+              onChange={(e) => updateDraft("insurance_program", e.target.value as InsuranceProgram)}
+            >
+              {Object.entries(INSURANCE_PROGRAM_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </Select>
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                id="financing-down-payment"
+                label="Down %"
+                type="number"
+                step="0.5"
+                value={draft.down_payment_percent}
+                onChange={(e) => updateDraft("down_payment_percent", parseFloat(e.target.value) || 0)}
+              />
+              <Input
+                id="financing-rate"
+                label="Rate %"
+                type="number"
+                step="0.01"
+                value={draft.interest_rate}
+                onChange={(e) => updateDraft("interest_rate", parseFloat(e.target.value) || 0)}
+              />
+              <Input
+                id="financing-amortization"
+                label="Amortization"
+                type="number"
+                value={draft.amortization_years}
+                onChange={(e) => updateDraft("amortization_years", parseInt(e.target.value) || 0)}
+              />
+              <Input
+                id="financing-term"
+                label="Term (yrs)"
+                type="number"
+                value={draft.term_years ?? 5}
+                onChange={(e) => updateDraft("term_years", parseInt(e.target.value) || 5)}
+              />
+              {draft.insurance_program === "mli_select" && (
+                <Input
+                  id="financing-mli-points"
+                  label="MLI Points"
+                  type="number"
+                  value={draft.mli_select_points ?? ""}
+                  onChange={(e) =>
+                    updateDraft("mli_select_points", e.target.value ? parseInt(e.target.value) : null)
+                  }
+                />
+              )}
+              <Input
+                id="financing-closing-costs"
+                label="Closing Costs"
+                type="number"
+                value={draft.closing_costs ?? ""}
+                onChange={(e) =>
+                  updateDraft("closing_costs", e.target.value ? parseFloat(e.target.value) : null)
+                }
+              />
+              <Input
+                id="financing-price"
+                label="Price Override"
+                type="number"
+                value={draft.purchase_price ?? ""}
+                onChange={(e) =>
+                  updateDraft("purchase_price", e.target.value ? parseFloat(e.target.value) : null)
+                }
+                placeholder={property.price ? String(property.price) : ""}
+              />
+            </div>
+            <Button type="submit" size="sm" className="w-full" loading={saving}>
+              Save Scenario
+            </Button>
+          </form>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <LoadingSpinner />
+          </div>
+        ) : scenarios.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No financing scenarios saved yet</p>
+        ) : (
+          scenarios.map((scenario) => {
+            const analysis = analyzeFinancing(scenario, {
+              price: property.price,
+              units: property.units,
+              netOperatingIncome,
+            });
+            const expanded = expandedId === scenario.id;
+
+            return (
+              <div key={scenario.id} className="border border-border rounded-lg p-3 space-y-1 text-sm">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="font-medium">{scenario.name}</span>
+                  <button
+                    onClick={() => handleDelete(scenario.id)}
+                    className="text-xs text-muted-foreground hover:text-destructive"
+                  >
+                    Delete
+                  </button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {INSURANCE_PROGRAM_LABELS[scenario.insurance_program]} · {scenario.down_payment_percent}% down ·{" "}
+                  {scenario.interest_rate}% · {scenario.amortization_years} yrs
+                </p>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Monthly Payment</span>
+                  <span className="text-primary font-medium">{formatPrice(analysis.monthlyPayment)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Cash to Close</span>
+                  <span>{formatPrice(analysis.cashToClose)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">DSCR</span>
+                  <span
+                    className={
+                      analysis.debtServiceCoverageRatio != null && analysis.debtServiceCoverageRatio < 1
+                        ? "text-destructive"
+                        : ""
+                    }
+                  >
+                    {formatRatio(analysis.debtServiceCoverageRatio)}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">
+                    Stress Test ({analysis.qualifyingRate.toFixed(2)}%)
+                  </span>
+                  <span>
+                    {formatPrice(analysis.qualifyingMonthlyPayment)} · DSCR{" "}
+                    {formatRatio(analysis.qualifyingDebtServiceCoverageRatio)}
+                  </span>
+                </div>
+                {analysis.insurancePremium > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">
+                      CMHC Premium ({analysis.insurancePremiumRate.toFixed(2)}%)
+                    </span>
+                    <span>{formatPrice(analysis.insurancePremium)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Balance after {scenario.term_years} yrs</span>
+                  <span>{formatPrice(analysis.balanceAtTermEnd)}</span>
+                </div>
+
+                {analysis.warnings.map((warning) => (
+                  <p key={warning} className="text-xs text-destructive">
+                    ⚠ {warning}
+                  </p>
+                ))}
+
+                <button
+                  onClick={() => setExpandedId(expanded ? null : scenario.id)}
+                  className="text-xs text-primary hover:underline"
+                >
+                  {expanded ? "Hide" : "Show"} amortization schedule
+                </button>
+
+                {expanded && (
+                  <table className="w-full text-xs mt-2">
+                    <thead>
+                      <tr className="text-muted-foreground">
+                        <th className="text-left font-normal">Year</th>
+                        <th className="text-right font-normal">Interest</th>
+                        <th className="text-right font-normal">Principal</th>
+                        <th className="text-right font-normal">Balance</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analysis.schedule.map((row) => (
+                        <tr key={row.year}>
+                          <td>{row.year}</td>
+                          <td className="text-right">{formatPrice(row.interest)}</td>
+                          <td className="text-right">{formatPrice(row.principal)}</td>
+                          <td className="text-right">{formatPrice(row.endingBalance)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
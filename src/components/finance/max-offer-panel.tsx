@@ -0,0 +1,159 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { Card, CardHeader, CardContent } from "@/components/ui/card";
+import { DEFAULT_FINANCING_SCENARIO } from "@/lib/finance/financing";
+import {
+  DEFAULT_MAX_OFFER_CONSTRAINTS,
+  MAX_OFFER_CONSTRAINT_LABELS,
+  solveMaxOffer,
+} from "@/lib/finance/max-offer";
+import type { Property } from "@/types/property";
+import type { FinancingScenario } from "@/types/financing";
+import type { MaxOfferConstraints } from "@/types/max-offer";
+
+interface MaxOfferPanelProps {
+  property: Property;
+}
+
+const CONSTRAINT_FIELDS: { key: keyof MaxOfferConstraints; label: string; step: string }[] = [
+  { key: "targetCapRate", label: "Target Cap Rate %", step: "0.25" },
+  { key: "minMonthlyCashFlow", label: "Min Cash Flow ($/mo)", step: "50" },
+  { key: "minDebtServiceCoverageRatio", label: "Min DSCR", step: "0.05" },
+];
+
+export function MaxOfferPanel({ property }: MaxOfferPanelProps) {
+  const [constraints, setConstraints] = useState<MaxOfferConstraints>(DEFAULT_MAX_OFFER_CONSTRAINTS);
+  const [scenarios, setScenarios] = useState<FinancingScenario[]>([]);
+  const [scenarioId, setScenarioId] = useState("");
+
+  useEffect(() => {
+    const fetchScenarios = async () => {
+      try {
+        const response = await fetch(`/api/properties/${property.id}/financing-scenarios`);
+        const result = await response.json();
+
+        if (response.ok) {
+          setScenarios(result.data || []);
+        }
+      } catch {
+        // Fall back to the default scenario
+      }
+    };
+
+    fetchScenarios();
+  }, [property.id]);
+
+  const scenario = scenarios.find((s) => s.id === scenarioId) ?? DEFAULT_FINANCING_SCENARIO;
+
+  const result = useMemo(
+    () => solveMaxOffer(property, constraints, scenario),
+    [property, constraints, scenario]
+  );
+
+  const updateConstraint = (key: keyof MaxOfferConstraints, value: string) => {
+    setConstraints((prev) => ({ ...prev, [key]: value === "" ? null : parseFloat(value) }));
+  };
+
+  const formatPrice = (value: number) => {
+    return new Intl.NumberFormat("en-CA", {
+      style: "currency",
+      currency: "CAD",
+      maximumFractionDigits: 0,
+    }).format(value);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="text-lg font-semibold">Max Offer</h2>
+        <p className="text-sm text-muted-foreground">
+          Highest price meeting every target; leave a field empty to ignore it
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {CONSTRAINT_FIELDS.map((field) => (
+            <Input
+              key={field.key}
+              id={`max-offer-${field.key}`}
+              label={field.label}
+              type="number"
+              step={field.step}
+              value={constraints[field.key] ?? ""}
+              onChange={(e) => updateConstraint(field.key, e.target.value)}
+            />
+          ))}
+          <Select
+            label="Financing"
+            value={scenarioId}
+            onChange={(e) => setScenarioId(e.target.value)}
+          >
+            <option value="">{DEFAULT_FINANCING_SCENARIO.name}</option>
+            {scenarios.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="bg-secondary rounded-lg p-3">
+            <p className="text-xs text-muted-foreground">Max Offer</p>
+            <p className="text-xl font-bold text-primary">
+              {result.maxPrice != null ? formatPrice(result.maxPrice) : "N/A"}
+            </p>
+            {result.bindingConstraint && (
+              <p className="text-xs text-muted-foreground">
+                Limited by {MAX_OFFER_CONSTRAINT_LABELS[result.bindingConstraint].toLowerCase()}
+              </p>
+            )}
+          </div>
+          <div className="bg-secondary rounded-lg p-3">
+            <p className="text-xs text-muted-foreground">Gap to List Price</p>
+            <p
+              className={`text-xl font-bold ${
+                result.gapToList != null && result.gapToList > 0 ? "text-destructive" : ""
+              }`}
+            >
+              {result.gapToList != null ? formatPrice(result.gapToList) : "N/A"}
+            </p>
+            {result.gapPercent != null && (
+              <p className="text-xs text-muted-foreground">
+                {result.gapPercent > 0
+                  ? `${result.gapPercent.toFixed(1)}% above max offer`
+                  : `${Math.abs(result.gapPercent).toFixed(1)}% below max offer`}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {result.limits.length > 0 && (
+          <div className="space-y-1 text-sm">
+            {result.limits.map((limit) => (
+              <div key={limit.constraint} className="flex justify-between">
+                <span className="text-muted-foreground">
+                  {MAX_OFFER_CONSTRAINT_LABELS[limit.constraint]}
+                </span>
+                <span className={limit.constraint === result.bindingConstraint ? "font-medium" : ""}>
+                  {formatPrice(limit.maxPrice)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {result.warnings.length > 0 && (
+          <ul className="text-xs text-muted-foreground space-y-1">
+            {result.warnings.map((warning) => (
+              <li key={warning}>⚠ {warning}</li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardHeader, CardContent } from "@/components/ui/card";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import type { RentCompsResult } from "@/types/rent-comps";
+
+interface RentCompsPanelProps {
+  propertyId: string;
+}
+
+export function RentCompsPanel({ propertyId }: RentCompsPanelProps) {
+  const [comps, setComps] = useState<RentCompsResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [radiusKm, setRadiusKm] = useState(1.5);
+
+  useEffect(() => {
+    const fetchComps = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(
+          `/api/properties/${propertyId}/rent-comps?radiusKm=${radiusKm}`
+        );
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || "Failed to load rent comps");
+        }
+
+        setComps(result.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load rent comps");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchComps();
+  }, [propertyId, radiusKm]);
+
+  const formatPrice = (price: number | null) => {
+    if (price == null) return "N/A";
+    return new Intl.NumberFormat("en-CA", {
+      style: "currency",
+      currency: "CAD",
+      maximumFractionDigits: 0,
+    }).format(price);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold">Rent Comps</h2>
+            <p className="text-sm text-muted-foreground">
+              Nearby Centris, Facebook and Kijiji rentals with the same bedroom count
+            </p>
+          </div>
+          <select
+            value={radiusKm}
+            onChange={(e) => setRadiusKm(parseFloat(e.target.value))}
+            className="rounded-lg border border-border bg-background px-2 py-1 text-sm"
+          >
+            {[0.5, 1, 1.5, 2, 3, 5].map((km) => (
+              <option key={km} value={km}>
+                {km} km
+              </option>
+            ))}
+          </select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <LoadingSpinner />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-muted-foreground">{error}</p>
+        ) : comps && (
+          <>
+            {comps.unitTypes.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-muted-foreground text-xs">
+                    <th className="text-left font-normal">Unit</th>
+                    <th className="text-right font-normal">Comps</th>
+                    <th className="text-right font-normal">25th</th>
+                    <th className="text-right font-normal">Median</th>
+                    <th className="text-right font-normal">75th</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comps.unitTypes.map((unitType) => (
+                    <tr key={unitType.label} className={unitType.lowConfidence ? "text-muted-foreground" : ""}>
+                      <td>
+                        {unitType.units} x {unitType.label}
+                      </td>
+                      <td className="text-right">{unitType.stats?.count ?? 0}</td>
+                      <td className="text-right">{formatPrice(unitType.stats?.p25 ?? null)}</td>
+                      <td className="text-right font-medium">{formatPrice(unitType.estimatedMonthlyRent)}</td>
+                      <td className="text-right">{formatPrice(unitType.stats?.p75 ?? null)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Estimated Gross Revenue</span>
+                <span className="text-primary font-medium">
+                  {formatPrice(comps.estimatedGrossPotentialRevenue)}/yr
+                </span>
+              </div>
+              {comps.advertisedPotentialRevenue != null && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Advertised Revenue</span>
+                  <span>{formatPrice(comps.advertisedPotentialRevenue)}/yr</span>
+                </div>
+              )}
+              {comps.revenueGapPercent != null && (
+                <div className="flex justify-between font-medium border-t border-border pt-1 mt-1">
+                  <span className="text-muted-foreground">Market vs Advertised</span>
+                  <span className={comps.revenueGapPercent < 0 ? "text-destructive" : "text-primary"}>
+                    {comps.revenueGapPercent > 0 ? "+" : ""}
+                    {comps.revenueGapPercent.toFixed(1)}%
+                  </span>
+                </div>
+              )}
+            </div>
+
+            {comps.warnings.length > 0 && (
+              <ul className="text-xs text-muted-foreground space-y-1">
+                {comps.warnings.map((warning) => (
+                  <li key={warning}>⚠ {warning}</li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import type { RentIncreaseResult } from "@/types/rent-increase";
+
+interface RentIncreaseJustificationProps {
+  result: RentIncreaseResult;
+  propertyAddress: string;
+}
+
+// One printable page per unit detailing how its increase was computed
+export function RentIncreaseJustification({ result, propertyAddress }: RentIncreaseJustificationProps) {
+  const formatMoney = (value: number) => {
+    return new Intl.NumberFormat("en-CA", {
+      style: "currency",
+      currency: "CAD",
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(value);
+  };
+
+  if (result.units.length === 0) {
+    return <p className="text-sm text-muted-foreground">No leased units to compute</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {result.units.map((unit) => (
+        <section
+          key={unit.leaseId}
+          className="bg-card border border-border rounded-xl p-6 break-inside-avoid print:break-after-page print:border-0 print:p-0"
+        >
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h2 className="text-lg font-semibold">
+                Calcul de l&apos;augmentation de loyer {result.year}
+              </h2>
+              <p className="text-sm text-muted-foreground">
+                {propertyAddress} · Logement {unit.unitNumber}
+              </p>
+              <p className="text-sm text-muted-foreground">Locataire : {unit.tenantName}</p>
+            </div>
+            <div className="text-right">
+              <p className="text-xs text-muted-foreground">Loyer actuel</p>
+              <p className="text-lg font-semibold">{formatMoney(unit.currentRent)}</p>
+            </div>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-muted-foreground text-xs border-b border-border">
+                <th className="text-left font-normal py-2">Poste</th>
+                <th className="text-right font-normal">Montant de base</th>
+                <th className="text-right font-normal">Augmentation / mois</th>
+              </tr>
+            </thead>
+            <tbody>
+              {unit.components.map((component) => (
+                <tr key={component.key} className="border-b border-border">
+                  <td className="py-1.5">{component.label}</td>
+                  <td className="text-right text-muted-foreground">{formatMoney(component.basis)}</td>
+                  <td className="text-right">{formatMoney(component.monthlyIncrease)}</td>
+                </tr>
+              ))}
+              <tr className="font-medium">
+                <td className="py-2">Total</td>
+                <td />
+                <td className="text-right">{formatMoney(unit.monthlyIncrease)}</td>
+              </tr>
+            </tbody>
+          </table>
+
+          <div className="mt-4 flex justify-between text-sm">
+            <span className="text-muted-foreground">
+              Part du logement dans les loyers de l&apos;immeuble : {(unit.share * 100).toFixed(2)}%
+            </span>
+            <span className="font-semibold">
+              Nouveau loyer : {formatMoney(unit.newRent)} ({unit.increasePercent.toFixed(2)}%)
+            </span>
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+}
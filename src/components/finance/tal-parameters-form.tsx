@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { CreateTalParametersInput, TalParameters } from "@/types/rent-increase";
+
+interface TalParametersFormProps {
+  year: number;
+  parameters: TalParameters | null; // Stored parameters of the year, if any
+  onSaved: (parameters: TalParameters) => void;
+}
+
+const PERCENT_FIELDS: { key: keyof Omit<CreateTalParametersInput, "year" | "notes">; label: string }[] = [
+  { key: "net_income_percent", label: "Revenu net %" },
+  { key: "heating_oil_percent", label: "Mazout %" },
+  { key: "heating_gas_percent", label: "Gaz %" },
+  { key: "heating_electricity_percent", label: "Chauffage électrique %" },
+  { key: "electricity_percent", label: "Électricité %" },
+  { key: "capex_rate_percent", label: "Réparations majeures %" },
+];
+
+function toInput(year: number, parameters: TalParameters | null): CreateTalParametersInput {
+  return {
+    year,
+    net_income_percent: parameters?.net_income_percent ?? 0,
+    heating_oil_percent: parameters?.heating_oil_percent ?? 0,
+    heating_gas_percent: parameters?.heating_gas_percent ?? 0,
+    heating_electricity_percent: parameters?.heating_electricity_percent ?? 0,
+    electricity_percent: parameters?.electricity_percent ?? 0,
+    capex_rate_percent: parameters?.capex_rate_percent ?? 0,
+    notes: parameters?.notes ?? null,
+  };
+}
+
+export function TalParametersForm({ year, parameters, onSaved }: TalParametersFormProps) {
+  const [draft, setDraft] = useState<CreateTalParametersInput>(() => toInput(year, parameters));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(toInput(year, parameters));
+  }, [year, parameters]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/tal-parameters", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to save parameters");
+      }
+
+      onSaved(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save parameters");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        {PERCENT_FIELDS.map((field) => (
+          <Input
+            key={field.key}
+            id={`tal-${field.key}`}
+            label={field.label}
+            type="number"
+            step="0.1"
+            value={draft[field.key] ?? 0}
+            onChange={(e) =>
+              setDraft((prev) => ({ ...prev, [field.key]: parseFloat(e.target.value) || 0 }))
+            }
+          />
+        ))}
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <Button type="submit" size="sm" loading={saving}>
+        {parameters ? `Update ${year} parameters` : `Save ${year} parameters`}
+      </Button>
+    </form>
+  );
+}
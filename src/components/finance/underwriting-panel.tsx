@@ -0,0 +1,208 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardHeader, CardContent } from "@/components/ui/card";
+import {
+  DEFAULT_UNDERWRITING_ASSUMPTIONS,
+  underwriteProperty,
+  type UnderwritingInput,
+} from "@/lib/finance/underwriting";
+import type { UnderwritingAssumptions } from "@/types/underwriting";
+
+interface UnderwritingPanelProps {
+  property: UnderwritingInput;
+  inPlaceRevenue?: number | null; // Annual rent roll income, when the property is owned
+}
+
+type RevenueBasis = "potential" | "in_place";
+
+const ASSUMPTION_FIELDS: {
+  key: keyof UnderwritingAssumptions;
+  label: string;
+  step: string;
+}[] = [
+  { key: "vacancyPercent", label: "Vacancy %", step: "0.5" },
+  { key: "managementPercent", label: "Management %", step: "0.5" },
+  { key: "maintenancePercent", label: "Maintenance %", step: "0.5" },
+  { key: "insurance", label: "Insurance ($/yr)", step: "100" },
+  { key: "downPaymentPercent", label: "Down Payment %", step: "1" },
+  { key: "interestRate", label: "Interest Rate %", step: "0.05" },
+  { key: "amortizationYears", label: "Amortization (yrs)", step: "1" },
+];
+
+export function UnderwritingPanel({ property, inPlaceRevenue }: UnderwritingPanelProps) {
+  const [assumptions, setAssumptions] = useState<UnderwritingAssumptions>(
+    DEFAULT_UNDERWRITING_ASSUMPTIONS
+  );
+  const [revenueBasis, setRevenueBasis] = useState<RevenueBasis>("potential");
+  const hasInPlaceRevenue = inPlaceRevenue != null && inPlaceRevenue > 0;
+  const useInPlace = revenueBasis === "in_place" && hasInPlaceRevenue;
+
+  const result = useMemo(
+    () =>
+      underwriteProperty(
+        useInPlace ? { ...property, potential_revenue: inPlaceRevenue } : property,
+        assumptions
+      ),
+    [property, assumptions, useInPlace, inPlaceRevenue]
+  );
+
+  const updateAssumption = (key: keyof UnderwritingAssumptions, value: string) => {
+    setAssumptions((prev) => ({ ...prev, [key]: value ? parseFloat(value) : 0 }));
+  };
+
+  const formatPrice = (value: number) => {
+    return new Intl.NumberFormat("en-CA", {
+      style: "currency",
+      currency: "CAD",
+      maximumFractionDigits: 0,
+    }).format(value);
+  };
+
+  const formatPercent = (value: number | null) =>
+    value == null ? "N/A" : `${value.toFixed(2)}%`;
+
+  const formatRatio = (value: number | null) =>
+    value == null ? "N/A" : value.toFixed(2);
+
+  const { proForma, metrics } = result;
+
+  const proFormaRows: { label: string; value: number; negative?: boolean; total?: boolean }[] = [
+    { label: "Gross Potential Revenue", value: proForma.grossPotentialRevenue },
+    { label: "Vacancy", value: proForma.vacancyLoss, negative: true },
+    { label: "Effective Gross Income", value: proForma.effectiveGrossIncome, total: true },
+    { label: "Taxes", value: proForma.taxes, negative: true },
+    { label: "Utilities", value: proForma.utilities, negative: true },
+    { label: "Insurance", value: proForma.insurance, negative: true },
+    { label: "Management", value: proForma.management, negative: true },
+    { label: "Maintenance", value: proForma.maintenance, negative: true },
+    { label: "Net Operating Income", value: proForma.netOperatingIncome, total: true },
+    { label: "Debt Service", value: result.annualDebtService, negative: true },
+    { label: "Cash Flow", value: result.annualCashFlow, total: true },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-lg font-semibold">Underwriting</h2>
+            <p className="text-sm text-muted-foreground">
+              Annual pro-forma based on the {useInPlace ? "rent roll" : "listing"}&apos;s revenue, taxes and expenses
+            </p>
+          </div>
+          {hasInPlaceRevenue && (
+            <div className="flex gap-1">
+              <Button
+                size="sm"
+                variant={revenueBasis === "potential" ? "primary" : "ghost"}
+                onClick={() => setRevenueBasis("potential")}
+              >
+                Potential
+              </Button>
+              <Button
+                size="sm"
+                variant={revenueBasis === "in_place" ? "primary" : "ghost"}
+                onClick={() => setRevenueBasis("in_place")}
+              >
+                In-Place
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Key metrics */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="bg-secondary rounded-lg p-3">
+            <p className="text-xs text-muted-foreground">Cap Rate</p>
+            <p className="text-xl font-bold">{formatPercent(metrics.capRate)}</p>
+          </div>
+          <div className="bg-secondary rounded-lg p-3">
+            <p className="text-xs text-muted-foreground">Cash-on-Cash</p>
+            <p className="text-xl font-bold">{formatPercent(metrics.cashOnCashReturn)}</p>
+          </div>
+          <div className="bg-secondary rounded-lg p-3">
+            <p className="text-xs text-muted-foreground">DSCR</p>
+            <p
+              className={`text-xl font-bold ${
+                metrics.debtServiceCoverageRatio != null && metrics.debtServiceCoverageRatio < 1
+                  ? "text-destructive"
+                  : ""
+              }`}
+            >
+              {formatRatio(metrics.debtServiceCoverageRatio)}
+            </p>
+          </div>
+          <div className="bg-secondary rounded-lg p-3">
+            <p className="text-xs text-muted-foreground">GRM</p>
+            <p className="text-xl font-bold">{formatRatio(metrics.grossRentMultiplier)}</p>
+          </div>
+        </div>
+
+        {/* Assumptions */}
+        <div>
+          <h3 className="text-sm font-medium mb-3">Assumptions</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {ASSUMPTION_FIELDS.map((field) => (
+              <Input
+                key={field.key}
+                id={`underwriting-${field.key}`}
+                label={field.label}
+                type="number"
+                step={field.step}
+                value={assumptions[field.key]}
+                onChange={(e) => updateAssumption(field.key, e.target.value)}
+              />
+            ))}
+          </div>
+        </div>
+
+        {/* Pro-forma */}
+        <div>
+          <h3 className="text-sm font-medium mb-3">Pro-Forma</h3>
+          <div className="space-y-1 text-sm">
+            {proFormaRows.map((row) => (
+              <div
+                key={row.label}
+                className={`flex justify-between ${
+                  row.total ? "font-medium border-t border-border pt-1 mt-1" : "pl-3"
+                }`}
+              >
+                <span className="text-muted-foreground">{row.label}</span>
+                <span className={row.total && row.value < 0 ? "text-destructive" : ""}>
+                  {row.negative && row.value > 0 ? "−" : ""}
+                  {formatPrice(row.value)}
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between text-sm mt-3">
+            <span className="text-muted-foreground">Monthly Cash Flow</span>
+            <span className={result.monthlyCashFlow < 0 ? "text-destructive" : "text-primary font-medium"}>
+              {formatPrice(result.monthlyCashFlow)}/mo
+            </span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Expense Ratio</span>
+            <span>{formatPercent(metrics.expenseRatio)}</span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Mortgage ({formatPrice(result.loanAmount)})</span>
+            <span>{formatPrice(result.monthlyMortgagePayment)}/mo</span>
+          </div>
+        </div>
+
+        {result.warnings.length > 0 && (
+          <ul className="text-xs text-muted-foreground space-y-1">
+            {result.warnings.map((warning) => (
+              <li key={warning}>⚠ {warning}</li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,9 +1,22 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import Link from "next/link";
+import { usePathname } from "next/navigation";
 import { Button } from "@/components/ui/button";
 
 export function Header() {
+  const pathname = usePathname();
+  const [unreadAlerts, setUnreadAlerts] = useState(0);
+
+  // Refreshed on navigation so the badge clears after reading alerts
+  useEffect(() => {
+    fetch("/api/notifications?limit=0")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((result) => setUnreadAlerts(result?.unreadCount ?? 0))
+      .catch(() => setUnreadAlerts(0));
+  }, [pathname]);
+
   return (
     <header className="border-b border-border bg-background sticky top-0 z-50">
       <div className="container mx-auto px-4 py-4">
@@ -13,6 +26,29 @@ export function Header() {
           </Link>
 
           <nav className="flex items-center gap-4">
+            <Link
+              href="/pipeline"
+              className="text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Pipeline
+            </Link>
+            <Link
+              href="/searches"
+              className="text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Searches
+            </Link>
+            <Link
+              href="/notifications"
+              className="text-muted-foreground hover:text-foreground transition-colors flex items-center gap-1.5"
+            >
+              Alerts
+              {unreadAlerts > 0 && (
+                <span className="px-1.5 py-0.5 rounded-full text-xs font-medium bg-primary text-primary-foreground">
+                  {unreadAlerts}
+                </span>
+              )}
+            </Link>
             <Link
               href="/map"
               className="text-muted-foreground hover:text-foreground transition-colors"
@@ -31,6 +67,12 @@ export function Header() {
             >
               Buildings
             </Link>
+            <Link
+              href="/transactions"
+              className="text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Transactions
+            </Link>
             <Link
               href="/companies"
               className="text-muted-foreground hover:text-foreground transition-colors"
@@ -43,6 +85,12 @@ export function Header() {
             >
               Rentals
             </Link>
+            <Link
+              href="/scraper-health"
+              className="text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Scrapers
+            </Link>
             <Link href="/add-property">
               <Button size="sm">Add Property</Button>
             </Link>
@@ -6,12 +6,15 @@ import "leaflet/dist/leaflet.css";
 import type { Property } from "@/types/property";
 import type { PropertyEvaluation } from "@/types/property-evaluation";
 import type { POIType } from "@/types/poi";
+import type { RecentTransaction } from "@/types/recent-transaction";
+import type { ZoneGeometry } from "@/types/scraping-zone";
 import { usePOIs } from "@/hooks/usePOIs";
 import { POILayerControl } from "./poi-layer-control";
 
 interface PropertiesMapProps {
   properties: Property[];
   evaluations?: PropertyEvaluation[];
+  transactions?: RecentTransaction[]; // Recent sales layer
   className?: string;
   onPropertyClick?: (property: Property) => void;
   onScrapeSingle?: (matricule: string) => Promise<any>;
@@ -22,21 +25,24 @@ interface PropertiesMapProps {
     minLng: number;
     maxLng: number;
   };
+  zoneGeometry?: ZoneGeometry | null; // Drawn instead of the bounds rectangle for polygon zones
 }
 
 export function PropertiesMap({
   properties,
   evaluations = [],
+  transactions = [],
   className = "",
   onPropertyClick,
   onScrapeSingle,
   highlightedMatricule,
   zoneBounds,
+  zoneGeometry,
 }: PropertiesMapProps) {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
   const markersRef = useRef<L.LayerGroup | null>(null);
-  const zoneBoundsRef = useRef<L.Rectangle | null>(null);
+  const zoneBoundsRef = useRef<L.Layer | null>(null);
   const poiLayersRef = useRef<Record<POIType, L.LayerGroup>>({
     hospital: L.layerGroup(),
     university: L.layerGroup(),
@@ -101,20 +107,24 @@ export function PropertiesMap({
     }
 
     // Draw new zone bounds if provided
-    if (zoneBounds) {
+    const zoneStyle = {
+      color: "#3b82f6",
+      weight: 2,
+      fillOpacity: 0.05,
+      dashArray: "5, 5",
+    };
+
+    if (zoneGeometry) {
+      zoneBoundsRef.current = L.geoJSON(zoneGeometry, { style: zoneStyle }).addTo(mapInstanceRef.current);
+    } else if (zoneBounds) {
       const bounds: L.LatLngBoundsExpression = [
         [zoneBounds.minLat, zoneBounds.minLng],
         [zoneBounds.maxLat, zoneBounds.maxLng],
       ];
 
-      zoneBoundsRef.current = L.rectangle(bounds, {
-        color: "#3b82f6",
-        weight: 2,
-        fillOpacity: 0.05,
-        dashArray: "5, 5",
-      }).addTo(mapInstanceRef.current);
+      zoneBoundsRef.current = L.rectangle(bounds, zoneStyle).addTo(mapInstanceRef.current);
     }
-  }, [zoneBounds]);
+  }, [zoneBounds, zoneGeometry]);
 
   // Toggle POI layer visibility
   const togglePOILayer = (type: POIType) => {
@@ -212,7 +222,11 @@ export function PropertiesMap({
       (e) => e.latitude != null && e.longitude != null
     );
 
-    if (validProperties.length === 0 && validEvaluations.length === 0) return;
+    const validTransactions = transactions.filter(
+      (t) => t.latitude != null && t.longitude != null
+    );
+
+    if (validProperties.length === 0 && validEvaluations.length === 0 && validTransactions.length === 0) return;
 
     // Create custom marker icon for properties
     const createPropertyMarkerIcon = (price: number | null) => {
@@ -415,17 +429,80 @@ export function PropertiesMap({
       marker.addTo(markersRef.current!);
     });
 
+    // Add markers for each recent sale
+    validTransactions.forEach((transaction) => {
+      const priceText = transaction.estimated_price != null
+        ? transaction.estimated_price >= 1000000
+          ? `$${(transaction.estimated_price / 1000000).toFixed(1)}M`
+          : `$${Math.round(transaction.estimated_price / 1000)}K`
+        : "Sold";
+
+      const icon = L.divIcon({
+        className: "custom-sale-marker",
+        html: `
+          <div style="
+            background: #ef4444;
+            color: white;
+            padding: 4px 8px;
+            border-radius: 12px;
+            font-size: 11px;
+            font-weight: 600;
+            white-space: nowrap;
+            box-shadow: 0 2px 8px rgba(0,0,0,0.3);
+            border: 2px solid white;
+          ">${priceText}</div>
+        `,
+        iconSize: [60, 24],
+        iconAnchor: [30, 12],
+      });
+
+      const popupContent = `
+        <div style="min-width: 200px;">
+          <h3 style="margin: 0 0 8px 0; font-weight: 600; font-size: 14px;">${transaction.address ?? transaction.matricule}</h3>
+          <div style="font-size: 12px; color: #666; line-height: 1.6;">
+            <div><strong>Owner registered:</strong> ${transaction.registration_date}</div>
+            <div><strong>Owner:</strong> ${transaction.owner_name ?? "N/A"}</div>
+            <div><strong>Units:</strong> ${transaction.units ?? "N/A"}</div>
+            <div><strong>Roll value:</strong> ${transaction.current_total_value != null ? `$${transaction.current_total_value.toLocaleString()}` : "N/A"}</div>
+            <div><strong>Estimated price:</strong> ${transaction.estimated_price != null ? `$${transaction.estimated_price.toLocaleString()}` : "N/A"}</div>
+          </div>
+          <a
+            href="/buildings/${transaction.matricule}"
+            style="
+              display: inline-block;
+              margin-top: 8px;
+              width: 100%;
+              padding: 4px 12px;
+              background: #ef4444;
+              color: white;
+              border-radius: 4px;
+              text-decoration: none;
+              font-size: 12px;
+              font-weight: 600;
+              text-align: center;
+              box-sizing: border-box;
+            "
+          >View Details</a>
+        </div>
+      `;
+
+      L.marker([transaction.latitude!, transaction.longitude!], { icon })
+        .bindPopup(popupContent)
+        .addTo(markersRef.current!);
+    });
+
     // Fit bounds to show all markers
     const allCoords: [number, number][] = [
       ...validProperties.map((p) => [p.latitude!, p.longitude!] as [number, number]),
       ...validEvaluations.map((e) => [e.latitude!, e.longitude!] as [number, number]),
+      ...validTransactions.map((t) => [t.latitude!, t.longitude!] as [number, number]),
     ];
 
     if (allCoords.length > 0) {
       const bounds = L.latLngBounds(allCoords);
       mapInstanceRef.current.fitBounds(bounds, { padding: [50, 50] });
     }
-  }, [properties, evaluations, onPropertyClick, onScrapeSingle, highlightedMatricule]);
+  }, [properties, evaluations, transactions, onPropertyClick, onScrapeSingle, highlightedMatricule]);
 
   return (
     <div className="relative w-full h-full">
@@ -487,6 +564,22 @@ export function PropertiesMap({
           ></div>
           <span>Scraped Buildings</span>
         </div>
+        {transactions.length > 0 && (
+          <div style={{ display: "flex", alignItems: "center", marginBottom: "6px" }}>
+            <div
+              style={{
+                width: "24px",
+                height: "18px",
+                background: "#ef4444",
+                border: "2px solid white",
+                marginRight: "8px",
+                borderRadius: "9px",
+                boxShadow: "0 1px 3px rgba(0,0,0,0.2)",
+              }}
+            ></div>
+            <span>Recent Sales (Est. Price)</span>
+          </div>
+        )}
         <div style={{ display: "flex", alignItems: "center" }}>
           <div
             style={{
@@ -50,17 +50,22 @@ export function ZoneBuildingsMap({
       maxZoom: 20,
     }).addTo(map);
 
-    // Draw zone bounds rectangle
+    // Draw the zone's polygon, or its bounds rectangle
     const bounds: L.LatLngBoundsExpression = [
       [zone.min_lat, zone.min_lng],
       [zone.max_lat, zone.max_lng],
     ];
-
-    L.rectangle(bounds, {
+    const zoneStyle = {
       color: "#3b82f6",
       weight: 2,
       fillOpacity: 0.1,
-    }).addTo(map);
+    };
+
+    if (zone.geometry) {
+      L.geoJSON(zone.geometry, { style: zoneStyle }).addTo(map);
+    } else {
+      L.rectangle(bounds, zoneStyle).addTo(map);
+    }
 
     // Fit map to zone bounds
     map.fitBounds(bounds, { padding: [50, 50] });
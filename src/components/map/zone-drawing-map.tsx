@@ -5,15 +5,23 @@ import L from "leaflet";
 import "leaflet/dist/leaflet.css";
 import "leaflet-draw/dist/leaflet.draw.css";
 import "leaflet-draw";
+import { Button } from "@/components/ui/button";
+import { combineZoneGeometries } from "@/lib/zones/zone-geometry";
 import type { PropertyEvaluation } from "@/types/property-evaluation";
-import type { ScrapingZone, ZoneBounds } from "@/types/scraping-zone";
+import type { ScrapingZone, ZoneGeometry } from "@/types/scraping-zone";
+
+const NEW_ZONE_STYLE = {
+  color: '#f59e0b', // Orange for new zones
+  weight: 3,
+  fillOpacity: 0.2,
+};
 
 interface ZoneDrawingMapProps {
   evaluations?: PropertyEvaluation[];
   zones?: ScrapingZone[];
   className?: string;
   drawingEnabled?: boolean;
-  onZoneDrawn?: (bounds: ZoneBounds) => void;
+  onZoneDrawn?: (geometry: ZoneGeometry) => void;
   onZoneClick?: (zone: ScrapingZone) => void;
 }
 
@@ -31,6 +39,7 @@ export function ZoneDrawingMap({
   const zonesLayerRef = useRef<L.LayerGroup | null>(null);
   const drawControlRef = useRef<L.Control.Draw | null>(null);
   const drawnItemsRef = useRef<L.FeatureGroup | null>(null);
+  const [shapeCount, setShapeCount] = useState(0);
 
   // Initialize map
   useEffect(() => {
@@ -81,13 +90,12 @@ export function ZoneDrawingMap({
         position: 'topright',
         draw: {
           rectangle: {
-            shapeOptions: {
-              color: '#f59e0b', // Orange for new zones
-              weight: 3,
-              fillOpacity: 0.2,
-            },
+            shapeOptions: NEW_ZONE_STYLE,
+          },
+          polygon: {
+            allowIntersection: false,
+            shapeOptions: NEW_ZONE_STYLE,
           },
-          polygon: false,
           circle: false,
           marker: false,
           polyline: false,
@@ -102,31 +110,17 @@ export function ZoneDrawingMap({
       mapInstanceRef.current.addControl(drawControl);
       drawControlRef.current = drawControl;
 
-      // Handle draw created event
+      // Keep drawn shapes until the zone is saved; several shapes make a multi-polygon zone
       const handleDrawCreated = (e: any) => {
-        const layer = e.layer;
-        drawnItemsRef.current?.addLayer(layer);
-
-        // Get bounds
-        const bounds = layer.getBounds();
-        const zoneBounds: ZoneBounds = {
-          minLat: bounds.getSouth(),
-          maxLat: bounds.getNorth(),
-          minLng: bounds.getWest(),
-          maxLng: bounds.getEast(),
-        };
-
-        if (onZoneDrawn) {
-          onZoneDrawn(zoneBounds);
-        }
-
-        // Clear the drawn layer (it will be saved and displayed via zones prop)
-        drawnItemsRef.current?.removeLayer(layer);
+        drawnItemsRef.current?.addLayer(e.layer);
+        setShapeCount(drawnItemsRef.current?.getLayers().length ?? 0);
       };
 
       mapInstanceRef.current.on(L.Draw.Event.CREATED, handleDrawCreated);
 
       return () => {
+        drawnItemsRef.current?.clearLayers();
+        setShapeCount(0);
         if (mapInstanceRef.current) {
           mapInstanceRef.current.off(L.Draw.Event.CREATED, handleDrawCreated);
           if (drawControlRef.current) {
@@ -136,7 +130,27 @@ export function ZoneDrawingMap({
         }
       };
     }
-  }, [drawingEnabled, onZoneDrawn]);
+  }, [drawingEnabled]);
+
+  const handleSaveShapes = () => {
+    if (!drawnItemsRef.current) return;
+
+    const shapes = drawnItemsRef.current.toGeoJSON() as GeoJSON.FeatureCollection;
+    const geometry = combineZoneGeometries(shapes.features.map((feature) => feature.geometry as ZoneGeometry));
+
+    // The drawn shapes are cleared; the saved zone is displayed via the zones prop
+    drawnItemsRef.current.clearLayers();
+    setShapeCount(0);
+
+    if (geometry && onZoneDrawn) {
+      onZoneDrawn(geometry);
+    }
+  };
+
+  const handleClearShapes = () => {
+    drawnItemsRef.current?.clearLayers();
+    setShapeCount(0);
+  };
 
   // Update evaluation markers
   useEffect(() => {
@@ -205,13 +219,16 @@ export function ZoneDrawingMap({
         [zone.min_lat, zone.min_lng],
         [zone.max_lat, zone.max_lng]
       );
-
-      const rectangle = L.rectangle(bounds, {
+      const zoneStyle = {
         color: '#3b82f6', // Blue for saved zones
         weight: 2,
         fillOpacity: 0.1,
         dashArray: '5, 5',
-      });
+      };
+
+      const shape = zone.geometry
+        ? L.geoJSON(zone.geometry, { style: zoneStyle })
+        : L.rectangle(bounds, zoneStyle);
 
       // Zone label
       const center = bounds.getCenter();
@@ -246,10 +263,10 @@ export function ZoneDrawingMap({
         }
       };
 
-      rectangle.on('click', handleClick);
+      shape.on('click', handleClick);
       marker.on('click', handleClick);
 
-      rectangle.addTo(zonesLayerRef.current!);
+      shape.addTo(zonesLayerRef.current!);
       marker.addTo(zonesLayerRef.current!);
     });
   }, [zones, onZoneClick]);
@@ -258,8 +275,20 @@ export function ZoneDrawingMap({
     <div className="relative w-full h-full">
       <div ref={mapRef} className={`w-full h-full min-h-[400px] ${className}`} />
       {drawingEnabled && (
-        <div className="absolute top-4 left-4 bg-blue-600 text-white px-4 py-2 rounded-lg shadow-lg z-[1000]">
-          <p className="text-sm font-medium">Drawing Mode: Click to draw a rectangle</p>
+        <div className="absolute top-4 left-4 bg-blue-600 text-white px-4 py-2 rounded-lg shadow-lg z-[1000] space-y-2">
+          <p className="text-sm font-medium">
+            Drawing Mode: Draw one or more polygons or rectangles, then save the zone
+          </p>
+          {shapeCount > 0 && (
+            <div className="flex items-center gap-2">
+              <Button size="sm" onClick={handleSaveShapes}>
+                Save Zone ({shapeCount} {shapeCount === 1 ? "shape" : "shapes"})
+              </Button>
+              <Button size="sm" variant="outline" onClick={handleClearShapes}>
+                Clear
+              </Button>
+            </div>
+          )}
         </div>
       )}
     </div>
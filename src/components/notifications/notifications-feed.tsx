@@ -0,0 +1,109 @@
+"use client";
+
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import type { ListingNotificationWithSearch, NotificationType } from "@/types/saved-search";
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+  new_listing: "New listing",
+  price_drop: "Price drop",
+};
+
+const TYPE_CLASSES: Record<NotificationType, string> = {
+  new_listing: "bg-green-600/20 text-green-400",
+  price_drop: "bg-yellow-400/20 text-yellow-400",
+};
+
+interface NotificationsFeedProps {
+  notifications: ListingNotificationWithSearch[];
+  onMarkRead: (ids: string[]) => void;
+}
+
+export function NotificationsFeed({ notifications, onMarkRead }: NotificationsFeedProps) {
+  const formatPrice = (price: number | null) => {
+    if (price == null) return "N/A";
+    return new Intl.NumberFormat("en-CA", {
+      style: "currency",
+      currency: "CAD",
+      maximumFractionDigits: 0,
+    }).format(price);
+  };
+
+  if (notifications.length === 0) {
+    return (
+      <Card className="p-12 text-center">
+        <div className="text-muted-foreground">
+          <p className="text-lg mb-2">No alerts yet</p>
+          <p className="text-sm">New listings and price drops from your saved searches will show up here</p>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {notifications.map((notification) => {
+        const unread = !notification.read_at;
+        const dropPercent =
+          notification.previous_price && notification.price != null
+            ? ((notification.price - notification.previous_price) / notification.previous_price) * 100
+            : null;
+
+        return (
+          <Card
+            key={notification.id}
+            className={`p-4 flex items-start gap-3 ${unread ? "border-primary/40" : "opacity-70"}`}
+          >
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${TYPE_CLASSES[notification.type]}`}>
+                  {TYPE_LABELS[notification.type]}
+                </span>
+                <span className="font-medium truncate">
+                  {notification.address || notification.source_url}
+                </span>
+              </div>
+              <p className="text-sm">
+                {notification.type === "price_drop" && (
+                  <span className="text-muted-foreground line-through mr-1">
+                    {formatPrice(notification.previous_price)}
+                  </span>
+                )}
+                {formatPrice(notification.price)}
+                {dropPercent != null && <span className="text-green-400"> ({dropPercent.toFixed(1)}%)</span>}
+                {notification.mls_number && (
+                  <span className="text-muted-foreground"> · MLS {notification.mls_number}</span>
+                )}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {notification.saved_searches?.name && `${notification.saved_searches.name} · `}
+                {new Date(notification.created_at).toLocaleString("en-CA")}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {notification.property_id ? (
+                <Link href={`/properties/${notification.property_id}`}>
+                  <Button size="sm" variant="outline">
+                    Saved
+                  </Button>
+                </Link>
+              ) : (
+                <a href={notification.source_url} target="_blank" rel="noopener noreferrer">
+                  <Button size="sm" variant="outline">
+                    Listing
+                  </Button>
+                </a>
+              )}
+              {unread && (
+                <Button size="sm" variant="ghost" onClick={() => onMarkRead([notification.id])}>
+                  Mark read
+                </Button>
+              )}
+            </div>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
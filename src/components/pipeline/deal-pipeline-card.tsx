@@ -0,0 +1,223 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { Card, CardHeader, CardContent } from "@/components/ui/card";
+import { DealStageBadge } from "@/components/pipeline/deal-stage-badge";
+import {
+  DEAL_STAGES,
+  DEAL_STAGE_LABELS,
+  isTaskOverdue,
+  sortOpenTasks,
+} from "@/lib/pipeline/deal-pipeline";
+import type { Property } from "@/types/property";
+import type { DealStage, DealStageChange, DealTask } from "@/types/deal-pipeline";
+
+interface DealPipelineCardProps {
+  property: Property;
+  onUpdated: (property: Property) => void;
+}
+
+export function DealPipelineCard({ property, onUpdated }: DealPipelineCardProps) {
+  const [history, setHistory] = useState<DealStageChange[]>([]);
+  const [tasks, setTasks] = useState<DealTask[]>([]);
+  const [stage, setStage] = useState<DealStage>(property.deal_stage);
+  const [note, setNote] = useState("");
+  const [taskTitle, setTaskTitle] = useState("");
+  const [taskDueDate, setTaskDueDate] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPipeline = useCallback(async () => {
+    try {
+      const [historyResponse, tasksResponse] = await Promise.all([
+        fetch(`/api/properties/${property.id}/stage`),
+        fetch(`/api/properties/${property.id}/tasks`),
+      ]);
+      const historyResult = await historyResponse.json();
+      const tasksResult = await tasksResponse.json();
+
+      if (historyResponse.ok) setHistory(historyResult.data || []);
+      if (tasksResponse.ok) setTasks(tasksResult.data || []);
+    } catch (err) {
+      console.error("Failed to load pipeline:", err);
+    }
+  }, [property.id]);
+
+  useEffect(() => {
+    fetchPipeline();
+  }, [fetchPipeline]);
+
+  useEffect(() => {
+    setStage(property.deal_stage);
+  }, [property.deal_stage]);
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Request failed");
+      }
+
+      return result.data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStageChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const updated = await request(`/api/properties/${property.id}/stage`, "PUT", { stage, note });
+    if (updated) {
+      setNote("");
+      onUpdated(updated);
+      fetchPipeline();
+    }
+  };
+
+  const handleAddTask = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const created = await request(`/api/properties/${property.id}/tasks`, "POST", {
+      title: taskTitle,
+      due_date: taskDueDate || null,
+    });
+    if (created) {
+      setTaskTitle("");
+      setTaskDueDate("");
+      fetchPipeline();
+    }
+  };
+
+  const handleToggleTask = async (task: DealTask) => {
+    const updated = await request(`/api/properties/${property.id}/tasks/${task.id}`, "PUT", {
+      completed: !task.completed_at,
+    });
+    if (updated) fetchPipeline();
+  };
+
+  const openTasks = sortOpenTasks(tasks);
+  const completedTasks = tasks.filter((task) => task.completed_at);
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString("en-CA", { month: "short", day: "numeric", year: "numeric" });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Deal Pipeline</h2>
+          <DealStageBadge stage={property.deal_stage} />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          In stage since {formatDate(property.deal_stage_changed_at)}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {/* Stage */}
+        <form onSubmit={handleStageChange} className="space-y-2">
+          <Select value={stage} onChange={(e) => setStage(e.target.value as DealStage)}>
+            {DEAL_STAGES.map((s) => (
+              <option key={s} value={s}>
+                {DEAL_STAGE_LABELS[s]}
+              </option>
+            ))}
+          </Select>
+          {stage !== property.deal_stage && (
+            <>
+              <Input
+                placeholder="Note (optional)"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+              <Button type="submit" size="sm" loading={saving}>
+                Move to {DEAL_STAGE_LABELS[stage]}
+              </Button>
+            </>
+          )}
+        </form>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {/* Tasks */}
+        <div className="space-y-2">
+          <span className="text-sm font-medium">Tasks</span>
+          {openTasks.length === 0 && (
+            <p className="text-sm text-muted-foreground">No open tasks</p>
+          )}
+          {[...openTasks, ...completedTasks].map((task) => (
+            <label key={task.id} className="flex items-start gap-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={!!task.completed_at}
+                onChange={() => handleToggleTask(task)}
+              />
+              <span className={`flex-1 ${task.completed_at ? "line-through text-muted-foreground" : ""}`}>
+                {task.title}
+              </span>
+              {task.due_date && (
+                <span
+                  className={`text-xs ${
+                    isTaskOverdue(task) ? "text-destructive" : "text-muted-foreground"
+                  }`}
+                >
+                  {task.due_date}
+                </span>
+              )}
+            </label>
+          ))}
+          <form onSubmit={handleAddTask} className="flex gap-2">
+            <Input
+              placeholder="New task"
+              value={taskTitle}
+              onChange={(e) => setTaskTitle(e.target.value)}
+              required
+            />
+            <div className="w-40">
+              <Input
+                type="date"
+                value={taskDueDate}
+                onChange={(e) => setTaskDueDate(e.target.value)}
+              />
+            </div>
+            <Button type="submit" size="sm" variant="outline">
+              Add
+            </Button>
+          </form>
+        </div>
+
+        {/* History */}
+        {history.length > 0 && (
+          <div className="space-y-2">
+            <span className="text-sm font-medium">History</span>
+            <ul className="space-y-1 text-sm">
+              {history.map((change) => (
+                <li key={change.id}>
+                  <span className="text-muted-foreground">{formatDate(change.created_at)} · </span>
+                  {change.from_stage ? `${DEAL_STAGE_LABELS[change.from_stage]} → ` : ""}
+                  {DEAL_STAGE_LABELS[change.to_stage]}
+                  {change.note && (
+                    <p className="text-xs text-muted-foreground pl-3">{change.note}</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,27 @@
+"use client";
+
+import { DEAL_STAGE_LABELS } from "@/lib/pipeline/deal-pipeline";
+import type { DealStage } from "@/types/deal-pipeline";
+
+const STAGE_CLASSES: Record<DealStage, string> = {
+  sourced: "bg-secondary text-muted-foreground",
+  analyzing: "bg-blue-600/20 text-blue-400",
+  visited: "bg-blue-600/20 text-blue-300",
+  offer_sent: "bg-yellow-400/20 text-yellow-400",
+  accepted: "bg-green-600/20 text-green-400",
+  closed: "bg-green-600 text-white",
+  dead: "bg-red-900/20 text-red-400",
+};
+
+interface DealStageBadgeProps {
+  stage: DealStage;
+  className?: string;
+}
+
+export function DealStageBadge({ stage, className = "" }: DealStageBadgeProps) {
+  return (
+    <span className={`px-2 py-0.5 rounded text-xs font-medium ${STAGE_CLASSES[stage]} ${className}`}>
+      {DEAL_STAGE_LABELS[stage]}
+    </span>
+  );
+}
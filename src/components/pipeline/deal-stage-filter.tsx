@@ -0,0 +1,36 @@
+"use client";
+
+import { DEAL_STAGES, DEAL_STAGE_LABELS } from "@/lib/pipeline/deal-pipeline";
+import type { DealStage } from "@/types/deal-pipeline";
+
+interface DealStageFilterProps {
+  value: DealStage | null; // null = all stages
+  onChange: (stage: DealStage | null) => void;
+}
+
+export function DealStageFilter({ value, onChange }: DealStageFilterProps) {
+  const chipClasses = (active: boolean) =>
+    `px-3 py-1 rounded-full text-sm border transition-colors ${
+      active
+        ? "bg-primary text-primary-foreground border-primary"
+        : "border-border text-muted-foreground hover:text-foreground"
+    }`;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <button type="button" onClick={() => onChange(null)} className={chipClasses(value === null)}>
+        All
+      </button>
+      {DEAL_STAGES.map((stage) => (
+        <button
+          key={stage}
+          type="button"
+          onClick={() => onChange(stage)}
+          className={chipClasses(value === stage)}
+        >
+          {DEAL_STAGE_LABELS[stage]}
+        </button>
+      ))}
+    </div>
+  );
+}
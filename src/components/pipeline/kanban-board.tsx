@@ -0,0 +1,110 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  DEAL_STAGES,
+  DEAL_STAGE_LABELS,
+  isTaskOverdue,
+  sortOpenTasks,
+} from "@/lib/pipeline/deal-pipeline";
+import type { Property } from "@/types/property";
+import type { DealStage, DealTask } from "@/types/deal-pipeline";
+
+interface KanbanBoardProps {
+  properties: Property[];
+  tasks: DealTask[]; // Open tasks across all deals
+  onMove: (propertyId: string, stage: DealStage) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function KanbanBoard({ properties, tasks, onMove }: KanbanBoardProps) {
+  const [dragOverStage, setDragOverStage] = useState<DealStage | null>(null);
+  const [now] = useState(() => Date.now());
+
+  const formatPrice = (price: number | null) => {
+    if (!price) return "Price N/A";
+    return new Intl.NumberFormat("en-CA", {
+      style: "currency",
+      currency: "CAD",
+      maximumFractionDigits: 0,
+    }).format(price);
+  };
+
+  const daysInStage = (property: Property) =>
+    Math.floor((now - new Date(property.deal_stage_changed_at).getTime()) / DAY_MS);
+
+  const handleDrop = (e: React.DragEvent, stage: DealStage) => {
+    e.preventDefault();
+    setDragOverStage(null);
+    const propertyId = e.dataTransfer.getData("text/plain");
+    const property = properties.find((p) => p.id === propertyId);
+    if (property && property.deal_stage !== stage) {
+      onMove(propertyId, stage);
+    }
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4">
+      {DEAL_STAGES.map((stage) => {
+        const column = properties.filter((p) => p.deal_stage === stage);
+
+        return (
+          <div
+            key={stage}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragOverStage(stage);
+            }}
+            onDragLeave={() => setDragOverStage(null)}
+            onDrop={(e) => handleDrop(e, stage)}
+            className={`w-72 flex-shrink-0 rounded-xl border p-3 space-y-3 ${
+              dragOverStage === stage ? "border-primary bg-primary/5" : "border-border bg-card"
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <h2 className="font-semibold">{DEAL_STAGE_LABELS[stage]}</h2>
+              <span className="text-xs text-muted-foreground">{column.length}</span>
+            </div>
+
+            {column.map((property) => {
+              const nextTask = sortOpenTasks(tasks.filter((t) => t.property_id === property.id))[0];
+
+              return (
+                <div
+                  key={property.id}
+                  draggable
+                  onDragStart={(e) => e.dataTransfer.setData("text/plain", property.id)}
+                  className="bg-background border border-border rounded-lg p-3 cursor-grab active:cursor-grabbing hover:border-primary/50"
+                >
+                  <Link
+                    href={`/properties/${property.id}`}
+                    className="font-medium text-sm line-clamp-1 hover:underline"
+                  >
+                    {property.address || property.title}
+                  </Link>
+                  <p className="text-sm text-primary font-semibold">{formatPrice(property.price)}</p>
+                  <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                    <span>{property.units != null ? `${property.units} units` : ""}</span>
+                    <span>{daysInStage(property)}d in stage</span>
+                  </div>
+                  {nextTask && (
+                    <p
+                      className={`text-xs mt-2 line-clamp-1 ${
+                        isTaskOverdue(nextTask) ? "text-destructive" : "text-muted-foreground"
+                      }`}
+                    >
+                      ☐ {nextTask.title}
+                      {nextTask.due_date && ` · ${nextTask.due_date}`}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
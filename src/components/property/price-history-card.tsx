@@ -0,0 +1,188 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardContent } from "@/components/ui/card";
+import type { Property } from "@/types/property";
+import type { PriceHistoryAnalysis } from "@/types/price-history";
+
+interface PriceHistoryCardProps {
+  property: Property;
+  onUpdated: (property: Property) => void;
+}
+
+const CHART_WIDTH = 280;
+const CHART_HEIGHT = 60;
+
+export function PriceHistoryCard({ property, onUpdated }: PriceHistoryCardProps) {
+  const [history, setHistory] = useState<PriceHistoryAnalysis | null>(null);
+  const [rescraping, setRescraping] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/properties/${property.id}/price-history`);
+      const result = await response.json();
+
+      if (response.ok) {
+        setHistory(result.data);
+      }
+    } catch (err) {
+      console.error("Failed to load price history:", err);
+    }
+  }, [property.id]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const handleRescrape = async () => {
+    setRescraping(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/properties/${property.id}/rescrape`, { method: "POST" });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.suggestion ? `${result.error}. ${result.suggestion}` : result.error);
+      }
+
+      setHistory(result.data.priceHistory);
+      onUpdated({ ...property, ...result.data.property });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to re-scrape listing");
+    } finally {
+      setRescraping(false);
+    }
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat("en-CA", {
+      style: "currency",
+      currency: "CAD",
+      maximumFractionDigits: 0,
+    }).format(price);
+  };
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString("en-CA", { month: "short", day: "numeric", year: "numeric" });
+
+  // Step chart of observed prices
+  const priced = history?.observations.filter((o) => o.price != null) ?? [];
+  let chartPath = "";
+  if (priced.length > 1) {
+    const times = priced.map((o) => new Date(o.observed_at).getTime());
+    const prices = priced.map((o) => o.price as number);
+    const minTime = times[0];
+    const timeRange = times[times.length - 1] - minTime || 1;
+    const minPrice = Math.min(...prices);
+    const priceRange = Math.max(...prices) - minPrice || 1;
+    const x = (t: number) => ((t - minTime) / timeRange) * CHART_WIDTH;
+    const y = (p: number) => CHART_HEIGHT - 4 - ((p - minPrice) / priceRange) * (CHART_HEIGHT - 8);
+
+    chartPath = prices
+      .map((price, i) =>
+        i === 0
+          ? `M ${x(times[i])} ${y(price)}`
+          : `H ${x(times[i])} V ${y(price)}`
+      )
+      .join(" ");
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Price History</h2>
+          {property.source_url && (
+            <Button size="sm" variant="outline" onClick={handleRescrape} loading={rescraping}>
+              Re-scrape
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {!history || history.observations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No price observations recorded yet</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="bg-secondary rounded-lg p-3">
+                <p className="text-xs text-muted-foreground">Days on Market</p>
+                <p className="text-xl font-bold">{history.daysOnMarket ?? "N/A"}</p>
+                {history.relisted && (
+                  <p className="text-xs text-muted-foreground">
+                    {history.cumulativeDaysOnMarket} overall
+                  </p>
+                )}
+              </div>
+              <div className="bg-secondary rounded-lg p-3">
+                <p className="text-xs text-muted-foreground">Total Change</p>
+                <p
+                  className={`text-xl font-bold ${
+                    history.totalChange != null && history.totalChange < 0 ? "text-green-400" : ""
+                  }`}
+                >
+                  {history.totalChangePercent != null
+                    ? `${history.totalChangePercent > 0 ? "+" : ""}${history.totalChangePercent.toFixed(1)}%`
+                    : "N/A"}
+                </p>
+                {history.priceDrops.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {history.priceDrops.length} price drop{history.priceDrops.length > 1 ? "s" : ""}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {chartPath && (
+              <svg
+                viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+                className="w-full h-16 text-primary"
+                preserveAspectRatio="none"
+              >
+                <path d={chartPath} fill="none" stroke="currentColor" strokeWidth={2} />
+              </svg>
+            )}
+
+            {history.relisted && (
+              <div className="text-sm space-y-1">
+                <span className="font-medium text-yellow-400">⚠ Relisted</span>
+                {history.listings.map((listing) => (
+                  <div key={listing.mlsNumber ?? "unknown"} className="flex justify-between pl-3">
+                    <span className="text-muted-foreground">
+                      MLS {listing.mlsNumber ?? "?"} · {formatDate(listing.firstSeen)}
+                    </span>
+                    <span>{listing.initialPrice != null ? formatPrice(listing.initialPrice) : "—"}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">
+                  First seen {formatDate(history.observations[0].observed_at)}
+                </span>
+                <span>
+                  {priced[0]?.price != null ? formatPrice(priced[0].price) : "—"}
+                </span>
+              </div>
+              {history.priceChanges.map((change) => (
+                <div key={change.observedAt} className="flex justify-between">
+                  <span className="text-muted-foreground">{formatDate(change.observedAt)}</span>
+                  <span className={change.change < 0 ? "text-green-400" : "text-destructive"}>
+                    {formatPrice(change.price)} ({change.changePercent > 0 ? "+" : ""}
+                    {change.changePercent.toFixed(1)}%)
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,6 +2,8 @@
 
 import Link from "next/link";
 import { Card } from "@/components/ui/card";
+import { DealStageBadge } from "@/components/pipeline/deal-stage-badge";
+import { solveMaxOffer } from "@/lib/finance/max-offer";
 import type { Property } from "@/types/property";
 
 interface PropertyCardProps {
@@ -19,6 +21,7 @@ export function PropertyCard({ property }: PropertyCardProps) {
   };
 
   const mainImage = property.images?.[0] || "/placeholder-property.jpg";
+  const maxOffer = property.potential_revenue ? solveMaxOffer(property) : null;
 
   return (
     <Link href={`/properties/${property.id}`}>
@@ -56,6 +59,11 @@ export function PropertyCard({ property }: PropertyCardProps) {
             </div>
           )}
 
+          {/* Deal stage */}
+          {property.deal_stage && property.deal_stage !== "sourced" && (
+            <DealStageBadge stage={property.deal_stage} className="absolute top-2 right-2" />
+          )}
+
           {/* Image count */}
           {property.images?.length > 1 && (
             <div className="absolute bottom-2 right-2 px-2 py-1 bg-background/80 backdrop-blur-sm rounded text-xs">
@@ -67,9 +75,25 @@ export function PropertyCard({ property }: PropertyCardProps) {
         {/* Content */}
         <div className="p-4">
           {/* Price */}
-          <p className="text-xl font-bold text-primary mb-1">
-            {formatPrice(property.price)}
-          </p>
+          <div className="flex items-baseline justify-between gap-2 mb-1">
+            <p className="text-xl font-bold text-primary">
+              {formatPrice(property.price)}
+            </p>
+            {maxOffer?.maxPrice != null && (
+              <p
+                className={`text-xs ${
+                  maxOffer.gapToList != null && maxOffer.gapToList > 0
+                    ? "text-destructive"
+                    : "text-muted-foreground"
+                }`}
+                title="Default financing scenario and targets"
+              >
+                {maxOffer.maxPrice > 0
+                  ? `max offer ${formatPrice(maxOffer.maxPrice)} (defaults)`
+                  : "no workable offer (defaults)"}
+              </p>
+            )}
+          </div>
 
           {/* Title */}
           <h3 className="font-semibold text-foreground line-clamp-1 mb-1">
@@ -0,0 +1,350 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardHeader, CardContent } from "@/components/ui/card";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { formatRooms } from "@/lib/parsers/unit-mix-parser";
+import { getCurrentLease } from "@/lib/finance/rent-roll";
+import type {
+  CreateLeaseInput,
+  CreatePropertyUnitInput,
+  PropertyUnitWithLeases,
+  RentRollSummary,
+} from "@/types/rent-roll";
+
+interface RentRollProps {
+  propertyId: string;
+  units: PropertyUnitWithLeases[];
+  summary: RentRollSummary;
+  loading: boolean;
+  onChange: () => Promise<void>;
+}
+
+const EMPTY_UNIT: CreatePropertyUnitInput = { unit_number: "" };
+const EMPTY_LEASE: CreateLeaseInput = { tenant_name: "", monthly_rent: 0, lease_start: "" };
+
+export function RentRoll({ propertyId, units, summary, loading, onChange }: RentRollProps) {
+  const [showUnitForm, setShowUnitForm] = useState(false);
+  const [unitDraft, setUnitDraft] = useState<CreatePropertyUnitInput>(EMPTY_UNIT);
+  const [leaseUnitId, setLeaseUnitId] = useState<string | null>(null);
+  const [leaseDraft, setLeaseDraft] = useState<CreateLeaseInput>(EMPTY_LEASE);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat("en-CA", {
+      style: "currency",
+      currency: "CAD",
+      maximumFractionDigits: 0,
+    }).format(price);
+  };
+
+  const submit = async (url: string, body: unknown, method = "POST") => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Request failed");
+      }
+
+      await onChange();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddUnit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await submit(`/api/properties/${propertyId}/units`, unitDraft)) {
+      setUnitDraft(EMPTY_UNIT);
+      setShowUnitForm(false);
+    }
+  };
+
+  const handleAddLease = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!leaseUnitId) return;
+    if (await submit(`/api/properties/${propertyId}/units/${leaseUnitId}/leases`, leaseDraft)) {
+      setLeaseDraft(EMPTY_LEASE);
+      setLeaseUnitId(null);
+    }
+  };
+
+  const handleDeleteUnit = async (unitId: string) => {
+    if (!confirm("Delete this unit and all of its leases?")) return;
+    await submit(`/api/properties/${propertyId}/units/${unitId}`, null, "DELETE");
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-card border border-border rounded-xl p-4">
+          <p className="text-sm text-muted-foreground">Occupancy</p>
+          <p className="text-2xl font-bold">
+            {summary.occupiedUnits}/{summary.totalUnits}
+          </p>
+        </div>
+        <div className="bg-card border border-border rounded-xl p-4">
+          <p className="text-sm text-muted-foreground">In-Place Rent</p>
+          <p className="text-2xl font-bold">{formatPrice(summary.monthlyInPlaceIncome)}</p>
+          <p className="text-xs text-muted-foreground">/month</p>
+        </div>
+        <div className="bg-card border border-border rounded-xl p-4">
+          <p className="text-sm text-muted-foreground">Annual In-Place</p>
+          <p className="text-2xl font-bold">{formatPrice(summary.annualInPlaceIncome)}</p>
+        </div>
+        <div className="bg-card border border-border rounded-xl p-4">
+          <p className="text-sm text-muted-foreground">vs Potential Revenue</p>
+          <p
+            className={`text-2xl font-bold ${
+              summary.varianceToPotential != null && summary.varianceToPotential < 0
+                ? "text-destructive"
+                : ""
+            }`}
+          >
+            {summary.varianceToPotential != null ? formatPrice(summary.varianceToPotential) : "N/A"}
+          </p>
+          {summary.potentialRevenue != null && (
+            <p className="text-xs text-muted-foreground">
+              of {formatPrice(summary.potentialRevenue)}/yr advertised
+            </p>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {/* Upcoming renewals */}
+      {summary.upcomingRenewals.length > 0 && (
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-semibold">Upcoming Renewals</h2>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {summary.upcomingRenewals.map((renewal) => (
+              <div key={renewal.lease.id} className="flex justify-between">
+                <span>
+                  Unit {renewal.unit.unit_number} · {renewal.lease.tenant_name}
+                </span>
+                <span className={renewal.daysUntilEnd < 90 ? "text-destructive" : "text-muted-foreground"}>
+                  Ends {renewal.lease.lease_end} · notice {renewal.noticeWindowStart} → {renewal.noticeWindowEnd}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Units */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold">Units</h2>
+            <div className="flex items-center gap-3">
+              {summary.occupiedUnits > 0 && (
+                <Link
+                  href={`/properties/${propertyId}/rent-increase`}
+                  className="text-sm text-primary hover:underline"
+                >
+                  TAL Increases →
+                </Link>
+              )}
+              <Button size="sm" variant="outline" onClick={() => setShowUnitForm((v) => !v)}>
+                {showUnitForm ? "Cancel" : "Add Unit"}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {showUnitForm && (
+            <form onSubmit={handleAddUnit} className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+              <Input
+                id="unit-number"
+                label="Unit #"
+                value={unitDraft.unit_number}
+                onChange={(e) => setUnitDraft((prev) => ({ ...prev, unit_number: e.target.value }))}
+                required
+              />
+              <Input
+                id="unit-rooms"
+                label="Rooms"
+                type="number"
+                step="0.5"
+                value={unitDraft.rooms ?? ""}
+                onChange={(e) =>
+                  setUnitDraft((prev) => ({
+                    ...prev,
+                    rooms: e.target.value ? parseFloat(e.target.value) : null,
+                  }))
+                }
+                placeholder="4.5"
+              />
+              <Input
+                id="unit-market-rent"
+                label="Market Rent"
+                type="number"
+                value={unitDraft.market_rent ?? ""}
+                onChange={(e) =>
+                  setUnitDraft((prev) => ({
+                    ...prev,
+                    market_rent: e.target.value ? parseFloat(e.target.value) : null,
+                  }))
+                }
+              />
+              <Button type="submit" loading={saving}>
+                Save Unit
+              </Button>
+            </form>
+          )}
+
+          {units.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No units in the rent roll yet</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground text-xs border-b border-border">
+                  <th className="text-left font-normal py-2">Unit</th>
+                  <th className="text-left font-normal">Tenant</th>
+                  <th className="text-right font-normal">Rent</th>
+                  <th className="text-right font-normal">Lease End</th>
+                  <th className="text-right font-normal">Last Increase</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {units.map((unit) => {
+                  const lease = getCurrentLease(unit.leases ?? []);
+                  return (
+                    <tr key={unit.id} className="border-b border-border last:border-0">
+                      <td className="py-2">
+                        {unit.unit_number}
+                        {unit.rooms != null && (
+                          <span className="text-muted-foreground"> · {formatRooms(unit.rooms)}</span>
+                        )}
+                      </td>
+                      <td>{lease ? lease.tenant_name : <span className="text-muted-foreground">Vacant</span>}</td>
+                      <td className="text-right">
+                        {lease
+                          ? formatPrice(lease.monthly_rent)
+                          : unit.market_rent != null && (
+                              <span className="text-muted-foreground">{formatPrice(unit.market_rent)}</span>
+                            )}
+                      </td>
+                      <td className="text-right">{lease?.lease_end ?? (lease ? "—" : "")}</td>
+                      <td className="text-right">
+                        {lease?.last_increase_percent != null
+                          ? `${lease.last_increase_percent}% (${lease.last_increase_date ?? "?"})`
+                          : ""}
+                      </td>
+                      <td className="text-right space-x-2 whitespace-nowrap">
+                        <button
+                          onClick={() => {
+                            setLeaseUnitId(unit.id);
+                            setLeaseDraft(EMPTY_LEASE);
+                          }}
+                          className="text-xs text-primary hover:underline"
+                        >
+                          New lease
+                        </button>
+                        <button
+                          onClick={() => handleDeleteUnit(unit.id)}
+                          className="text-xs text-muted-foreground hover:text-destructive"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+
+          {leaseUnitId && (
+            <form
+              onSubmit={handleAddLease}
+              className="border border-border rounded-lg p-3 grid grid-cols-2 md:grid-cols-3 gap-3 items-end"
+            >
+              <Input
+                id="lease-tenant"
+                label="Tenant"
+                value={leaseDraft.tenant_name}
+                onChange={(e) => setLeaseDraft((prev) => ({ ...prev, tenant_name: e.target.value }))}
+                required
+              />
+              <Input
+                id="lease-rent"
+                label="Monthly Rent"
+                type="number"
+                value={leaseDraft.monthly_rent || ""}
+                onChange={(e) =>
+                  setLeaseDraft((prev) => ({ ...prev, monthly_rent: parseFloat(e.target.value) || 0 }))
+                }
+                required
+              />
+              <Input
+                id="lease-start"
+                label="Start"
+                type="date"
+                value={leaseDraft.lease_start}
+                onChange={(e) => setLeaseDraft((prev) => ({ ...prev, lease_start: e.target.value }))}
+                required
+              />
+              <Input
+                id="lease-end"
+                label="End"
+                type="date"
+                value={leaseDraft.lease_end ?? ""}
+                onChange={(e) => setLeaseDraft((prev) => ({ ...prev, lease_end: e.target.value || null }))}
+              />
+              <Input
+                id="lease-last-increase"
+                label="Last Increase %"
+                type="number"
+                step="0.1"
+                value={leaseDraft.last_increase_percent ?? ""}
+                onChange={(e) =>
+                  setLeaseDraft((prev) => ({
+                    ...prev,
+                    last_increase_percent: e.target.value ? parseFloat(e.target.value) : null,
+                  }))
+                }
+              />
+              <div className="flex gap-2">
+                <Button type="button" variant="ghost" onClick={() => setLeaseUnitId(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" loading={saving}>
+                  Save Lease
+                </Button>
+              </div>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
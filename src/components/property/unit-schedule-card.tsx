@@ -0,0 +1,135 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardContent } from "@/components/ui/card";
+import { UnitScheduleEditor } from "@/components/property/unit-schedule-editor";
+import {
+  formatRooms,
+  formatUnitSchedule,
+  scheduleMonthlyRent,
+  validateUnitSchedule,
+} from "@/lib/parsers/unit-mix-parser";
+import type { Property } from "@/types/property";
+import type { UnitScheduleEntry } from "@/types/unit-mix";
+
+interface UnitScheduleCardProps {
+  property: Property;
+  onUpdated: (property: Property) => void;
+}
+
+export function UnitScheduleCard({ property, onUpdated }: UnitScheduleCardProps) {
+  const schedule = property.unit_schedule ?? [];
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<UnitScheduleEntry[]>(schedule);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const monthlyRent = scheduleMonthlyRent(schedule);
+  const warnings = validateUnitSchedule(schedule, property.units);
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat("en-CA", {
+      style: "currency",
+      currency: "CAD",
+      maximumFractionDigits: 0,
+    }).format(price);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/properties/${property.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          unit_schedule: draft,
+          unit_details: formatUnitSchedule(draft) || null,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to save unit schedule");
+      }
+
+      onUpdated(result.data);
+      setEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save unit schedule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Unit Schedule</h2>
+          {!editing && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => {
+                setDraft(schedule);
+                setEditing(true);
+              }}
+            >
+              Edit
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {editing ? (
+          <>
+            <UnitScheduleEditor
+              value={draft}
+              onChange={setDraft}
+              units={property.units}
+              unitDetails={property.unit_details}
+            />
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="ghost" onClick={() => setEditing(false)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSave} loading={saving}>
+                Save
+              </Button>
+            </div>
+          </>
+        ) : schedule.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No unit schedule yet</p>
+        ) : (
+          <div className="space-y-1 text-sm">
+            {schedule.map((entry, i) => (
+              <div key={i} className="flex justify-between">
+                <span className="text-muted-foreground">
+                  {entry.count} x {formatRooms(entry.rooms)} ({entry.bedrooms} bd)
+                </span>
+                <span>
+                  {entry.current_rent != null ? `${formatPrice(entry.current_rent)}/mo` : "—"}
+                </span>
+              </div>
+            ))}
+            {monthlyRent != null && (
+              <div className="flex justify-between font-medium border-t border-border pt-1 mt-1">
+                <span className="text-muted-foreground">Known Rent</span>
+                <span>{formatPrice(monthlyRent)}/mo</span>
+              </div>
+            )}
+            {warnings.map((warning) => (
+              <p key={warning} className="text-xs text-destructive">
+                ⚠ {warning}
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  buildUnitSchedule,
+  formatRooms,
+  roomsToBedrooms,
+  validateUnitSchedule,
+} from "@/lib/parsers/unit-mix-parser";
+import type { UnitScheduleEntry } from "@/types/unit-mix";
+
+interface UnitScheduleEditorProps {
+  value: UnitScheduleEntry[];
+  onChange: (schedule: UnitScheduleEntry[]) => void;
+  units?: number | null; // Declared unit count, for validation
+  unitDetails?: string | null; // Raw string that can be parsed into rows
+}
+
+const ROOM_OPTIONS = [1.5, 2.5, 3.5, 4.5, 5.5, 6.5, 7.5, 8.5];
+
+const inputClasses =
+  "w-full h-9 px-2 rounded-lg bg-input border border-border text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring";
+
+export function UnitScheduleEditor({ value, onChange, units, unitDetails }: UnitScheduleEditorProps) {
+  const warnings = validateUnitSchedule(value, units);
+
+  const updateRow = (index: number, changes: Partial<UnitScheduleEntry>) => {
+    onChange(value.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const addRow = () => {
+    onChange([...value, { count: 1, rooms: 4.5, bedrooms: 2, current_rent: null }]);
+  };
+
+  const removeRow = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="block text-sm font-medium text-foreground">Unit Schedule</span>
+        {unitDetails && (
+          <button
+            type="button"
+            onClick={() => onChange(buildUnitSchedule(unitDetails))}
+            className="text-xs text-primary hover:underline"
+          >
+            Parse from &quot;{unitDetails}&quot;
+          </button>
+        )}
+      </div>
+
+      {value.length > 0 && (
+        <div className="grid grid-cols-[1fr_1fr_1fr_1.5fr_auto] gap-2 text-xs text-muted-foreground">
+          <span>Count</span>
+          <span>Rooms</span>
+          <span>Bedrooms</span>
+          <span>Rent ($/mo)</span>
+          <span />
+        </div>
+      )}
+
+      {value.map((row, index) => (
+        <div key={index} className="grid grid-cols-[1fr_1fr_1fr_1.5fr_auto] gap-2 items-center">
+          <input
+            type="number"
+            min={1}
+            className={inputClasses}
+            value={row.count}
+            onChange={(e) => updateRow(index, { count: parseInt(e.target.value) || 0 })}
+          />
+          <select
+            className={inputClasses}
+            value={row.rooms}
+            onChange={(e) => {
+              const rooms = parseFloat(e.target.value);
+              updateRow(index, { rooms, bedrooms: roomsToBedrooms(rooms) });
+            }}
+          >
+            {(ROOM_OPTIONS.includes(row.rooms) ? ROOM_OPTIONS : [...ROOM_OPTIONS, row.rooms]).map(
+              (rooms) => (
+                <option key={rooms} value={rooms}>
+                  {formatRooms(rooms)}
+                </option>
+              )
+            )}
+          </select>
+          <input
+            type="number"
+            min={0}
+            className={inputClasses}
+            value={row.bedrooms}
+            onChange={(e) => updateRow(index, { bedrooms: parseInt(e.target.value) || 0 })}
+          />
+          <input
+            type="number"
+            min={0}
+            className={inputClasses}
+            value={row.current_rent ?? ""}
+            onChange={(e) =>
+              updateRow(index, {
+                current_rent: e.target.value ? parseFloat(e.target.value) : null,
+              })
+            }
+            placeholder="Unknown"
+          />
+          <button
+            type="button"
+            onClick={() => removeRow(index)}
+            className="text-muted-foreground hover:text-destructive text-sm px-1"
+            aria-label="Remove unit type"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" onClick={addRow}>
+        Add Unit Type
+      </Button>
+
+      {warnings.map((warning) => (
+        <p key={warning} className="text-xs text-destructive">
+          ⚠ {warning}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -486,7 +486,7 @@ export function CentrisRentalImport() {
             <div className="flex gap-2">
               <Button
                 onClick={() => setBatchMode(false)}
-                variant={!batchMode ? "default" : "outline"}
+                variant={!batchMode ? "primary" : "outline"}
                 className="flex-1"
                 disabled={isProcessing || isBatchProcessing}
               >
@@ -494,7 +494,7 @@ export function CentrisRentalImport() {
               </Button>
               <Button
                 onClick={() => setBatchMode(true)}
-                variant={batchMode ? "default" : "outline"}
+                variant={batchMode ? "primary" : "outline"}
                 className="flex-1"
                 disabled={isProcessing || isBatchProcessing}
               >
@@ -516,7 +516,7 @@ export function CentrisRentalImport() {
             <div className="flex gap-2">
               <Button
                 onClick={() => handleModeChange("url")}
-                variant={importMode === "url" ? "default" : "outline"}
+                variant={importMode === "url" ? "primary" : "outline"}
                 className="flex-1"
                 disabled={isProcessing}
               >
@@ -524,7 +524,7 @@ export function CentrisRentalImport() {
               </Button>
               <Button
                 onClick={() => handleModeChange("json")}
-                variant={importMode === "json" ? "default" : "outline"}
+                variant={importMode === "json" ? "primary" : "outline"}
                 className="flex-1"
                 disabled={isProcessing}
               >
@@ -947,7 +947,7 @@ export function CentrisRentalImport() {
             </Button>
             <Button
               onClick={handleForceTransform}
-              variant="default"
+              variant="primary"
             >
               Re-Transform
             </Button>
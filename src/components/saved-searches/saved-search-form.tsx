@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardHeader, CardContent, CardFooter } from "@/components/ui/card";
+import type { SavedSearchInsert } from "@/types/saved-search";
+
+interface SavedSearchFormProps {
+  onSave: (search: SavedSearchInsert) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function SavedSearchForm({ onSave, onCancel }: SavedSearchFormProps) {
+  const [name, setName] = useState("");
+  const [searchUrl, setSearchUrl] = useState("");
+  const [minUnits, setMinUnits] = useState("");
+  const [maxPrice, setMaxPrice] = useState("");
+  const [boroughs, setBoroughs] = useState("");
+  const [intervalHours, setIntervalHours] = useState("24");
+  const [webhookUrl, setWebhookUrl] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      await onSave({
+        name: name.trim(),
+        search_url: searchUrl.trim(),
+        min_units: minUnits ? parseInt(minUnits) : null,
+        max_price: maxPrice ? parseFloat(maxPrice) : null,
+        boroughs: boroughs
+          .split(",")
+          .map((borough) => borough.trim())
+          .filter(Boolean),
+        run_interval_hours: parseInt(intervalHours) || 24,
+        webhook_url: webhookUrl.trim() || null,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <form onSubmit={handleSubmit}>
+        <CardHeader>
+          <h2 className="text-lg font-semibold">New Saved Search</h2>
+          <p className="text-sm text-muted-foreground">
+            Paste a Centris search results URL; the criteria below narrow it further
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input
+              label="Name"
+              placeholder="Rosemont plexes"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+            <Input
+              type="url"
+              label="Centris search URL"
+              placeholder="https://www.centris.ca/fr/plex~a-vendre~montreal-rosemont-la-petite-patrie"
+              value={searchUrl}
+              onChange={(e) => setSearchUrl(e.target.value)}
+              required
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input
+              type="number"
+              label="Min units"
+              min="1"
+              value={minUnits}
+              onChange={(e) => setMinUnits(e.target.value)}
+            />
+            <Input
+              type="number"
+              label="Max price"
+              min="0"
+              step="1000"
+              value={maxPrice}
+              onChange={(e) => setMaxPrice(e.target.value)}
+            />
+            <Input
+              type="number"
+              label="Run every (hours)"
+              min="1"
+              value={intervalHours}
+              onChange={(e) => setIntervalHours(e.target.value)}
+            />
+          </div>
+          <Input
+            label="Boroughs"
+            placeholder="Rosemont, Villeray, Plateau-Mont-Royal"
+            value={boroughs}
+            onChange={(e) => setBoroughs(e.target.value)}
+          />
+          <div>
+            <Input
+              type="url"
+              label="Digest webhook (optional)"
+              placeholder="https://hooks.slack.com/..."
+              value={webhookUrl}
+              onChange={(e) => setWebhookUrl(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Receives a JSON digest (subject, text and listings) after each run with new listings or
+              price drops; point it at Slack, Zapier or an email relay
+            </p>
+          </div>
+        </CardContent>
+        <CardFooter className="flex justify-end gap-2">
+          <Button type="button" variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit" loading={saving}>
+            Save Search
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
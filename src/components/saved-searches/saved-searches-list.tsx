@@ -0,0 +1,136 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import type { SavedSearchRunStatus, SavedSearchWithLastRun } from "@/types/saved-search";
+
+const RUN_STATUS_CLASSES: Record<SavedSearchRunStatus, string> = {
+  running: "bg-yellow-400/20 text-yellow-400",
+  completed: "bg-green-600/20 text-green-400",
+  failed: "bg-destructive/20 text-destructive",
+};
+
+interface SavedSearchesListProps {
+  searches: SavedSearchWithLastRun[];
+  runningId: string | null;
+  onRun: (search: SavedSearchWithLastRun) => void;
+  onToggleActive: (search: SavedSearchWithLastRun) => void;
+  onDelete: (searchId: string) => void;
+}
+
+export function SavedSearchesList({
+  searches,
+  runningId,
+  onRun,
+  onToggleActive,
+  onDelete,
+}: SavedSearchesListProps) {
+  const formatPrice = (price: number) =>
+    new Intl.NumberFormat("en-CA", {
+      style: "currency",
+      currency: "CAD",
+      maximumFractionDigits: 0,
+    }).format(price);
+
+  if (searches.length === 0) {
+    return (
+      <Card className="p-12 text-center">
+        <div className="text-muted-foreground">
+          <p className="text-lg mb-2">No saved searches yet</p>
+          <p className="text-sm">Save a Centris search to get alerted about new listings and price drops</p>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {searches.map((search) => {
+        const criteria = [
+          search.min_units != null && `${search.min_units}+ units`,
+          search.max_price != null && `≤ ${formatPrice(search.max_price)}`,
+          search.boroughs.length > 0 && search.boroughs.join(", "),
+        ].filter(Boolean);
+
+        return (
+          <Card key={search.id} className={`p-5 ${search.is_active ? "" : "opacity-60"}`}>
+            <div className="flex items-start justify-between gap-2 mb-2">
+              <div className="min-w-0">
+                <h3 className="font-bold text-lg truncate">{search.name}</h3>
+                <a
+                  href={search.search_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs text-muted-foreground hover:text-foreground truncate block"
+                >
+                  {search.search_url}
+                </a>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onDelete(search.id)}
+                className="text-destructive hover:text-destructive hover:bg-destructive/10"
+              >
+                Delete
+              </Button>
+            </div>
+
+            <p className="text-sm mb-3">
+              {criteria.length > 0 ? criteria.join(" · ") : "Every listing in the search"}
+            </p>
+
+            <div className="space-y-1 text-sm mb-4">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Schedule:</span>
+                <span className="font-medium">
+                  {search.is_active ? `Every ${search.run_interval_hours}h` : "Paused"}
+                  {search.webhook_url && " · webhook"}
+                </span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-muted-foreground">Last run:</span>
+                {search.last_run ? (
+                  <span className="flex items-center gap-2">
+                    <span
+                      className={`px-2 py-0.5 rounded text-xs font-medium capitalize ${RUN_STATUS_CLASSES[search.last_run.status]}`}
+                    >
+                      {search.last_run.status}
+                    </span>
+                    {new Date(search.last_run.started_at).toLocaleString("en-CA")}
+                  </span>
+                ) : (
+                  <span className="font-medium">Never</span>
+                )}
+              </div>
+              {search.last_run?.status === "completed" && (
+                <p className="text-xs text-muted-foreground text-right">
+                  {search.last_run.listings_seen} listings · {search.last_run.new_listings} new ·{" "}
+                  {search.last_run.price_drops} price drops
+                </p>
+              )}
+              {search.last_run?.error && (
+                <p className="text-xs text-destructive text-right">{search.last_run.error}</p>
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                className="flex-1"
+                loading={runningId === search.id}
+                disabled={runningId !== null}
+                onClick={() => onRun(search)}
+              >
+                Run Now
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => onToggleActive(search)}>
+                {search.is_active ? "Pause" : "Resume"}
+              </Button>
+            </div>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { Card, CardHeader, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import type { HttpMetrics } from "@/types/http-metrics";
+
+interface FetchMetricsProps {
+  metrics: HttpMetrics;
+  onReset: () => void;
+}
+
+export function FetchMetrics({ metrics, onReset }: FetchMetricsProps) {
+  const hosts = Object.entries(metrics.hosts).sort(([, a], [, b]) => b.requests - a.requests);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold">Fetches</h2>
+            <p className="text-sm text-muted-foreground">
+              Since {new Date(metrics.since).toLocaleString("en-CA")} (reset when the server restarts)
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={onReset}>
+            Reset
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {hosts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No pages fetched yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b border-border">
+                  <th className="py-2 pr-4 font-medium">Host</th>
+                  <th className="py-2 px-2 font-medium text-right">Requests</th>
+                  <th className="py-2 px-2 font-medium text-right">Cache hits</th>
+                  <th className="py-2 px-2 font-medium text-right">Retries</th>
+                  <th className="py-2 px-2 font-medium text-right">Network errors</th>
+                  <th className="py-2 px-2 font-medium text-right">429</th>
+                  <th className="py-2 px-2 font-medium text-right">Blocked</th>
+                  <th className="py-2 pl-2 font-medium text-right">Last blocked</th>
+                </tr>
+              </thead>
+              <tbody>
+                {hosts.map(([host, hostMetrics]) => (
+                  <tr key={host} className="border-b border-border/50">
+                    <td className="py-1.5 pr-4">{host}</td>
+                    <td className="py-1.5 px-2 text-right">{hostMetrics.requests}</td>
+                    <td className="py-1.5 px-2 text-right">{hostMetrics.cacheHits}</td>
+                    <td className="py-1.5 px-2 text-right">{hostMetrics.retries}</td>
+                    <td className="py-1.5 px-2 text-right">{hostMetrics.networkErrors}</td>
+                    <td className="py-1.5 px-2 text-right">{hostMetrics.rateLimited}</td>
+                    <td className="py-1.5 px-2 text-right">
+                      <span
+                        className={
+                          hostMetrics.blocked > 0
+                            ? "px-2 py-0.5 rounded text-xs font-medium bg-destructive/20 text-destructive"
+                            : ""
+                        }
+                      >
+                        {hostMetrics.blocked}
+                      </span>
+                    </td>
+                    <td className="py-1.5 pl-2 text-right text-muted-foreground">
+                      {hostMetrics.lastBlockedAt
+                        ? new Date(hostMetrics.lastBlockedAt).toLocaleString("en-CA")
+                        : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { Card, CardHeader, CardContent } from "@/components/ui/card";
+import { COVERAGE_FIELDS, COVERAGE_FIELD_LABELS } from "@/lib/listings/field-coverage";
+import type { CoverageReport, SourceCoverage } from "@/types/scrape-coverage";
+
+interface FieldCoverageReportProps {
+  report: CoverageReport;
+}
+
+const formatPercent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+function rateClass(rate: number) {
+  if (rate >= 0.8) return "bg-green-600/20 text-green-400";
+  if (rate >= 0.4) return "bg-yellow-400/20 text-yellow-400";
+  if (rate > 0) return "bg-destructive/20 text-destructive";
+  return "text-muted-foreground";
+}
+
+function TrendBars({ coverage }: { coverage: SourceCoverage }) {
+  return (
+    <div className="flex items-end gap-0.5 h-10" title="Daily fill rate">
+      {coverage.trend.map((point) => (
+        <div
+          key={point.date}
+          className="w-2 bg-primary/60 rounded-sm"
+          style={{ height: `${Math.max(point.fillRate * 100, 4)}%` }}
+          title={`${point.date}: ${formatPercent(point.fillRate)} over ${point.scrapes} scrape(s)`}
+        />
+      ))}
+    </div>
+  );
+}
+
+export function FieldCoverageReport({ report }: FieldCoverageReportProps) {
+  const sourceNames = [...new Set(report.sources.map((coverage) => coverage.sourceName))];
+
+  if (report.sources.length === 0) {
+    return (
+      <Card className="p-12 text-center">
+        <div className="text-muted-foreground">
+          <p className="text-lg mb-2">No scrapes recorded in this period</p>
+          <p className="text-sm">Coverage is recorded every time a listing is scraped</p>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {report.alerts.length > 0 && (
+        <div className="p-4 bg-destructive/10 border border-destructive/20 rounded-lg space-y-1">
+          <p className="font-medium text-destructive">
+            {report.alerts.length} field(s) filled much less often since{" "}
+            {new Date(report.recentSince).toLocaleDateString("en-CA")}; a selector may have broken
+          </p>
+          {report.alerts.map((alert) => (
+            <p key={`${alert.sourceName}-${alert.field}`} className="text-sm">
+              <span className="font-medium capitalize">{alert.sourceName}</span> ·{" "}
+              {COVERAGE_FIELD_LABELS[alert.field]}: {formatPercent(alert.baselineRate)} →{" "}
+              {formatPercent(alert.recentRate)}
+              <span className="text-muted-foreground">
+                {" "}
+                ({alert.baselineScrapes} scrapes before, {alert.recentScrapes} since)
+              </span>
+            </p>
+          ))}
+        </div>
+      )}
+
+      {sourceNames.map((sourceName) => {
+        // Newest version first
+        const versions = report.sources.filter((coverage) => coverage.sourceName === sourceName);
+
+        return (
+          <Card key={sourceName}>
+            <CardHeader>
+              <h2 className="text-lg font-semibold capitalize">{sourceName}</h2>
+              <div className="flex flex-wrap gap-6 mt-2">
+                {versions.map((coverage) => (
+                  <div key={coverage.scraperVersion} className="space-y-1">
+                    <p className="text-sm">
+                      <span className="font-medium">v{coverage.scraperVersion}</span>{" "}
+                      <span className="text-muted-foreground">
+                        · {coverage.scrapes} scrapes · {formatPercent(coverage.fillRate)} filled · last{" "}
+                        {new Date(coverage.lastScrapedAt).toLocaleDateString("en-CA")}
+                      </span>
+                    </p>
+                    <TrendBars coverage={coverage} />
+                  </div>
+                ))}
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground border-b border-border">
+                      <th className="py-2 pr-4 font-medium">Field</th>
+                      {versions.map((coverage) => (
+                        <th key={coverage.scraperVersion} className="py-2 px-2 font-medium text-right">
+                          v{coverage.scraperVersion}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {COVERAGE_FIELDS.map((field) => (
+                      <tr key={field} className="border-b border-border/50">
+                        <td className="py-1.5 pr-4">{COVERAGE_FIELD_LABELS[field]}</td>
+                        {versions.map((coverage) => (
+                          <td key={coverage.scraperVersion} className="py-1.5 px-2 text-right">
+                            <span
+                              className={`px-2 py-0.5 rounded text-xs font-medium ${rateClass(coverage.fieldFillRates[field])}`}
+                            >
+                              {formatPercent(coverage.fieldFillRates[field])}
+                            </span>
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -4,25 +4,47 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardHeader, CardContent, CardFooter } from "@/components/ui/card";
-import type { ScrapedProperty, CreatePropertyInput } from "@/types/property";
+import { lowConfidenceFields } from "@/lib/scrapers/field-confidence";
+import { COVERAGE_FIELD_LABELS } from "@/lib/listings/field-coverage";
+import type { ScrapedProperty, ScrapedField, CreatePropertyInput } from "@/types/property";
 
 interface ScrapePreviewProps {
   property: ScrapedProperty;
+  initialValues?: CreatePropertyInput; // Earlier edits to restore
+  saveLabel?: string;
   onSave: (property: CreatePropertyInput) => Promise<void>;
   onCancel: () => void;
 }
 
-export function ScrapePreview({ property, onSave, onCancel }: ScrapePreviewProps) {
-  const [editedProperty, setEditedProperty] = useState<CreatePropertyInput>({
-    ...property,
-  });
+export function ScrapePreview({
+  property,
+  initialValues,
+  saveLabel = "Save Property",
+  onSave,
+  onCancel,
+}: ScrapePreviewProps) {
+  const [editedProperty, setEditedProperty] = useState<CreatePropertyInput>(
+    initialValues ?? { ...property }
+  );
   const [saving, setSaving] = useState(false);
+  // Low confidence fields stop being highlighted once the user edits them
+  const [editedFields, setEditedFields] = useState<Set<string>>(new Set());
+
+  const toVerify = lowConfidenceFields(property.field_confidence).filter(
+    (field) => !editedFields.has(field)
+  );
+
+  const verifyProps = (field: ScrapedField) =>
+    toVerify.includes(field)
+      ? { className: "ring-2 ring-yellow-400/60", title: "Guessed from the page text; check it against the listing" }
+      : {};
 
   const updateField = <K extends keyof CreatePropertyInput>(
     field: K,
     value: CreatePropertyInput[K]
   ) => {
     setEditedProperty((prev) => ({ ...prev, [field]: value }));
+    setEditedFields((prev) => new Set(prev).add(field));
   };
 
   const handleSave = async () => {
@@ -62,6 +84,15 @@ export function ScrapePreview({ property, onSave, onCancel }: ScrapePreviewProps
       </CardHeader>
 
       <CardContent className="space-y-4">
+        {toVerify.length > 0 && (
+          <div className="p-3 bg-yellow-400/10 border border-yellow-400/30 rounded-lg">
+            <p className="text-sm text-yellow-400">
+              Not sure about {toVerify.map((field) => COVERAGE_FIELD_LABELS[field]).join(", ")}:
+              check the highlighted fields against the listing before saving
+            </p>
+          </div>
+        )}
+
         {/* Images preview */}
         {property.images.length > 0 && (
           <div className="flex gap-2 overflow-x-auto pb-2">
@@ -86,12 +117,14 @@ export function ScrapePreview({ property, onSave, onCancel }: ScrapePreviewProps
         {/* Editable fields */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <Input
+            {...verifyProps("title")}
             label="Title"
             value={editedProperty.title || ""}
             onChange={(e) => updateField("title", e.target.value)}
           />
 
           <Input
+            {...verifyProps("price")}
             label="Price"
             type="number"
             value={editedProperty.price || ""}
@@ -102,6 +135,7 @@ export function ScrapePreview({ property, onSave, onCancel }: ScrapePreviewProps
           />
 
           <Input
+            {...verifyProps("units")}
             label="Units"
             type="number"
             value={editedProperty.units ?? ""}
@@ -112,6 +146,7 @@ export function ScrapePreview({ property, onSave, onCancel }: ScrapePreviewProps
           />
 
           <Input
+            {...verifyProps("unit_details")}
             label="Unit Details"
             value={editedProperty.unit_details || ""}
             onChange={(e) => updateField("unit_details", e.target.value || undefined)}
@@ -119,18 +154,21 @@ export function ScrapePreview({ property, onSave, onCancel }: ScrapePreviewProps
           />
 
           <Input
+            {...verifyProps("address")}
             label="Address"
             value={editedProperty.address || ""}
             onChange={(e) => updateField("address", e.target.value || undefined)}
           />
 
           <Input
+            {...verifyProps("city")}
             label="City"
             value={editedProperty.city || ""}
             onChange={(e) => updateField("city", e.target.value || undefined)}
           />
 
           <Input
+            {...verifyProps("bedrooms")}
             label="Bedrooms"
             type="number"
             value={editedProperty.bedrooms ?? ""}
@@ -140,6 +178,7 @@ export function ScrapePreview({ property, onSave, onCancel }: ScrapePreviewProps
           />
 
           <Input
+            {...verifyProps("bathrooms")}
             label="Bathrooms"
             type="number"
             step="0.5"
@@ -150,6 +189,7 @@ export function ScrapePreview({ property, onSave, onCancel }: ScrapePreviewProps
           />
 
           <Input
+            {...verifyProps("sqft")}
             label="Square Feet"
             type="number"
             value={editedProperty.sqft ?? ""}
@@ -159,6 +199,7 @@ export function ScrapePreview({ property, onSave, onCancel }: ScrapePreviewProps
           />
 
           <Input
+            {...verifyProps("year_built")}
             label="Year Built"
             type="number"
             value={editedProperty.year_built ?? ""}
@@ -168,6 +209,7 @@ export function ScrapePreview({ property, onSave, onCancel }: ScrapePreviewProps
           />
 
           <Input
+            {...verifyProps("potential_revenue")}
             label="Potential Revenue"
             type="number"
             value={editedProperty.potential_revenue ?? ""}
@@ -183,6 +225,7 @@ export function ScrapePreview({ property, onSave, onCancel }: ScrapePreviewProps
           <h4 className="text-sm font-medium text-foreground">Évaluation municipale</h4>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <Input
+              {...verifyProps("assessment_land")}
               label="Terrain"
               type="number"
               value={editedProperty.assessment_land ?? ""}
@@ -191,6 +234,7 @@ export function ScrapePreview({ property, onSave, onCancel }: ScrapePreviewProps
               }
             />
             <Input
+              {...verifyProps("assessment_building")}
               label="Bâtiment"
               type="number"
               value={editedProperty.assessment_building ?? ""}
@@ -199,6 +243,7 @@ export function ScrapePreview({ property, onSave, onCancel }: ScrapePreviewProps
               }
             />
             <Input
+              {...verifyProps("municipal_assessment")}
               label="Total"
               type="number"
               value={editedProperty.municipal_assessment ?? ""}
@@ -211,6 +256,7 @@ export function ScrapePreview({ property, onSave, onCancel }: ScrapePreviewProps
           <h4 className="text-sm font-medium text-foreground">Taxes</h4>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <Input
+              {...verifyProps("taxes_municipal")}
               label="Municipales"
               type="number"
               value={editedProperty.taxes_municipal ?? ""}
@@ -219,6 +265,7 @@ export function ScrapePreview({ property, onSave, onCancel }: ScrapePreviewProps
               }
             />
             <Input
+              {...verifyProps("taxes_school")}
               label="Scolaires"
               type="number"
               value={editedProperty.taxes_school ?? ""}
@@ -227,6 +274,7 @@ export function ScrapePreview({ property, onSave, onCancel }: ScrapePreviewProps
               }
             />
             <Input
+              {...verifyProps("taxes")}
               label="Total"
               type="number"
               value={editedProperty.taxes ?? ""}
@@ -239,6 +287,7 @@ export function ScrapePreview({ property, onSave, onCancel }: ScrapePreviewProps
           <h4 className="text-sm font-medium text-foreground">Dépenses</h4>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <Input
+              {...verifyProps("expense_electricity")}
               label="Électricité"
               type="number"
               value={editedProperty.expense_electricity ?? ""}
@@ -247,6 +296,7 @@ export function ScrapePreview({ property, onSave, onCancel }: ScrapePreviewProps
               }
             />
             <Input
+              {...verifyProps("expense_heating")}
               label="Mazout/Chauffage"
               type="number"
               value={editedProperty.expense_heating ?? ""}
@@ -255,6 +305,7 @@ export function ScrapePreview({ property, onSave, onCancel }: ScrapePreviewProps
               }
             />
             <Input
+              {...verifyProps("expenses")}
               label="Total"
               type="number"
               value={editedProperty.expenses ?? ""}
@@ -283,7 +334,7 @@ export function ScrapePreview({ property, onSave, onCancel }: ScrapePreviewProps
           Cancel
         </Button>
         <Button onClick={handleSave} loading={saving}>
-          Save Property
+          {saveLabel}
         </Button>
       </CardFooter>
     </Card>
@@ -0,0 +1,367 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardHeader, CardContent, CardFooter } from "@/components/ui/card";
+import { ScrapePreview } from "@/components/scraper/scrape-preview";
+import { TRACKED_LISTING_FIELD_LABELS } from "@/lib/listings/tracked-fields";
+import type { CreatePropertyInput } from "@/types/property";
+import type {
+  SearchCrawlResult,
+  SearchImportFailure,
+  SearchImportItem,
+  SearchImportPreview,
+  SearchImportStatus,
+} from "@/types/search-import";
+
+const LISTING_DELAY_MS = 1000; // Between listing scrapes, to stay under Centris' rate limit
+
+const STATUS_CLASSES: Record<SearchImportStatus, string> = {
+  new: "bg-green-600/20 text-green-400",
+  updated: "bg-yellow-400/20 text-yellow-400",
+  unchanged: "bg-secondary text-muted-foreground",
+};
+
+interface ImportResult {
+  created: number;
+  updated: number;
+  failed: number;
+}
+
+export function SearchImport() {
+  const [url, setUrl] = useState("");
+  const [maxListings, setMaxListings] = useState("50");
+  const [crawling, setCrawling] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [preview, setPreview] = useState<SearchImportPreview | null>(null);
+  const [edits, setEdits] = useState<Record<number, CreatePropertyInput>>({});
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [reviewing, setReviewing] = useState<number | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCrawl = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCrawling(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const response = await fetch("/api/scrape/search", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url: url.trim(), maxListings }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to crawl search results");
+      }
+
+      const crawled: SearchCrawlResult = data.data;
+      const { searchUrl, totalResults } = crawled;
+      const items: SearchImportItem[] = [];
+      const failures: SearchImportFailure[] = [];
+      setPreview({ searchUrl, totalResults, items, failures });
+      setEdits({});
+      setSelected(new Set());
+
+      // One request per listing, like the zone scrape-single flow, so a long search never times out
+      for (let i = 0; i < crawled.listingUrls.length; i++) {
+        setProgress({ done: i, total: crawled.listingUrls.length });
+        const listingUrl = crawled.listingUrls[i];
+
+        try {
+          const listingResponse = await fetch("/api/scrape/search/listing", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ url: listingUrl }),
+          });
+          const listingData = await listingResponse.json();
+
+          if (!listingResponse.ok) {
+            throw new Error(listingData.error || "Failed to scrape listing");
+          }
+
+          const item: SearchImportItem = listingData.data;
+          const index = items.push(item) - 1;
+          if (item.status !== "unchanged") {
+            setSelected((prev) => new Set(prev).add(index));
+          }
+        } catch (err) {
+          failures.push({
+            url: listingUrl,
+            error: err instanceof Error ? err.message : "Failed to scrape listing",
+          });
+        }
+
+        setPreview({ searchUrl, totalResults, items: [...items], failures: [...failures] });
+
+        if (i < crawled.listingUrls.length - 1) {
+          await new Promise((resolve) => setTimeout(resolve, LISTING_DELAY_MS));
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to crawl search results");
+    } finally {
+      setCrawling(false);
+      setProgress(null);
+    }
+  };
+
+  const countByStatus = (status: SearchImportStatus) =>
+    preview?.items.filter((item) => item.status === status).length ?? 0;
+
+  const toggleSelected = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const propertyFor = (index: number): CreatePropertyInput =>
+    edits[index] ?? { ...preview!.items[index].listing };
+
+  const createProperty = async (property: CreatePropertyInput) => {
+    // Auto-geocode if address exists
+    if (property.address && !property.latitude) {
+      try {
+        const geoResponse = await fetch("/api/geocode", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            address: property.address,
+            city: property.city,
+            postalCode: property.postal_code,
+          }),
+        });
+
+        if (geoResponse.ok) {
+          const geoResult = await geoResponse.json();
+          property = { ...property, latitude: geoResult.data.latitude, longitude: geoResult.data.longitude };
+        }
+      } catch {
+        // Geocoding failed, continue without coordinates
+      }
+    }
+
+    return fetch("/api/properties", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(property),
+    });
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    setImporting(true);
+    setError(null);
+
+    const counts: ImportResult = { created: 0, updated: 0, failed: 0 };
+
+    for (const index of [...selected].sort((a, b) => a - b)) {
+      const item = preview.items[index];
+      const property = propertyFor(index);
+
+      try {
+        let response: Response;
+        if (item.status === "new") {
+          response = await createProperty(property);
+        } else {
+          // Only the fields that changed on the listing are written back
+          const updates = Object.fromEntries(
+            item.changes.map((change) => [change.field, property[change.field]])
+          );
+          response = await fetch(`/api/properties/${item.existingId}`, {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(updates),
+          });
+        }
+
+        if (!response.ok) throw new Error();
+        if (item.status === "new") counts.created++;
+        else counts.updated++;
+      } catch {
+        counts.failed++;
+      }
+    }
+
+    setResult(counts);
+    setImporting(false);
+  };
+
+  const formatPrice = (price: number | null | undefined) => {
+    if (price == null) return "—";
+    return new Intl.NumberFormat("en-CA", {
+      style: "currency",
+      currency: "CAD",
+      maximumFractionDigits: 0,
+    }).format(price);
+  };
+
+  const formatValue = (value: string | number | null) =>
+    typeof value === "number" ? value.toLocaleString("en-CA") : value ?? "—";
+
+  if (preview && reviewing !== null) {
+    return (
+      <ScrapePreview
+        property={preview.items[reviewing].listing}
+        initialValues={edits[reviewing]}
+        saveLabel="Keep Changes"
+        onSave={async (property) => {
+          setEdits((prev) => ({ ...prev, [reviewing]: property }));
+          setReviewing(null);
+        }}
+        onCancel={() => setReviewing(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <h2 className="text-lg font-semibold">Import Centris Search</h2>
+          <p className="text-sm text-muted-foreground">
+            Paste a Centris search results URL; every listing is scraped and matched against
+            saved properties by MLS number
+          </p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCrawl} className="flex gap-2 items-end">
+            <div className="flex-1">
+              <Input
+                type="url"
+                label="Search URL"
+                placeholder="https://www.centris.ca/fr/plex~a-vendre~montreal-rosemont-la-petite-patrie"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                required
+              />
+            </div>
+            <div className="w-28">
+              <Input
+                type="number"
+                label="Max listings"
+                min="1"
+                max="100"
+                value={maxListings}
+                onChange={(e) => setMaxListings(e.target.value)}
+              />
+            </div>
+            <Button type="submit" loading={crawling}>
+              {crawling ? "Crawling..." : "Crawl"}
+            </Button>
+          </form>
+          {crawling && (
+            <p className="text-sm text-muted-foreground mt-3">
+              {progress
+                ? `Scraping listing ${progress.done + 1} of ${progress.total}; this can take a few minutes`
+                : "Collecting listings from the search results..."}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div className="p-4 bg-destructive/10 border border-destructive/20 rounded-lg">
+          <p className="text-destructive">{error}</p>
+        </div>
+      )}
+
+      {preview && (
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-semibold">
+              {preview.items.length} listings
+              {preview.totalResults != null && ` of ${preview.totalResults} results`}
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              {countByStatus("new")} new · {countByStatus("updated")} updated · {countByStatus("unchanged")} unchanged
+              {preview.failures.length > 0 && ` · ${preview.failures.length} failed`}
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {preview.items.map((item, index) => (
+              <div
+                key={item.listing.source_url}
+                className="flex items-start gap-3 p-3 bg-secondary/50 rounded-lg text-sm"
+              >
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={selected.has(index)}
+                  disabled={item.status === "unchanged"}
+                  onChange={() => toggleSelected(index)}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium capitalize ${STATUS_CLASSES[item.status]}`}>
+                      {item.status}
+                    </span>
+                    <span className="font-medium truncate">
+                      {propertyFor(index).address || propertyFor(index).title}
+                    </span>
+                  </div>
+                  <p className="text-muted-foreground">
+                    {formatPrice(propertyFor(index).price)}
+                    {item.listing.mls_number && ` · MLS ${item.listing.mls_number}`}
+                    {edits[index] && " · edited"}
+                  </p>
+                  {item.changes.map((change) => (
+                    <p key={change.field} className="text-xs text-muted-foreground">
+                      {TRACKED_LISTING_FIELD_LABELS[change.field]}: {formatValue(change.previous)} →{" "}
+                      {formatValue(change.current)}
+                    </p>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  {item.existingId && (
+                    <Link href={`/properties/${item.existingId}`}>
+                      <Button size="sm" variant="ghost">
+                        Saved
+                      </Button>
+                    </Link>
+                  )}
+                  {item.status !== "unchanged" && (
+                    <Button size="sm" variant="outline" onClick={() => setReviewing(index)}>
+                      Review
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            {preview.failures.map((failure) => (
+              <p key={failure.url} className="text-xs text-destructive truncate">
+                ✗ {failure.url}: {failure.error}
+              </p>
+            ))}
+          </CardContent>
+          <CardFooter className="flex items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground">
+              {result
+                ? `Imported: ${result.created} created, ${result.updated} updated${result.failed ? `, ${result.failed} failed` : ""}`
+                : `${selected.size} selected`}
+            </p>
+            {result ? (
+              <Link href="/">
+                <Button variant="outline">Back to Dashboard</Button>
+              </Link>
+            ) : (
+              <Button onClick={handleImport} loading={importing} disabled={crawling || selected.size === 0}>
+                Import Selected
+              </Button>
+            )}
+          </CardFooter>
+        </Card>
+      )}
+    </div>
+  );
+}
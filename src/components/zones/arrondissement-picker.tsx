@@ -0,0 +1,68 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useArrondissements, type Arrondissement } from "@/hooks/useArrondissements";
+
+interface ArrondissementPickerProps {
+  onSelect: (arrondissement: Arrondissement) => void;
+  onCancel: () => void;
+}
+
+export function ArrondissementPicker({ onSelect, onCancel }: ArrondissementPickerProps) {
+  const { arrondissements, loading, error } = useArrondissements();
+  const [search, setSearch] = useState("");
+
+  const filtered = arrondissements.filter((a) =>
+    a.name.toLowerCase().includes(search.trim().toLowerCase())
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[10000]">
+      <div className="bg-card border border-border rounded-lg p-6 max-w-md w-full mx-4">
+        <h2 className="text-xl font-bold mb-4">Zone from Arrondissement</h2>
+
+        {loading ? (
+          <p className="text-muted-foreground py-4">Loading boundaries...</p>
+        ) : error ? (
+          <div className="bg-destructive/10 text-destructive p-3 rounded text-sm space-y-2">
+            <p>Could not load the arrondissement boundaries ({error}).</p>
+            <p className="text-muted-foreground">
+              Download the GeoJSON of &quot;Limites administratives de l&apos;agglomération de Montréal&quot; from the
+              city&apos;s open data portal and save it as <code>public/data/arrondissements.geojson</code>.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search arrondissements..."
+              autoFocus
+            />
+            <div className="max-h-80 overflow-y-auto space-y-1">
+              {filtered.map((arrondissement) => (
+                <button
+                  key={arrondissement.name}
+                  type="button"
+                  onClick={() => onSelect(arrondissement)}
+                  className="w-full text-left px-3 py-2 rounded hover:bg-secondary transition-colors text-sm"
+                >
+                  {arrondissement.name}
+                </button>
+              ))}
+              {filtered.length === 0 && (
+                <p className="text-sm text-muted-foreground px-3 py-2">No arrondissement matches</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <Button variant="outline" onClick={onCancel} className="w-full mt-4">
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -3,32 +3,59 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import type { ZoneBounds } from "@/types/scraping-zone";
+import { Select } from "@/components/ui/select";
+import { describeZoneCriteria, normalizeZoneCriteria } from "@/lib/zones/zone-criteria";
+import { describeZoneShape, geometryBounds } from "@/lib/zones/zone-geometry";
+import type { ZoneCriteria, ZoneGeometry } from "@/types/scraping-zone";
+
+// Min / max criteria inputs, as label and ZoneCriteria keys
+const RANGE_FIELDS: { label: string; min: keyof ZoneCriteria; max: keyof ZoneCriteria; placeholder: string }[] = [
+  { label: "Year Built", min: "min_year", max: "max_year", placeholder: "e.g., 1950" },
+  { label: "Floors", min: "min_floors", max: "max_floors", placeholder: "e.g., 3" },
+  { label: "Land Area (m²)", min: "min_land_area", max: "max_land_area", placeholder: "e.g., 300" },
+  { label: "Building Area (m²)", min: "min_building_area", max: "max_building_area", placeholder: "e.g., 500" },
+];
 
 interface ZoneCreationModalProps {
-  bounds: ZoneBounds;
+  geometry: ZoneGeometry;
+  defaultName?: string;
   onSave: (data: {
     name: string;
     description: string;
     targetLimit: number;
     minUnits: number;
     maxUnits: number | null;
+    criteria: ZoneCriteria;
   }) => Promise<void>;
   onCancel: () => void;
 }
 
 export function ZoneCreationModal({
-  bounds,
+  geometry,
+  defaultName = "",
   onSave,
   onCancel,
 }: ZoneCreationModalProps) {
-  const [name, setName] = useState("");
+  const bounds = geometryBounds(geometry);
+  const [name, setName] = useState(defaultName);
   const [description, setDescription] = useState("");
   const [targetLimit, setTargetLimit] = useState(50);
   const [minUnits, setMinUnits] = useState(3);
   const [maxUnits, setMaxUnits] = useState<string>("");
+  const [criteriaInput, setCriteriaInput] = useState<Record<string, string>>({});
+  const [showCriteria, setShowCriteria] = useState(false);
   const [loading, setLoading] = useState(false);
 
+  const criteria = normalizeZoneCriteria(criteriaInput);
+  const criteriaSummary = describeZoneCriteria({
+    min_units: minUnits,
+    max_units: maxUnits === "" ? null : parseInt(maxUnits),
+    criteria,
+  });
+
+  const setCriterion = (key: string, value: string) =>
+    setCriteriaInput({ ...criteriaInput, [key]: value });
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -39,6 +66,7 @@ export function ZoneCreationModal({
         targetLimit,
         minUnits,
         maxUnits: maxUnits === "" ? null : parseInt(maxUnits),
+        criteria,
       });
     } finally {
       setLoading(false);
@@ -47,7 +75,7 @@ export function ZoneCreationModal({
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[10000]">
-      <div className="bg-card border border-border rounded-lg p-6 max-w-md w-full mx-4">
+      <div className="bg-card border border-border rounded-lg p-6 max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto">
         <h2 className="text-xl font-bold mb-4">Save Scraping Zone</h2>
 
         <form onSubmit={handleSubmit} className="space-y-4">
@@ -123,8 +151,86 @@ export function ZoneCreationModal({
             </div>
           </div>
 
+          <button
+            type="button"
+            onClick={() => setShowCriteria(!showCriteria)}
+            className="text-sm text-muted-foreground hover:text-foreground"
+          >
+            {showCriteria ? "▼" : "▶"} More Criteria
+          </button>
+
+          {showCriteria && (
+            <div className="space-y-3 border-t border-border pt-3">
+              {RANGE_FIELDS.map((field) => (
+                <div key={field.label}>
+                  <label className="block text-sm font-medium mb-1">{field.label}</label>
+                  <div className="grid grid-cols-2 gap-3">
+                    <Input
+                      type="number"
+                      value={criteriaInput[field.min] ?? ""}
+                      onChange={(e) => setCriterion(field.min, e.target.value)}
+                      placeholder={`Min, ${field.placeholder}`}
+                      min={0}
+                    />
+                    <Input
+                      type="number"
+                      value={criteriaInput[field.max] ?? ""}
+                      onChange={(e) => setCriterion(field.max, e.target.value)}
+                      placeholder="Max"
+                      min={0}
+                    />
+                  </div>
+                </div>
+              ))}
+
+              <div className="grid grid-cols-2 gap-3">
+                <Select
+                  label="Category"
+                  value={criteriaInput.categories ?? ""}
+                  onChange={(e) => setCriterion("categories", e.target.value)}
+                >
+                  <option value="">All Categories</option>
+                  <option value="Régulier">Régulier</option>
+                  <option value="Condominium">Condominium</option>
+                </Select>
+
+                <div>
+                  <label className="block text-sm font-medium mb-1.5">Usage Codes</label>
+                  <Input
+                    value={criteriaInput.usage_codes ?? ""}
+                    onChange={(e) => setCriterion("usage_codes", e.target.value)}
+                    placeholder="e.g., 1000, 1010"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  Not Scraped in the Last (months)
+                </label>
+                <Input
+                  type="number"
+                  value={criteriaInput.not_scraped_within_months ?? ""}
+                  onChange={(e) => setCriterion("not_scraped_within_months", e.target.value)}
+                  placeholder="Any scrape counts"
+                  min={1}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Older scrapes count as unscraped, so the zone scrapes those buildings again
+                </p>
+              </div>
+            </div>
+          )}
+
+          {criteriaSummary.length > 0 && (
+            <div className="bg-secondary p-3 rounded text-sm">
+              <div className="font-medium mb-1">Buildings Selected:</div>
+              <div className="text-xs text-muted-foreground">{criteriaSummary.join(" · ")}</div>
+            </div>
+          )}
+
           <div className="bg-secondary p-3 rounded text-sm">
-            <div className="font-medium mb-2">Zone Bounds:</div>
+            <div className="font-medium mb-2">Zone Shape: {describeZoneShape(geometry)}</div>
             <div className="space-y-1 text-xs text-muted-foreground font-mono">
               <div>Lat: {bounds.minLat.toFixed(6)} to {bounds.maxLat.toFixed(6)}</div>
               <div>Lng: {bounds.minLng.toFixed(6)} to {bounds.maxLng.toFixed(6)}</div>
@@ -0,0 +1,157 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import type { ZoneScrapingJob, ZoneScrapingJobStatus } from "@/types/scraping-zone";
+
+const JOB_STATUS_CLASSES: Record<ZoneScrapingJobStatus, string> = {
+  pending: "bg-blue-600/20 text-blue-400",
+  running: "bg-yellow-400/20 text-yellow-400",
+  completed: "bg-green-600/20 text-green-400",
+  failed: "bg-destructive/20 text-destructive",
+  cancelled: "bg-secondary text-muted-foreground",
+};
+
+interface ZoneScrapingJobsProps {
+  jobs: ZoneScrapingJob[];
+  defaultLimit: number;
+  updatingJobId: string | null;
+  onStart: (requestedLimit: number) => void;
+  onCancel: (job: ZoneScrapingJob) => void;
+  onResume: (job: ZoneScrapingJob) => void;
+}
+
+export function ZoneScrapingJobs({
+  jobs,
+  defaultLimit,
+  updatingJobId,
+  onStart,
+  onCancel,
+  onResume,
+}: ZoneScrapingJobsProps) {
+  const [limit, setLimit] = useState(String(defaultLimit));
+
+  const activeJob = jobs.find((job) => job.status === "pending" || job.status === "running");
+  const requestedLimit = parseInt(limit, 10);
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="font-bold">Background Scraping</h3>
+          <p className="text-sm text-muted-foreground">
+            Jobs run in the zone scraping worker (<code>npm run zones:worker</code>) and keep going after you close this tab.
+          </p>
+        </div>
+        {!activeJob && (
+          <div className="flex items-center gap-2 shrink-0">
+            <Input
+              type="number"
+              min={1}
+              value={limit}
+              onChange={(e) => setLimit(e.target.value)}
+              className="w-24"
+              aria-label="Buildings to scrape"
+            />
+            <Button
+              size="sm"
+              onClick={() => onStart(requestedLimit)}
+              disabled={!requestedLimit || requestedLimit <= 0 || updatingJobId === "new"}
+            >
+              {updatingJobId === "new" ? "Starting..." : "Scrape in Background"}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {jobs.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No background jobs for this zone yet</p>
+      ) : (
+        <div className="space-y-3">
+          {jobs.map((job) => {
+            const attempted = job.scraped_count + job.failed_count;
+            const total = job.total_to_scrape || job.requested_limit;
+            const percent = total ? (attempted / total) * 100 : 0;
+            const isActive = job.status === "pending" || job.status === "running";
+            const canResume = !activeJob && (job.status === "cancelled" || job.status === "failed");
+
+            return (
+              <div key={job.id} className="border border-border rounded-lg p-4">
+                <div className="flex items-center justify-between gap-2 mb-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span
+                      className={`px-2 py-0.5 rounded text-xs font-medium capitalize ${JOB_STATUS_CLASSES[job.status]}`}
+                    >
+                      {job.status}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {new Date(job.created_at).toLocaleString("en-CA")} · up to {job.requested_limit} buildings
+                    </span>
+                  </div>
+                  {isActive && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onCancel(job)}
+                      disabled={updatingJobId === job.id}
+                    >
+                      Cancel
+                    </Button>
+                  )}
+                  {canResume && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onResume(job)}
+                      disabled={updatingJobId === job.id}
+                    >
+                      Resume
+                    </Button>
+                  )}
+                </div>
+
+                {job.status === "pending" && attempted === 0 ? (
+                  <p className="text-xs text-muted-foreground">Waiting for the worker to pick up this job...</p>
+                ) : (
+                  <>
+                    <Progress value={percent} className="mb-2" />
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>
+                        <span className="text-green-400">{job.scraped_count} scraped</span>
+                        {job.failed_count > 0 && (
+                          <span className="text-destructive"> · {job.failed_count} failed</span>
+                        )}
+                      </span>
+                      <span>
+                        {attempted} / {total}
+                      </span>
+                    </div>
+                  </>
+                )}
+
+                {job.error_message && (
+                  <p className="text-xs text-destructive mt-2">{job.error_message}</p>
+                )}
+                {job.summary && job.summary.failed.length > 0 && !isActive && (
+                  <details className="mt-2 text-xs">
+                    <summary className="cursor-pointer text-muted-foreground">Failed buildings</summary>
+                    <ul className="mt-1 space-y-1 font-mono">
+                      {job.summary.failed.map((failure) => (
+                        <li key={failure.matricule}>
+                          {failure.matricule}: <span className="text-destructive">{failure.error}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+import { isZoneGeometry } from '@/lib/zones/zone-geometry';
+import type { ZoneGeometry } from '@/types/scraping-zone';
+
+// Borough and linked city boundaries from the city's open data
+// ("Limites administratives de l'agglomération de Montréal", GeoJSON export)
+const ARRONDISSEMENTS_FILE = '/data/arrondissements.geojson';
+
+export interface Arrondissement {
+  name: string;
+  geometry: ZoneGeometry;
+}
+
+interface UseArrondissementsReturn {
+  arrondissements: Arrondissement[];
+  loading: boolean;
+  error: string | null;
+}
+
+export function useArrondissements(): UseArrondissementsReturn {
+  const [arrondissements, setArrondissements] = useState<Arrondissement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadArrondissements = async () => {
+      try {
+        const res = await fetch(ARRONDISSEMENTS_FILE);
+        if (!res.ok) {
+          throw new Error(`${ARRONDISSEMENTS_FILE} not found`);
+        }
+        const data = await res.json();
+
+        const features: GeoJSON.Feature[] = data.features || [];
+
+        const boundaries = features
+          .map(f => ({
+            name: f.properties?.NOM || f.properties?.nom || f.properties?.name,
+            geometry: f.geometry,
+          }))
+          .filter((a): a is Arrondissement => !!a.name && isZoneGeometry(a.geometry))
+          .sort((a, b) => a.name.localeCompare(b.name, 'fr'));
+
+        setArrondissements(boundaries);
+        setLoading(false);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load arrondissements');
+        setLoading(false);
+      }
+    };
+
+    loadArrondissements();
+  }, []);
+
+  return { arrondissements, loading, error };
+}
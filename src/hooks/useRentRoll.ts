@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { PropertyUnitWithLeases } from '@/types/rent-roll';
+
+interface UseRentRollReturn {
+  units: PropertyUnitWithLeases[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+export function useRentRoll(propertyId: string | undefined): UseRentRollReturn {
+  const [units, setUnits] = useState<PropertyUnitWithLeases[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!propertyId) return;
+
+    try {
+      const response = await fetch(`/api/properties/${propertyId}/units`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load rent roll');
+      }
+
+      setUnits(result.data || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load rent roll');
+    } finally {
+      setLoading(false);
+    }
+  }, [propertyId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { units, loading, error, refresh };
+}
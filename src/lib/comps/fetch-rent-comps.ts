@@ -0,0 +1,41 @@
+import { createClient } from "@/lib/supabase/server";
+import { computeRentComps, getBoundingBox } from "./rent-comps";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { RentCompsOptions, RentCompsResult, RentCompsSubject } from "@/types/rent-comps";
+
+const RENTAL_COMP_COLUMNS =
+  "id, title, address, source_name, monthly_rent, bedrooms, square_footage, latitude, longitude, extracted_date, created_at";
+
+/**
+ * Loads candidate rentals around the subject and computes rent comps
+ *
+ * Rentals are pre-filtered with a bounding box in the database; the exact
+ * radius, time window and size matching are applied by computeRentComps.
+ *
+ * @param subject - Location, unit mix and advertised revenue
+ * @param options - Radius, time window and size tolerance
+ * @param supabaseClient - Optional Supabase client (for use outside of Next.js request context)
+ */
+export async function fetchRentComps(
+  subject: RentCompsSubject,
+  options: RentCompsOptions,
+  supabaseClient?: SupabaseClient
+): Promise<RentCompsResult> {
+  const supabase = supabaseClient || await createClient();
+  const bounds = getBoundingBox(subject.latitude, subject.longitude, options.radiusKm);
+
+  const { data, error } = await supabase
+    .from("rentals")
+    .select(RENTAL_COMP_COLUMNS)
+    .gte("latitude", bounds.minLat)
+    .lte("latitude", bounds.maxLat)
+    .gte("longitude", bounds.minLng)
+    .lte("longitude", bounds.maxLng)
+    .not("monthly_rent", "is", null);
+
+  if (error) {
+    throw new Error(`Failed to fetch rentals: ${error.message}`);
+  }
+
+  return computeRentComps(data || [], subject, options);
+}
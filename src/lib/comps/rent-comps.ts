@@ -0,0 +1,210 @@
+import type { UnitMixEntry } from "@/types/unit-mix";
+import type {
+  ComparableRental,
+  RentCompsOptions,
+  RentCompsResult,
+  RentCompsSubject,
+  RentStats,
+  UnitTypeRentEstimate,
+} from "@/types/rent-comps";
+
+export const DEFAULT_RENT_COMPS_OPTIONS: RentCompsOptions = {
+  radiusKm: 1.5,
+  monthsBack: 12,
+  sqftTolerancePercent: 25,
+  minComparables: 3,
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+type RentalCandidate = Omit<ComparableRental, "distanceKm">;
+
+/**
+ * Great-circle distance between two coordinates (km)
+ */
+export function haversineDistanceKm(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number
+): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Bounding box enclosing a radius, used to pre-filter rentals in the database
+ */
+export function getBoundingBox(latitude: number, longitude: number, radiusKm: number) {
+  const latDelta = radiusKm / 111.32;
+  const lngDelta = radiusKm / (111.32 * Math.cos((latitude * Math.PI) / 180));
+  return {
+    minLat: latitude - latDelta,
+    maxLat: latitude + latDelta,
+    minLng: longitude - lngDelta,
+    maxLng: longitude + lngDelta,
+  };
+}
+
+/**
+ * Percentile of a sorted array using linear interpolation
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * (p / 100);
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * Summary statistics for a list of monthly rents
+ */
+export function summarizeRents(rents: number[]): RentStats | null {
+  if (rents.length === 0) return null;
+  const sorted = [...rents].sort((a, b) => a - b);
+
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    p25: percentile(sorted, 25),
+    median: percentile(sorted, 50),
+    p75: percentile(sorted, 75),
+    max: sorted[sorted.length - 1],
+    mean: sorted.reduce((sum, rent) => sum + rent, 0) / sorted.length,
+  };
+}
+
+/**
+ * Rentals within the radius and time window, annotated with their distance
+ */
+export function filterNearbyRentals(
+  rentals: RentalCandidate[],
+  subject: Pick<RentCompsSubject, "latitude" | "longitude">,
+  options: RentCompsOptions,
+  now: Date = new Date()
+): ComparableRental[] {
+  const cutoff = new Date(now);
+  cutoff.setMonth(cutoff.getMonth() - options.monthsBack);
+
+  return rentals
+    .filter((rental) => rental.monthly_rent != null && rental.monthly_rent > 0)
+    .filter((rental) => rental.latitude != null && rental.longitude != null)
+    .filter((rental) => new Date(rental.extracted_date ?? rental.created_at) >= cutoff)
+    .map((rental) => ({
+      ...rental,
+      distanceKm: haversineDistanceKm(
+        subject.latitude,
+        subject.longitude,
+        rental.latitude!,
+        rental.longitude!
+      ),
+    }))
+    .filter((rental) => rental.distanceKm <= options.radiusKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+}
+
+function matchesSize(
+  rental: ComparableRental,
+  unit: UnitMixEntry,
+  unitSqft: number | null,
+  tolerancePercent: number
+): boolean {
+  if (rental.bedrooms !== unit.bedrooms) return false;
+  if (unitSqft == null || rental.square_footage == null) return true;
+  return Math.abs(rental.square_footage - unitSqft) / unitSqft <= tolerancePercent / 100;
+}
+
+/**
+ * Estimate market rent per unit type and gross potential revenue from comparables
+ *
+ * @param rentals - Candidate rentals (typically pre-filtered by bounding box)
+ * @param subject - Location, unit mix and advertised revenue of the subject
+ */
+export function computeRentComps(
+  rentals: RentalCandidate[],
+  subject: RentCompsSubject,
+  options: RentCompsOptions = DEFAULT_RENT_COMPS_OPTIONS,
+  now: Date = new Date()
+): RentCompsResult {
+  const warnings: string[] = [];
+  const nearby = filterNearbyRentals(rentals, subject, options, now);
+
+  if (subject.unitMix.length === 0) {
+    warnings.push("No unit mix available; cannot estimate revenue per unit type");
+  }
+
+  const unitTypes: UnitTypeRentEstimate[] = subject.unitMix.map((unit) => {
+    const comparables = nearby.filter((rental) =>
+      matchesSize(rental, unit, subject.unitSqft, options.sqftTolerancePercent)
+    );
+    const stats = summarizeRents(comparables.map((rental) => rental.monthly_rent!));
+
+    return {
+      label: unit.label,
+      bedrooms: unit.bedrooms,
+      units: unit.count,
+      stats,
+      estimatedMonthlyRent: stats?.median ?? null,
+      lowConfidence: comparables.length < options.minComparables,
+      comparables,
+    };
+  });
+
+  for (const unitType of unitTypes) {
+    if (unitType.stats == null) {
+      warnings.push(`No comparables found for ${unitType.label} units`);
+    } else if (unitType.lowConfidence) {
+      warnings.push(`Only ${unitType.stats.count} comparable(s) for ${unitType.label} units`);
+    }
+  }
+
+  const allEstimated = unitTypes.length > 0 && unitTypes.every((u) => u.estimatedMonthlyRent != null);
+  const estimatedMonthlyRevenue = allEstimated
+    ? unitTypes.reduce((sum, u) => sum + u.estimatedMonthlyRent! * u.units, 0)
+    : null;
+  const estimatedGrossPotentialRevenue =
+    estimatedMonthlyRevenue != null ? estimatedMonthlyRevenue * 12 : null;
+
+  const advertised = subject.advertisedPotentialRevenue;
+  const revenueGapPercent =
+    estimatedGrossPotentialRevenue != null && advertised
+      ? ((estimatedGrossPotentialRevenue - advertised) / advertised) * 100
+      : null;
+
+  const usedIds = new Set(unitTypes.flatMap((u) => u.comparables.map((c) => c.id)));
+
+  return {
+    options,
+    unitTypes,
+    estimatedMonthlyRevenue,
+    estimatedGrossPotentialRevenue,
+    advertisedPotentialRevenue: advertised,
+    revenueGapPercent,
+    totalComparables: usedIds.size,
+    warnings,
+  };
+}
+
+/**
+ * Read comps options from query parameters, falling back to defaults
+ */
+export function parseRentCompsOptions(searchParams: URLSearchParams): RentCompsOptions {
+  const read = (key: keyof RentCompsOptions) => {
+    const value = searchParams.get(key);
+    const parsed = value ? parseFloat(value) : NaN;
+    return isNaN(parsed) || parsed < 0 ? DEFAULT_RENT_COMPS_OPTIONS[key] : parsed;
+  };
+
+  return {
+    radiusKm: read("radiusKm"),
+    monthsBack: read("monthsBack"),
+    sqftTolerancePercent: read("sqftTolerancePercent"),
+    minComparables: read("minComparables"),
+  };
+}
@@ -0,0 +1,287 @@
+import { createClient } from "@/lib/supabase/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  EvaluationChangeKind,
+  EvaluationChangeSet,
+  EvaluationFieldChange,
+  EvaluationSaveStatus,
+  MontrealEvaluationDetails,
+  MontrealEvaluationInsert,
+  MontrealEvaluationSnapshot,
+  ScrapedMontrealData,
+} from "@/types/montreal-evaluation";
+
+// Fields compared between scrapes, in display order. Tax PDFs are stored but
+// not compared: their links change with every roll without saying anything new.
+export const TRACKED_EVALUATION_FIELDS: {
+  field: keyof MontrealEvaluationInsert;
+  label: string;
+  kind: EvaluationChangeKind;
+}[] = [
+  { field: "owner_name", label: "Owner", kind: "owner" },
+  { field: "owner_registration_date", label: "Owner registration date", kind: "sale" },
+  { field: "owner_status", label: "Owner status", kind: "owner" },
+  { field: "owner_postal_address", label: "Owner postal address", kind: "owner" },
+  { field: "owner_special_conditions", label: "Special conditions", kind: "owner" },
+  { field: "roll_period", label: "Roll period", kind: "valuation" },
+  { field: "current_market_date", label: "Market date", kind: "valuation" },
+  { field: "current_land_value", label: "Land value", kind: "valuation" },
+  { field: "current_building_value", label: "Building value", kind: "valuation" },
+  { field: "current_total_value", label: "Total value", kind: "valuation" },
+  { field: "previous_market_date", label: "Previous market date", kind: "valuation" },
+  { field: "previous_total_value", label: "Previous total value", kind: "valuation" },
+  { field: "taxable_value", label: "Taxable value", kind: "valuation" },
+  { field: "non_taxable_value", label: "Non-taxable value", kind: "valuation" },
+  { field: "tax_category", label: "Tax category", kind: "other" },
+  { field: "address", label: "Address", kind: "other" },
+  { field: "arrondissement", label: "Arrondissement", kind: "other" },
+  { field: "lot_exclusif", label: "Lot exclusif", kind: "other" },
+  { field: "lot_commun", label: "Lot commun", kind: "other" },
+  { field: "usage_predominant", label: "Usage", kind: "other" },
+  { field: "numero_unite_voisinage", label: "Unité de voisinage", kind: "other" },
+  { field: "numero_compte_foncier", label: "Compte foncier", kind: "other" },
+  { field: "land_frontage", label: "Land frontage", kind: "other" },
+  { field: "land_area", label: "Land area", kind: "other" },
+  { field: "building_floors", label: "Floors", kind: "other" },
+  { field: "building_year", label: "Year built", kind: "other" },
+  { field: "building_floor_area", label: "Floor area", kind: "other" },
+  { field: "building_construction_type", label: "Construction type", kind: "other" },
+  { field: "building_physical_link", label: "Physical link", kind: "other" },
+  { field: "building_units", label: "Units", kind: "other" },
+  { field: "building_non_residential_spaces", label: "Non-residential spaces", kind: "other" },
+  { field: "building_rental_rooms", label: "Rental rooms", kind: "other" },
+  { field: "data_date", label: "Data date", kind: "other" },
+];
+
+// Helper function to parse French-formatted numbers (with spaces)
+function parseNumber(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const cleaned = value.replace(/\s/g, "");
+  const parsed = parseFloat(cleaned);
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Transform scraped evaluation data to the montreal_evaluation_details row format
+ */
+export function buildEvaluationInsert(scrapedData: ScrapedMontrealData): MontrealEvaluationInsert {
+  return {
+    matricule: scrapedData.matricule,
+    address: scrapedData.identification.address || null,
+    arrondissement: scrapedData.identification.arrondissement || null,
+    lot_exclusif: scrapedData.identification.lot_exclusif || null,
+    lot_commun: scrapedData.identification.lot_commun || null,
+    usage_predominant: scrapedData.identification.usage_predominant || null,
+    numero_unite_voisinage: scrapedData.identification.numero_unite_voisinage || null,
+    numero_compte_foncier: scrapedData.identification.numero_compte_foncier || null,
+    owner_name: scrapedData.owner.name || null,
+    owner_status: scrapedData.owner.status || null,
+    owner_postal_address: scrapedData.owner.postal_address || null,
+    owner_registration_date: scrapedData.owner.registration_date || null,
+    owner_special_conditions: scrapedData.owner.special_conditions || null,
+    land_frontage: parseNumber(scrapedData.land.frontage),
+    land_area: parseNumber(scrapedData.land.area),
+    building_floors: parseNumber(scrapedData.building.floors),
+    building_year: parseNumber(scrapedData.building.year),
+    building_floor_area: parseNumber(scrapedData.building.floor_area),
+    building_construction_type: scrapedData.building.construction_type || null,
+    building_physical_link: scrapedData.building.physical_link || null,
+    building_units: parseNumber(scrapedData.building.units),
+    building_non_residential_spaces: parseNumber(scrapedData.building.non_residential_spaces),
+    building_rental_rooms: parseNumber(scrapedData.building.rental_rooms),
+    current_market_date: scrapedData.valuation.current.market_date || null,
+    current_land_value: parseNumber(scrapedData.valuation.current.land_value),
+    current_building_value: parseNumber(scrapedData.valuation.current.building_value),
+    current_total_value: parseNumber(scrapedData.valuation.current.total_value),
+    previous_market_date: scrapedData.valuation.previous.market_date || null,
+    previous_total_value: parseNumber(scrapedData.valuation.previous.total_value),
+    tax_category: scrapedData.fiscal.tax_category || null,
+    taxable_value: parseNumber(scrapedData.fiscal.taxable_value),
+    non_taxable_value: parseNumber(scrapedData.fiscal.non_taxable_value),
+    tax_account_pdfs: scrapedData.tax_pdfs.length > 0 ? scrapedData.tax_pdfs : null,
+    roll_period: scrapedData.metadata.roll_period || null,
+    data_date: scrapedData.metadata.data_date || null,
+  };
+}
+
+// The stored columns a snapshot keeps (no ids or timestamps)
+function toEvaluationInsert(details: MontrealEvaluationDetails): MontrealEvaluationInsert {
+  return {
+    ...Object.fromEntries(TRACKED_EVALUATION_FIELDS.map(({ field }) => [field, details[field]])),
+    matricule: details.matricule,
+    tax_account_pdfs: details.tax_account_pdfs,
+  };
+}
+
+// Stored values come back from numeric columns and JSONB; compare them as text
+function normalizeValue(value: unknown): string | number | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "number") return value;
+
+  const text = String(value).replace(/\s+/g, " ").trim();
+  return text === "" ? null : text;
+}
+
+function isSameValue(a: string | number | null, b: string | number | null): boolean {
+  if (a === null || b === null) return a === b;
+  if (typeof a === "number" || typeof b === "number") return Number(a) === Number(b);
+  return a === b;
+}
+
+/**
+ * Tracked fields whose value differs between two versions of a building's evaluation details
+ *
+ * @example
+ * diffEvaluations({ matricule, owner_name: "A INC." }, { matricule, owner_name: "B INC." })
+ * // [{ field: "owner_name", label: "Owner", kind: "owner", previous: "A INC.", current: "B INC." }]
+ */
+export function diffEvaluations(
+  previous: Partial<MontrealEvaluationInsert>,
+  current: Partial<MontrealEvaluationInsert>
+): EvaluationFieldChange[] {
+  const changes: EvaluationFieldChange[] = [];
+
+  for (const { field, label, kind } of TRACKED_EVALUATION_FIELDS) {
+    const before = normalizeValue(previous[field]);
+    const after = normalizeValue(current[field]);
+
+    if (!isSameValue(before, after)) {
+      changes.push({ field, label, kind, previous: before, current: after });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Save freshly scraped evaluation details, keeping a snapshot of every version
+ *
+ * A new building is inserted with its first snapshot. A building already on
+ * file is only updated, and a snapshot recorded, when a tracked field differs;
+ * otherwise just its scraped_at moves forward.
+ *
+ * @param supabaseClient - Optional Supabase client (for use outside of Next.js request context)
+ */
+export async function saveEvaluation(
+  insertData: MontrealEvaluationInsert,
+  supabaseClient?: SupabaseClient
+): Promise<{
+  status: EvaluationSaveStatus;
+  data: MontrealEvaluationDetails;
+  changes: EvaluationFieldChange[];
+}> {
+  const supabase = supabaseClient || await createClient();
+  const scrapedAt = new Date().toISOString();
+
+  const { data: existing, error: fetchError } = await supabase
+    .from("montreal_evaluation_details")
+    .select("*")
+    .eq("matricule", insertData.matricule)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw new Error(fetchError.message);
+  }
+
+  const changes = existing ? diffEvaluations(existing, insertData) : [];
+  const status: EvaluationSaveStatus = !existing ? "created" : changes.length > 0 ? "changed" : "unchanged";
+
+  const { data, error } = existing
+    ? await supabase
+        .from("montreal_evaluation_details")
+        .update(status === "changed" ? { ...insertData, scraped_at: scrapedAt } : { scraped_at: scrapedAt })
+        .eq("matricule", insertData.matricule)
+        .select()
+        .single()
+    : await supabase
+        .from("montreal_evaluation_details")
+        .insert({ ...insertData, scraped_at: scrapedAt })
+        .select()
+        .single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  if (status !== "unchanged") {
+    const snapshots = [{
+      captured_at: scrapedAt,
+      matricule: insertData.matricule,
+      data: insertData,
+      changed_fields: changes.map((c) => c.field),
+    }];
+
+    // Rows saved without a snapshot (e.g. by the bulk scrape routes) get the
+    // version being replaced as their baseline, so the change stays visible
+    if (existing && !(await hasSnapshots(insertData.matricule, supabase))) {
+      snapshots.unshift({
+        captured_at: existing.scraped_at,
+        matricule: insertData.matricule,
+        data: toEvaluationInsert(existing),
+        changed_fields: [],
+      });
+    }
+
+    const { error: snapshotError } = await supabase
+      .from("montreal_evaluation_snapshots")
+      .insert(snapshots);
+
+    if (snapshotError) {
+      console.error("Error recording evaluation snapshot:", snapshotError);
+    }
+  }
+
+  return { status, data, changes };
+}
+
+async function hasSnapshots(matricule: string, supabase: SupabaseClient): Promise<boolean> {
+  const { count } = await supabase
+    .from("montreal_evaluation_snapshots")
+    .select("id", { count: "exact", head: true })
+    .eq("matricule", matricule);
+
+  return (count ?? 0) > 0;
+}
+
+/**
+ * Every snapshot of a building, oldest first
+ *
+ * @param supabaseClient - Optional Supabase client (for use outside of Next.js request context)
+ */
+export async function fetchEvaluationSnapshots(
+  matricule: string,
+  supabaseClient?: SupabaseClient
+): Promise<MontrealEvaluationSnapshot[]> {
+  const supabase = supabaseClient || await createClient();
+
+  const { data, error } = await supabase
+    .from("montreal_evaluation_snapshots")
+    .select("*")
+    .eq("matricule", matricule)
+    .order("captured_at", { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data || [];
+}
+
+/**
+ * What each snapshot changed compared to the one before it, newest first
+ */
+export function buildEvaluationChangeSets(snapshots: MontrealEvaluationSnapshot[]): EvaluationChangeSet[] {
+  const sorted = [...snapshots].sort((a, b) => a.captured_at.localeCompare(b.captured_at));
+  const changeSets: EvaluationChangeSet[] = [];
+
+  for (let i = 1; i < sorted.length; i++) {
+    changeSets.push({
+      snapshotId: sorted[i].id,
+      capturedAt: sorted[i].captured_at,
+      previousCapturedAt: sorted[i - 1].captured_at,
+      changes: diffEvaluations(sorted[i - 1].data, sorted[i].data),
+    });
+  }
+
+  return changeSets.filter((c) => c.changes.length > 0).reverse();
+}
@@ -0,0 +1,284 @@
+import { createClient } from "@/lib/supabase/server";
+import { isPointInZone } from "@/lib/zones/zone-geometry";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { MontrealEvaluationDetails } from "@/types/montreal-evaluation";
+import type {
+  RecentTransaction,
+  RecentTransactionFilters,
+  RecentTransactionSummary,
+  SalePriceEstimateMethod,
+} from "@/types/recent-transaction";
+import type { ScrapingZone } from "@/types/scraping-zone";
+
+const PAGE_SIZE = 1000; // PostgREST caps responses at 1000 rows
+const MATRICULE_BATCH_SIZE = 500; // Keeps .in() filters under URL length limits
+const MAX_TRANSACTIONS = 5000; // Keeps wide date ranges from loading the whole table
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+type ValuationFields = Pick<
+  MontrealEvaluationDetails,
+  "current_market_date" | "current_total_value" | "previous_market_date" | "previous_total_value"
+>;
+
+const DETAIL_COLUMNS = [
+  "matricule",
+  "address",
+  "arrondissement",
+  "owner_name",
+  "owner_status",
+  "owner_registration_date",
+  "building_units",
+  "building_year",
+  "current_market_date",
+  "current_total_value",
+  "previous_market_date",
+  "previous_total_value",
+].join(",");
+
+/**
+ * Estimate what a building sold for from its assessment roll values
+ *
+ * The roll values a building at its market date (e.g. July 1st 2021 for the
+ * 2023-2025 roll). A sale between the previous and current market dates is
+ * valued along the roll-to-roll growth; a sale after the current market date
+ * carries that annual growth forward. Rounded to the nearest thousand.
+ *
+ * @example
+ * // Previous roll 800 000 $ (2018-07-01), current 1 000 000 $ (2021-07-01), sold 2024-07-01
+ * estimateSalePrice(details, "2024-07-01") // { price: 1250000, method: "extrapolated" }
+ */
+export function estimateSalePrice(
+  details: ValuationFields,
+  saleDate: string
+): { price: number; method: SalePriceEstimateMethod } | null {
+  const current = details.current_total_value;
+  const previous = details.previous_total_value;
+
+  if (current == null) {
+    return previous != null ? { price: roundToThousand(previous), method: "previous_valuation" } : null;
+  }
+  if (!details.current_market_date) {
+    return { price: roundToThousand(current), method: "current_valuation" };
+  }
+
+  const sale = new Date(saleDate).getTime();
+  const currentDate = new Date(details.current_market_date).getTime();
+  const previousDate = details.previous_market_date ? new Date(details.previous_market_date).getTime() : null;
+
+  // Without a usable previous roll there is no growth rate to apply
+  if (previous == null || previous <= 0 || previousDate == null || previousDate >= currentDate || sale === currentDate) {
+    return { price: roundToThousand(current), method: "current_valuation" };
+  }
+
+  const annualGrowth = Math.pow(current / previous, YEAR_MS / (currentDate - previousDate));
+
+  if (sale <= previousDate) {
+    return { price: roundToThousand(previous), method: "previous_valuation" };
+  }
+  if (sale < currentDate) {
+    return {
+      price: roundToThousand(previous * Math.pow(annualGrowth, (sale - previousDate) / YEAR_MS)),
+      method: "interpolated",
+    };
+  }
+  return {
+    price: roundToThousand(current * Math.pow(annualGrowth, (sale - currentDate) / YEAR_MS)),
+    method: "extrapolated",
+  };
+}
+
+function roundToThousand(value: number): number {
+  return Math.round(value / 1000) * 1000;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Count, estimated volume and median prices of a list of transactions
+ */
+export function summarizeTransactions(transactions: RecentTransaction[]): RecentTransactionSummary {
+  const prices = transactions.map((t) => t.estimated_price).filter((p): p is number => p != null);
+  const pricesPerUnit = transactions
+    .filter((t) => t.estimated_price != null && t.units)
+    .map((t) => t.estimated_price! / t.units!);
+
+  return {
+    count: transactions.length,
+    total_estimated_volume: prices.reduce((sum, price) => sum + price, 0),
+    median_estimated_price: median(prices),
+    median_price_per_unit: median(pricesPerUnit),
+  };
+}
+
+type TransactionZone = Pick<ScrapingZone, "min_lat" | "max_lat" | "min_lng" | "max_lng" | "geometry">;
+type Coordinates = Map<string, { latitude: number; longitude: number }>;
+
+/**
+ * Buildings whose current owner registered within a date range, newest first
+ *
+ * The owner registration date on the evaluation roll is the date the deed was
+ * registered, so it stands in for a sale date. Only scraped buildings are
+ * known. Coordinates come from property_evaluations; with a zone, only the
+ * geocoded buildings inside its shape are searched. At most MAX_TRANSACTIONS
+ * are returned, the most recent ones; truncated says whether more matched.
+ *
+ * @param zone - Optional zone to restrict the results to
+ * @param supabaseClient - Optional Supabase client (for use outside of Next.js request context)
+ */
+export async function fetchRecentTransactions(
+  filters: RecentTransactionFilters,
+  zone: TransactionZone | null = null,
+  supabaseClient?: SupabaseClient
+): Promise<{ transactions: RecentTransaction[]; truncated: boolean }> {
+  const supabase = supabaseClient || await createClient();
+  let details: MontrealEvaluationDetails[] = [];
+  let truncated = false;
+  let coordinates: Coordinates;
+
+  const detailsQuery = (count?: "exact") => {
+    let query = supabase
+      .from("montreal_evaluation_details")
+      .select(DETAIL_COLUMNS, { count })
+      .gte("owner_registration_date", filters.from);
+
+    if (filters.to) query = query.lte("owner_registration_date", filters.to);
+    if (filters.arrondissement) query = query.ilike("arrondissement", `%${filters.arrondissement}%`);
+    if (filters.minUnits != null) query = query.gte("building_units", filters.minUnits);
+    if (filters.maxUnits != null) query = query.lte("building_units", filters.maxUnits);
+
+    return query;
+  };
+
+  if (zone) {
+    // The zone's buildings come first, so the cap applies to buildings inside it
+    coordinates = await fetchZoneCoordinates(zone, supabase);
+    const matricules = [...coordinates.keys()];
+
+    for (let i = 0; i < matricules.length; i += MATRICULE_BATCH_SIZE) {
+      const { data, error } = await detailsQuery().in("matricule", matricules.slice(i, i + MATRICULE_BATCH_SIZE));
+
+      if (error) {
+        throw new Error(error.message);
+      }
+      details.push(...((data || []) as unknown as MontrealEvaluationDetails[]));
+    }
+
+    details.sort(
+      (a, b) =>
+        b.owner_registration_date!.localeCompare(a.owner_registration_date!) || a.matricule.localeCompare(b.matricule)
+    );
+    truncated = details.length > MAX_TRANSACTIONS;
+    details = details.slice(0, MAX_TRANSACTIONS);
+  } else {
+    for (let from = 0; details.length < MAX_TRANSACTIONS; from += PAGE_SIZE) {
+      // Counting once tells whether the cap cut anything off
+      const { data, error, count } = await detailsQuery(from === 0 ? "exact" : undefined)
+        .order("owner_registration_date", { ascending: false })
+        .order("matricule")
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+      if (from === 0) truncated = (count ?? 0) > MAX_TRANSACTIONS;
+
+      const page = (data || []) as unknown as MontrealEvaluationDetails[];
+      details.push(...page);
+
+      if (page.length < PAGE_SIZE) break;
+    }
+
+    details = details.slice(0, MAX_TRANSACTIONS);
+    coordinates = await fetchCoordinates(details.map((d) => d.matricule), supabase);
+  }
+
+  const transactions = details.map((d): RecentTransaction => {
+    const estimate = estimateSalePrice(d, d.owner_registration_date!);
+    const location = coordinates.get(d.matricule);
+
+    return {
+      matricule: d.matricule,
+      address: d.address,
+      arrondissement: d.arrondissement,
+      owner_name: d.owner_name,
+      owner_status: d.owner_status,
+      registration_date: d.owner_registration_date!,
+      units: d.building_units,
+      building_year: d.building_year,
+      current_market_date: d.current_market_date,
+      current_total_value: d.current_total_value,
+      previous_market_date: d.previous_market_date,
+      previous_total_value: d.previous_total_value,
+      estimated_price: estimate?.price ?? null,
+      estimate_method: estimate?.method ?? null,
+      latitude: location?.latitude ?? null,
+      longitude: location?.longitude ?? null,
+    };
+  });
+
+  return { transactions, truncated };
+}
+
+// Geocoded buildings inside a zone: bounding box in SQL, then the zone's shape
+async function fetchZoneCoordinates(zone: TransactionZone, supabase: SupabaseClient): Promise<Coordinates> {
+  const coordinates: Coordinates = new Map();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("property_evaluations")
+      .select("matricule83, latitude, longitude")
+      .gte("latitude", zone.min_lat)
+      .lte("latitude", zone.max_lat)
+      .gte("longitude", zone.min_lng)
+      .lte("longitude", zone.max_lng)
+      .not("matricule83", "is", null)
+      .order("id_uev")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    data?.forEach((row) => {
+      if (!coordinates.has(row.matricule83) && isPointInZone(row.latitude, row.longitude, zone)) {
+        coordinates.set(row.matricule83, { latitude: row.latitude, longitude: row.longitude });
+      }
+    });
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return coordinates;
+}
+
+// Geocoded position of each matricule, from the evaluation roll
+async function fetchCoordinates(matricules: string[], supabase: SupabaseClient): Promise<Coordinates> {
+  const coordinates: Coordinates = new Map();
+  const unique = [...new Set(matricules)];
+
+  for (let i = 0; i < unique.length; i += MATRICULE_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from("property_evaluations")
+      .select("matricule83, latitude, longitude")
+      .in("matricule83", unique.slice(i, i + MATRICULE_BATCH_SIZE))
+      .not("latitude", "is", null)
+      .not("longitude", "is", null);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    data?.forEach((row) => {
+      if (!coordinates.has(row.matricule83)) {
+        coordinates.set(row.matricule83, { latitude: row.latitude, longitude: row.longitude });
+      }
+    });
+  }
+
+  return coordinates;
+}
@@ -0,0 +1,177 @@
+import type {
+  ClosingCostEstimate,
+  ClosingCostInput,
+  ClosingCostOptions,
+  WelcomeTaxBracket,
+  WelcomeTaxBracketAmount,
+  WelcomeTaxJurisdiction,
+} from "@/types/closing-costs";
+
+// Provincial brackets (Loi concernant les droits sur les mutations immobilières), indexed for 2025
+export const QUEBEC_WELCOME_TAX_BRACKETS: WelcomeTaxBracket[] = [
+  { upTo: 61_500, rate: 0.5 },
+  { upTo: 307_800, rate: 1.0 },
+  { upTo: null, rate: 1.5 },
+];
+
+// City of Montreal brackets for 2025 (higher rates above $552,300)
+export const MONTREAL_WELCOME_TAX_BRACKETS: WelcomeTaxBracket[] = [
+  { upTo: 61_500, rate: 0.5 },
+  { upTo: 307_800, rate: 1.0 },
+  { upTo: 552_300, rate: 1.5 },
+  { upTo: 1_104_700, rate: 2.0 },
+  { upTo: 2_136_500, rate: 2.5 },
+  { upTo: 3_113_000, rate: 3.5 },
+  { upTo: null, rate: 4.0 },
+];
+
+// Boroughs of the City of Montreal (demerged cities like Westmount apply their own rates)
+const MONTREAL_BOROUGHS = [
+  "ahuntsic-cartierville",
+  "anjou",
+  "côte-des-neiges–notre-dame-de-grâce",
+  "côte-des-neiges-notre-dame-de-grâce",
+  "lachine",
+  "lasalle",
+  "le plateau-mont-royal",
+  "plateau-mont-royal",
+  "le sud-ouest",
+  "sud-ouest",
+  "l'île-bizard–sainte-geneviève",
+  "l'île-bizard-sainte-geneviève",
+  "mercier–hochelaga-maisonneuve",
+  "mercier-hochelaga-maisonneuve",
+  "montréal-nord",
+  "outremont",
+  "pierrefonds-roxboro",
+  "rivière-des-prairies–pointe-aux-trembles",
+  "rivière-des-prairies-pointe-aux-trembles",
+  "rosemont–la petite-patrie",
+  "rosemont-la petite-patrie",
+  "saint-laurent",
+  "saint-léonard",
+  "verdun",
+  "ville-marie",
+  "villeray–saint-michel–parc-extension",
+  "villeray-saint-michel-parc-extension",
+] as const;
+
+const DEFAULT_NOTARY_FEES = 1_800; // Deed of sale + hypothec, taxes included
+const DEFAULT_INSPECTION_BASE = 600;
+const DEFAULT_INSPECTION_PER_EXTRA_UNIT = 100;
+const DEFAULT_APPRAISAL_FEES = 450; // 1–4 units
+const DEFAULT_COMMERCIAL_APPRAISAL_FEES = 3_500; // 5+ units (appraisal + lender review)
+
+function normalize(text: string): string {
+  return text.toLowerCase().trim();
+}
+
+/**
+ * Whether the property falls under the City of Montreal's welcome tax brackets
+ *
+ * Accepts Centris-style city strings such as "Montréal (Rosemont/La Petite-Patrie)"
+ * as well as arrondissement names from montreal_evaluation_details.
+ *
+ * @example
+ * isMontrealMunicipality("Montréal (Le Plateau-Mont-Royal)") // true
+ * isMontrealMunicipality("Westmount") // false
+ * isMontrealMunicipality(null, "Verdun") // true
+ */
+export function isMontrealMunicipality(
+  city: string | null,
+  arrondissement: string | null = null
+): boolean {
+  const candidates = [city, arrondissement].filter((v): v is string => !!v).map(normalize);
+
+  return candidates.some((candidate) => {
+    if (/^montr[ée]al\b/.test(candidate)) {
+      // "Montréal-Est" and "Montréal-Ouest" are separate municipalities
+      return !/^montr[ée]al-(est|ouest)/.test(candidate);
+    }
+    return MONTREAL_BOROUGHS.some(
+      (borough) => candidate === borough || candidate.replace(/\//g, "-") === borough
+    );
+  });
+}
+
+/**
+ * Apply progressive welcome tax brackets to a price
+ */
+export function calculateWelcomeTax(
+  price: number,
+  brackets: WelcomeTaxBracket[]
+): { total: number; brackets: WelcomeTaxBracketAmount[] } {
+  const breakdown: WelcomeTaxBracketAmount[] = [];
+  let lowerBound = 0;
+  let total = 0;
+
+  for (const bracket of brackets) {
+    if (price <= lowerBound) break;
+
+    const upperBound = bracket.upTo ?? Infinity;
+    const taxableAmount = Math.min(price, upperBound) - lowerBound;
+    const tax = taxableAmount * (bracket.rate / 100);
+
+    breakdown.push({
+      from: lowerBound,
+      to: bracket.upTo,
+      rate: bracket.rate,
+      taxableAmount,
+      tax,
+    });
+
+    total += tax;
+    lowerBound = upperBound;
+  }
+
+  return { total, brackets: breakdown };
+}
+
+/**
+ * Estimate welcome tax plus notary, inspection and financing fees for a purchase
+ *
+ * Fixed fees are rough market averages; pass options to override them.
+ */
+export function estimateClosingCosts(
+  input: ClosingCostInput,
+  options: ClosingCostOptions = {}
+): ClosingCostEstimate {
+  const jurisdiction: WelcomeTaxJurisdiction = isMontrealMunicipality(
+    input.city,
+    input.arrondissement ?? null
+  )
+    ? "montreal"
+    : "quebec";
+
+  const welcomeTax = calculateWelcomeTax(
+    input.price,
+    jurisdiction === "montreal" ? MONTREAL_WELCOME_TAX_BRACKETS : QUEBEC_WELCOME_TAX_BRACKETS
+  );
+
+  const units = input.units ?? 1;
+  const notaryFees = options.notaryFees ?? DEFAULT_NOTARY_FEES;
+  const inspectionFees =
+    options.inspectionFees ??
+    DEFAULT_INSPECTION_BASE + Math.max(units - 1, 0) * DEFAULT_INSPECTION_PER_EXTRA_UNIT;
+  const financingFees =
+    options.financingFees ??
+    (input.financed === false
+      ? 0
+      : units >= 5
+        ? DEFAULT_COMMERCIAL_APPRAISAL_FEES
+        : DEFAULT_APPRAISAL_FEES);
+
+  const totalClosingCosts = welcomeTax.total + notaryFees + inspectionFees + financingFees;
+
+  return {
+    price: input.price,
+    jurisdiction,
+    welcomeTax: welcomeTax.total,
+    welcomeTaxBrackets: welcomeTax.brackets,
+    notaryFees,
+    inspectionFees,
+    financingFees,
+    totalClosingCosts,
+    totalAcquisitionCost: input.price + totalClosingCosts,
+  };
+}
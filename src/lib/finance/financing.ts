@@ -0,0 +1,334 @@
+import type {
+  AmortizationRow,
+  CreateFinancingScenarioInput,
+  FinancingResult,
+  InsuranceProgram,
+} from "@/types/financing";
+
+// OSFI minimum qualifying rate floor (%)
+const QUALIFYING_RATE_FLOOR = 5.25;
+// Stress-test buffer added to the contract rate (%)
+const QUALIFYING_RATE_BUFFER = 2;
+// Quebec charges 9% sales tax on mortgage insurance premiums, payable at closing
+const QUEBEC_PREMIUM_TAX_RATE = 0.09;
+// Homeowner insurance is unavailable at or above this price
+const CMHC_MAX_INSURABLE_PRICE = 1_500_000;
+
+// CMHC homeowner premiums (1–4 units) by maximum loan-to-value
+const CMHC_STANDARD_PREMIUMS: { maxLtv: number; rate: number }[] = [
+  { maxLtv: 65, rate: 0.6 },
+  { maxLtv: 75, rate: 1.7 },
+  { maxLtv: 80, rate: 2.4 },
+  { maxLtv: 85, rate: 2.8 },
+  { maxLtv: 90, rate: 3.1 },
+  { maxLtv: 95, rate: 4.0 },
+];
+
+// CMHC multi-unit rental premiums (5+ units) by maximum loan-to-value
+const CMHC_MULTI_UNIT_PREMIUMS: { maxLtv: number; rate: number }[] = [
+  { maxLtv: 65, rate: 2.6 },
+  { maxLtv: 70, rate: 2.85 },
+  { maxLtv: 75, rate: 3.35 },
+  { maxLtv: 80, rate: 3.85 },
+  { maxLtv: 85, rate: 4.35 },
+  { maxLtv: 90, rate: 5.35 },
+  { maxLtv: 95, rate: 5.9 },
+];
+
+// MLI Select tiers: points earned unlock higher LTV, longer amortization and premium discounts
+const MLI_SELECT_TIERS: {
+  minPoints: number;
+  maxLtv: number;
+  maxAmortization: number;
+  premiumDiscount: number;
+}[] = [
+  { minPoints: 100, maxLtv: 95, maxAmortization: 50, premiumDiscount: 0.3 },
+  { minPoints: 70, maxLtv: 95, maxAmortization: 45, premiumDiscount: 0.2 },
+  { minPoints: 50, maxLtv: 95, maxAmortization: 40, premiumDiscount: 0.1 },
+  { minPoints: 0, maxLtv: 85, maxAmortization: 40, premiumDiscount: 0 },
+];
+
+export const DEFAULT_FINANCING_SCENARIO: CreateFinancingScenarioInput = {
+  name: "Conventional 20%",
+  down_payment_percent: 20,
+  interest_rate: 4.89,
+  amortization_years: 25,
+  term_years: 5,
+  insurance_program: "conventional",
+  mli_select_points: null,
+  closing_costs: null,
+  notes: null,
+};
+
+export const INSURANCE_PROGRAM_LABELS: Record<InsuranceProgram, string> = {
+  conventional: "Conventional",
+  cmhc_standard: "CMHC (1–4 units)",
+  mli_select: "MLI Select (5+ units)",
+};
+
+/**
+ * Equivalent monthly rate for a Canadian fixed-rate mortgage
+ *
+ * Canadian lenders compound fixed rates semi-annually (Interest Act), so the
+ * nominal annual rate is converted to an equivalent monthly rate.
+ */
+export function monthlyRateFromAnnual(annualRatePercent: number): number {
+  return Math.pow(1 + annualRatePercent / 100 / 2, 2 / 12) - 1;
+}
+
+/**
+ * Monthly payment for a Canadian fixed-rate mortgage
+ *
+ * @example
+ * calculateMonthlyPayment(400000, 5, 25) // ≈ 2326.42
+ */
+export function calculateMonthlyPayment(
+  principal: number,
+  annualRatePercent: number,
+  amortizationYears: number
+): number {
+  if (principal <= 0 || amortizationYears <= 0) return 0;
+
+  const n = amortizationYears * 12;
+  if (annualRatePercent <= 0) return principal / n;
+
+  const monthlyRate = monthlyRateFromAnnual(annualRatePercent);
+  return (principal * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -n));
+}
+
+/**
+ * Stress-test rate: the greater of contract rate + 2% and the 5.25% floor
+ */
+export function getQualifyingRate(contractRatePercent: number): number {
+  return Math.max(contractRatePercent + QUALIFYING_RATE_BUFFER, QUALIFYING_RATE_FLOOR);
+}
+
+/**
+ * Minimum down payment for a purchase under the given insurance program
+ *
+ * - conventional: 20%
+ * - cmhc_standard: 1–2 units 5% on the first $500k and 10% above; 3–4 units 10%;
+ *   20% once the price reaches $1.5M (not insurable)
+ * - mli_select: 5% with 50+ points, otherwise 15% (standard 85% LTV)
+ */
+export function getMinimumDownPayment(
+  price: number,
+  program: InsuranceProgram,
+  units: number | null,
+  mliSelectPoints: number | null = null
+): number {
+  if (price <= 0) return 0;
+
+  switch (program) {
+    case "cmhc_standard": {
+      if (price >= CMHC_MAX_INSURABLE_PRICE) return price * 0.2;
+      if ((units ?? 1) >= 3) return price * 0.1;
+      const firstTier = Math.min(price, 500_000) * 0.05;
+      const secondTier = Math.max(price - 500_000, 0) * 0.1;
+      return firstTier + secondTier;
+    }
+    case "mli_select": {
+      const tier = getMliSelectTier(mliSelectPoints);
+      return price * ((100 - tier.maxLtv) / 100);
+    }
+    default:
+      return price * 0.2;
+  }
+}
+
+function getMliSelectTier(points: number | null) {
+  return MLI_SELECT_TIERS.find((tier) => (points ?? 0) >= tier.minPoints) ?? MLI_SELECT_TIERS[MLI_SELECT_TIERS.length - 1];
+}
+
+function lookupPremium(table: { maxLtv: number; rate: number }[], ltv: number): number | null {
+  const row = table.find((entry) => ltv <= entry.maxLtv + 1e-9);
+  return row ? row.rate : null;
+}
+
+/**
+ * Mortgage insurance premium rate (% of loan) for a given LTV and program
+ *
+ * Returns 0 for conventional loans and null when the LTV is not insurable.
+ */
+export function getInsurancePremiumRate(
+  loanToValue: number,
+  program: InsuranceProgram,
+  amortizationYears: number,
+  mliSelectPoints: number | null = null
+): number | null {
+  if (program === "conventional") return 0;
+
+  if (program === "cmhc_standard") {
+    const rate = lookupPremium(CMHC_STANDARD_PREMIUMS, loanToValue);
+    if (rate == null) return null;
+    // 30-year amortization surcharge
+    return amortizationYears > 25 ? rate + 0.2 : rate;
+  }
+
+  const tier = getMliSelectTier(mliSelectPoints);
+  if (loanToValue > tier.maxLtv + 1e-9) return null;
+
+  const baseRate = lookupPremium(CMHC_MULTI_UNIT_PREMIUMS, loanToValue);
+  if (baseRate == null) return null;
+
+  // 0.25% surcharge per 5 years of amortization beyond 25
+  const extraAmortization = Math.max(amortizationYears - 25, 0);
+  const surcharge = Math.ceil(extraAmortization / 5) * 0.25;
+
+  return (baseRate + surcharge) * (1 - tier.premiumDiscount);
+}
+
+/**
+ * Yearly amortization schedule (monthly payments, semi-annual compounding)
+ */
+export function buildAmortizationSchedule(
+  principal: number,
+  annualRatePercent: number,
+  amortizationYears: number
+): AmortizationRow[] {
+  const schedule: AmortizationRow[] = [];
+  if (principal <= 0 || amortizationYears <= 0) return schedule;
+
+  const monthlyRate = annualRatePercent > 0 ? monthlyRateFromAnnual(annualRatePercent) : 0;
+  const payment = calculateMonthlyPayment(principal, annualRatePercent, amortizationYears);
+  let balance = principal;
+
+  for (let year = 1; year <= amortizationYears; year++) {
+    let interest = 0;
+    let principalPaid = 0;
+    let payments = 0;
+
+    for (let month = 0; month < 12 && balance > 0; month++) {
+      const monthInterest = balance * monthlyRate;
+      const monthPrincipal = Math.min(payment - monthInterest, balance);
+      interest += monthInterest;
+      principalPaid += monthPrincipal;
+      payments += monthInterest + monthPrincipal;
+      balance -= monthPrincipal;
+    }
+
+    schedule.push({
+      year,
+      payments,
+      interest,
+      principal: principalPaid,
+      endingBalance: balance > 0.005 ? balance : 0,
+    });
+  }
+
+  return schedule;
+}
+
+/**
+ * Analyze a financing scenario against a purchase price and NOI
+ *
+ * @param scenario - Down payment, rate, amortization and insurance program
+ * @param context.price - Purchase price (scenario.purchase_price takes precedence)
+ * @param context.units - Number of units, used for CMHC down payment tiers
+ * @param context.netOperatingIncome - Annual NOI from underwriting, used for DSCR
+ */
+export function analyzeFinancing(
+  scenario: CreateFinancingScenarioInput,
+  context: { price: number | null; units: number | null; netOperatingIncome: number | null }
+): FinancingResult {
+  const warnings: string[] = [];
+  const program = scenario.insurance_program ?? "conventional";
+  const points = scenario.mli_select_points ?? null;
+  const purchasePrice = scenario.purchase_price ?? context.price ?? 0;
+  const units = context.units;
+
+  if (purchasePrice <= 0) warnings.push("Purchase price is missing");
+
+  if (program === "cmhc_standard" && units != null && units >= 5) {
+    warnings.push("CMHC homeowner insurance only covers 1–4 units; use MLI Select");
+  }
+  if (program === "mli_select" && units != null && units < 5) {
+    warnings.push("MLI Select requires 5 or more units");
+  }
+  if (program === "cmhc_standard" && purchasePrice >= CMHC_MAX_INSURABLE_PRICE) {
+    warnings.push("Purchases of $1.5M or more are not eligible for CMHC homeowner insurance");
+  }
+  if (program === "cmhc_standard" && scenario.amortization_years > 30) {
+    warnings.push("CMHC homeowner insurance allows at most 30 years of amortization");
+  }
+  if (program === "mli_select" && scenario.amortization_years > getMliSelectTier(points).maxAmortization) {
+    warnings.push(
+      `MLI Select with ${points ?? 0} points allows at most ${getMliSelectTier(points).maxAmortization} years of amortization`
+    );
+  }
+
+  const downPayment = purchasePrice * (scenario.down_payment_percent / 100);
+  const minimumDownPayment = getMinimumDownPayment(purchasePrice, program, units, points);
+  if (downPayment + 0.01 < minimumDownPayment) {
+    warnings.push(
+      `Down payment is below the ${((minimumDownPayment / purchasePrice) * 100).toFixed(1)}% minimum for this program`
+    );
+  }
+
+  const baseLoanAmount = Math.max(purchasePrice - downPayment, 0);
+  const loanToValue = purchasePrice > 0 ? (baseLoanAmount / purchasePrice) * 100 : 0;
+
+  let insurancePremiumRate = getInsurancePremiumRate(
+    loanToValue,
+    program,
+    scenario.amortization_years,
+    points
+  );
+  if (insurancePremiumRate == null) {
+    warnings.push(`LTV of ${loanToValue.toFixed(1)}% is not insurable under this program`);
+    insurancePremiumRate = 0;
+  }
+
+  const insurancePremium = baseLoanAmount * (insurancePremiumRate / 100);
+  const insurancePremiumTax = insurancePremium * QUEBEC_PREMIUM_TAX_RATE;
+  const totalLoanAmount = baseLoanAmount + insurancePremium;
+
+  const monthlyPayment = calculateMonthlyPayment(
+    totalLoanAmount,
+    scenario.interest_rate,
+    scenario.amortization_years
+  );
+  const annualDebtService = monthlyPayment * 12;
+
+  const qualifyingRate = getQualifyingRate(scenario.interest_rate);
+  const qualifyingMonthlyPayment = calculateMonthlyPayment(
+    totalLoanAmount,
+    qualifyingRate,
+    scenario.amortization_years
+  );
+
+  const schedule = buildAmortizationSchedule(
+    totalLoanAmount,
+    scenario.interest_rate,
+    scenario.amortization_years
+  );
+  const termYears = scenario.term_years ?? 5;
+  const balanceAtTermEnd =
+    schedule[Math.min(termYears, schedule.length) - 1]?.endingBalance ?? totalLoanAmount;
+
+  const noi = context.netOperatingIncome;
+
+  return {
+    purchasePrice,
+    downPayment,
+    minimumDownPayment,
+    baseLoanAmount,
+    loanToValue,
+    insurancePremiumRate,
+    insurancePremium,
+    insurancePremiumTax,
+    totalLoanAmount,
+    monthlyPayment,
+    annualDebtService,
+    qualifyingRate,
+    qualifyingMonthlyPayment,
+    balanceAtTermEnd,
+    cashToClose: downPayment + insurancePremiumTax + (scenario.closing_costs ?? 0),
+    debtServiceCoverageRatio:
+      noi != null && annualDebtService > 0 ? noi / annualDebtService : null,
+    qualifyingDebtServiceCoverageRatio:
+      noi != null && qualifyingMonthlyPayment > 0 ? noi / (qualifyingMonthlyPayment * 12) : null,
+    schedule,
+    warnings,
+  };
+}
@@ -0,0 +1,175 @@
+import {
+  DEFAULT_FINANCING_SCENARIO,
+  calculateMonthlyPayment,
+  getInsurancePremiumRate,
+  getMinimumDownPayment,
+} from "@/lib/finance/financing";
+import {
+  DEFAULT_UNDERWRITING_ASSUMPTIONS,
+  buildProForma,
+  type UnderwritingInput,
+} from "@/lib/finance/underwriting";
+import type { CreateFinancingScenarioInput } from "@/types/financing";
+import type {
+  MaxOfferConstraintKey,
+  MaxOfferConstraints,
+  MaxOfferLimit,
+  MaxOfferResult,
+} from "@/types/max-offer";
+import type { UnderwritingAssumptions } from "@/types/underwriting";
+
+export type MaxOfferInput = UnderwritingInput & { units: number | null };
+
+export const DEFAULT_MAX_OFFER_CONSTRAINTS: MaxOfferConstraints = {
+  targetCapRate: 5,
+  minMonthlyCashFlow: 0,
+  minDebtServiceCoverageRatio: 1.2,
+};
+
+export const MAX_OFFER_CONSTRAINT_LABELS: Record<MaxOfferConstraintKey, string> = {
+  cap_rate: "Cap rate",
+  cash_flow: "Cash flow",
+  dscr: "DSCR",
+};
+
+const MAX_SEARCH_PRICE = 1_000_000_000;
+const BISECTION_STEPS = 60;
+const PRICE_ROUNDING = 1_000; // Offers are rounded down to the nearest $1,000
+
+/**
+ * Annual debt service at a given price under a financing scenario
+ *
+ * The down payment is the scenario's percentage, raised to the program minimum
+ * when needed, and any insurance premium is added to the loan.
+ */
+export function annualDebtServiceAtPrice(
+  price: number,
+  scenario: CreateFinancingScenarioInput,
+  units: number | null
+): number {
+  const program = scenario.insurance_program ?? "conventional";
+  const points = scenario.mli_select_points ?? null;
+
+  const downPayment = Math.max(
+    price * (scenario.down_payment_percent / 100),
+    getMinimumDownPayment(price, program, units, points)
+  );
+  const baseLoanAmount = Math.max(price - downPayment, 0);
+  const loanToValue = price > 0 ? (baseLoanAmount / price) * 100 : 0;
+  const premiumRate =
+    getInsurancePremiumRate(loanToValue, program, scenario.amortization_years, points) ?? 0;
+
+  return (
+    calculateMonthlyPayment(
+      baseLoanAmount * (1 + premiumRate / 100),
+      scenario.interest_rate,
+      scenario.amortization_years
+    ) * 12
+  );
+}
+
+// Highest price for which `meets` holds, assuming it gets harder to meet as the price rises
+function bisectMaxPrice(meets: (price: number) => boolean): number {
+  if (!meets(PRICE_ROUNDING)) return 0;
+
+  let low = PRICE_ROUNDING;
+  let high = PRICE_ROUNDING * 2;
+  while (meets(high) && high < MAX_SEARCH_PRICE) {
+    low = high;
+    high *= 2;
+  }
+
+  for (let i = 0; i < BISECTION_STEPS && high - low > 1; i++) {
+    const mid = (low + high) / 2;
+    if (meets(mid)) low = mid;
+    else high = mid;
+  }
+
+  return low;
+}
+
+function roundDown(price: number): number {
+  return Math.floor(price / PRICE_ROUNDING) * PRICE_ROUNDING;
+}
+
+/**
+ * Solve for the maximum purchase price that meets every constraint
+ *
+ * NOI does not depend on the price (taxes and expenses come from the listing),
+ * so the cap rate limit is NOI / target. Cash flow and DSCR depend on the
+ * loan, which grows with the price, and are solved by bisection.
+ */
+export function solveMaxOffer(
+  input: MaxOfferInput,
+  constraints: MaxOfferConstraints = DEFAULT_MAX_OFFER_CONSTRAINTS,
+  scenario: CreateFinancingScenarioInput = DEFAULT_FINANCING_SCENARIO,
+  assumptions: UnderwritingAssumptions = DEFAULT_UNDERWRITING_ASSUMPTIONS
+): MaxOfferResult {
+  const warnings: string[] = [];
+  const { netOperatingIncome } = buildProForma(input, assumptions);
+  const limits: MaxOfferLimit[] = [];
+
+  if (!input.potential_revenue) {
+    warnings.push("Potential revenue is missing; the max offer cannot be solved");
+  } else if (netOperatingIncome <= 0) {
+    warnings.push("NOI is negative; no price meets the constraints");
+  }
+
+  const solvable = !!input.potential_revenue;
+
+  if (solvable && constraints.targetCapRate != null && constraints.targetCapRate > 0) {
+    limits.push({
+      constraint: "cap_rate",
+      maxPrice:
+        netOperatingIncome > 0
+          ? roundDown(netOperatingIncome / (constraints.targetCapRate / 100))
+          : 0,
+    });
+  }
+
+  if (solvable && constraints.minMonthlyCashFlow != null) {
+    const minAnnualCashFlow = constraints.minMonthlyCashFlow * 12;
+    limits.push({
+      constraint: "cash_flow",
+      maxPrice: roundDown(
+        bisectMaxPrice(
+          (price) =>
+            netOperatingIncome - annualDebtServiceAtPrice(price, scenario, input.units) >=
+            minAnnualCashFlow
+        )
+      ),
+    });
+  }
+
+  if (solvable && constraints.minDebtServiceCoverageRatio != null) {
+    const minDscr = constraints.minDebtServiceCoverageRatio;
+    limits.push({
+      constraint: "dscr",
+      maxPrice: roundDown(
+        bisectMaxPrice((price) => {
+          const debtService = annualDebtServiceAtPrice(price, scenario, input.units);
+          return debtService === 0 || netOperatingIncome / debtService >= minDscr;
+        })
+      ),
+    });
+  }
+
+  const binding = limits.reduce<MaxOfferLimit | null>(
+    (lowest, limit) => (!lowest || limit.maxPrice < lowest.maxPrice ? limit : lowest),
+    null
+  );
+  const maxPrice = binding?.maxPrice ?? null;
+  const listPrice = input.price;
+  const gapToList = maxPrice != null && listPrice ? listPrice - maxPrice : null;
+
+  return {
+    maxPrice,
+    bindingConstraint: binding?.constraint ?? null,
+    limits,
+    netOperatingIncome,
+    listPrice,
+    gapToList,
+    gapPercent: gapToList != null && listPrice ? (gapToList / listPrice) * 100 : null,
+    warnings,
+  };
+}
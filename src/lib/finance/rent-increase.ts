@@ -0,0 +1,224 @@
+import { getCurrentLease } from "@/lib/finance/rent-roll";
+import type { Property } from "@/types/property";
+import type { PropertyUnitWithLeases } from "@/types/rent-roll";
+import type {
+  CapitalExpenditure,
+  HeatingFuel,
+  RentIncreaseComponent,
+  RentIncreaseExpenses,
+  RentIncreaseResult,
+  TalParameters,
+  UnitRentIncrease,
+} from "@/types/rent-increase";
+
+export const HEATING_FUEL_LABELS: Record<HeatingFuel, string> = {
+  oil: "Mazout",
+  gas: "Gaz",
+  electricity: "Électricité",
+};
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function heatingPercent(parameters: TalParameters, fuel: HeatingFuel): number {
+  switch (fuel) {
+    case "oil":
+      return parameters.heating_oil_percent;
+    case "gas":
+      return parameters.heating_gas_percent;
+    case "electricity":
+      return parameters.heating_electricity_percent;
+  }
+}
+
+/**
+ * Fill the current-year expense figures from the property
+ *
+ * Previous-year amounts and insurance are not tracked on Property and must
+ * come from the caller; missing values default to the current amount (no variation).
+ */
+export function buildRentIncreaseExpenses(
+  property: Pick<Property, "taxes_municipal" | "taxes_school" | "expense_heating" | "expense_electricity">,
+  overrides: Partial<RentIncreaseExpenses> = {}
+): RentIncreaseExpenses {
+  const taxesMunicipal = overrides.taxesMunicipal ?? property.taxes_municipal ?? 0;
+  const taxesSchool = overrides.taxesSchool ?? property.taxes_school ?? 0;
+  const insurance = overrides.insurance ?? 0;
+
+  return {
+    taxesMunicipal,
+    previousTaxesMunicipal: overrides.previousTaxesMunicipal ?? taxesMunicipal,
+    taxesSchool,
+    previousTaxesSchool: overrides.previousTaxesSchool ?? taxesSchool,
+    insurance,
+    previousInsurance: overrides.previousInsurance ?? insurance,
+    heating: overrides.heating ?? property.expense_heating ?? 0,
+    heatingFuel: overrides.heatingFuel ?? "oil",
+    electricity: overrides.electricity ?? property.expense_electricity ?? 0,
+  };
+}
+
+/**
+ * Compute the allowable rent increase of each leased unit following the TAL method
+ *
+ * Building-level amounts are allocated to each unit in proportion to its rent:
+ * - Taxes and insurance: the year-over-year variation, divided by 12
+ * - Heating / electricity: the cost times the published variation, only for
+ *   leases that include them, allocated among those leases
+ * - Major repairs: the unit's own work plus its share of building work,
+ *   times the published capex rate, divided by 12
+ * - Net income: the rent left after the expenses above, times the net income percentage
+ *
+ * Vacant units count towards the building total at their market rent but get no line.
+ */
+export function computeRentIncreases(
+  units: PropertyUnitWithLeases[],
+  parameters: TalParameters,
+  expenses: RentIncreaseExpenses,
+  capitalExpenditures: CapitalExpenditure[] = [],
+  today: Date = new Date()
+): RentIncreaseResult {
+  const warnings: string[] = [];
+
+  const rents = units.map((unit) => {
+    const lease = getCurrentLease(unit.leases ?? [], today);
+    return { unit, lease, rent: lease?.monthly_rent ?? unit.market_rent ?? 0 };
+  });
+
+  const totalMonthlyRents = rents.reduce((sum, r) => sum + r.rent, 0);
+  const heatedRents = rents
+    .filter((r) => r.lease?.includes_heating)
+    .reduce((sum, r) => sum + r.rent, 0);
+  const electricityRents = rents
+    .filter((r) => r.lease?.includes_electricity)
+    .reduce((sum, r) => sum + r.rent, 0);
+
+  const yearCapex = capitalExpenditures.filter((capex) => capex.year === parameters.year);
+  const buildingCapex = yearCapex
+    .filter((capex) => !capex.unit_id)
+    .reduce((sum, capex) => sum + capex.amount, 0);
+
+  if (totalMonthlyRents === 0) {
+    warnings.push("No rents in the rent roll; add leases before computing increases");
+  }
+  if (rents.some((r) => !r.lease && r.unit.market_rent == null)) {
+    warnings.push("Vacant units without a market rent are left out of the building total");
+  }
+  if (expenses.insurance === 0) {
+    warnings.push("Insurance not provided; the insurance variation is assumed to be zero");
+  }
+
+  const results: UnitRentIncrease[] = [];
+
+  for (const { unit, lease, rent } of rents) {
+    if (!lease) continue;
+
+    const share = totalMonthlyRents > 0 ? rent / totalMonthlyRents : 0;
+    const heatedShare = lease.includes_heating && heatedRents > 0 ? rent / heatedRents : 0;
+    const electricityShare =
+      lease.includes_electricity && electricityRents > 0 ? rent / electricityRents : 0;
+
+    const unitCapex = yearCapex
+      .filter((capex) => capex.unit_id === unit.id)
+      .reduce((sum, capex) => sum + capex.amount, 0);
+    const capexBasis = unitCapex + buildingCapex * share;
+
+    const components: RentIncreaseComponent[] = [
+      {
+        key: "taxes_municipal",
+        label: "Taxes municipales",
+        basis: expenses.taxesMunicipal - expenses.previousTaxesMunicipal,
+        monthlyIncrease: ((expenses.taxesMunicipal - expenses.previousTaxesMunicipal) * share) / 12,
+      },
+      {
+        key: "taxes_school",
+        label: "Taxes scolaires",
+        basis: expenses.taxesSchool - expenses.previousTaxesSchool,
+        monthlyIncrease: ((expenses.taxesSchool - expenses.previousTaxesSchool) * share) / 12,
+      },
+      {
+        key: "insurance",
+        label: "Assurances",
+        basis: expenses.insurance - expenses.previousInsurance,
+        monthlyIncrease: ((expenses.insurance - expenses.previousInsurance) * share) / 12,
+      },
+    ];
+
+    if (heatedShare > 0) {
+      components.push({
+        key: "heating",
+        label: `Chauffage (${HEATING_FUEL_LABELS[expenses.heatingFuel]})`,
+        basis: expenses.heating,
+        monthlyIncrease:
+          (expenses.heating * (heatingPercent(parameters, expenses.heatingFuel) / 100) * heatedShare) /
+          12,
+      });
+    }
+
+    if (electricityShare > 0) {
+      components.push({
+        key: "electricity",
+        label: "Électricité",
+        basis: expenses.electricity,
+        monthlyIncrease:
+          (expenses.electricity * (parameters.electricity_percent / 100) * electricityShare) / 12,
+      });
+    }
+
+    if (capexBasis > 0) {
+      components.push({
+        key: "capex",
+        label: "Réparations majeures",
+        basis: capexBasis,
+        monthlyIncrease: (capexBasis * (parameters.capex_rate_percent / 100)) / 12,
+      });
+    }
+
+    // Net income is what remains of the rent once the unit's share of expenses is paid
+    const monthlyExpenseShare =
+      ((expenses.taxesMunicipal + expenses.taxesSchool + expenses.insurance) * share +
+        expenses.heating * heatedShare +
+        expenses.electricity * electricityShare) /
+      12;
+    const netIncome = Math.max(rent - monthlyExpenseShare, 0);
+
+    components.push({
+      key: "net_income",
+      label: "Ajustement du revenu net",
+      basis: netIncome,
+      monthlyIncrease: netIncome * (parameters.net_income_percent / 100),
+    });
+
+    const rounded = components.map((component) => ({
+      ...component,
+      basis: roundCents(component.basis),
+      monthlyIncrease: roundCents(component.monthlyIncrease),
+    }));
+    const monthlyIncrease = roundCents(rounded.reduce((sum, c) => sum + c.monthlyIncrease, 0));
+
+    results.push({
+      unitId: unit.id,
+      unitNumber: unit.unit_number,
+      leaseId: lease.id,
+      tenantName: lease.tenant_name,
+      currentRent: rent,
+      share,
+      components: rounded,
+      monthlyIncrease,
+      newRent: roundCents(rent + monthlyIncrease),
+      increasePercent: rent > 0 ? (monthlyIncrease / rent) * 100 : 0,
+    });
+  }
+
+  results.sort((a, b) => a.unitNumber.localeCompare(b.unitNumber, undefined, { numeric: true }));
+
+  return {
+    year: parameters.year,
+    parameters,
+    expenses,
+    totalMonthlyRents,
+    units: results,
+    warnings,
+  };
+}
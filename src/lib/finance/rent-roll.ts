@@ -0,0 +1,127 @@
+import type {
+  Lease,
+  PropertyUnitWithLeases,
+  RentRollSummary,
+  UpcomingRenewal,
+} from "@/types/rent-roll";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far ahead a lease end counts as an upcoming renewal
+export const DEFAULT_RENEWAL_HORIZON_DAYS = 210;
+
+function parseDate(date: string): Date {
+  // Lease dates are plain YYYY-MM-DD; read them as UTC to avoid timezone drift
+  return new Date(`${date.slice(0, 10)}T00:00:00Z`);
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result;
+}
+
+/**
+ * The lease in effect on a given date, if any
+ *
+ * Leases without an end date are treated as ongoing. When several overlap,
+ * the most recently started one wins.
+ */
+export function getCurrentLease(leases: Lease[], today: Date = new Date()): Lease | null {
+  const day = toIsoDate(today);
+
+  const active = leases
+    .filter((lease) => lease.lease_start.slice(0, 10) <= day)
+    .filter((lease) => !lease.lease_end || lease.lease_end.slice(0, 10) >= day)
+    .sort((a, b) => b.lease_start.localeCompare(a.lease_start));
+
+  return active[0] ?? null;
+}
+
+/**
+ * Window in which a landlord must send a lease modification notice (C.c.Q. art. 1942)
+ *
+ * - Leases of 12 months or more: 3 to 6 months before the end
+ * - Shorter leases: 1 to 2 months before the end
+ */
+export function getRenewalNoticeWindow(lease: Lease): { start: string; end: string } | null {
+  if (!lease.lease_end) return null;
+
+  const start = parseDate(lease.lease_start);
+  const end = parseDate(lease.lease_end);
+  const isLongLease = addMonths(start, 12).getTime() <= end.getTime() + DAY_MS;
+
+  return isLongLease
+    ? { start: toIsoDate(addMonths(end, -6)), end: toIsoDate(addMonths(end, -3)) }
+    : { start: toIsoDate(addMonths(end, -2)), end: toIsoDate(addMonths(end, -1)) };
+}
+
+/**
+ * Summarize a rent roll: occupancy, in-place income and upcoming renewals
+ *
+ * @param units - Units with their lease history
+ * @param potentialRevenue - Advertised annual revenue (properties.potential_revenue)
+ * @param today - Reference date (defaults to now)
+ * @param horizonDays - Leases ending within this many days are listed as renewals
+ */
+export function summarizeRentRoll(
+  units: PropertyUnitWithLeases[],
+  potentialRevenue: number | null,
+  today: Date = new Date(),
+  horizonDays: number = DEFAULT_RENEWAL_HORIZON_DAYS
+): RentRollSummary {
+  let occupiedUnits = 0;
+  let monthlyInPlaceIncome = 0;
+  let monthlyMarketOnVacant = 0;
+  const upcomingRenewals: UpcomingRenewal[] = [];
+  const todayUtc = parseDate(toIsoDate(today));
+
+  for (const unit of units) {
+    const lease = getCurrentLease(unit.leases ?? [], today);
+
+    if (!lease) {
+      monthlyMarketOnVacant += unit.market_rent ?? 0;
+      continue;
+    }
+
+    occupiedUnits++;
+    monthlyInPlaceIncome += lease.monthly_rent;
+
+    const window = getRenewalNoticeWindow(lease);
+    if (lease.lease_end && window) {
+      const daysUntilEnd = Math.round(
+        (parseDate(lease.lease_end).getTime() - todayUtc.getTime()) / DAY_MS
+      );
+      if (daysUntilEnd <= horizonDays) {
+        upcomingRenewals.push({
+          unit,
+          lease,
+          daysUntilEnd,
+          noticeWindowStart: window.start,
+          noticeWindowEnd: window.end,
+        });
+      }
+    }
+  }
+
+  upcomingRenewals.sort((a, b) => a.daysUntilEnd - b.daysUntilEnd);
+
+  const annualInPlaceIncome = monthlyInPlaceIncome * 12;
+
+  return {
+    totalUnits: units.length,
+    occupiedUnits,
+    vacantUnits: units.length - occupiedUnits,
+    monthlyInPlaceIncome,
+    annualInPlaceIncome,
+    annualMarketIncomeOnVacant: monthlyMarketOnVacant * 12,
+    potentialRevenue,
+    varianceToPotential:
+      potentialRevenue != null && units.length > 0 ? annualInPlaceIncome - potentialRevenue : null,
+    upcomingRenewals,
+  };
+}
@@ -0,0 +1,142 @@
+import { calculateMonthlyPayment } from "@/lib/finance/financing";
+import type { Property } from "@/types/property";
+import type {
+  ProForma,
+  UnderwritingAssumptions,
+  UnderwritingMetrics,
+  UnderwritingResult,
+} from "@/types/underwriting";
+
+export type UnderwritingInput = Pick<
+  Property,
+  | "price"
+  | "potential_revenue"
+  | "taxes"
+  | "taxes_municipal"
+  | "taxes_school"
+  | "expenses"
+  | "expense_electricity"
+  | "expense_heating"
+>;
+
+export const DEFAULT_UNDERWRITING_ASSUMPTIONS: UnderwritingAssumptions = {
+  vacancyPercent: 3,
+  managementPercent: 5,
+  maintenancePercent: 5,
+  insurance: 0,
+  downPaymentPercent: 20,
+  interestRate: 5,
+  amortizationYears: 25,
+};
+
+/**
+ * Total annual taxes, falling back to municipal + school when the total is missing
+ */
+export function resolveTaxes(input: UnderwritingInput): number {
+  if (input.taxes != null) return input.taxes;
+  return (input.taxes_municipal ?? 0) + (input.taxes_school ?? 0);
+}
+
+/**
+ * Annual utilities, falling back to électricité + chauffage when the total is missing
+ *
+ * Centris lists taxes separately from "Dépenses", so the expense total is
+ * treated as utilities and never double-counts taxes.
+ */
+export function resolveUtilities(input: UnderwritingInput): number {
+  if (input.expenses != null) return input.expenses;
+  return (input.expense_electricity ?? 0) + (input.expense_heating ?? 0);
+}
+
+/**
+ * Build the annual pro-forma (gross revenue down to NOI)
+ */
+export function buildProForma(
+  input: UnderwritingInput,
+  assumptions: UnderwritingAssumptions
+): ProForma {
+  const grossPotentialRevenue = input.potential_revenue ?? 0;
+  const vacancyLoss = grossPotentialRevenue * (assumptions.vacancyPercent / 100);
+  const effectiveGrossIncome = grossPotentialRevenue - vacancyLoss;
+
+  const taxes = resolveTaxes(input);
+  const utilities = resolveUtilities(input);
+  const insurance = assumptions.insurance;
+  const management = effectiveGrossIncome * (assumptions.managementPercent / 100);
+  const maintenance = effectiveGrossIncome * (assumptions.maintenancePercent / 100);
+
+  const totalOperatingExpenses = taxes + utilities + insurance + management + maintenance;
+
+  return {
+    grossPotentialRevenue,
+    vacancyLoss,
+    effectiveGrossIncome,
+    taxes,
+    utilities,
+    insurance,
+    management,
+    maintenance,
+    totalOperatingExpenses,
+    netOperatingIncome: effectiveGrossIncome - totalOperatingExpenses,
+  };
+}
+
+/**
+ * Underwrite a property: pro-forma, financing and return metrics
+ *
+ * Metrics that cannot be computed (no price, no revenue, no debt) are null
+ * rather than 0 so the UI can show "N/A" instead of a misleading number.
+ */
+export function underwriteProperty(
+  input: UnderwritingInput,
+  assumptions: UnderwritingAssumptions = DEFAULT_UNDERWRITING_ASSUMPTIONS
+): UnderwritingResult {
+  const warnings: string[] = [];
+  const price = input.price ?? 0;
+
+  if (!input.price) warnings.push("Price is missing; cap rate, GRM and returns cannot be computed");
+  if (!input.potential_revenue) warnings.push("Potential revenue is missing; NOI will be negative");
+  if (input.taxes == null && input.taxes_municipal == null && input.taxes_school == null) {
+    warnings.push("Taxes are missing; expenses are understated");
+  }
+
+  const proForma = buildProForma(input, assumptions);
+
+  const downPayment = price * (assumptions.downPaymentPercent / 100);
+  const loanAmount = Math.max(price - downPayment, 0);
+  const monthlyMortgagePayment = calculateMonthlyPayment(
+    loanAmount,
+    assumptions.interestRate,
+    assumptions.amortizationYears
+  );
+  const annualDebtService = monthlyMortgagePayment * 12;
+  const annualCashFlow = proForma.netOperatingIncome - annualDebtService;
+
+  const metrics: UnderwritingMetrics = {
+    capRate: price > 0 ? (proForma.netOperatingIncome / price) * 100 : null,
+    grossRentMultiplier:
+      price > 0 && proForma.grossPotentialRevenue > 0
+        ? price / proForma.grossPotentialRevenue
+        : null,
+    cashOnCashReturn: downPayment > 0 ? (annualCashFlow / downPayment) * 100 : null,
+    debtServiceCoverageRatio:
+      annualDebtService > 0 ? proForma.netOperatingIncome / annualDebtService : null,
+    expenseRatio:
+      proForma.effectiveGrossIncome > 0
+        ? (proForma.totalOperatingExpenses / proForma.effectiveGrossIncome) * 100
+        : null,
+  };
+
+  return {
+    assumptions,
+    proForma,
+    loanAmount,
+    downPayment,
+    monthlyMortgagePayment,
+    annualDebtService,
+    annualCashFlow,
+    monthlyCashFlow: annualCashFlow / 12,
+    metrics,
+    warnings,
+  };
+}
@@ -0,0 +1,189 @@
+import type { ScrapedProperty } from "@/types/property";
+import type {
+  CoverageAlert,
+  CoverageField,
+  CoverageReport,
+  CoverageTrendPoint,
+  ScrapeCoverage,
+  SourceCoverage,
+} from "@/types/scrape-coverage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const COVERAGE_FIELDS: CoverageField[] = [
+  "title",
+  "address",
+  "city",
+  "postal_code",
+  "price",
+  "bedrooms",
+  "bathrooms",
+  "sqft",
+  "lot_size",
+  "year_built",
+  "property_type",
+  "units",
+  "unit_details",
+  "mls_number",
+  "description",
+  "features",
+  "images",
+  "potential_revenue",
+  "municipal_assessment",
+  "assessment_land",
+  "assessment_building",
+  "taxes",
+  "taxes_municipal",
+  "taxes_school",
+  "expenses",
+  "expense_electricity",
+  "expense_heating",
+];
+
+export const COVERAGE_FIELD_LABELS: Record<CoverageField, string> = {
+  title: "Title",
+  address: "Address",
+  city: "City",
+  postal_code: "Postal Code",
+  price: "Price",
+  bedrooms: "Bedrooms",
+  bathrooms: "Bathrooms",
+  sqft: "Sqft",
+  lot_size: "Lot Size",
+  year_built: "Year Built",
+  property_type: "Type",
+  units: "Units",
+  unit_details: "Unit Mix",
+  mls_number: "MLS #",
+  description: "Description",
+  features: "Features",
+  images: "Images",
+  potential_revenue: "Revenue",
+  municipal_assessment: "Assessment",
+  assessment_land: "Assessment (Land)",
+  assessment_building: "Assessment (Building)",
+  taxes: "Taxes",
+  taxes_municipal: "Municipal Tax",
+  taxes_school: "School Tax",
+  expenses: "Expenses",
+  expense_electricity: "Electricity",
+  expense_heating: "Heating",
+};
+
+// Alert thresholds: a drop of at least 30 points, with enough scrapes on both sides to mean something
+export const COVERAGE_ALERT_DROP = 0.3;
+const MIN_BASELINE_SCRAPES = 5;
+const MIN_RECENT_SCRAPES = 3;
+
+/**
+ * Fields a scrape populated; empty strings and empty lists count as missing
+ */
+export function populatedFields(listing: ScrapedProperty): CoverageField[] {
+  return COVERAGE_FIELDS.filter((field) => {
+    const value = listing[field];
+    if (value == null) return false;
+    if (typeof value === "string" || Array.isArray(value)) return value.length > 0;
+    return true;
+  });
+}
+
+function fillRates(rows: Pick<ScrapeCoverage, "populated_fields">[]): Record<CoverageField, number> {
+  const counts = Object.fromEntries(COVERAGE_FIELDS.map((field) => [field, 0])) as Record<CoverageField, number>;
+
+  for (const row of rows) {
+    for (const field of row.populated_fields) {
+      if (field in counts) counts[field]++;
+    }
+  }
+
+  for (const field of COVERAGE_FIELDS) {
+    counts[field] = rows.length > 0 ? counts[field] / rows.length : 0;
+  }
+  return counts;
+}
+
+const averageFillRate = (rows: Pick<ScrapeCoverage, "populated_fields" | "field_count">[]) =>
+  rows.length > 0
+    ? rows.reduce((sum, row) => sum + row.populated_fields.length / (row.field_count || COVERAGE_FIELDS.length), 0) /
+      rows.length
+    : 0;
+
+/**
+ * Summarize coverage rows per source and scraper version, and flag fields whose fill rate dropped
+ *
+ * Alerts compare the last `recentDays` against everything before it, per source
+ * across versions (a new version is often the fix, or the cause).
+ */
+export function buildCoverageReport(
+  rows: ScrapeCoverage[],
+  since: Date,
+  recentDays = 7,
+  now: Date = new Date()
+): CoverageReport {
+  const recentSince = new Date(now.getTime() - recentDays * DAY_MS);
+  const sorted = [...rows].sort((a, b) => a.scraped_at.localeCompare(b.scraped_at));
+
+  const groups = new Map<string, ScrapeCoverage[]>();
+  for (const row of sorted) {
+    const key = `${row.source_name}|${row.scraper_version}`;
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+
+  const sources: SourceCoverage[] = [...groups.values()].map((group) => {
+    const byDay = new Map<string, ScrapeCoverage[]>();
+    for (const row of group) {
+      const date = row.scraped_at.slice(0, 10);
+      byDay.set(date, [...(byDay.get(date) ?? []), row]);
+    }
+
+    const trend: CoverageTrendPoint[] = [...byDay.entries()].map(([date, dayRows]) => ({
+      date,
+      scrapes: dayRows.length,
+      fillRate: averageFillRate(dayRows),
+    }));
+
+    return {
+      sourceName: group[0].source_name,
+      scraperVersion: group[0].scraper_version,
+      scrapes: group.length,
+      firstScrapedAt: group[0].scraped_at,
+      lastScrapedAt: group[group.length - 1].scraped_at,
+      fillRate: averageFillRate(group),
+      fieldFillRates: fillRates(group),
+      trend,
+    };
+  });
+
+  const alerts: CoverageAlert[] = [];
+  for (const sourceName of new Set(sorted.map((row) => row.source_name))) {
+    const sourceRows = sorted.filter((row) => row.source_name === sourceName);
+    const baseline = sourceRows.filter((row) => new Date(row.scraped_at) < recentSince);
+    const recent = sourceRows.filter((row) => new Date(row.scraped_at) >= recentSince);
+    if (baseline.length < MIN_BASELINE_SCRAPES || recent.length < MIN_RECENT_SCRAPES) continue;
+
+    const baselineRates = fillRates(baseline);
+    const recentRates = fillRates(recent);
+
+    for (const field of COVERAGE_FIELDS) {
+      if (baselineRates[field] - recentRates[field] >= COVERAGE_ALERT_DROP) {
+        alerts.push({
+          sourceName,
+          field,
+          baselineRate: baselineRates[field],
+          recentRate: recentRates[field],
+          baselineScrapes: baseline.length,
+          recentScrapes: recent.length,
+        });
+      }
+    }
+  }
+
+  return {
+    since: since.toISOString(),
+    recentSince: recentSince.toISOString(),
+    sources: sources.sort(
+      (a, b) => a.sourceName.localeCompare(b.sourceName) || b.lastScrapedAt.localeCompare(a.lastScrapedAt)
+    ),
+    alerts: alerts.sort((a, b) => b.baselineRate - b.recentRate - (a.baselineRate - a.recentRate)),
+  };
+}
@@ -0,0 +1,273 @@
+import { createClient } from "@/lib/supabase/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Property } from "@/types/property";
+import type {
+  ListingObservation,
+  ListingSnapshot,
+  ListingPeriod,
+  PriceChange,
+  PriceHistoryAnalysis,
+} from "@/types/price-history";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Normalize an address so relistings of the same building match
+ *
+ * @example
+ * normalizeAddress("4512-4516, Rue St-Denis") // "4512 4516 rue st denis"
+ * normalizeAddress("4512-4516 rue Saint-Denis") // "4512 4516 rue saint denis"
+ */
+export function normalizeAddress(address: string | null | undefined): string | null {
+  if (!address) return null;
+
+  const normalized = address
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+  return normalized || null;
+}
+
+/**
+ * Unit number of a condo address, so units of the same building aren't taken for relistings
+ *
+ * Matches "app. 5", "apt 5", "unité 5", "suite 5", "#5" and the Quebec "5-1234 Rue ..."
+ * form (a civic range like "4512-4516" is left alone). Keep in sync with migration 047.
+ *
+ * @example
+ * extractUnitNumber("1234, Rue Sherbrooke, app. 502") // "502"
+ * extractUnitNumber("502-1234 Rue Sherbrooke") // "502"
+ * extractUnitNumber("4512-4516 rue Saint-Denis") // null
+ */
+export function extractUnitNumber(address: string | null | undefined): string | null {
+  if (!address) return null;
+
+  const designated = address.match(
+    /(?:\b(?:apt|app|appartement|unite|unité|unit|suite|bureau)\.?|#)\s*(\d+[a-z]?)\b/i
+  );
+  if (designated) return designated[1].toLowerCase();
+
+  // "5-1234": a unit is shorter than the civic number it precedes
+  const prefixed = address.match(/^\s*(\d+[a-z]?)\s*-\s*(\d+)/i);
+  if (prefixed && prefixed[1].length < prefixed[2].length) return prefixed[1].toLowerCase();
+
+  return null;
+}
+
+// Quoted PostgREST filter value, so commas, dots and parentheses in it don't break .or()
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function daysBetween(from: string, to: Date): number {
+  return Math.max(Math.floor((to.getTime() - new Date(from).getTime()) / DAY_MS), 0);
+}
+
+/**
+ * Analyze the observations of a listing (and its relistings at the same address)
+ *
+ * Observations are grouped by MLS number in order of first appearance. A new
+ * MLS number after an earlier one means the property was relisted; Centris
+ * resets days on market on relisting, so both the current and cumulative
+ * counts are returned.
+ */
+export function analyzePriceHistory(
+  observations: ListingObservation[],
+  today: Date = new Date()
+): PriceHistoryAnalysis {
+  const sorted = [...observations].sort((a, b) => a.observed_at.localeCompare(b.observed_at));
+
+  const priceChanges: PriceChange[] = [];
+  let previousPrice: number | null = null;
+
+  for (const observation of sorted) {
+    if (observation.price == null) continue;
+
+    if (previousPrice != null && observation.price !== previousPrice) {
+      const change = observation.price - previousPrice;
+      priceChanges.push({
+        observedAt: observation.observed_at,
+        mlsNumber: observation.mls_number,
+        previousPrice,
+        price: observation.price,
+        change,
+        changePercent: (change / previousPrice) * 100,
+      });
+    }
+    previousPrice = observation.price;
+  }
+
+  const listings: ListingPeriod[] = [];
+  for (const observation of sorted) {
+    const key = observation.mls_number ?? null;
+    let period = listings.find((l) => l.mlsNumber === key);
+
+    if (!period) {
+      period = {
+        mlsNumber: key,
+        firstSeen: observation.observed_at,
+        lastSeen: observation.observed_at,
+        initialPrice: observation.price,
+        lastPrice: observation.price,
+        observations: 0,
+      };
+      listings.push(period);
+    }
+
+    period.lastSeen = observation.observed_at;
+    period.observations++;
+    if (observation.price != null) {
+      period.initialPrice ??= observation.price;
+      period.lastPrice = observation.price;
+    }
+  }
+
+  const pricedObservations = sorted.filter((o) => o.price != null);
+  const firstPrice = pricedObservations[0]?.price ?? null;
+  const lastPrice = pricedObservations[pricedObservations.length - 1]?.price ?? null;
+  const totalChange = firstPrice != null && lastPrice != null ? lastPrice - firstPrice : null;
+  const currentListing = listings[listings.length - 1];
+
+  return {
+    observations: sorted,
+    priceChanges,
+    priceDrops: priceChanges.filter((c) => c.change < 0),
+    listings,
+    relisted: listings.filter((l) => l.mlsNumber).length > 1,
+    daysOnMarket: currentListing ? daysBetween(currentListing.firstSeen, today) : null,
+    cumulativeDaysOnMarket: sorted.length > 0 ? daysBetween(sorted[0].observed_at, today) : null,
+    totalChange,
+    totalChangePercent: totalChange != null && firstPrice ? (totalChange / firstPrice) * 100 : null,
+  };
+}
+
+/**
+ * Record one scrape of a listing
+ *
+ * Links the observation to a saved property when one matches by MLS number
+ * or source URL (unless propertyId is given).
+ *
+ * @param supabaseClient - Optional Supabase client (for use outside of Next.js request context)
+ */
+export async function recordListingObservation(
+  listing: ListingSnapshot,
+  propertyId?: string | null,
+  supabaseClient?: SupabaseClient
+): Promise<ListingObservation | null> {
+  const supabase = supabaseClient || await createClient();
+  let linkedPropertyId = propertyId ?? null;
+
+  if (!linkedPropertyId) {
+    const filters = [`source_url.eq.${quoteFilterValue(listing.source_url)}`];
+    if (listing.mls_number) filters.push(`mls_number.eq.${quoteFilterValue(listing.mls_number)}`);
+
+    const { data: match } = await supabase
+      .from("properties")
+      .select("id")
+      .or(filters.join(","))
+      .limit(1)
+      .maybeSingle();
+
+    linkedPropertyId = match?.id ?? null;
+  }
+
+  const { data, error } = await supabase
+    .from("listing_price_history")
+    .insert({
+      property_id: linkedPropertyId,
+      source_name: listing.source_name,
+      source_url: listing.source_url,
+      mls_number: listing.mls_number,
+      address: listing.address,
+      normalized_address: normalizeAddress(listing.address),
+      unit: extractUnitNumber(listing.address),
+      price: listing.price,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error recording listing observation:", error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Every observation of a property: by property link, MLS number, source URL or address
+ *
+ * An address only matches within the same unit. A condo whose address has no
+ * unit number is only matched by MLS number, source URL or property link, so
+ * other units in its building aren't mistaken for relistings.
+ *
+ * @param supabaseClient - Optional Supabase client (for use outside of Next.js request context)
+ */
+export async function fetchPriceHistory(
+  property: Pick<Property, "id" | "mls_number" | "source_url" | "address" | "property_type">,
+  supabaseClient?: SupabaseClient
+): Promise<ListingObservation[]> {
+  const supabase = supabaseClient || await createClient();
+  const filters = [`property_id.eq.${quoteFilterValue(property.id)}`];
+  if (property.mls_number) filters.push(`mls_number.eq.${quoteFilterValue(property.mls_number)}`);
+  if (property.source_url) filters.push(`source_url.eq.${quoteFilterValue(property.source_url)}`);
+
+  const normalizedAddress = normalizeAddress(property.address);
+  const unit = extractUnitNumber(property.address);
+  if (normalizedAddress && unit) {
+    filters.push(`and(normalized_address.eq.${quoteFilterValue(normalizedAddress)},unit.eq.${quoteFilterValue(unit)})`);
+  } else if (normalizedAddress && property.property_type !== "condo") {
+    filters.push(`and(normalized_address.eq.${quoteFilterValue(normalizedAddress)},unit.is.null)`);
+  }
+
+  const { data, error } = await supabase
+    .from("listing_price_history")
+    .select("*")
+    .or(filters.join(","))
+    .order("observed_at", { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data || [];
+}
+
+/**
+ * Attach earlier scrapes of a newly saved property to it
+ *
+ * Listings are usually scraped for preview before being saved; when nothing was
+ * recorded (manual entry), the saved price becomes the first observation.
+ *
+ * @param supabaseClient - Optional Supabase client (for use outside of Next.js request context)
+ */
+export async function linkObservationsToProperty(
+  property: Pick<Property, "id" | "source_url" | "source_name" | "mls_number" | "address" | "price">,
+  supabaseClient?: SupabaseClient
+): Promise<void> {
+  if (!property.source_url) return;
+
+  const supabase = supabaseClient || await createClient();
+
+  const filters = [`source_url.eq.${quoteFilterValue(property.source_url)}`];
+  if (property.mls_number) filters.push(`mls_number.eq.${quoteFilterValue(property.mls_number)}`);
+
+  const { data: linked, error } = await supabase
+    .from("listing_price_history")
+    .update({ property_id: property.id })
+    .is("property_id", null)
+    .or(filters.join(","))
+    .select("id");
+
+  if (error) {
+    console.error("Error linking listing observations:", error);
+    return;
+  }
+
+  if (!linked || linked.length === 0) {
+    await recordListingObservation({ ...property, source_url: property.source_url }, property.id, supabase);
+  }
+}
@@ -0,0 +1,380 @@
+import { createClient } from "@/lib/supabase/server";
+import { CentrisScraper, CentrisSearchCrawler } from "@/lib/scrapers";
+import { normalizeAddress, recordListingObservation } from "@/lib/listings/price-history";
+import { fetchPropertiesByMlsNumber } from "@/lib/listings/search-import";
+import { recordScrapeCoverage } from "@/lib/listings/scrape-coverage";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  ListingNotificationInsert,
+  SavedSearch,
+  SavedSearchDigest,
+  SavedSearchListing,
+  SavedSearchRun,
+  SavedSearchUpdate,
+} from "@/types/saved-search";
+
+const HOUR_MS = 60 * 60 * 1000;
+const LISTING_DELAY_MS = 1000; // Between listing scrapes, as in the search import
+
+// What a run knows about a listing when checking it against the criteria
+interface ListingCriteriaValues {
+  price: number | null;
+  units: number | null;
+  address: string | null;
+}
+
+async function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+const formatPrice = (price: number | null) =>
+  price == null
+    ? "N/A"
+    : new Intl.NumberFormat("en-CA", { style: "currency", currency: "CAD", maximumFractionDigits: 0 }).format(price);
+
+/**
+ * Split a comma or newline separated list of boroughs
+ *
+ * @example
+ * parseBoroughs("Rosemont, Villeray\nVerdun") // ["Rosemont", "Villeray", "Verdun"]
+ */
+function parseBoroughs(text: string): string[] {
+  return text
+    .split(/[,\n]/)
+    .map((borough) => borough.trim())
+    .filter(Boolean);
+}
+
+const toNumberOrNull = (value: unknown) => {
+  if (value === "" || value == null) return null;
+  const number = Number(value);
+  return isNaN(number) ? null : number;
+};
+
+/**
+ * Pick the editable saved search fields from a request body
+ *
+ * Empty criteria become null; boroughs may be an array or a comma separated string.
+ */
+export function normalizeSavedSearchInput(body: Record<string, unknown>): SavedSearchUpdate {
+  const input: SavedSearchUpdate = {};
+
+  if (typeof body.name === "string") input.name = body.name.trim();
+  if (typeof body.search_url === "string") input.search_url = body.search_url.trim();
+  if ("min_units" in body) input.min_units = toNumberOrNull(body.min_units);
+  if ("max_price" in body) input.max_price = toNumberOrNull(body.max_price);
+  if ("boroughs" in body) {
+    input.boroughs = Array.isArray(body.boroughs)
+      ? body.boroughs.map(String).map((b) => b.trim()).filter(Boolean)
+      : parseBoroughs(String(body.boroughs ?? ""));
+  }
+  if ("max_listings" in body) input.max_listings = toNumberOrNull(body.max_listings) ?? 50;
+  if ("run_interval_hours" in body) input.run_interval_hours = toNumberOrNull(body.run_interval_hours) ?? 24;
+  if (typeof body.is_active === "boolean") input.is_active = body.is_active;
+  if ("webhook_url" in body) input.webhook_url = String(body.webhook_url ?? "").trim() || null;
+
+  return input;
+}
+
+export function isSavedSearchDue(
+  search: Pick<SavedSearch, "is_active" | "last_run_at" | "run_interval_hours">,
+  now: Date = new Date()
+): boolean {
+  if (!search.is_active) return false;
+  if (!search.last_run_at) return true;
+  return now.getTime() - new Date(search.last_run_at).getTime() >= search.run_interval_hours * HOUR_MS;
+}
+
+/**
+ * Check a listing against a saved search's criteria
+ *
+ * Returns null when a value a criterion needs is missing, so the caller can
+ * scrape the listing and check again.
+ */
+export function matchesSavedSearch(
+  search: Pick<SavedSearch, "min_units" | "max_price" | "boroughs">,
+  listing: ListingCriteriaValues
+): boolean | null {
+  let undetermined = false;
+
+  if (search.max_price != null) {
+    if (listing.price == null) undetermined = true;
+    else if (listing.price > search.max_price) return false;
+  }
+
+  if (search.min_units != null) {
+    if (listing.units == null) undetermined = true;
+    else if (listing.units < search.min_units) return false;
+  }
+
+  if (search.boroughs.length > 0) {
+    const address = normalizeAddress(listing.address);
+    if (!address) undetermined = true;
+    else if (!search.boroughs.some((borough) => address.includes(normalizeAddress(borough) ?? ""))) return false;
+  }
+
+  return undetermined ? null : true;
+}
+
+export function buildDigest(
+  search: Pick<SavedSearch, "id" | "name" | "search_url">,
+  notifications: ListingNotificationInsert[]
+): SavedSearchDigest {
+  const newListings = notifications.filter((n) => n.type === "new_listing");
+  const priceDrops = notifications.filter((n) => n.type === "price_drop");
+
+  const lines = [
+    ...newListings.map((n) => `New: ${n.address || n.source_url} at ${formatPrice(n.price)}\n  ${n.source_url}`),
+    ...priceDrops.map(
+      (n) =>
+        `Price drop: ${n.address || n.source_url} ${formatPrice(n.previous_price)} → ${formatPrice(n.price)}\n  ${n.source_url}`
+    ),
+  ];
+
+  return {
+    search: { id: search.id, name: search.name, search_url: search.search_url },
+    subject: `${search.name}: ${newListings.length} new listing(s), ${priceDrops.length} price drop(s)`,
+    text: lines.join("\n"),
+    newListings,
+    priceDrops,
+  };
+}
+
+async function sendDigest(webhookUrl: string, digest: SavedSearchDigest): Promise<void> {
+  const response = await fetch(webhookUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(digest),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook responded ${response.status} ${response.statusText}`);
+  }
+}
+
+/**
+ * Re-crawl a saved search and notify about new matching listings and price drops
+ *
+ * Prices and addresses come from the results thumbnails; a listing is only
+ * scraped when a criterion needs a value the thumbnail doesn't show (units,
+ * usually). Listings are diffed against what this search saw before, so the
+ * first run records what is already listed without notifying. New listings
+ * already saved as properties are not notified.
+ *
+ * @param supabaseClient - Optional Supabase client (for use outside of Next.js request context)
+ */
+export async function runSavedSearch(
+  search: SavedSearch,
+  supabaseClient?: SupabaseClient
+): Promise<SavedSearchRun> {
+  const supabase = supabaseClient || await createClient();
+
+  const { data: run, error: runError } = await supabase
+    .from("saved_search_runs")
+    .insert({ saved_search_id: search.id })
+    .select()
+    .single();
+
+  if (runError) {
+    throw new Error(runError.message);
+  }
+
+  const finishRun = async (updates: Partial<SavedSearchRun>): Promise<SavedSearchRun> => {
+    const completedAt = new Date().toISOString();
+
+    await supabase.from("saved_searches").update({ last_run_at: completedAt }).eq("id", search.id);
+
+    const { data, error } = await supabase
+      .from("saved_search_runs")
+      .update({ ...updates, completed_at: completedAt })
+      .eq("id", run.id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    return data;
+  };
+
+  try {
+    const crawler = new CentrisSearchCrawler();
+    const { listings } = await crawler.crawl(search.search_url, search.max_listings);
+
+    const [{ data: knownRows, error: knownError }, { count: completedRuns }] = await Promise.all([
+      supabase.from("saved_search_listings").select("*").eq("saved_search_id", search.id),
+      supabase
+        .from("saved_search_runs")
+        .select("*", { count: "exact", head: true })
+        .eq("saved_search_id", search.id)
+        .eq("status", "completed"),
+    ]);
+
+    if (knownError) {
+      throw new Error(knownError.message);
+    }
+
+    const known = new Map(((knownRows || []) as SavedSearchListing[]).map((row) => [row.source_url, row]));
+    const isFirstRun = !completedRuns;
+    const scraper = new CentrisScraper();
+    const seenAt = new Date().toISOString();
+    const rows: Omit<SavedSearchListing, "id" | "first_seen_at">[] = [];
+    const notifications: ListingNotificationInsert[] = [];
+
+    for (const summary of listings) {
+      const previous = known.get(summary.url);
+      const values: ListingCriteriaValues = {
+        price: summary.price,
+        units: previous?.units ?? null,
+        address: summary.address ?? previous?.address ?? null,
+      };
+      let mlsNumber = summary.mlsNumber ?? previous?.mls_number ?? null;
+
+      let matches = matchesSavedSearch(search, values);
+      if (matches === null) {
+        try {
+          const listing = await scraper.scrape(summary.url);
+          values.price ??= listing.price;
+          values.units ??= listing.units;
+          values.address ??= listing.address;
+          mlsNumber ??= listing.mls_number;
+          await recordScrapeCoverage(listing, supabase);
+        } catch (scrapeError) {
+          console.error(`Error scraping ${summary.url}:`, scrapeError);
+        }
+        await sleep(LISTING_DELAY_MS);
+        matches = matchesSavedSearch(search, values);
+      }
+
+      const notification = {
+        saved_search_id: search.id,
+        property_id: null,
+        source_url: summary.url,
+        mls_number: mlsNumber,
+        address: values.address,
+        price: values.price,
+      };
+
+      if (!isFirstRun && matches) {
+        if (!previous?.matches_criteria) {
+          notifications.push({ ...notification, type: "new_listing", previous_price: null });
+        } else if (previous.price != null && values.price != null && values.price < previous.price) {
+          notifications.push({ ...notification, type: "price_drop", previous_price: previous.price });
+        }
+      }
+
+      // Keep the price history going for listings nobody has saved yet
+      if (values.price != null && values.price !== previous?.price) {
+        try {
+          await recordListingObservation(
+            {
+              source_url: summary.url,
+              source_name: search.source_name,
+              mls_number: mlsNumber,
+              address: values.address,
+              price: values.price,
+            },
+            null,
+            supabase
+          );
+        } catch (recordError) {
+          console.error("Error recording listing observation:", recordError);
+        }
+      }
+
+      rows.push({
+        saved_search_id: search.id,
+        last_seen_at: seenAt,
+        source_url: summary.url,
+        mls_number: mlsNumber,
+        address: values.address,
+        price: values.price ?? previous?.price ?? null,
+        units: values.units,
+        // A failed detail scrape leaves the match unknown; don't let it reset a known match
+        matches_criteria: matches ?? previous?.matches_criteria ?? false,
+      });
+    }
+
+    if (rows.length > 0) {
+      const { error: upsertError } = await supabase
+        .from("saved_search_listings")
+        .upsert(rows, { onConflict: "saved_search_id,source_url" });
+
+      if (upsertError) {
+        throw new Error(upsertError.message);
+      }
+    }
+
+    // Link notifications to saved properties; new listings someone already saved aren't news
+    const mlsNumbers = notifications
+      .map((n) => n.mls_number)
+      .filter((mlsNumber): mlsNumber is string => !!mlsNumber);
+    const saved = new Map(
+      (await fetchPropertiesByMlsNumber(mlsNumbers, supabase)).map((property) => [property.mls_number, property.id])
+    );
+    const linked = notifications
+      .map((n) => ({ ...n, property_id: (n.mls_number && saved.get(n.mls_number)) || null }))
+      .filter((n) => n.type !== "new_listing" || !n.property_id);
+
+    if (linked.length > 0) {
+      const { error: notifyError } = await supabase.from("notifications").insert(linked);
+      if (notifyError) {
+        throw new Error(notifyError.message);
+      }
+
+      if (search.webhook_url) {
+        try {
+          await sendDigest(search.webhook_url, buildDigest(search, linked));
+        } catch (webhookError) {
+          console.error("Error sending saved search digest:", webhookError);
+        }
+      }
+    }
+
+    return finishRun({
+      status: "completed",
+      listings_seen: listings.length,
+      new_listings: linked.filter((n) => n.type === "new_listing").length,
+      price_drops: linked.filter((n) => n.type === "price_drop").length,
+    });
+  } catch (error) {
+    console.error(`Error running saved search ${search.name}:`, error);
+    return finishRun({
+      status: "failed",
+      error: error instanceof Error ? error.message : "Failed to run saved search",
+    });
+  }
+}
+
+/**
+ * Run every active saved search whose interval has elapsed, one at a time
+ *
+ * @param force - Run every active search regardless of its schedule
+ * @param supabaseClient - Optional Supabase client (for use outside of Next.js request context)
+ */
+export async function runDueSavedSearches(
+  force = false,
+  supabaseClient?: SupabaseClient
+): Promise<{ search: SavedSearch; run: SavedSearchRun }[]> {
+  const supabase = supabaseClient || await createClient();
+
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .select("*")
+    .eq("is_active", true)
+    .order("last_run_at", { ascending: true, nullsFirst: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const now = new Date();
+  const due = ((data || []) as SavedSearch[]).filter((search) => force || isSavedSearchDue(search, now));
+  const results: { search: SavedSearch; run: SavedSearchRun }[] = [];
+
+  for (const search of due) {
+    results.push({ search, run: await runSavedSearch(search, supabase) });
+  }
+
+  return results;
+}
@@ -0,0 +1,65 @@
+import { createClient } from "@/lib/supabase/server";
+import { getScraperForUrl } from "@/lib/scrapers";
+import { COVERAGE_FIELDS, populatedFields } from "@/lib/listings/field-coverage";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ScrapedProperty } from "@/types/property";
+import type { ScrapeCoverage } from "@/types/scrape-coverage";
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Record which fields a scrape populated, tagged with the version of the scraper that handled it
+ *
+ * @param supabaseClient - Optional Supabase client (for use outside of Next.js request context)
+ */
+export async function recordScrapeCoverage(
+  listing: ScrapedProperty,
+  supabaseClient?: SupabaseClient
+): Promise<void> {
+  const supabase = supabaseClient || await createClient();
+
+  const { error } = await supabase.from("scrape_field_coverage").insert({
+    source_name: listing.source_name,
+    scraper_version: getScraperForUrl(listing.source_url).version,
+    source_url: listing.source_url,
+    populated_fields: populatedFields(listing),
+    field_count: COVERAGE_FIELDS.length,
+  });
+
+  if (error) {
+    console.error("Error recording scrape coverage:", error);
+  }
+}
+
+/**
+ * Coverage rows recorded since a date, oldest first
+ *
+ * @param supabaseClient - Optional Supabase client (for use outside of Next.js request context)
+ */
+export async function fetchScrapeCoverage(
+  since: Date,
+  supabaseClient?: SupabaseClient
+): Promise<ScrapeCoverage[]> {
+  const supabase = supabaseClient || await createClient();
+
+  const rows: ScrapeCoverage[] = [];
+
+  // Paged, since the API caps each response at 1000 rows
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("scrape_field_coverage")
+      .select("*")
+      .gte("scraped_at", since.toISOString())
+      .order("scraped_at", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
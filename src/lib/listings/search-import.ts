@@ -0,0 +1,80 @@
+import { createClient } from "@/lib/supabase/server";
+import { TRACKED_LISTING_FIELDS } from "@/lib/listings/tracked-fields";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Property, ScrapedProperty } from "@/types/property";
+import type {
+  SearchImportChange,
+  SearchImportItem,
+  TrackedListingField,
+} from "@/types/search-import";
+
+/**
+ * Fields where the listing differs from the saved property
+ *
+ * Fields the listing doesn't show (null) are never reported as changes.
+ */
+export function diffListing(
+  existing: Pick<Property, TrackedListingField>,
+  listing: ScrapedProperty
+): SearchImportChange[] {
+  const changes: SearchImportChange[] = [];
+
+  for (const field of TRACKED_LISTING_FIELDS) {
+    const current = listing[field];
+    const previous = existing[field];
+    if (current == null || current === previous) continue;
+    changes.push({ field, previous, current });
+  }
+
+  return changes;
+}
+
+/**
+ * Classify scraped listings as new, updated or unchanged by MLS number
+ */
+export function classifyListings(
+  listings: ScrapedProperty[],
+  existing: Pick<Property, "id" | "mls_number" | TrackedListingField>[]
+): SearchImportItem[] {
+  const byMlsNumber = new Map(existing.map((property) => [property.mls_number, property]));
+
+  return listings.map((listing) => {
+    const match = listing.mls_number ? byMlsNumber.get(listing.mls_number) : undefined;
+    if (!match) {
+      return { status: "new", listing, existingId: null, changes: [] };
+    }
+
+    const changes = diffListing(match, listing);
+    return {
+      status: changes.length > 0 ? "updated" : "unchanged",
+      listing,
+      existingId: match.id,
+      changes,
+    };
+  });
+}
+
+/**
+ * Saved properties matching any of the given MLS numbers
+ *
+ * @param supabaseClient - Optional Supabase client (for use outside of Next.js request context)
+ */
+export async function fetchPropertiesByMlsNumber(
+  mlsNumbers: string[],
+  supabaseClient?: SupabaseClient
+): Promise<Pick<Property, "id" | "mls_number" | TrackedListingField>[]> {
+  if (mlsNumbers.length === 0) return [];
+
+  const supabase = supabaseClient || await createClient();
+
+  const { data, error } = await supabase
+    .from("properties")
+    .select(`id, mls_number, ${TRACKED_LISTING_FIELDS.join(", ")}`)
+    .in("mls_number", mlsNumbers);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data || []) as unknown as Pick<Property, "id" | "mls_number" | TrackedListingField>[];
+}
@@ -0,0 +1,22 @@
+import type { TrackedListingField } from "@/types/search-import";
+
+// Listing fields compared against saved properties; kept free of server imports for client components
+export const TRACKED_LISTING_FIELDS: TrackedListingField[] = [
+  "price",
+  "units",
+  "unit_details",
+  "potential_revenue",
+  "municipal_assessment",
+  "taxes",
+  "expenses",
+];
+
+export const TRACKED_LISTING_FIELD_LABELS: Record<TrackedListingField, string> = {
+  price: "Price",
+  units: "Units",
+  unit_details: "Unit Mix",
+  potential_revenue: "Revenue",
+  municipal_assessment: "Assessment",
+  taxes: "Taxes",
+  expenses: "Expenses",
+};
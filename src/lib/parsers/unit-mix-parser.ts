@@ -0,0 +1,177 @@
+import type { UnitMixEntry, UnitScheduleEntry } from "@/types/unit-mix";
+
+/**
+ * Infer bedrooms from a Quebec room count
+ *
+ * The half room is the bathroom; living room and kitchen are the two other
+ * non-bedroom rooms, so a 4½ has 2 bedrooms and a 1½/2½ is a studio.
+ *
+ * @example
+ * roomsToBedrooms(4.5) // 2
+ * roomsToBedrooms(2.5) // 0
+ */
+export function roomsToBedrooms(rooms: number): number {
+  return Math.max(Math.floor(rooms) - 2, 0);
+}
+
+/**
+ * Format a room count using Quebec half-room notation
+ *
+ * @example
+ * formatRooms(4.5) // "4½"
+ * formatRooms(3) // "3"
+ */
+export function formatRooms(rooms: number): string {
+  const whole = Math.floor(rooms);
+  return rooms - whole >= 0.5 ? `${whole}½` : `${whole}`;
+}
+
+/**
+ * Parse a unit-mix string into entries grouped by room count
+ *
+ * Accepts "2 x 4½, 1 x 5½", "3½, 4½", "2 x 4 1/2", "1 × 5.5" and
+ * "4 pièces" style tokens. Unparseable tokens are ignored.
+ *
+ * @example
+ * parseUnitMix("2 x 4½, 1 x 5½")
+ * // [{ count: 2, rooms: 4.5, bedrooms: 2, label: "4½" },
+ * //  { count: 1, rooms: 5.5, bedrooms: 3, label: "5½" }]
+ */
+export function parseUnitMix(text: string | null | undefined): UnitMixEntry[] {
+  if (!text || typeof text !== "string") return [];
+
+  const totals = new Map<number, number>();
+  const tokens = text.split(/[,;+]|\bet\b|\band\b/i);
+
+  for (const token of tokens) {
+    const match = token
+      .trim()
+      .match(/^(?:(\d+)\s*[x×]\s*)?(\d{1,2})\s*(½|1\/2|[.,]5)?\s*(?:pi[èe]ces?|rooms?)?/i);
+    if (!match) continue;
+
+    const count = match[1] ? parseInt(match[1]) : 1;
+    const rooms = parseInt(match[2]) + (match[3] ? 0.5 : 0);
+
+    // Skip obviously invalid values (dimensions, years, etc.)
+    if (count <= 0 || rooms < 1 || rooms > 12) continue;
+
+    totals.set(rooms, (totals.get(rooms) ?? 0) + count);
+  }
+
+  return [...totals.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([rooms, count]) => ({
+      count,
+      rooms,
+      bedrooms: roomsToBedrooms(rooms),
+      label: formatRooms(rooms),
+    }));
+}
+
+/**
+ * Total number of units described by a parsed unit mix
+ */
+export function countUnits(entries: UnitMixEntry[]): number {
+  return entries.reduce((sum, entry) => sum + entry.count, 0);
+}
+
+/**
+ * Build a structured unit schedule from a unit-mix string
+ *
+ * Rents are unknown at parse time and left null.
+ *
+ * @example
+ * buildUnitSchedule("2 x 4½, 1 x 5½")
+ * // [{ count: 2, rooms: 4.5, bedrooms: 2, current_rent: null },
+ * //  { count: 1, rooms: 5.5, bedrooms: 3, current_rent: null }]
+ */
+export function buildUnitSchedule(text: string | null | undefined): UnitScheduleEntry[] {
+  return parseUnitMix(text).map((entry) => ({
+    count: entry.count,
+    rooms: entry.rooms,
+    bedrooms: entry.bedrooms,
+    current_rent: null,
+  }));
+}
+
+/**
+ * Re-parse a changed unit mix, keeping the rents already entered for unit sizes that remain
+ *
+ * @example
+ * rebuildUnitSchedule("2 x 4½, 1 x 3½", [{ count: 3, rooms: 4.5, bedrooms: 2, current_rent: 1200 }])
+ * // [{ count: 1, rooms: 3.5, bedrooms: 1, current_rent: null },
+ * //  { count: 2, rooms: 4.5, bedrooms: 2, current_rent: 1200 }]
+ */
+export function rebuildUnitSchedule(
+  text: string | null | undefined,
+  previous: UnitScheduleEntry[] | null | undefined
+): UnitScheduleEntry[] {
+  const rents = new Map(
+    (previous ?? [])
+      .filter((entry) => entry.current_rent != null)
+      .map((entry) => [entry.rooms, entry.current_rent])
+  );
+
+  return buildUnitSchedule(text).map((entry) => ({ ...entry, current_rent: rents.get(entry.rooms) ?? null }));
+}
+
+/**
+ * Format a unit schedule back into the "2 x 4½, 1 x 5½" notation
+ */
+export function formatUnitSchedule(schedule: UnitScheduleEntry[]): string {
+  return schedule
+    .filter((entry) => entry.count > 0)
+    .map((entry) => `${entry.count} x ${formatRooms(entry.rooms)}`)
+    .join(", ");
+}
+
+/**
+ * Convert a stored unit schedule into unit-mix entries (for rent comps)
+ */
+export function scheduleToUnitMix(schedule: UnitScheduleEntry[]): UnitMixEntry[] {
+  return schedule
+    .filter((entry) => entry.count > 0)
+    .map((entry) => ({
+      count: entry.count,
+      rooms: entry.rooms,
+      bedrooms: entry.bedrooms,
+      label: formatRooms(entry.rooms),
+    }));
+}
+
+/**
+ * Total monthly in-place rent of a schedule, or null if no rent is known
+ */
+export function scheduleMonthlyRent(schedule: UnitScheduleEntry[]): number | null {
+  const withRent = schedule.filter((entry) => entry.current_rent != null);
+  if (withRent.length === 0) return null;
+  return withRent.reduce((sum, entry) => sum + entry.count * entry.current_rent!, 0);
+}
+
+/**
+ * Validate a unit schedule against the property's declared number of units
+ *
+ * @returns Human-readable warnings (empty when consistent)
+ */
+export function validateUnitSchedule(
+  schedule: UnitScheduleEntry[],
+  units: number | null | undefined
+): string[] {
+  const warnings: string[] = [];
+  const total = schedule.reduce((sum, entry) => sum + entry.count, 0);
+
+  if (schedule.some((entry) => entry.count <= 0 || !Number.isInteger(entry.count))) {
+    warnings.push("Each unit type must have a positive whole count");
+  }
+  if (schedule.some((entry) => entry.rooms < 1)) {
+    warnings.push("Room counts must be at least 1");
+  }
+  if (schedule.some((entry) => entry.current_rent != null && entry.current_rent < 0)) {
+    warnings.push("Rents cannot be negative");
+  }
+  if (units != null && schedule.length > 0 && total !== units) {
+    warnings.push(`Unit schedule totals ${total} units but the property lists ${units}`);
+  }
+
+  return warnings;
+}
@@ -0,0 +1,50 @@
+import type { DealStage, DealTask } from "@/types/deal-pipeline";
+
+// Board order, left to right
+export const DEAL_STAGES: DealStage[] = [
+  "sourced",
+  "analyzing",
+  "visited",
+  "offer_sent",
+  "accepted",
+  "closed",
+  "dead",
+];
+
+export const DEAL_STAGE_LABELS: Record<DealStage, string> = {
+  sourced: "Sourced",
+  analyzing: "Analyzing",
+  visited: "Visited",
+  offer_sent: "Offer Sent",
+  accepted: "Accepted",
+  closed: "Closed",
+  dead: "Dead",
+};
+
+export function isDealStage(value: unknown): value is DealStage {
+  return typeof value === "string" && DEAL_STAGES.includes(value as DealStage);
+}
+
+/**
+ * Whether an open task is past its due date
+ */
+export function isTaskOverdue(task: DealTask, today: Date = new Date()): boolean {
+  if (task.completed_at || !task.due_date) return false;
+  return task.due_date.slice(0, 10) < today.toISOString().slice(0, 10);
+}
+
+/**
+ * Open tasks sorted by due date (undated last), then creation
+ */
+export function sortOpenTasks(tasks: DealTask[]): DealTask[] {
+  return tasks
+    .filter((task) => !task.completed_at)
+    .sort((a, b) => {
+      if (a.due_date && b.due_date && a.due_date !== b.due_date) {
+        return a.due_date.localeCompare(b.due_date);
+      }
+      if (a.due_date && !b.due_date) return -1;
+      if (!a.due_date && b.due_date) return 1;
+      return a.created_at.localeCompare(b.created_at);
+    });
+}
@@ -1,20 +1,32 @@
 import * as cheerio from "cheerio";
 import type { ScrapedProperty, SourceName, PropertyType } from "@/types/property";
-import { getHeaders } from "@/lib/utils/user-agents";
+import { httpClient } from "@/lib/http/http-client";
 
 export abstract class BaseScraper {
   protected $: cheerio.CheerioAPI | null = null;
+  protected url: string | null = null;
 
   abstract readonly sourceName: SourceName;
   abstract readonly urlPattern: RegExp;
 
+  // Bump when selectors change, so field coverage can be compared across versions
+  readonly version: string = "1";
+
   canHandle(url: string): boolean {
     return this.urlPattern.test(url);
   }
 
   async scrape(url: string): Promise<ScrapedProperty> {
     const html = await this.fetchHtml(url);
+    return this.parse(html, url);
+  }
+
+  /**
+   * Extract a listing from HTML that was already fetched (e.g. a saved page)
+   */
+  parse(html: string, url: string): ScrapedProperty {
     this.$ = cheerio.load(html);
+    this.url = url;
 
     return {
       source_url: url,
@@ -49,16 +61,8 @@ export abstract class BaseScraper {
     };
   }
 
-  protected async fetchHtml(url: string): Promise<string> {
-    const response = await fetch(url, {
-      headers: getHeaders("fr"),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch: ${response.status} ${response.statusText}`);
-    }
-
-    return response.text();
+  async fetchHtml(url: string): Promise<string> {
+    return httpClient.fetchText(url, { lang: "fr" });
   }
 
   // Helper methods for parsing
@@ -1,5 +1,6 @@
 import * as cheerio from 'cheerio';
 import type { CheerioAPI } from 'cheerio';
+import { httpClient } from '@/lib/http/http-client';
 import type { CentrisScraperResult } from '@/types/centris-rental-raw';
 
 /**
@@ -19,20 +20,8 @@ export class CentrisRentalScraper {
     return this.urlPattern.test(url);
   }
 
-  private async fetchHtml(url: string): Promise<string> {
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'Accept-Language': 'fr-CA,fr;q=0.9,en-CA;q=0.8,en;q=0.7',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
-    }
-
-    return response.text();
+  async fetchHtml(url: string): Promise<string> {
+    return httpClient.fetchText(url, { lang: 'fr' });
   }
 
   /**
@@ -40,6 +29,13 @@ export class CentrisRentalScraper {
    */
   async scrape(url: string): Promise<CentrisScraperResult> {
     const html = await this.fetchHtml(url);
+    return this.parse(html, url);
+  }
+
+  /**
+   * Extract a rental from HTML that was already fetched (e.g. a saved page)
+   */
+  parse(html: string, url: string): CentrisScraperResult {
     this.$ = cheerio.load(html);
 
     const centrisId = this.extractCentrisId(url);
@@ -258,11 +258,13 @@ export class CentrisScraper extends BaseScraper {
 
     // Try to find unit breakdown in characteristics section
     const bodyText = $("body").text();
-    // Match patterns like "2 x 4½" or "1 x 5½" or "3½, 4½, 5½"
-    const unitPatterns = bodyText.match(/(\d+\s*x\s*\d+½?|\d+½)/gi);
+    // Match patterns like "2 x 4½", "1 x 5 ½" or "3½, 4½, 5½"
+    const unitPatterns = bodyText.match(/(\d+\s*x\s*\d+(?:\s*½)?|\d+\s*½)/gi);
     if (unitPatterns && unitPatterns.length > 0) {
-      // Filter out common non-unit patterns (like dimensions)
-      const filteredPatterns = unitPatterns.filter(p => p.includes("½") || p.match(/^\d+\s*x\s*[3-9]/));
+      // Filter out common non-unit patterns (like dimensions), then write "5 ½" as "5½"
+      const filteredPatterns = unitPatterns
+        .filter(p => p.includes("½") || p.match(/^\d+\s*x\s*[3-9]/))
+        .map(p => p.replace(/\s+½/, "½"));
       if (filteredPatterns.length > 0) {
         return [...new Set(filteredPatterns)].join(", ");
       }
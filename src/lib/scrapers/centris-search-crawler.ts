@@ -0,0 +1,158 @@
+import * as cheerio from "cheerio";
+import { httpClient } from "@/lib/http/http-client";
+import { getRandomUserAgent } from "@/lib/utils/user-agents";
+
+const CENTRIS_ORIGIN = "https://www.centris.ca";
+
+// What a results thumbnail shows about a listing, without scraping it
+export interface CentrisSearchListing {
+  url: string;
+  mlsNumber: string | null;
+  price: number | null;
+  address: string | null; // Street and city lines, e.g. "1234, rue Beaubien Est, Montréal (Rosemont/La Petite-Patrie)"
+  category: string | null; // e.g. "Triplex à vendre"
+}
+
+export interface CentrisSearchPage {
+  listingUrls: string[];
+  listings: CentrisSearchListing[];
+  totalResults: number | null;
+}
+
+export interface CentrisSearchResult extends CentrisSearchPage {
+  pages: number;
+}
+
+/**
+ * Collects listings from a Centris search results URL
+ *
+ * The search page only renders the first page of results. Centris keeps the
+ * query in the session, so later pages are fetched from its GetInscriptions
+ * endpoint with the cookies set by the search page.
+ */
+export class CentrisSearchCrawler {
+  // Search URLs have no listing number, e.g. /fr/plex~a-vendre~montreal-rosemont-la-petite-patrie?view=Thumbnail
+  isSearchUrl(url: string): boolean {
+    try {
+      const { hostname, pathname } = new URL(url);
+      return /centris\.ca$/i.test(hostname) && pathname.includes("~") && !/\/\d{7,9}\/?$/.test(pathname);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Extract listings and the result count from a results page (or GetInscriptions HTML)
+   */
+  parseResultsPage(html: string): CentrisSearchPage {
+    const $ = cheerio.load(html);
+    const listings = new Map<string, CentrisSearchListing>();
+
+    $("a.property-thumbnail-summary-link, .property-thumbnail-item a[href], a[href*='~a-vendre~'], a[href*='~for-sale~']").each(
+      (_, el) => {
+        const href = $(el).attr("href");
+        if (!href || !/\/\d{7,9}(?:[/?#]|$)/.test(href)) return;
+
+        const url = new URL(href, CENTRIS_ORIGIN).toString().split("?")[0];
+        if (listings.has(url)) return;
+
+        const thumbnail = $(el).closest(".property-thumbnail-item, .thumbnailItem, .shell");
+        const priceText =
+          thumbnail.find("[itemprop='price']").attr("content") || thumbnail.find(".price").first().text();
+        const price = parseInt(priceText.replace(/[^\d]/g, ""));
+        const addressLines = thumbnail
+          .find(".address > div, .address > span")
+          .map((_, line) => $(line).text().trim())
+          .get()
+          .filter(Boolean);
+
+        listings.set(url, {
+          url,
+          mlsNumber: url.match(/\/(\d{7,9})\/?$/)?.[1] ?? null,
+          price: isNaN(price) ? null : price,
+          address: addressLines.join(", ") || thumbnail.find(".address").text().trim() || null,
+          category: thumbnail.find(".category").first().text().trim() || null,
+        });
+      }
+    );
+
+    const countText =
+      $(".resultCount").first().text() ||
+      $("body").text().match(/(\d[\d\s,]*)\s*(?:résultats?|results?|propriétés?)/i)?.[1] ||
+      "";
+    const totalResults = parseInt(countText.replace(/[^\d]/g, ""));
+
+    return {
+      listingUrls: [...listings.keys()],
+      listings: [...listings.values()],
+      totalResults: isNaN(totalResults) ? null : totalResults,
+    };
+  }
+
+  async crawl(url: string, maxListings = 50): Promise<CentrisSearchResult> {
+    if (!this.isSearchUrl(url)) {
+      throw new Error("Not a Centris search results URL");
+    }
+
+    // Centris keeps the query in a session: same user agent and proxy throughout, never cached
+    const session = { lang: "fr" as const, session: url, headers: { "User-Agent": getRandomUserAgent() } };
+    const response = await httpClient.fetch(url, { ...session, useCache: false });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch: ${response.status} ${response.statusText}`);
+    }
+
+    const cookies = response.headers
+      .getSetCookie()
+      .map((cookie) => cookie.split(";")[0])
+      .join("; ");
+
+    const firstPage = this.parseResultsPage(await response.text());
+    const listings = new Map(firstPage.listings.map((listing) => [listing.url, listing]));
+    const perPage = firstPage.listings.length;
+    let pages = 1;
+
+    while (
+      perPage > 0 &&
+      listings.size < maxListings &&
+      (firstPage.totalResults == null || listings.size < firstPage.totalResults)
+    ) {
+      const pageResponse = await httpClient.fetch(`${CENTRIS_ORIGIN}/Property/GetInscriptions`, {
+        ...session,
+        method: "POST",
+        headers: {
+          ...session.headers,
+          Accept: "application/json, text/javascript, */*; q=0.01",
+          "Content-Type": "application/json; charset=UTF-8",
+          "X-Requested-With": "XMLHttpRequest",
+          Referer: url,
+          Cookie: cookies,
+        },
+        body: JSON.stringify({ startPosition: pages * perPage }),
+      });
+
+      if (!pageResponse.ok) {
+        throw new Error(`Failed to fetch results page ${pages + 1}: ${pageResponse.status}`);
+      }
+
+      const result = (await pageResponse.json()) as { d?: { Result?: { html?: string } } } | null;
+      const page = this.parseResultsPage(result?.d?.Result?.html ?? "");
+      const before = listings.size;
+      page.listings.forEach((listing) => {
+        if (!listings.has(listing.url)) listings.set(listing.url, listing);
+      });
+      pages++;
+
+      // An empty or repeated page means the session lost the query
+      if (listings.size === before) break;
+    }
+
+    const found = [...listings.values()].slice(0, maxListings);
+
+    return {
+      listingUrls: found.map((listing) => listing.url),
+      listings: found,
+      totalResults: firstPage.totalResults,
+      pages,
+    };
+  }
+}
@@ -0,0 +1,96 @@
+import { ListingDetailsScraper } from "./listing-details-scraper";
+import type { SourceName, PropertyType } from "@/types/property";
+
+export class DuProprioScraper extends ListingDetailsScraper {
+  readonly sourceName: SourceName = "duproprio";
+  readonly urlPattern = /duproprio\.(com|ca)/i;
+
+  protected extractTitle(): string {
+    const $ = this.$!;
+
+    const ogTitle = $('meta[property="og:title"]').attr("content");
+    const title =
+      ogTitle?.replace(/\s*[|–-]\s*DuProprio.*$/i, "") ||
+      this.getDetails().jsonLd?.name ||
+      $("h1").first().text() ||
+      $("title").text().replace(/\s*[|–-]\s*DuProprio.*$/i, "");
+
+    return this.cleanText(title) || "Untitled Property";
+  }
+
+  protected extractAddress(): string | null {
+    const $ = this.$!;
+
+    const street =
+      $("[class*='listing-location__address'] [class*='street']").first().text() ||
+      $("[class*='listing-location__address']").children().first().text();
+
+    return this.cleanText(street) ?? super.extractAddress();
+  }
+
+  protected extractCity(): string | null {
+    const $ = this.$!;
+
+    const city =
+      this.cleanText($("[class*='listing-location__address'] [class*='city']").first().text()) ??
+      super.extractCity();
+    if (city) return city;
+
+    // URLs look like /fr/montreal/rosemont-la-petite-patrie/triplex-a-vendre/hab-...
+    const slug = this.url?.match(/duproprio\.(?:com|ca)\/(?:fr|en)\/([^/?#]+)\//i)?.[1];
+    if (slug) {
+      return slug
+        .split("-")
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+        .join("-");
+    }
+
+    return null;
+  }
+
+  protected extractPostalCode(): string | null {
+    const $ = this.$!;
+    return (
+      super.extractPostalCode() ??
+      this.parseAddressLine($("[class*='listing-location']").text()).postalCode
+    );
+  }
+
+  protected extractPrice(): number | null {
+    const $ = this.$!;
+    return this.parseAmount($("[class*='listing-price__amount']").first().text()) ?? super.extractPrice();
+  }
+
+  protected extractPropertyType(): PropertyType | null {
+    const type = super.extractPropertyType();
+    if (type) return type;
+
+    // URL segment, e.g. "triplex-a-vendre"
+    const urlType = this.url?.match(/\/([a-z-]+)-a-vendre\//i)?.[1].replace(/-/g, " ");
+    return urlType ? this.inferPropertyType(urlType) : null;
+  }
+
+  protected extractMlsNumber(): string | null {
+    // DuProprio listings aren't on the MLS; the listing code identifies them instead
+    const code = this.findValue(/code de l'annonce|(numero|no) de l'annonce|listing (id|code)/);
+    const codeMatch = code?.match(/(\d{4,})/);
+    if (codeMatch) return codeMatch[1];
+
+    const urlMatch = this.url?.match(/-(\d{5,})(?:[/?#]|$)/);
+    return urlMatch ? urlMatch[1] : null;
+  }
+
+  protected extractDescription(): string | null {
+    const $ = this.$!;
+    return (
+      this.cleanText($("[class*='listing-owners-comments__description']").text()) ??
+      super.extractDescription()
+    );
+  }
+
+  protected extractImages(): string[] {
+    return this.collectImages(
+      "[class*='gallery'] img, [class*='photo'] img, [class*='slider'] img, [class*='carousel'] img"
+    );
+  }
+}
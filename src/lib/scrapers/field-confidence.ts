@@ -0,0 +1,24 @@
+import type { FieldConfidence, ScrapedField } from "@/types/property";
+
+// Structured data is published by the site for machines to read, so it is trusted over page heuristics
+export type StructuredSource = "json_ld" | "microdata" | "open_graph";
+
+export const STRUCTURED_CONFIDENCE: Record<StructuredSource, number> = {
+  json_ld: 0.95,
+  microdata: 0.9,
+  open_graph: 0.8,
+};
+
+// Fields below this are highlighted for the user to verify before saving
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+export function isLowConfidence(confidence: FieldConfidence | undefined, field: ScrapedField): boolean {
+  const score = confidence?.[field];
+  return score != null && score < LOW_CONFIDENCE_THRESHOLD;
+}
+
+export function lowConfidenceFields(confidence: FieldConfidence | undefined): ScrapedField[] {
+  return (Object.keys(confidence ?? {}) as ScrapedField[]).filter((field) =>
+    isLowConfidence(confidence, field)
+  );
+}
@@ -1,9 +1,92 @@
 import { BaseScraper } from "./base-scraper";
-import type { SourceName, PropertyType } from "@/types/property";
+import { STRUCTURED_CONFIDENCE } from "./field-confidence";
+import { extractStructuredData } from "./structured-data";
+import { populatedFields } from "@/lib/listings/field-coverage";
+import type {
+  FieldConfidence,
+  PropertyType,
+  ScrapedField,
+  ScrapedProperty,
+  SourceName,
+} from "@/types/property";
+
+// How much to trust each heuristic below when the page has no structured data for the field:
+// class name and itemprop lookups beat amounts matched anywhere in the page text
+const HEURISTIC_CONFIDENCE: Record<ScrapedField, number> = {
+  title: 0.7,
+  address: 0.5,
+  city: 0.5,
+  postal_code: 0.5,
+  price: 0.5,
+  bedrooms: 0.4,
+  bathrooms: 0.4,
+  sqft: 0.3,
+  lot_size: 0.3,
+  year_built: 0.4,
+  property_type: 0.5,
+  units: 0.5,
+  unit_details: 0.4,
+  mls_number: 0.4,
+  description: 0.7,
+  features: 0.6,
+  images: 0.6,
+  potential_revenue: 0.3,
+  municipal_assessment: 0.3,
+  assessment_land: 0.3,
+  assessment_building: 0.3,
+  taxes: 0.3,
+  taxes_municipal: 0.3,
+  taxes_school: 0.3,
+  expenses: 0.3,
+  expense_electricity: 0.3,
+  expense_heating: 0.3,
+};
+
+const UNTITLED = "Untitled Property";
 
 export class GenericScraper extends BaseScraper {
   readonly sourceName: SourceName = "unknown";
   readonly urlPattern = /.*/; // Matches anything
+  readonly version: string = "2";
+
+  /**
+   * Reads the page's JSON-LD, microdata and OpenGraph first, and falls back on
+   * the heuristics below for whatever they don't cover. Every populated field
+   * gets a confidence score so uncertain values can be checked before saving.
+   */
+  parse(html: string, url: string): ScrapedProperty {
+    const listing = super.parse(html, url);
+    const structured = extractStructuredData(this.$!, url);
+    const heuristicFields = new Set(populatedFields(listing));
+    const confidence: FieldConfidence = {};
+
+    for (const field of Object.keys(HEURISTIC_CONFIDENCE) as ScrapedField[]) {
+      const found = structured[field];
+      if (found) {
+        // Gallery photos are kept after the published ones (og:image is already resolved among them)
+        const value =
+          field === "images"
+            ? [...new Set([...(found.value as string[]), ...listing.images.filter((src) => src.startsWith("http"))])]
+            : found.value;
+        Object.assign(listing, { [field]: value });
+        confidence[field] = STRUCTURED_CONFIDENCE[found.source];
+      } else if (heuristicFields.has(field)) {
+        confidence[field] = HEURISTIC_CONFIDENCE[field];
+      }
+    }
+
+    if (listing.title === UNTITLED) {
+      confidence.title = 0;
+    }
+
+    // The heuristics inferred these from the page's own title
+    if (structured.title && !listing.property_type) {
+      listing.property_type = this.inferPropertyType(listing.title);
+      if (listing.property_type) confidence.property_type = HEURISTIC_CONFIDENCE.property_type;
+    }
+
+    return { ...listing, field_confidence: confidence };
+  }
 
   protected extractTitle(): string {
     const $ = this.$!;
@@ -14,9 +97,9 @@ export class GenericScraper extends BaseScraper {
       $('meta[name="title"]').attr("content") ||
       $("h1").first().text() ||
       $("title").text() ||
-      "Untitled Property";
+      UNTITLED;
 
-    return this.cleanText(title) || "Untitled Property";
+    return this.cleanText(title) || UNTITLED;
   }
 
   protected extractAddress(): string | null {
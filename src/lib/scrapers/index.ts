@@ -1,4 +1,8 @@
 import { CentrisScraper } from "./centris-scraper";
+import { DuProprioScraper } from "./duproprio-scraper";
+import { RealtorScraper } from "./realtor-scraper";
+import { RemaxScraper } from "./remax-scraper";
+import { RoyalLePageScraper } from "./royallepage-scraper";
 import { GenericScraper } from "./generic-scraper";
 import type { BaseScraper } from "./base-scraper";
 import type { SourceName } from "@/types/property";
@@ -6,11 +10,10 @@ import type { SourceName } from "@/types/property";
 // Register all scrapers here
 const scrapers: BaseScraper[] = [
   new CentrisScraper(),
-  // Add more scrapers as they are implemented:
-  // new RealtorScraper(),
-  // new DuProprioScraper(),
-  // new RemaxScraper(),
-  // new RoyalLePageScraper(),
+  new DuProprioScraper(),
+  new RealtorScraper(),
+  new RemaxScraper(),
+  new RoyalLePageScraper(),
 ];
 
 const genericScraper = new GenericScraper();
@@ -28,4 +31,9 @@ export function detectSource(url: string): SourceName {
 export { BaseScraper } from "./base-scraper";
 export { CentrisScraper } from "./centris-scraper";
 export { CentrisRentalScraper } from "./centris-rental-scraper";
+export { CentrisSearchCrawler } from "./centris-search-crawler";
+export { DuProprioScraper } from "./duproprio-scraper";
+export { RealtorScraper } from "./realtor-scraper";
+export { RemaxScraper } from "./remax-scraper";
+export { RoyalLePageScraper } from "./royallepage-scraper";
 export { GenericScraper } from "./generic-scraper";
@@ -0,0 +1,584 @@
+import type { CheerioAPI } from "cheerio";
+import { BaseScraper } from "./base-scraper";
+import { buildUnitSchedule, formatUnitSchedule } from "@/lib/parsers/unit-mix-parser";
+import type { PropertyType } from "@/types/property";
+
+// A label/value pair from the listing, with the heading of the section it sits in
+export interface DetailRow {
+  section: string;
+  label: string;
+  value: string;
+  text: string;
+}
+
+export interface JsonLdListing {
+  name?: string;
+  description?: string;
+  image?: string | string[] | { url?: string }[];
+  address?: {
+    streetAddress?: string;
+    addressLocality?: string;
+    postalCode?: string;
+  };
+  offers?: { price?: string | number } | { price?: string | number }[];
+  numberOfRooms?: string | number;
+  numberOfBedrooms?: string | number;
+  numberOfBathroomsTotal?: string | number;
+  yearBuilt?: string | number;
+}
+
+type Selection = ReturnType<CheerioAPI>;
+
+const SECTION_HEADINGS = "h2, h3, h4, h5, caption, [class*='title'], [class*='heading']";
+
+const UNIT_ROW_LABEL = /^(logement|unite|appartement|app\.?|apt|loyer|unit)\b/;
+const ROOMS_PATTERN = /(?:^|\D)(\d{1,2})\s*(?:½|1\/2|[.,]5)/;
+const AMOUNT_PATTERN = /\d\s*\$|\$\s*\d/;
+const MONTHLY_PATTERN = /\/\s*mois|par mois|mensuel|\/\s*mo\b|monthly|per month/i;
+const POSTAL_CODE_PATTERN = /\b([A-Z]\d[A-Z])\s?(\d[A-Z]\d)\b/i;
+// "1234, rue Beaubien Est" / "4512-4516 av. Papineau" / "1234 Beaubien St E"
+const STREET_PATTERN =
+  /(\d{1,5}(?:\s*[-–]\s*\d{1,5})?[A-Z]?,?\s+(?:(?:rue|avenue|av\.|boul\.|boulevard|chemin|ch\.|place|pl\.|mont[ée]e|rang|croissant|terrasse|route|all[ée]e|c[ôo]te)\s+[^,|(]+|[^,|(]+?\s+(?:street|st|avenue|ave|road|rd|boulevard|blvd|drive|dr|crescent|cres)\b\.?[^,|(]*))/i;
+
+// Lowercase and strip accents so labels can be matched with plain patterns
+function normalizeLabel(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[’']/g, "'")
+    .replace(/\s*:\s*$/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Base for listing sites that lay details out as labelled rows grouped under
+ * section headings ("Évaluation municipale", "Dépenses", "Revenus", ...)
+ *
+ * Rows are collected once per page from label/value elements, tables, definition
+ * lists and "Label: value" list items, so most fields are found by label
+ * (French or English) instead of site-specific selectors. Header fields fall back
+ * to JSON-LD, microdata and the address line; subclasses supply the listing
+ * number and photos, and can override any lookup.
+ */
+export abstract class ListingDetailsScraper extends BaseScraper {
+  // Elements holding a label child and a value child
+  protected readonly rowSelectors =
+    "[class*='row'], [class*='item'], [class*='characteristic'], li";
+
+  private details: { $: CheerioAPI; rows: DetailRow[]; jsonLd: JsonLdListing | null } | null = null;
+
+  // Rows and structured data are collected once per parsed page
+  protected getDetails() {
+    const $ = this.$!;
+    if (this.details?.$ !== $) {
+      this.details = { $, rows: this.collectRows(), jsonLd: this.collectJsonLd() };
+    }
+    return this.details;
+  }
+
+  private collectRows(): DetailRow[] {
+    const $ = this.$!;
+    const rows: DetailRow[] = [];
+
+    const add = (el: Selection, label: string, value: string) => {
+      const cleanLabel = this.cleanText(label);
+      const cleanValue = this.cleanText(value);
+      if (!cleanLabel || !cleanValue || cleanLabel === cleanValue) return;
+
+      rows.push({
+        section: this.sectionOf(el),
+        label: normalizeLabel(cleanLabel),
+        value: cleanValue,
+        text: this.cleanText(el.children().map((_, child) => $(child).text()).get().join(" ") || el.text()) ?? "",
+      });
+    };
+
+    // Exactly one label child and one value child (e.g. DuProprio's BEM rows);
+    // wrappers holding several rows are skipped
+    $(this.rowSelectors).each((_, el) => {
+      const labels = $(el).find("[class*='label'], [class*='title']");
+      const values = $(el).find("[class*='value'], [class*='number'], [class*='amount']");
+      if (labels.length === 1 && values.length === 1) {
+        add($(el), labels.text(), values.text());
+        return;
+      }
+
+      // "Année de construction : 1925"
+      const match = $(el).children().length <= 2 ? this.cleanText($(el).text())?.match(/^([^:]{2,60}):\s*(.+)$/) : null;
+      if (match) add($(el), match[1], match[2]);
+    });
+
+    // Plain tables (revenue and expense breakdowns), skipping header rows
+    $("tr").each((_, el) => {
+      const cells = $(el).children("th, td");
+      if (cells.length >= 2 && $(el).children("td").length > 0) {
+        add($(el), cells.first().text(), cells.last().text());
+      }
+    });
+
+    $("dt").each((_, el) => {
+      add($(el), $(el).text(), $(el).next("dd").text());
+    });
+
+    return rows;
+  }
+
+  // Heading of the closest enclosing section (e.g. "evaluation municipale", "revenus")
+  protected sectionOf(el: Selection): string {
+    let node = el.parent();
+
+    for (let depth = 0; depth < 6 && node.length > 0; depth++) {
+      const heading =
+        node.children(SECTION_HEADINGS).first().text() ||
+        node.prevAll("h2, h3, h4, h5").first().text();
+      if (heading && this.cleanText(heading)) {
+        return normalizeLabel(heading);
+      }
+      node = node.parent();
+    }
+
+    return "";
+  }
+
+  private collectJsonLd(): JsonLdListing | null {
+    const $ = this.$!;
+    const candidates: JsonLdListing[] = [];
+
+    $('script[type="application/ld+json"]').each((_, el) => {
+      try {
+        const parsed = JSON.parse($(el).text());
+        const items = Array.isArray(parsed) ? parsed : parsed["@graph"] ?? [parsed];
+        for (const item of items) {
+          // RealEstateListing wraps the residence in about / mainEntity
+          candidates.push(item, ...[item.about, item.mainEntity, item.itemOffered].filter(Boolean));
+        }
+      } catch {
+        // Ignore malformed structured data
+      }
+    });
+
+    const listing = candidates.find((item) => item.address) ?? candidates.find((item) => item.offers);
+    if (!listing) return null;
+
+    // Offers often sit on the wrapper rather than the residence
+    return { ...listing, offers: listing.offers ?? candidates.find((item) => item.offers)?.offers };
+  }
+
+  protected findRow(label: RegExp, section?: RegExp): DetailRow | undefined {
+    return this.getDetails().rows.find(
+      (row) => label.test(row.label) && (!section || section.test(row.section))
+    );
+  }
+
+  protected findValue(label: RegExp, section?: RegExp): string | null {
+    return this.findRow(label, section)?.value ?? null;
+  }
+
+  // First matching row holding a dollar amount, annualized ("Chauffage: Électrique" is skipped)
+  protected findAmount(label: RegExp, section?: RegExp): number | null {
+    for (const row of this.getDetails().rows) {
+      if (!label.test(row.label) || (section && !section.test(row.section))) continue;
+      const amount = this.parseAnnualAmount(row);
+      if (amount != null) return amount;
+    }
+    return null;
+  }
+
+  // "1 234,56 $", "$1,234.56" or "2024 : 3 456 $ / an" → 1235 / 1235 / 3456
+  protected parseAmount(text: string | null | undefined): number | null {
+    if (!text) return null;
+
+    const dollarMatches = [...text.matchAll(/(\d[\d\s\u00a0\u202f.,]*)\s*\$|\$\s*(\d[\d\s\u00a0\u202f.,]*)/g)];
+    const lastMatch = dollarMatches[dollarMatches.length - 1];
+    const raw = lastMatch ? lastMatch[1] ?? lastMatch[2] : text;
+    let cleaned = raw.replace(/[\s\u00a0\u202f]/g, "").replace(/[^0-9.,]/g, "");
+
+    if (cleaned.includes(",") && cleaned.includes(".")) {
+      cleaned = cleaned.replace(/,/g, "");
+    } else if (/,\d{1,2}$/.test(cleaned)) {
+      cleaned = cleaned.replace(",", ".");
+    } else {
+      cleaned = cleaned.replace(/,/g, "");
+    }
+
+    const amount = parseFloat(cleaned);
+    return isNaN(amount) ? null : Math.round(amount);
+  }
+
+  // Dollar amount of a row; rents and utilities are sometimes listed per month
+  protected parseAnnualAmount(row: DetailRow): number | null {
+    if (!AMOUNT_PATTERN.test(row.value)) return null;
+    const amount = this.parseAmount(row.value);
+    if (amount == null) return null;
+    return MONTHLY_PATTERN.test(row.text) || MONTHLY_PATTERN.test(row.section) ? amount * 12 : amount;
+  }
+
+  // Living and lot areas in pi² or m², or as "50 x 100" dimensions
+  protected parseArea(text: string | null): number | null {
+    if (!text) return null;
+
+    const dimMatch = text.match(/([\d.,]+)\s*(?:pi|ft|')?\s*[x×]\s*([\d.,]+)/i);
+    const area = dimMatch
+      ? parseFloat(dimMatch[1].replace(",", ".")) * parseFloat(dimMatch[2].replace(",", "."))
+      : this.parseAmount(text.replace(/\$/g, ""));
+    if (area == null || isNaN(area)) return null;
+
+    if (/m²|m2|\bm\b|metres? carres/i.test(text)) {
+      return Math.round(area * 10.764); // Convert m² to sqft
+    }
+    return Math.round(area);
+  }
+
+  protected parseCount(text: string | number | null | undefined): number | null {
+    if (text == null) return null;
+    const match = String(text).match(/(\d+)/);
+    return match ? parseInt(match[1]) : null;
+  }
+
+  protected jsonLdPrice(): number | null {
+    const offers = this.getDetails().jsonLd?.offers;
+    const offer = Array.isArray(offers) ? offers[0] : offers;
+    return offer?.price != null ? this.parseAmount(String(offer.price)) : null;
+  }
+
+  // Photos from JSON-LD, og:image and the given gallery selectors, as absolute URLs
+  protected collectImages(gallerySelectors: string): string[] {
+    const $ = this.$!;
+    const images: string[] = [];
+
+    const addImage = (src: string | undefined) => {
+      if (!src || /logo|placeholder|avatar|\.svg/i.test(src)) return;
+      try {
+        images.push(new URL(src, this.url ?? undefined).toString());
+      } catch {
+        // Ignore unparseable URLs
+      }
+    };
+
+    const jsonLdImage = this.getDetails().jsonLd?.image;
+    for (const image of Array.isArray(jsonLdImage) ? jsonLdImage : [jsonLdImage]) {
+      addImage(typeof image === "string" ? image : image?.url);
+    }
+
+    addImage($('meta[property="og:image"]').attr("content"));
+
+    $(gallerySelectors).each((_, el) => {
+      const srcset = $(el).attr("srcset") || $(el).attr("data-srcset");
+      addImage(
+        $(el).attr("data-src") ||
+          $(el).attr("data-lazy") ||
+          $(el).attr("src") ||
+          srcset?.split(",")[0].trim().split(" ")[0]
+      );
+    });
+
+    return [...new Set(images)];
+  }
+
+  // "1234, Rue Beaubien Est, Montréal (Rosemont), QC H2G 1L3" → street, city, postal code
+  protected parseAddressLine(text: string | null | undefined): {
+    street: string | null;
+    city: string | null;
+    postalCode: string | null;
+  } {
+    const postalMatch = text?.match(POSTAL_CODE_PATTERN);
+    const postalCode = postalMatch ? `${postalMatch[1]} ${postalMatch[2]}`.toUpperCase() : null;
+
+    const streetMatch = text?.match(STREET_PATTERN);
+    if (!text || !streetMatch) return { street: null, city: null, postalCode };
+
+    const rest = text.slice((streetMatch.index ?? 0) + streetMatch[0].length);
+    const city = rest
+      .split(/[,|]/)
+      .map((part) => this.cleanText(part.replace(/\(.*?\)/g, "").replace(POSTAL_CODE_PATTERN, "")))
+      .find((part) => part && !/^(qc|quebec|québec|province)$/i.test(part));
+
+    return { street: this.cleanText(streetMatch[1]), city: city ?? null, postalCode };
+  }
+
+  // The page's one-line address, as shown in the header
+  private getAddressLine(): string {
+    const $ = this.$!;
+    return (
+      $('[itemprop="address"]').first().text() ||
+      $("[class*='address']").first().text() ||
+      $("h1").first().text() ||
+      $('meta[property="og:title"]').attr("content") ||
+      ""
+    );
+  }
+
+  protected extractTitle(): string {
+    const $ = this.$!;
+
+    const title =
+      $('meta[property="og:title"]').attr("content") ||
+      this.getDetails().jsonLd?.name ||
+      $("h1").first().text() ||
+      $("title").text();
+
+    // Drop the trailing " | Site name"
+    return this.cleanText(title?.replace(/\s+\|\s+[^|]*$/, "")) || "Untitled Property";
+  }
+
+  protected extractAddress(): string | null {
+    const $ = this.$!;
+
+    return (
+      this.cleanText(this.getDetails().jsonLd?.address?.streetAddress) ??
+      this.cleanText($('[itemprop="streetAddress"]').first().text()) ??
+      this.parseAddressLine(this.getAddressLine()).street
+    );
+  }
+
+  protected extractCity(): string | null {
+    const $ = this.$!;
+
+    return (
+      this.cleanText(this.getDetails().jsonLd?.address?.addressLocality) ??
+      this.cleanText($('[itemprop="addressLocality"]').first().text()) ??
+      this.parseAddressLine(this.getAddressLine()).city
+    );
+  }
+
+  protected extractPostalCode(): string | null {
+    const $ = this.$!;
+
+    const postalCode =
+      this.getDetails().jsonLd?.address?.postalCode ||
+      $('[itemprop="postalCode"]').first().text() ||
+      this.getAddressLine();
+    return this.parseAddressLine(postalCode).postalCode;
+  }
+
+  protected extractPrice(): number | null {
+    const $ = this.$!;
+
+    return (
+      this.jsonLdPrice() ??
+      this.parseAmount($('[itemprop="price"]').attr("content") || $("[class*='price']").first().text())
+    );
+  }
+
+  protected extractDescription(): string | null {
+    const $ = this.$!;
+
+    const description =
+      $('[itemprop="description"]').first().text() ||
+      $("[class*='description']").first().text() ||
+      this.getDetails().jsonLd?.description ||
+      $('meta[property="og:description"]').attr("content");
+
+    return this.cleanText(description);
+  }
+
+  protected extractBedrooms(): number | null {
+    return (
+      this.parseCount(this.findValue(/chambres?( a coucher)?$|^bedrooms?$/)) ??
+      this.parseCount(this.getDetails().jsonLd?.numberOfBedrooms)
+    );
+  }
+
+  protected extractBathrooms(): number | null {
+    const bathrooms =
+      this.parseCount(this.findValue(/salles? de bains?$|^bathrooms?$/)) ??
+      this.parseCount(this.getDetails().jsonLd?.numberOfBathroomsTotal);
+    const powderRooms = this.parseCount(this.findValue(/salles? d'eau$|^powder rooms?$/));
+
+    if (bathrooms == null && powderRooms == null) return null;
+    return (bathrooms ?? 0) + (powderRooms ?? 0) * 0.5;
+  }
+
+  protected extractSqft(): number | null {
+    return this.parseArea(
+      this.findValue(/aire habitable|superficie habitable|superficie du batiment|aire de plancher|living area|floor area/)
+    );
+  }
+
+  protected extractLotSize(): number | null {
+    return this.parseArea(
+      this.findValue(/(superficie|dimensions?|aire) du terrain|^lot (size|dimensions|area)/)
+    );
+  }
+
+  protected extractYearBuilt(): number | null {
+    const yearText =
+      this.findValue(/annee de construction|construit en|year built/) ??
+      this.getDetails().jsonLd?.yearBuilt;
+
+    const match = String(yearText ?? "").match(/(\d{4})/);
+    return match ? parseInt(match[1]) : null;
+  }
+
+  protected extractPropertyType(): PropertyType | null {
+    const typeText = this.findValue(/(type|genre|style) de propriete|property type|building type/);
+    if (typeText) {
+      const type = this.inferPropertyType(typeText);
+      if (type) return type;
+    }
+
+    return this.inferPropertyType(this.extractTitle());
+  }
+
+  // Rows describing individual units, from the first section that lists them
+  protected getUnitRows(): DetailRow[] {
+    const unitRows = this.getDetails().rows.filter(
+      (row) => UNIT_ROW_LABEL.test(row.label) && !/total/.test(row.label)
+    );
+    if (unitRows.length === 0) return [];
+
+    const section = unitRows[0].section;
+    return unitRows.filter((row) => row.section === section);
+  }
+
+  protected extractUnits(): number | null {
+    const unitsText = this.findValue(
+      /^(nombre (de |d')?)?(logements|unites)( residentiel(le)?s)?$|^(number of )?(residential )?units$/
+    );
+    const units = this.parseCount(unitsText);
+    if (units) return units;
+
+    const unitRows = this.getUnitRows();
+    if (unitRows.length > 1) return unitRows.length;
+
+    switch (this.extractPropertyType()) {
+      case "duplex":
+        return 2;
+      case "triplex":
+        return 3;
+      case "quadruplex":
+        return 4;
+      case "quintuplex":
+        return 5;
+      default:
+        return null;
+    }
+  }
+
+  protected extractUnitDetails(): string | null {
+    // Some listings spell out the mix (e.g. "2 x 4½, 1 x 5½")
+    const mix = this.findValue(/repartition des logements|typologie|unit mix|unites residentielles|residential units/);
+    if (mix && buildUnitSchedule(mix).length > 0) {
+      return formatUnitSchedule(buildUnitSchedule(mix));
+    }
+
+    // Otherwise count the room sizes of each unit row
+    const sizes = this.getUnitRows()
+      .map((row) => row.text.match(ROOMS_PATTERN))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map((match) => `${match[1]}½`);
+
+    return sizes.length > 0 ? formatUnitSchedule(buildUnitSchedule(sizes.join(", "))) || null : null;
+  }
+
+  protected extractFeatures(): string[] {
+    const $ = this.$!;
+    const features: string[] = [];
+
+    $("li").each((_, el) => {
+      if (!/caracteristiques|inclusions|exclusions|commodites|atouts|features|amenities/.test(this.sectionOf($(el)))) {
+        return;
+      }
+      const text = this.cleanText($(el).text());
+      if (text && text.length < 120) {
+        features.push(text);
+      }
+    });
+
+    return [...new Set(features)];
+  }
+
+  protected extractPotentialRevenue(): number | null {
+    const total =
+      this.findAmount(/^total|revenus? (annuels? )?(bruts?|potentiels?)|revenus? annuels?|gross (annual )?(revenue|income)|potential (gross )?(revenue|income)/, /revenu|income/) ??
+      this.findAmount(/revenus? (annuels? )?(bruts?|potentiels?)|^revenus? annuels?$|potential (gross )?(revenue|income)/);
+    if (total) return total;
+
+    // Sum the rents of the units; rents under $10k can only be monthly
+    let rents = 0;
+    for (const row of this.getUnitRows()) {
+      const amount = AMOUNT_PATTERN.test(row.value) ? this.parseAmount(row.value) : null;
+      if (amount == null) continue;
+      const monthly = amount < 10000 || MONTHLY_PATTERN.test(row.text) || MONTHLY_PATTERN.test(row.section);
+      rents += monthly ? amount * 12 : amount;
+    }
+
+    return rents > 0 ? rents : null;
+  }
+
+  protected extractAssessmentLand(): number | null {
+    return this.findAmount(/^terrain|^lot$|^land$/, /evaluation|assessment/);
+  }
+
+  protected extractAssessmentBuilding(): number | null {
+    return this.findAmount(/^batiment|^building$/, /evaluation|assessment/);
+  }
+
+  protected extractMunicipalAssessment(): number | null {
+    const total =
+      this.findAmount(/^total|evaluation (municipale )?totale?$/, /evaluation|assessment/) ??
+      this.findAmount(/^evaluation municipale|^municipal assessment/);
+    if (total) return total;
+
+    const land = this.extractAssessmentLand();
+    const building = this.extractAssessmentBuilding();
+    return land != null || building != null ? (land ?? 0) + (building ?? 0) : null;
+  }
+
+  protected extractTaxesMunicipal(): number | null {
+    return this.findAmount(/^(taxes? )?municipales?( \(?\d{4}\)?)?$|^municipal( taxes?)?( \(?\d{4}\)?)?$/);
+  }
+
+  protected extractTaxesSchool(): number | null {
+    return this.findAmount(/^(taxes? )?scolaires?( \(?\d{4}\)?)?$|^school( taxes?)?( \(?\d{4}\)?)?$/);
+  }
+
+  protected extractTaxes(): number | null {
+    const total =
+      this.findAmount(/^total/, /^taxes?/) ??
+      this.findAmount(/^taxes?( annuelles| totales)?$|^total des taxes$|^(annual )?(property )?taxes$/);
+    if (total) return total;
+
+    const municipal = this.extractTaxesMunicipal();
+    const school = this.extractTaxesSchool();
+    return municipal != null || school != null ? (municipal ?? 0) + (school ?? 0) : null;
+  }
+
+  protected extractExpenses(): number | null {
+    // Taxes are stored separately, so they are left out of the expense total
+    const expenseRows = this.getDetails().rows.filter((row) =>
+      /depenses|frais|couts|expenses/.test(row.section)
+    );
+    const isTaxRow = (row: DetailRow) => /taxe|municipal|scolaire|school/.test(row.label);
+
+    let total = 0;
+    let itemized = false;
+    for (const row of expenseRows) {
+      if (isTaxRow(row) || /total|revenu|income|loyer|rent/.test(row.label)) continue;
+      const amount = this.parseAnnualAmount(row);
+      if (amount == null) continue;
+      total += amount;
+      itemized = true;
+    }
+    if (itemized) return total;
+
+    const totalRow = expenseRows.find((row) => /total/.test(row.label));
+    const listedTotal = totalRow ? this.parseAnnualAmount(totalRow) : null;
+    if (listedTotal == null) return null;
+
+    const listedTaxes = expenseRows
+      .filter(isTaxRow)
+      .reduce((sum, row) => sum + (this.parseAnnualAmount(row) ?? 0), 0);
+    return listedTotal - listedTaxes > 0 ? listedTotal - listedTaxes : null;
+  }
+
+  protected extractExpenseElectricity(): number | null {
+    return this.findAmount(/electricite|hydro|electricity/);
+  }
+
+  protected extractExpenseHeating(): number | null {
+    return this.findAmount(/chauffage|mazout|huile|gaz|heating|fuel/);
+  }
+}
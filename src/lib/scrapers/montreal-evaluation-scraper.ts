@@ -1,6 +1,9 @@
 import { firefox, Browser, Page } from "playwright";
+import * as cheerio from "cheerio";
+import type { CheerioAPI } from "cheerio";
 import type { ScrapedMontrealData, TaxAccountPDF, MultipleResultsInfo } from "@/types/montreal-evaluation";
 import { cleanStreetName } from "@/lib/utils/street-name-cleaner";
+import { httpClient } from "@/lib/http/http-client";
 
 // Scraping options interface
 export interface ScrapeOptions {
@@ -12,9 +15,14 @@ export interface ScrapeOptions {
   };
 }
 
+type Selection = ReturnType<CheerioAPI>;
+
 export class MontrealEvaluationScraper {
   private browser: Browser | null = null;
 
+  // Result page of the last scrape, kept so it can be saved as a fixture
+  lastResultHtml: string | null = null;
+
   private splitMatricule(matricule: string): string[] {
     const parts = matricule.split("-");
     if (parts.length !== 6) {
@@ -67,6 +75,7 @@ export class MontrealEvaluationScraper {
       this.browser = await firefox.launch({
         headless: false,
         slowMo: 500,
+        proxy: httpClient.nextBrowserProxy(),
       });
 
       const page = await this.browser.newPage();
@@ -137,18 +146,7 @@ export class MontrealEvaluationScraper {
       await page.waitForSelector('#identification', { timeout: 10000 });
       await page.waitForTimeout(2000);
 
-      const scrapedData: ScrapedMontrealData = {
-        matricule,
-        identification: await this.scrapeIdentification(page),
-        owner: await this.scrapeOwner(page),
-        land: await this.scrapeLand(page),
-        building: await this.scrapeBuilding(page),
-        valuation: await this.scrapeValuation(page),
-        fiscal: await this.scrapeFiscal(page),
-        tax_pdfs: [],
-        metadata: await this.scrapeMetadata(page),
-        searchMethod: 'matricule',
-      };
+      const scrapedData = await this.extractResult(page, matricule, 'matricule');
 
       const randomSleep2 = () => {
         return Math.floor(Math.random() * (20000 - 10000 + 1)) + 10000;
@@ -163,31 +161,82 @@ export class MontrealEvaluationScraper {
     }
   }
 
-  private async scrapeIdentification(page: Page) {
-    const getText = async (label: string, fallbackLabels: string[] = []): Promise<string> => {
-      const items = await page.locator('#identification ~ ul li').all();
-      const labelsToTry = [label, ...fallbackLabels];
-
-      for (const labelToTry of labelsToTry) {
-        for (const item of items) {
-          const text = await item.textContent();
-          if (text && text.includes(labelToTry)) {
-            // First try to find separate divs (old structure)
-            const divs = await item.locator('div').all();
-            for (const div of divs) {
-              const divText = await div.textContent();
-              if (divText && divText.trim() && divText !== labelToTry && !divText.includes(labelToTry)) {
-                return divText.trim();
-              }
-            }
-
-            // Fallback: label and value are concatenated, just remove the label
-            if (text.startsWith(labelToTry)) {
-              const value = text.substring(labelToTry.length).trim();
-              if (value) {
-                return value;
-              }
-            }
+  /**
+   * Extract an evaluation from a result page's HTML (a live page or a saved one)
+   */
+  parseHtml(
+    html: string,
+    matricule: string,
+    searchMethod: ScrapedMontrealData['searchMethod'] = 'matricule'
+  ): ScrapedMontrealData {
+    const $ = cheerio.load(html);
+
+    return {
+      matricule,
+      identification: this.scrapeIdentification($),
+      owner: this.scrapeOwner($),
+      land: this.scrapeLand($),
+      building: this.scrapeBuilding($),
+      valuation: this.scrapeValuation($),
+      fiscal: this.scrapeFiscal($),
+      tax_pdfs: [],
+      metadata: this.scrapeMetadata($),
+      searchMethod,
+    };
+  }
+
+  /**
+   * Extract every section of a loaded result page
+   */
+  private async extractResult(
+    page: Page,
+    matricule: string,
+    searchMethod: ScrapedMontrealData['searchMethod']
+  ): Promise<ScrapedMontrealData> {
+    this.lastResultHtml = await page.content();
+    return this.parseHtml(this.lastResultHtml, matricule, searchMethod);
+  }
+
+  // Value of the first <li> mentioning the label: its first <div> that isn't the label
+  private getItemValue($: CheerioAPI, items: Selection, label: string): string {
+    for (const item of items.toArray()) {
+      const text = $(item).text();
+      if (text.includes(label)) {
+        for (const div of $(item).find('div').toArray()) {
+          const divText = $(div).text();
+          if (divText.trim() && divText !== label && !divText.includes(label)) {
+            return divText.trim();
+          }
+        }
+      }
+    }
+    return "";
+  }
+
+  // The <li> items of the list that follows an <h3> heading
+  private getSectionItems($: CheerioAPI, heading: string): Selection | null {
+    const h3 = $('h3').filter((_, el) => $(el).text().includes(heading)).first();
+    const list = h3.nextAll('ul').first();
+    return list.length > 0 ? list.find('li') : null;
+  }
+
+  private scrapeIdentification($: CheerioAPI) {
+    const items = $('#identification ~ ul li');
+
+    const getText = (label: string, fallbackLabels: string[] = []): string => {
+      for (const labelToTry of [label, ...fallbackLabels]) {
+        for (const item of items.toArray()) {
+          const text = $(item).text();
+          if (!text.includes(labelToTry)) continue;
+
+          // First try to find separate divs (old structure)
+          const value = this.getItemValue($, $(item), labelToTry);
+          if (value) return value;
+
+          // Fallback: label and value are concatenated, just remove the label
+          if (text.startsWith(labelToTry)) {
+            const concatenated = text.substring(labelToTry.length).trim();
+            if (concatenated) return concatenated;
           }
         }
       }
@@ -195,19 +244,18 @@ export class MontrealEvaluationScraper {
     };
 
     // Log all available fields for debugging
-    const allItems = await page.locator('#identification ~ ul li').all();
     console.log('\n=== Available Identification Fields ===');
-    console.log(`Total items found: ${allItems.length}`);
-    for (const item of allItems) {
-      const text = await item.textContent();
+    console.log(`Total items found: ${items.length}`);
+    items.each((_, item) => {
+      const text = $(item).text();
       if (text) {
         console.log(`Field: ${text.substring(0, 150)}`);
       }
-    }
+    });
     console.log('=====================================\n');
 
     // Try multiple variations for arrondissement
-    const arrondissement = await getText("Arrondissement", [
+    const arrondissement = getText("Arrondissement", [
       "Arrondissement ou ville liée",
       "Arrondissement municipal",
       "Ville liée"
@@ -215,99 +263,45 @@ export class MontrealEvaluationScraper {
     console.log(`Extracted Arrondissement: "${arrondissement}"`);
 
     return {
-      address: await getText("Adresse"),
+      address: getText("Adresse"),
       arrondissement: arrondissement,
-      lot_exclusif: await getText("Numéro de lot", ["Numéro de lot exclusif"]),
+      lot_exclusif: getText("Numéro de lot", ["Numéro de lot exclusif"]),
       lot_commun: "",
-      usage_predominant: await getText("Utilisation prédominante"),
-      numero_unite_voisinage: await getText("Numéro d'unité de voisinage"),
-      numero_compte_foncier: await getText("Numéro de compte foncier"),
+      usage_predominant: getText("Utilisation prédominante"),
+      numero_unite_voisinage: getText("Numéro d'unité de voisinage"),
+      numero_compte_foncier: getText("Numéro de compte foncier"),
     };
   }
 
-  private async scrapeOwner(page: Page) {
-    const getText = async (label: string): Promise<string> => {
-      const items = await page.locator('#proprietaires ~ ul li').all();
-      for (const item of items) {
-        const text = await item.textContent();
-        if (text && text.includes(label)) {
-          const divs = await item.locator('div').all();
-          for (const div of divs) {
-            const divText = await div.textContent();
-            if (divText && divText.trim() && divText !== label && !divText.includes(label)) {
-              return divText.trim();
-            }
-          }
-        }
-      }
-      return "";
-    };
+  private scrapeOwner($: CheerioAPI) {
+    const items = $('#proprietaires ~ ul li');
+    const getText = (label: string) => this.getItemValue($, items, label);
 
     return {
-      name: await getText("Nom"),
+      name: getText("Nom"),
       status: "",
-      postal_address: await getText("Adresse postale"),
-      registration_date: await getText("Date d'inscription au rôle"),
+      postal_address: getText("Adresse postale"),
+      registration_date: getText("Date d'inscription au rôle"),
       special_conditions: "",
     };
   }
 
-  private async scrapeLand(page: Page) {
-    const h3s = await page.locator('h3').all();
-    let terrainUl = null;
-
-    for (const h3 of h3s) {
-      const text = await h3.textContent();
-      if (text && text.includes("Caractéristiques du terrain")) {
-        const nextEl = page.locator('h3').filter({ hasText: "Caractéristiques du terrain" }).locator('xpath=following-sibling::ul[1]');
-        if (await nextEl.count() > 0) {
-          terrainUl = nextEl;
-          break;
-        }
-      }
-    }
+  private scrapeLand($: CheerioAPI) {
+    const items = this.getSectionItems($, "Caractéristiques du terrain");
+    if (!items) return { frontage: "", area: "" };
 
-    if (!terrainUl) return { frontage: "", area: "" };
-
-    const getText = async (label: string): Promise<string> => {
-      const items = await terrainUl.locator('li').all();
-      for (const item of items) {
-        const text = await item.textContent();
-        if (text && text.includes(label)) {
-          const divs = await item.locator('div').all();
-          for (const div of divs) {
-            const divText = await div.textContent();
-            if (divText && divText.trim() && divText !== label && !divText.includes(label)) {
-              return divText.trim();
-            }
-          }
-        }
-      }
-      return "";
-    };
+    const getText = (label: string) => this.getItemValue($, items, label);
 
     return {
-      frontage: await getText("Mesure frontale"),
-      area: await getText("Superficie"),
+      frontage: getText("Mesure frontale"),
+      area: getText("Superficie"),
     };
   }
 
-  private async scrapeBuilding(page: Page) {
-    const h3s = await page.locator('h3').all();
-    let buildingUl = null;
-
-    for (const h3 of h3s) {
-      const text = await h3.textContent();
-      if (text && text.includes("Caractéristiques du bâtiment")) {
-        const nextEl = page.locator('h3').filter({ hasText: "Caractéristiques du bâtiment" }).locator('xpath=following-sibling::ul[1]');
-        if (await nextEl.count() > 0) {
-          buildingUl = nextEl;
-          break;
-        }
-      }
-    }
+  private scrapeBuilding($: CheerioAPI) {
+    const items = this.getSectionItems($, "Caractéristiques du bâtiment");
 
-    if (!buildingUl) return {
+    if (!items) return {
       floors: "",
       year: "",
       floor_area: "",
@@ -318,130 +312,60 @@ export class MontrealEvaluationScraper {
       rental_rooms: "",
     };
 
-    const getText = async (label: string): Promise<string> => {
-      const items = await buildingUl.locator('li').all();
-      for (const item of items) {
-        const text = await item.textContent();
-        if (text && text.includes(label)) {
-          const divs = await item.locator('div').all();
-          for (const div of divs) {
-            const divText = await div.textContent();
-            if (divText && divText.trim() && divText !== label && !divText.includes(label)) {
-              return divText.trim();
-            }
-          }
-        }
-      }
-      return "";
-    };
+    const getText = (label: string) => this.getItemValue($, items, label);
 
     return {
-      floors: await getText("Nombre d'étages"),
-      year: await getText("Année de construction"),
-      floor_area: await getText("Aire d'étages"),
+      floors: getText("Nombre d'étages"),
+      year: getText("Année de construction"),
+      floor_area: getText("Aire d'étages"),
       construction_type: "",
-      physical_link: await getText("Lien physique"),
-      units: await getText("Nombre de logements"),
-      non_residential_spaces: await getText("Nombre de locaux non résidentiels"),
-      rental_rooms: await getText("Nombre de chambres locatives"),
+      physical_link: getText("Lien physique"),
+      units: getText("Nombre de logements"),
+      non_residential_spaces: getText("Nombre de locaux non résidentiels"),
+      rental_rooms: getText("Nombre de chambres locatives"),
     };
   }
 
-  private async scrapeValuation(page: Page) {
-    const h3s = await page.locator('h3').all();
-    let currentUl = null;
-    let previousUl = null;
-
-    for (const h3 of h3s) {
-      const text = await h3.textContent();
-      if (text && text.includes("Rôle courant")) {
-        const nextEl = page.locator('h3').filter({ hasText: "Rôle courant" }).locator('xpath=following-sibling::ul[1]');
-        if (await nextEl.count() > 0) {
-          currentUl = nextEl;
-        }
-      }
-      if (text && text.includes("Rôle antérieur")) {
-        const nextEl = page.locator('h3').filter({ hasText: "Rôle antérieur" }).locator('xpath=following-sibling::ul[1]');
-        if (await nextEl.count() > 0) {
-          previousUl = nextEl;
-        }
-      }
-    }
+  private scrapeValuation($: CheerioAPI) {
+    const currentItems = this.getSectionItems($, "Rôle courant");
+    const previousItems = this.getSectionItems($, "Rôle antérieur");
 
-    const getText = async (ul: any, label: string): Promise<string> => {
-      if (!ul) return "";
-      const items = await ul.locator('li').all();
-      for (const item of items) {
-        const text = await item.textContent();
-        if (text && text.includes(label)) {
-          const divs = await item.locator('div').all();
-          for (const div of divs) {
-            const divText = await div.textContent();
-            if (divText && divText.trim() && divText !== label && !divText.includes(label)) {
-              return divText.trim();
-            }
-          }
-        }
-      }
-      return "";
-    };
+    const getText = (items: Selection | null, label: string) =>
+      items ? this.getItemValue($, items, label) : "";
 
     return {
       current: {
-        market_date: await getText(currentUl, "Date de référence au marché"),
-        land_value: await getText(currentUl, "Valeur du terrain"),
-        building_value: await getText(currentUl, "Valeur du bâtiment"),
-        total_value: await getText(currentUl, "Valeur de l'immeuble"),
+        market_date: getText(currentItems, "Date de référence au marché"),
+        land_value: getText(currentItems, "Valeur du terrain"),
+        building_value: getText(currentItems, "Valeur du bâtiment"),
+        total_value: getText(currentItems, "Valeur de l'immeuble"),
       },
       previous: {
-        market_date: await getText(previousUl, "Date de référence au marché"),
-        total_value: await getText(previousUl, "Valeur de l'immeuble au rôle antérieur"),
+        market_date: getText(previousItems, "Date de référence au marché"),
+        total_value: getText(previousItems, "Valeur de l'immeuble au rôle antérieur"),
       },
     };
   }
 
-  private async scrapeFiscal(page: Page) {
-    const getText = async (label: string): Promise<string> => {
-      const items = await page.locator('#repartition ~ ul li').all();
-      for (const item of items) {
-        const text = await item.textContent();
-        if (text && text.includes(label)) {
-          const divs = await item.locator('div').all();
-          for (const div of divs) {
-            const divText = await div.textContent();
-            if (divText && divText.trim() && divText !== label && !divText.includes(label)) {
-              return divText.trim();
-            }
-          }
-        }
-      }
-      return "";
-    };
-
-    const table = page.locator('table').first();
-    const caption = await table.locator('caption').textContent().catch(() => "");
+  private scrapeFiscal($: CheerioAPI) {
+    const items = $('#repartition ~ ul li');
+    const caption = $('table').first().find('caption').text();
 
     return {
-      tax_category: caption ? caption.trim() : "",
-      taxable_value: await getText("Valeur imposable"),
-      non_taxable_value: await getText("Valeur non imposable"),
+      tax_category: caption.trim(),
+      taxable_value: this.getItemValue($, items, "Valeur imposable"),
+      non_taxable_value: this.getItemValue($, items, "Valeur non imposable"),
     };
   }
 
-  private async scrapeMetadata(page: Page) {
-    const strongs = await page.locator('strong').all();
-    let roll_period = "";
-
-    for (const strong of strongs) {
-      const text = await strong.textContent();
-      if (text && text.match(/\d{4}-\d{4}-\d{4}/)) {
-        roll_period = text.trim();
-        break;
-      }
-    }
+  private scrapeMetadata($: CheerioAPI) {
+    const rollPeriod = $('strong')
+      .toArray()
+      .map((strong) => $(strong).text())
+      .find((text) => /\d{4}-\d{4}-\d{4}/.test(text));
 
     return {
-      roll_period,
+      roll_period: rollPeriod?.trim() ?? "",
       data_date: "",
     };
   }
@@ -458,6 +382,7 @@ export class MontrealEvaluationScraper {
       this.browser = await firefox.launch({
         headless: false,
         slowMo: 500,
+        proxy: httpClient.nextBrowserProxy(),
       });
 
       const page = await this.browser.newPage();
@@ -543,20 +468,7 @@ export class MontrealEvaluationScraper {
       await page.waitForSelector('#identification', { timeout: 10000 });
       await page.waitForTimeout(2000);
 
-      
-
-      const scrapedData: ScrapedMontrealData = {
-        matricule: matriculeToUse,
-        identification: await this.scrapeIdentification(page),
-        owner: await this.scrapeOwner(page),
-        land: await this.scrapeLand(page),
-        building: await this.scrapeBuilding(page),
-        valuation: await this.scrapeValuation(page),
-        fiscal: await this.scrapeFiscal(page),
-        tax_pdfs: [],
-        metadata: await this.scrapeMetadata(page),
-        searchMethod: 'address',
-      };
+      const scrapedData = await this.extractResult(page, matriculeToUse, 'address');
 
       return scrapedData;
     } finally {
@@ -5,6 +5,7 @@ import type {
   ScrapedShareholderData,
   ScrapedAdministratorData,
 } from "@/types/company-registry";
+import { httpClient } from "@/lib/http/http-client";
 
 const QUEBEC_REGISTRY_URL =
   "https://www.registreentreprises.gouv.qc.ca/REQNA/GR/GR03/GR03A71.RechercheRegistre.MVC/GR03A71";
@@ -42,6 +43,7 @@ export class QuebecCompanyScraper {
         this.browser = await chromium.launch({
           headless: false,
           slowMo: 500,
+          proxy: httpClient.nextBrowserProxy(),
         });
       }
 
@@ -0,0 +1,398 @@
+import { BaseScraper } from "./base-scraper";
+import type { ScrapedProperty, SourceName, PropertyType } from "@/types/property";
+
+// Subset of the listing payload realtor.ca serves to its listing pages
+// (also returned by api2.realtor.ca/Listing.svc/PropertyDetails)
+interface RealtorListing {
+  Id?: string;
+  MlsNumber?: string;
+  PublicRemarks?: string;
+  Building?: {
+    Type?: string;
+    StoriesTotal?: string;
+    Bedrooms?: string;
+    BathroomTotal?: string;
+    HalfBathTotal?: string;
+    SizeInterior?: string;
+    ConstructedDate?: string;
+    UnitTotal?: string;
+    Ammenities?: string;
+    HeatingType?: string;
+  };
+  Land?: {
+    SizeTotal?: string;
+    SizeTotalText?: string;
+    SizeFrontage?: string;
+  };
+  Property?: {
+    Type?: string;
+    Price?: string;
+    PriceUnformattedValue?: string;
+    TaxAmount?: string;
+    OwnershipType?: string;
+    AmmenitiesNearBy?: string;
+    Address?: { AddressText?: string };
+    Photo?: { HighResPath?: string; MedResPath?: string; LowResPath?: string }[];
+    Parking?: { Name?: string }[];
+  };
+  PostalCode?: string;
+}
+
+// Building types realtor.ca uses that the shared keyword inference doesn't know
+const BUILDING_TYPE_MAP: Record<string, PropertyType> = {
+  fourplex: "quadruplex",
+  "multi-family": "multi_residential",
+  "multi family": "multi_residential",
+  apartment: "condo",
+  "row / townhouse": "single_family",
+  house: "single_family",
+};
+
+/**
+ * Scraper for realtor.ca listings
+ *
+ * Listing pages embed the same JSON payload as the realtor.ca listing API, so
+ * fields are read from that payload when present (a page or a raw API response)
+ * and from the rendered property details section otherwise.
+ */
+export class RealtorScraper extends BaseScraper {
+  readonly sourceName: SourceName = "realtor";
+  readonly urlPattern = /realtor\.ca/i;
+
+  private listing: RealtorListing | null = null;
+
+  parse(html: string, url: string): ScrapedProperty {
+    this.listing = this.extractListingJson(html);
+    return super.parse(html, url);
+  }
+
+  private extractListingJson(content: string): RealtorListing | null {
+    const candidates: string[] = [];
+    const trimmed = content.trim();
+
+    if (trimmed.startsWith("{")) {
+      candidates.push(trimmed);
+    } else {
+      // Embedded state, e.g. <script>window.__listing = {...};</script>
+      for (const match of content.matchAll(/<script[^>]*>([\s\S]*?)<\/script>/gi)) {
+        const script = match[1];
+        if (!script.includes('"MlsNumber"')) continue;
+        const start = script.indexOf("{");
+        const end = script.lastIndexOf("}");
+        if (start !== -1 && end > start) candidates.push(script.slice(start, end + 1));
+      }
+    }
+
+    for (const candidate of candidates) {
+      try {
+        const listing = this.findListing(JSON.parse(candidate));
+        if (listing) return listing;
+      } catch {
+        // Not valid JSON, try the next script
+      }
+    }
+
+    return null;
+  }
+
+  // The listing is the first object carrying an MLS number (search results nest it in Results[])
+  private findListing(value: unknown, depth = 0): RealtorListing | null {
+    if (!value || typeof value !== "object" || depth > 6) return null;
+
+    if (!Array.isArray(value) && "MlsNumber" in value) {
+      return value as RealtorListing;
+    }
+
+    for (const child of Object.values(value)) {
+      const listing = this.findListing(child, depth + 1);
+      if (listing) return listing;
+    }
+
+    return null;
+  }
+
+  // Value of a row in the rendered "Property Details" / "Building" sections
+  private detailValue(labelPattern: RegExp): string | null {
+    const $ = this.$!;
+    let value: string | null = null;
+
+    $(".propertyDetailsSectionContentSubCon").each((_, el) => {
+      const label = $(el).find(".propertyDetailsSectionContentLabel").text();
+      if (labelPattern.test(label)) {
+        value = this.cleanText($(el).find(".propertyDetailsSectionContentValue").text());
+        return false;
+      }
+    });
+
+    return value;
+  }
+
+  // "$849,000" or "$5,123 (2024)" → 849000 / 5123
+  private parseDollars(text: string | null | undefined): number | null {
+    if (!text) return null;
+    const match = text.match(/\$\s*([\d,\s]+(?:\.\d+)?)/) ?? text.match(/([\d,\s]+(?:\.\d+)?)/);
+    if (!match) return null;
+    const amount = parseFloat(match[1].replace(/[,\s]/g, ""));
+    return isNaN(amount) ? null : Math.round(amount);
+  }
+
+  // "1200 sqft", "111.5 m2", "25 x 100 ft", "0.25 ac|under 1/2 acre"
+  private parseArea(text: string | null | undefined): number | null {
+    if (!text) return null;
+    const first = text.split("|")[0];
+
+    const dimMatch = first.match(/([\d.]+)\s*(?:ft)?\s*x\s*([\d.]+)/i);
+    const area = dimMatch
+      ? parseFloat(dimMatch[1]) * parseFloat(dimMatch[2])
+      : parseFloat(first.replace(/,/g, "").match(/[\d.]+/)?.[0] ?? "");
+    if (isNaN(area)) return null;
+
+    if (/\bac(re)?s?\b/i.test(first)) return Math.round(area * 43560);
+    if (/\bm2\b|m²|\bm\b/i.test(first)) return Math.round(area * 10.764); // Convert m² to sqft
+    if (/hectare|\bha\b/i.test(first)) return Math.round(area * 107639);
+    return Math.round(area);
+  }
+
+  // "1234 Rue Beaubien E|Montréal (Rosemont/La Petite-Patrie), Quebec H2G1L3"
+  private getAddressParts(): { street: string | null; locality: string | null } {
+    const $ = this.$!;
+    const addressText =
+      this.listing?.Property?.Address?.AddressText ||
+      $("#listingAddress").html()?.replace(/<br\s*\/?>/gi, "|").replace(/<[^>]+>/g, "") ||
+      "";
+
+    const [street, locality] = addressText.split("|");
+    return { street: this.cleanText(street), locality: this.cleanText(locality) };
+  }
+
+  protected extractTitle(): string {
+    const $ = this.$!;
+
+    const street = this.getAddressParts().street;
+    if (street) {
+      const buildingType = this.listing?.Building?.Type;
+      return buildingType ? `${buildingType} - ${street}` : street;
+    }
+
+    const ogTitle = $('meta[property="og:title"]').attr("content") || $("title").text();
+    return this.cleanText(ogTitle?.replace(/\s*\|\s*REALTOR\.ca.*$/i, "")) || "Untitled Property";
+  }
+
+  protected extractAddress(): string | null {
+    return this.getAddressParts().street;
+  }
+
+  protected extractCity(): string | null {
+    const locality = this.getAddressParts().locality;
+    if (!locality) return null;
+
+    // "Montréal (Rosemont/La Petite-Patrie), Quebec H2G1L3" → "Montréal"
+    return this.cleanText(locality.split(/[,(]/)[0]);
+  }
+
+  protected extractPostalCode(): string | null {
+    const text = `${this.listing?.PostalCode ?? ""} ${this.getAddressParts().locality ?? ""}`;
+    const match = text.match(/\b([A-Z]\d[A-Z])\s?(\d[A-Z]\d)\b/i);
+    return match ? `${match[1]} ${match[2]}`.toUpperCase() : null;
+  }
+
+  protected extractPrice(): number | null {
+    const $ = this.$!;
+
+    return (
+      this.parseDollars(this.listing?.Property?.PriceUnformattedValue) ??
+      this.parseDollars(this.listing?.Property?.Price) ??
+      this.parseDollars($("#listingPriceValue").text() || $("#listingPrice").text())
+    );
+  }
+
+  protected extractBedrooms(): number | null {
+    const $ = this.$!;
+    const text = this.listing?.Building?.Bedrooms ?? $("#BedroomIcon .listingIconNum").text();
+
+    // "3 + 1" is above grade + below grade
+    const counts = (text.match(/\d+/g) ?? []).map((n) => parseInt(n));
+    return counts.length > 0 ? counts.reduce((sum, n) => sum + n, 0) : null;
+  }
+
+  protected extractBathrooms(): number | null {
+    const $ = this.$!;
+
+    const full = parseInt(this.listing?.Building?.BathroomTotal ?? $("#BathroomIcon .listingIconNum").text());
+    const half = parseInt(this.listing?.Building?.HalfBathTotal ?? "");
+    if (isNaN(full) && isNaN(half)) return null;
+    return (isNaN(full) ? 0 : full) + (isNaN(half) ? 0 : half * 0.5);
+  }
+
+  protected extractSqft(): number | null {
+    const $ = this.$!;
+    return this.parseArea(
+      this.listing?.Building?.SizeInterior ??
+        (this.detailValue(/Interior Floor Space|Square Footage/i) || $("#SquareFootageIcon .listingIconNum").text())
+    );
+  }
+
+  protected extractLotSize(): number | null {
+    return this.parseArea(
+      this.listing?.Land?.SizeTotal ??
+        this.listing?.Land?.SizeTotalText ??
+        this.detailValue(/Land Size/i)
+    );
+  }
+
+  protected extractYearBuilt(): number | null {
+    const text = this.listing?.Building?.ConstructedDate ?? this.detailValue(/Built in/i);
+    const match = text?.match(/(\d{4})/);
+    return match ? parseInt(match[1]) : null;
+  }
+
+  private getBuildingType(): string | null {
+    return this.listing?.Building?.Type ?? this.detailValue(/Building Type/i);
+  }
+
+  protected extractPropertyType(): PropertyType | null {
+    const buildingType = this.getBuildingType()?.toLowerCase() ?? "";
+    if (BUILDING_TYPE_MAP[buildingType]) return BUILDING_TYPE_MAP[buildingType];
+
+    const inferred = this.inferPropertyType(buildingType);
+    if (inferred) return inferred;
+
+    const propertyType = (this.listing?.Property?.Type ?? this.detailValue(/Property Type/i) ?? "").toLowerCase();
+    if (BUILDING_TYPE_MAP[propertyType]) return BUILDING_TYPE_MAP[propertyType];
+
+    const ownership = this.listing?.Property?.OwnershipType ?? this.detailValue(/Title|Ownership/i) ?? "";
+    if (/condominium|strata|divided co-ownership/i.test(ownership)) return "condo";
+
+    return this.inferPropertyType(`${propertyType} ${this.extractTitle()}`);
+  }
+
+  protected extractUnits(): number | null {
+    const units = parseInt(this.listing?.Building?.UnitTotal ?? this.detailValue(/Total Units|Number of Units/i) ?? "");
+    if (!isNaN(units)) return units;
+
+    switch (this.extractPropertyType()) {
+      case "duplex":
+        return 2;
+      case "triplex":
+        return 3;
+      case "quadruplex":
+        return 4;
+      case "quintuplex":
+        return 5;
+      default:
+        return null;
+    }
+  }
+
+  protected extractUnitDetails(): string | null {
+    // Realtor.ca doesn't publish a unit breakdown
+    return null;
+  }
+
+  protected extractMlsNumber(): string | null {
+    const $ = this.$!;
+    return this.cleanText(this.listing?.MlsNumber ?? $("#MLNumberVal").text());
+  }
+
+  protected extractDescription(): string | null {
+    const $ = this.$!;
+    return this.cleanText(
+      this.listing?.PublicRemarks ??
+        ($("#propertyDescriptionCon").text() || $('meta[property="og:description"]').attr("content"))
+    );
+  }
+
+  protected extractFeatures(): string[] {
+    const features: string[] = [];
+
+    // Storeys and building type have no dedicated column, so they are kept as features
+    const buildingType = this.getBuildingType();
+    if (buildingType) features.push(`Building type: ${buildingType}`);
+
+    const storeys = this.listing?.Building?.StoriesTotal ?? this.detailValue(/Storeys/i);
+    if (storeys) features.push(`Storeys: ${storeys}`);
+
+    const heating = this.listing?.Building?.HeatingType ?? this.detailValue(/Heating Type/i);
+    if (heating) features.push(`Heating: ${heating}`);
+
+    for (const parking of this.listing?.Property?.Parking ?? []) {
+      if (parking.Name) features.push(`Parking: ${parking.Name}`);
+    }
+
+    const amenities = [
+      this.listing?.Building?.Ammenities ?? this.detailValue(/^Amenities$/i),
+      this.listing?.Property?.AmmenitiesNearBy ?? this.detailValue(/Amenities Nearby/i),
+    ];
+    for (const list of amenities) {
+      for (const amenity of list?.split(",") ?? []) {
+        const text = this.cleanText(amenity);
+        if (text) features.push(text);
+      }
+    }
+
+    return [...new Set(features)];
+  }
+
+  protected extractImages(): string[] {
+    const $ = this.$!;
+    const images: string[] = [];
+
+    for (const photo of this.listing?.Property?.Photo ?? []) {
+      const src = photo.HighResPath || photo.MedResPath || photo.LowResPath;
+      if (src) images.push(src);
+    }
+
+    if (images.length === 0) {
+      $("#heroImage, .gridViewListingImage img, [class*='listingImage'] img").each((_, el) => {
+        const src = $(el).attr("src") || $(el).attr("data-src");
+        if (src?.startsWith("http")) images.push(src);
+      });
+
+      const ogImage = $('meta[property="og:image"]').attr("content");
+      if (ogImage) images.unshift(ogImage);
+    }
+
+    return [...new Set(images)];
+  }
+
+  // Realtor.ca doesn't publish revenue, assessment or expense breakdowns
+  protected extractPotentialRevenue(): number | null {
+    return null;
+  }
+
+  protected extractMunicipalAssessment(): number | null {
+    return null;
+  }
+
+  protected extractAssessmentLand(): number | null {
+    return null;
+  }
+
+  protected extractAssessmentBuilding(): number | null {
+    return null;
+  }
+
+  protected extractTaxes(): number | null {
+    return this.parseDollars(this.listing?.Property?.TaxAmount ?? this.detailValue(/Annual Property Taxes|Property Tax/i));
+  }
+
+  protected extractTaxesMunicipal(): number | null {
+    return null;
+  }
+
+  protected extractTaxesSchool(): number | null {
+    return null;
+  }
+
+  protected extractExpenses(): number | null {
+    return null;
+  }
+
+  protected extractExpenseElectricity(): number | null {
+    return null;
+  }
+
+  protected extractExpenseHeating(): number | null {
+    return null;
+  }
+}
@@ -0,0 +1,37 @@
+import { ListingDetailsScraper } from "./listing-details-scraper";
+import type { SourceName } from "@/types/property";
+
+/**
+ * Scraper for RE/MAX listings (remax-quebec.com and remax.ca)
+ *
+ * RE/MAX Québec republishes Centris listings, so plexes carry the same
+ * "Détails financiers" sections (revenus, évaluation municipale, taxes, dépenses).
+ */
+export class RemaxScraper extends ListingDetailsScraper {
+  readonly sourceName: SourceName = "remax";
+  readonly urlPattern = /remax\.ca|remax\.com|remax-quebec\.com/i;
+
+  protected extractPrice(): number | null {
+    const $ = this.$!;
+    return (
+      this.parseAmount($("[class*='property-price'], [class*='listing-price']").first().text()) ??
+      super.extractPrice()
+    );
+  }
+
+  protected extractMlsNumber(): string | null {
+    const number = this.findValue(/^(no |n[o°] |numero )?(centris|mls)( ?®)?( ?(#|no|number))?$/);
+    const numberMatch = number?.match(/(\d{6,})/);
+    if (numberMatch) return numberMatch[1];
+
+    // Detail URLs end with the Centris number, e.g. .../triplex-a-vendre/montreal/12345678
+    const urlMatch = this.url?.match(/[/-](\d{7,9})(?:[/?#]|$)/);
+    return urlMatch ? urlMatch[1] : null;
+  }
+
+  protected extractImages(): string[] {
+    return this.collectImages(
+      "[class*='gallery'] img, [class*='carousel'] img, [class*='slider'] img, [class*='photo'] img"
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { ListingDetailsScraper } from "./listing-details-scraper";
+import type { SourceName } from "@/types/property";
+
+/**
+ * Scraper for Royal LePage listings (royallepage.ca)
+ *
+ * Detail pages list building, land and financial details as "Label: value"
+ * items grouped by section, including revenue and expenses on plexes.
+ */
+export class RoyalLePageScraper extends ListingDetailsScraper {
+  readonly sourceName: SourceName = "royallepage";
+  readonly urlPattern = /royallepage\.(ca|com)/i;
+
+  protected extractPrice(): number | null {
+    const $ = this.$!;
+    return (
+      this.parseAmount($("[class*='property-price'], [class*='price-info']").first().text()) ??
+      super.extractPrice()
+    );
+  }
+
+  protected extractMlsNumber(): string | null {
+    const number = this.findValue(/^(no |n[o°] |numero )?(mls|centris)( ?®)?( ?(#|no|number))?$/);
+    const numberMatch = number?.match(/(\d{6,})/);
+    if (numberMatch) return numberMatch[1];
+
+    // Detail URLs carry the number, e.g. .../1234-rue-beaubien-est/12345678/mls12345678/
+    const urlMatch = this.url?.match(/mls[-_]?(\d{6,})/i);
+    return urlMatch ? urlMatch[1] : null;
+  }
+
+  protected extractImages(): string[] {
+    return this.collectImages(
+      "[class*='gallery'] img, [class*='carousel'] img, [class*='slider'] img, [class*='photo'] img"
+    );
+  }
+}
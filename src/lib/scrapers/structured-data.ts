@@ -0,0 +1,335 @@
+import type { CheerioAPI } from "cheerio";
+import type { ScrapedField, ScrapedProperty } from "@/types/property";
+import type { StructuredSource } from "./field-confidence";
+
+type JsonLdNode = Record<string, unknown>;
+
+export interface StructuredValue<K extends ScrapedField> {
+  value: NonNullable<ScrapedProperty[K]>;
+  source: StructuredSource;
+}
+
+// Listing fields a page publishes as schema.org data or OpenGraph tags
+export type StructuredListing = { [K in ScrapedField]?: StructuredValue<K> };
+
+type StructuredFields = { [K in ScrapedField]?: NonNullable<ScrapedProperty[K]> };
+
+const LISTING_TYPES = ["RealEstateListing", "Product", "Offer", "AggregateOffer"];
+const RESIDENCE_TYPES = [
+  "Residence",
+  "SingleFamilyResidence",
+  "House",
+  "Apartment",
+  "ApartmentComplex",
+  "Accommodation",
+];
+const OFFER_TYPES = ["Offer", "AggregateOffer"];
+
+// Where schema.org nests the residence and its offer inside a listing
+const NESTED_KEYS = ["@graph", "about", "mainEntity", "itemOffered", "offers", "containsPlace"];
+const MAX_DEPTH = 4;
+
+const POSTAL_CODE_PATTERN = /\b([A-Z]\d[A-Z])\s?(\d[A-Z]\d)\b/i;
+// UN/CEFACT code for square metres, or the unit spelled out ("120 m²")
+const SQM_UNITS = /\b(MTK|sqm|m2)\b|m²|m[eè]tres?|meters?/i;
+
+function typesOf(node: JsonLdNode): string[] {
+  const type = node["@type"];
+  const types = Array.isArray(type) ? type : [type];
+  // "https://schema.org/House" → "House"
+  return types.filter((t): t is string => typeof t === "string").map((t) => t.split("/").pop()!);
+}
+
+function hasType(node: JsonLdNode, types: string[]): boolean {
+  return typesOf(node).some((type) => types.includes(type));
+}
+
+function isNode(value: unknown): value is JsonLdNode {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toText(value: unknown): string | null {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  return String(value).trim().replace(/\s+/g, " ") || null;
+}
+
+// 425000, "425000.00", "425 000 $" or "$1,234,567" → number
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return isFinite(value) ? value : null;
+  const text = toText(value);
+  if (!text) return null;
+
+  let cleaned = text.replace(/[\s\u00a0\u202f]/g, "").replace(/[^0-9.,]/g, "");
+  if (cleaned.includes(",") && cleaned.includes(".")) {
+    cleaned = cleaned.replace(/,/g, "");
+  } else if (/,\d{1,2}$/.test(cleaned)) {
+    cleaned = cleaned.replace(",", ".");
+  } else {
+    cleaned = cleaned.replace(/,/g, "");
+  }
+
+  const num = parseFloat(cleaned);
+  return isNaN(num) ? null : num;
+}
+
+function toYear(value: unknown): number | null {
+  const match = toText(value)?.match(/\b(1[6-9]\d{2}|20\d{2})\b/);
+  return match ? parseInt(match[1]) : null;
+}
+
+function toPostalCode(value: unknown): string | null {
+  const match = toText(value)?.match(POSTAL_CODE_PATTERN);
+  return match ? `${match[1]} ${match[2]}`.toUpperCase() : null;
+}
+
+function toSqft(value: number | null, unit: string | null): number | null {
+  if (value == null || value <= 0) return null;
+  return Math.round(unit && SQM_UNITS.test(unit) ? value * 10.764 : value);
+}
+
+function absoluteUrl(src: string | null | undefined, baseUrl: string): string | null {
+  if (!src || /logo|placeholder|avatar|\.svg/i.test(src)) return null;
+  try {
+    return new URL(src, baseUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+// Drop the trailing " | Site name" of page titles
+function cleanTitle(title: string | null): string | null {
+  return title?.replace(/\s+\|\s+[^|]*$/, "").trim() || null;
+}
+
+function collectJsonLdNodes($: CheerioAPI): JsonLdNode[] {
+  const nodes: JsonLdNode[] = [];
+
+  const visit = (value: unknown, depth: number) => {
+    if (depth > MAX_DEPTH) return;
+    if (Array.isArray(value)) {
+      value.forEach((item) => visit(item, depth));
+      return;
+    }
+    if (!isNode(value)) return;
+
+    nodes.push(value);
+    for (const key of NESTED_KEYS) {
+      if (value[key]) visit(value[key], depth + 1);
+    }
+  };
+
+  $('script[type="application/ld+json"]').each((_, el) => {
+    try {
+      visit(JSON.parse($(el).text()), 0);
+    } catch {
+      // Ignore malformed structured data
+    }
+  });
+
+  return nodes;
+}
+
+function fromJsonLd($: CheerioAPI, baseUrl: string): StructuredFields {
+  // Organizations, breadcrumbs and the like are skipped: their address isn't the listing's
+  const nodes = collectJsonLdNodes($).filter((node) =>
+    hasType(node, [...LISTING_TYPES, ...RESIDENCE_TYPES])
+  );
+  if (nodes.length === 0) return {};
+
+  const listing = nodes.find((node) => hasType(node, ["RealEstateListing", "Product"]));
+  const residence = nodes.find((node) => hasType(node, RESIDENCE_TYPES));
+  const offer =
+    nodes.find((node) => hasType(node, OFFER_TYPES)) ??
+    [listing?.offers].flat().find(isNode);
+  const main = [listing, residence].filter(isNode);
+
+  const first = <T>(read: (node: JsonLdNode) => T | null): T | null => {
+    for (const node of main) {
+      const value = read(node);
+      if (value != null) return value;
+    }
+    return null;
+  };
+
+  const fields: StructuredFields = {};
+
+  const title = first((node) => toText(node.name));
+  if (title) fields.title = title;
+
+  const description = first((node) => toText(node.description));
+  if (description) fields.description = description;
+
+  const address = [residence, listing, offer].find((node) => node?.address)?.address;
+  if (isNode(address)) {
+    const street = toText(address.streetAddress);
+    const city = toText(address.addressLocality);
+    const postalCode = toPostalCode(address.postalCode);
+    if (street) fields.address = street;
+    if (city) fields.city = city;
+    if (postalCode) fields.postal_code = postalCode;
+  } else if (toText(address)) {
+    // "1234 Rue Beaubien Est, Montréal, QC H2G 1L3"
+    const street = toText(String(address).split(",")[0]);
+    const postalCode = toPostalCode(address);
+    if (street) fields.address = street;
+    if (postalCode) fields.postal_code = postalCode;
+  }
+
+  const priceSpecification = isNode(offer?.priceSpecification) ? offer.priceSpecification : null;
+  const price = toNumber(offer?.price) ?? toNumber(offer?.lowPrice) ?? toNumber(priceSpecification?.price);
+  if (price) fields.price = price;
+
+  const bedrooms = first((node) => toNumber(node.numberOfBedrooms));
+  if (bedrooms != null) fields.bedrooms = Math.round(bedrooms);
+
+  const bathrooms =
+    first((node) => toNumber(node.numberOfBathroomsTotal)) ??
+    first((node) => {
+      const full = toNumber(node.numberOfFullBathrooms);
+      const partial = toNumber(node.numberOfPartialBathrooms);
+      return full != null || partial != null ? (full ?? 0) + (partial ?? 0) * 0.5 : null;
+    });
+  if (bathrooms != null) fields.bathrooms = bathrooms;
+
+  const sqft = first((node) => {
+    const floorSize = node.floorSize;
+    if (!isNode(floorSize)) return toSqft(toNumber(floorSize), toText(floorSize));
+    return toSqft(toNumber(floorSize.value), toText(floorSize.unitCode) ?? toText(floorSize.unitText));
+  });
+  if (sqft) fields.sqft = sqft;
+
+  const yearBuilt = first((node) => toYear(node.yearBuilt));
+  if (yearBuilt) fields.year_built = yearBuilt;
+
+  const images: string[] = [];
+  for (const node of main) {
+    for (const image of [node.image, node.photo].flat()) {
+      const src = isNode(image) ? toText(image.url) ?? toText(image.contentUrl) : toText(image);
+      const url = absoluteUrl(src, baseUrl);
+      if (url) images.push(url);
+    }
+  }
+  if (images.length > 0) fields.images = [...new Set(images)];
+
+  return fields;
+}
+
+function fromMicrodata($: CheerioAPI, baseUrl: string): StructuredFields {
+  // content for <meta>, src for <img>, datetime for <time>, otherwise the text
+  const valueOf = (selector: string, scope?: ReturnType<CheerioAPI>): string | null => {
+    const el = (scope ? scope.find(selector) : $(selector)).first();
+    if (el.length === 0) return null;
+    return toText(el.attr("content") ?? el.attr("src") ?? el.attr("datetime") ?? el.text());
+  };
+
+  const itemTypes = new RegExp(`schema\\.org/(${[...LISTING_TYPES, ...RESIDENCE_TYPES].join("|")})$`);
+  const scope = $("[itemscope][itemtype]")
+    .filter((_, el) => itemTypes.test($(el).attr("itemtype") ?? ""))
+    .first();
+
+  const fields: StructuredFields = {};
+
+  // Names, descriptions and photos are only trusted inside a listing item
+  if (scope.length > 0) {
+    const title = valueOf('[itemprop="name"]', scope);
+    const description = valueOf('[itemprop="description"]', scope);
+    if (title) fields.title = title;
+    if (description) fields.description = description;
+
+    const images: string[] = [];
+    scope.find('[itemprop="image"], [itemprop="photo"]').each((_, el) => {
+      const url = absoluteUrl($(el).attr("content") ?? $(el).attr("src") ?? $(el).attr("href"), baseUrl);
+      if (url) images.push(url);
+    });
+    if (images.length > 0) fields.images = [...new Set(images)];
+  }
+
+  const street = valueOf('[itemprop="streetAddress"]');
+  const city = valueOf('[itemprop="addressLocality"]');
+  const postalCode = toPostalCode(valueOf('[itemprop="postalCode"]'));
+  if (street) fields.address = street;
+  if (city) fields.city = city;
+  if (postalCode) fields.postal_code = postalCode;
+
+  const price = toNumber(valueOf('[itemprop="price"]')) ?? toNumber(valueOf('[itemprop="lowPrice"]'));
+  if (price) fields.price = price;
+
+  const bedrooms = toNumber(valueOf('[itemprop="numberOfBedrooms"]'));
+  if (bedrooms != null) fields.bedrooms = Math.round(bedrooms);
+
+  const bathrooms = toNumber(valueOf('[itemprop="numberOfBathroomsTotal"]'));
+  if (bathrooms != null) fields.bathrooms = bathrooms;
+
+  const floorSize = $('[itemprop="floorSize"]').first();
+  if (floorSize.length > 0) {
+    const sqft = toSqft(
+      toNumber(valueOf('[itemprop="value"]', floorSize) ?? floorSize.attr("content") ?? floorSize.text()),
+      valueOf('[itemprop="unitCode"]', floorSize) ?? valueOf('[itemprop="unitText"]', floorSize) ?? toText(floorSize.text())
+    );
+    if (sqft) fields.sqft = sqft;
+  }
+
+  const yearBuilt = toYear(valueOf('[itemprop="yearBuilt"]'));
+  if (yearBuilt) fields.year_built = yearBuilt;
+
+  return fields;
+}
+
+function fromOpenGraph($: CheerioAPI, baseUrl: string): StructuredFields {
+  const meta = (property: string) => toText($(`meta[property="${property}"]`).first().attr("content"));
+
+  const fields: StructuredFields = {};
+
+  const title = cleanTitle(meta("og:title"));
+  const description = meta("og:description");
+  if (title) fields.title = title;
+  if (description) fields.description = description;
+
+  const street = meta("og:street-address") ?? meta("business:contact_data:street_address");
+  const city = meta("og:locality") ?? meta("business:contact_data:locality");
+  const postalCode = toPostalCode(meta("og:postal-code") ?? meta("business:contact_data:postal_code"));
+  if (street) fields.address = street;
+  if (city) fields.city = city;
+  if (postalCode) fields.postal_code = postalCode;
+
+  const price = toNumber(meta("og:price:amount")) ?? toNumber(meta("product:price:amount"));
+  if (price) fields.price = price;
+
+  const images: string[] = [];
+  $('meta[property="og:image"], meta[property="og:image:url"], meta[property="og:image:secure_url"]').each((_, el) => {
+    const url = absoluteUrl($(el).attr("content"), baseUrl);
+    if (url) images.push(url);
+  });
+  if (images.length > 0) fields.images = [...new Set(images)];
+
+  return fields;
+}
+
+/**
+ * Listing fields from the page's schema.org JSON-LD, microdata and OpenGraph tags
+ *
+ * Each field comes from the most reliable source that has it (JSON-LD, then
+ * microdata, then OpenGraph); photos from every source are kept, in that order.
+ */
+export function extractStructuredData($: CheerioAPI, baseUrl: string): StructuredListing {
+  const sources: [StructuredSource, StructuredFields][] = [
+    ["json_ld", fromJsonLd($, baseUrl)],
+    ["microdata", fromMicrodata($, baseUrl)],
+    ["open_graph", fromOpenGraph($, baseUrl)],
+  ];
+
+  const listing: Partial<Record<ScrapedField, { value: unknown; source: StructuredSource }>> = {};
+
+  for (const [source, fields] of sources) {
+    for (const [field, value] of Object.entries(fields) as [ScrapedField, unknown][]) {
+      const found = listing[field];
+      if (!found) {
+        listing[field] = { value, source };
+      } else if (field === "images") {
+        found.value = [...new Set([...(found.value as string[]), ...(value as string[])])];
+      }
+    }
+  }
+
+  return listing as StructuredListing;
+}
@@ -0,0 +1,171 @@
+import { createClient, createServiceRoleClient } from '@/lib/supabase/server';
+import { processMediaArray } from '@/lib/storage/rental-media';
+
+// Console-scraped sources: raw JSON in "{source}-raw-rentals", rows in "{source}_rentals_metadata"
+export type RawRentalSource = 'facebook' | 'kijiji';
+
+export interface RawRentalImportInput {
+  listingId: string; // Facebook/Kijiji listing ID, also the media folder name
+  sourceUrl: string;
+  rawJson: unknown; // The normalized console script output
+  preview: {
+    title: string | null;
+    price: string | null;
+    address: string | null;
+  };
+  media: {
+    images: string[];
+    videos?: string[];
+  };
+  startTime: number; // When the request came in, for scrape_duration_ms
+}
+
+// The shared columns of facebook_rentals_metadata and kijiji_rentals_metadata
+interface RawRentalMetadataRow {
+  id: string;
+  storage_path: string;
+  transformation_status: string;
+  rental_id: string | null;
+  title_preview: string | null;
+  price_preview: string | null;
+  address_preview: string | null;
+  images: string[] | null;
+  videos?: string[] | null;
+  [column: string]: unknown; // facebook_id / kijiji_id
+}
+
+export interface ImportedRawRental {
+  id: string;
+  listingId: string;
+  storagePath: string;
+  transformationStatus: string;
+  rentalId: string | null;
+  preview: {
+    title: string | null;
+    price: string | null;
+    address: string | null;
+  };
+  imageCount: number;
+  videoCount: number;
+}
+
+/**
+ * Metadata of a listing already imported from the console script, if any
+ */
+export async function findImportedRawRental(
+  source: RawRentalSource,
+  listingId: string
+): Promise<ImportedRawRental | null> {
+  const supabase = await createClient();
+  const idColumn = `${source}_id`;
+
+  const { data: existing, error } = await supabase
+    .from(`${source}_rentals_metadata`)
+    .select('*')
+    .eq(idColumn, listingId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return existing ? toImportedRawRental(source, existing) : null;
+}
+
+/**
+ * Save console-scraped JSON: raw JSON to Storage, media to the rentals bucket, then a metadata row
+ *
+ * Media that fails to download is skipped; it can be retried later.
+ */
+export async function importRawRental(
+  source: RawRentalSource,
+  input: RawRentalImportInput
+): Promise<ImportedRawRental> {
+  const supabase = await createClient();
+
+  // Upload raw JSON to Storage with date-based partitioning
+  const now = new Date();
+  const year = now.getFullYear();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const storagePath = `${year}/${month}/${input.listingId}.json`;
+
+  const rawJsonStr = JSON.stringify(input.rawJson, null, 2);
+
+  // Use service role client for storage operations (bypasses RLS)
+  const supabaseServiceRole = createServiceRoleClient();
+  const { error: uploadError } = await supabaseServiceRole.storage
+    .from(`${source}-raw-rentals`)
+    .upload(storagePath, rawJsonStr, {
+      contentType: 'application/json',
+      upsert: false,
+    });
+
+  if (uploadError) {
+    console.error('Storage upload error:', uploadError);
+    throw new Error('Failed to upload data to storage: ' + uploadError.message);
+  }
+
+  // Storage path: rentals/{source}/{listing_id}/image-{index}.jpg (video-{index}.mp4)
+  const imageStoragePaths = await downloadMedia(source, input.listingId, 'image', input.media.images);
+  const videoStoragePaths = await downloadMedia(source, input.listingId, 'video', input.media.videos ?? []);
+
+  const { data: metadata, error: metadataError } = await supabase
+    .from(`${source}_rentals_metadata`)
+    .insert({
+      [`${source}_id`]: input.listingId,
+      source_url: input.sourceUrl,
+      storage_path: storagePath,
+      raw_data_size_bytes: new Blob([rawJsonStr]).size,
+      scrape_status: 'success',
+      scrape_duration_ms: Date.now() - input.startTime,
+      title_preview: input.preview.title?.substring(0, 100) || null,
+      price_preview: input.preview.price,
+      address_preview: input.preview.address,
+      images: imageStoragePaths,
+      // Kijiji ads have no videos, and its metadata table no videos column
+      ...(input.media.videos ? { videos: videoStoragePaths } : {}),
+    })
+    .select()
+    .single();
+
+  if (metadataError || !metadata) {
+    console.error('Metadata insert error:', metadataError);
+    throw new Error('Failed to save metadata: ' + metadataError?.message);
+  }
+
+  return toImportedRawRental(source, metadata);
+}
+
+async function downloadMedia(
+  source: RawRentalSource,
+  listingId: string,
+  type: 'image' | 'video',
+  urls: string[]
+): Promise<string[]> {
+  if (urls.length === 0) return [];
+
+  try {
+    const result = await processMediaArray(urls, listingId, type, source);
+    return result.storagePaths;
+  } catch (mediaError) {
+    console.error(`${type === 'image' ? 'Image' : 'Video'} download error:`, mediaError);
+    return [];
+  }
+}
+
+function toImportedRawRental(source: RawRentalSource, metadata: RawRentalMetadataRow): ImportedRawRental {
+  return {
+    id: metadata.id,
+    listingId: String(metadata[`${source}_id`]),
+    storagePath: metadata.storage_path,
+    transformationStatus: metadata.transformation_status,
+    rentalId: metadata.rental_id,
+    preview: {
+      title: metadata.title_preview,
+      price: metadata.price_preview,
+      address: metadata.address_preview,
+    },
+    imageCount: metadata.images?.length ?? 0,
+    videoCount: metadata.videos?.length ?? 0,
+  };
+}
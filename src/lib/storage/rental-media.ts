@@ -1,4 +1,5 @@
 import { createClient } from "@/lib/supabase/server";
+import { httpClient } from "@/lib/http/http-client";
 
 interface MediaDownloadResult {
   storagePath: string | null;
@@ -23,11 +24,7 @@ export async function downloadAndUploadMedia(
 ): Promise<MediaDownloadResult> {
   try {
     // Download from Facebook
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (compatible; properties-x-bot/1.0)',
-      },
-    });
+    const response = await httpClient.fetch(url, { useCache: false });
 
     if (!response.ok) {
       return { storagePath: null, error: `Failed to download: ${response.status}` };
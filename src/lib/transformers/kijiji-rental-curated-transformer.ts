@@ -0,0 +1,262 @@
+import { KijijiRentalRaw } from '@/types/kijiji-rental-raw';
+import { CreateKijijiRentalCuratedInput } from '@/types/kijiji-rental-curated';
+
+// Kijiji attribute labels, English and French, matched after normalizeLabel()
+const LABELS = {
+  bedrooms: /^(bedrooms|chambres( a coucher)?)$/,
+  bathrooms: /^(bathrooms|salles? de bains?)$/,
+  size: /^(size|taille|superficie)( \((sqft|pi2|pi²|pieds carres)\))?$/,
+  unitType: /^(unit type|type d'unite|type de logement)$/,
+  furnished: /^(furnished|meuble)$/,
+  parking: /^(parking included|stationnement inclus|places de stationnement)$/,
+  agreementType: /^(agreement type|type d'entente|type de bail)$/,
+  moveInDate: /^(move-in date|date d'emmenagement|date d'emmenagement prevue)$/,
+  petFriendly: /^(pet friendly|animaux acceptes)$/,
+  utilities: /^(utilities included|services publics inclus|services inclus)$/,
+};
+
+// Attributes kept as amenities when they are present ("Air Conditioning: Yes", "Appliances: Laundry (In Unit)")
+const AMENITY_LABELS = /^(appliances|electromenagers|air conditioning|climatisation|personal outdoor space|espace exterieur personnel|wi-fi and more|wi-fi et plus|amenities|commodites|smoking permitted|usage du tabac permis|barrier-free entrances and ramps|entrees et rampes sans obstacles|visual aids|accessible washrooms in suite)$/;
+
+const UNIT_TYPES: Record<string, string> = {
+  apartment: 'apartment',
+  appartement: 'apartment',
+  condo: 'condo',
+  house: 'house',
+  maison: 'house',
+  townhouse: 'townhouse',
+  'maison en rangee': 'townhouse',
+  basement: 'basement',
+  'sous-sol': 'basement',
+  'duplex/triplex': 'plex',
+};
+
+const YES = /^(yes|oui)$/i;
+const NO = /^(no|non|not included|non inclus)$/i;
+const NOT_AVAILABLE = /^(not available|non disponible|n\/a)$/i;
+
+/**
+ * Transform raw KijijiRental JSON → KijijiRentalCurated
+ * Stage 1 of the two-stage pipeline
+ */
+export function transformRawToCurated(
+  raw: KijijiRentalRaw
+): {
+  curatedInput: CreateKijijiRentalCuratedInput;
+  warnings: string[];
+  errors: string[];
+} {
+  const warnings: string[] = [];
+  const errors: string[] = [];
+
+  const rawData = raw.raw_data;
+  const attributes = rawData.attributes || {};
+  const attribute = (label: RegExp) => findAttribute(attributes, label);
+
+  // Validate required fields
+  if (!rawData.title) {
+    errors.push('Title is required');
+  }
+
+  // Parse price
+  const price = parseRentPrice(rawData.price);
+  if (!price && rawData.price) {
+    warnings.push(`Could not parse price: ${rawData.price}`);
+  }
+
+  const bedrooms = parseBedrooms(attribute(LABELS.bedrooms));
+  const bathrooms = parseDecimal(attribute(LABELS.bathrooms));
+  const squareFootage = parseDecimal(attribute(LABELS.size));
+  if (bedrooms === undefined) {
+    warnings.push('Could not extract bedroom count from attributes');
+  }
+
+  // Parse location
+  const { city, postalCode, location } = parseAddress(rawData.address);
+
+  const unitTypeText = attribute(LABELS.unitType);
+  const unitType = unitTypeText ? UNIT_TYPES[normalizeLabel(unitTypeText)] ?? normalizeLabel(unitTypeText) : undefined;
+
+  const furnishedText = attribute(LABELS.furnished);
+  const furnished = furnishedText ? YES.test(furnishedText) : undefined;
+
+  const parkingSpots = parseDecimal(attribute(LABELS.parking));
+
+  const petFriendly = attribute(LABELS.petFriendly);
+  const petPolicy = !petFriendly || NO.test(petFriendly)
+    ? []
+    : YES.test(petFriendly) ? ['pet_friendly'] : ['pets_limited'];
+
+  const utilities = parseList(attribute(LABELS.utilities));
+
+  const curatedInput: CreateKijijiRentalCuratedInput = {
+    kijiji_id: raw.kijiji_id,
+    source_url: raw.source_url,
+    extracted_date: raw.extracted_date,
+    posted_date: rawData.postedDate || undefined,
+    scraper_version: raw.scraper_version,
+    title: rawData.title,
+    address: rawData.address || undefined,
+    rental_location: location,
+    city,
+    postal_code: postalCode,
+    price,
+    price_currency: 'CAD',
+    price_display: rawData.price || undefined,
+    bedrooms,
+    bathrooms: bathrooms !== undefined ? Math.round(bathrooms * 2) / 2 : undefined,
+    square_footage: squareFootage !== undefined ? Math.round(squareFootage) : undefined,
+    unit_type: unitType,
+    furnished,
+    parking_spots: parkingSpots !== undefined ? Math.round(parkingSpots) : undefined,
+    agreement_type: cleanValue(attribute(LABELS.agreementType)),
+    move_in_date: cleanValue(attribute(LABELS.moveInDate)),
+    pet_policy: petPolicy,
+    utilities_included: utilities,
+    amenities: parseAmenities(attributes),
+    attributes,
+    image_urls: rawData.media?.images || [],
+    description: rawData.description || undefined,
+    seller_name: rawData.sellerInfo?.name || undefined,
+    seller_profile_url: rawData.sellerInfo?.profileUrl || undefined,
+  };
+
+  return { curatedInput, warnings, errors };
+}
+
+/**
+ * Lowercase and strip accents so French and English labels match plain patterns
+ */
+function normalizeLabel(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[’']/g, "'")
+    .replace(/\s*:\s*$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function findAttribute(attributes: Record<string, string>, label: RegExp): string | undefined {
+  const key = Object.keys(attributes).find(name => label.test(normalizeLabel(name)));
+  return key ? attributes[key] : undefined;
+}
+
+// "Not Available" is how Kijiji shows an attribute the poster left blank
+function cleanValue(value: string | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed && !NOT_AVAILABLE.test(trimmed) ? trimmed : undefined;
+}
+
+/**
+ * Extract numeric rent from "$1,850.00" or "1 850,00 $" format
+ */
+function parseRentPrice(priceString: string): number | undefined {
+  if (!priceString) return undefined;
+
+  const match = priceString.match(/\d[\d\s\u00a0\u202f,.]*/);
+  if (!match) {
+    return undefined;
+  }
+
+  let cleaned = match[0].replace(/[\s\u00a0\u202f]/g, '');
+  // A trailing ",00" is French decimals; other commas separate thousands
+  cleaned = /,\d{2}$/.test(cleaned) ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, '');
+  const parsed = parseFloat(cleaned);
+
+  if (isNaN(parsed) || parsed <= 0) {
+    return undefined;
+  }
+
+  return parsed;
+}
+
+/**
+ * "2", "2 + Den" or "Bachelor/Studio" → bedroom count
+ */
+function parseBedrooms(value: string | undefined): number | undefined {
+  const cleaned = cleanValue(value);
+  if (!cleaned) return undefined;
+  if (/bachelor|studio/i.test(cleaned)) return 0;
+
+  const match = cleaned.match(/(\d+)/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * "1.5", "1,5", "800" or "1,200" → number
+ */
+function parseDecimal(value: string | undefined): number | undefined {
+  const match = cleanValue(value)?.replace(/[\s\u00a0\u202f]/g, '').match(/(\d+(?:[.,]\d+)?)/);
+  if (!match) return undefined;
+
+  // Three digits after a comma are thousands ("1,200 sqft"), fewer are decimals ("1,5")
+  const number = /,\d{3}$/.test(match[1]) ? match[1].replace(',', '') : match[1].replace(',', '.');
+  const parsed = parseFloat(number);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * "Heat, Water" → ["Heat", "Water"]; "No" or "Not Included" → []
+ */
+function parseList(value: string | undefined): string[] {
+  const cleaned = cleanValue(value);
+  if (!cleaned || NO.test(cleaned)) return [];
+
+  return cleaned
+    .split(/[,;\n]/)
+    .map(item => item.trim())
+    .filter(item => item && !NO.test(item));
+}
+
+/**
+ * Yes/No amenities become their label, listed ones their items
+ */
+function parseAmenities(attributes: Record<string, string>): string[] {
+  const amenities: string[] = [];
+
+  for (const [label, value] of Object.entries(attributes)) {
+    if (!AMENITY_LABELS.test(normalizeLabel(label))) continue;
+
+    const cleaned = cleanValue(value);
+    if (!cleaned || NO.test(cleaned)) continue;
+
+    if (YES.test(cleaned)) {
+      amenities.push(label.trim());
+    } else {
+      amenities.push(...parseList(cleaned));
+    }
+  }
+
+  return [...new Set(amenities)];
+}
+
+/**
+ * Parse "1234 Rue Saint-Denis, Montréal, QC H2X 3K8" into components
+ * The rental location is the address without the street ("Montréal, QC H2X 3K8")
+ */
+function parseAddress(
+  address: string
+): { city?: string; postalCode?: string; location?: string } {
+  if (!address) return {};
+
+  const postalCodeMatch = address.match(/([A-Z]\d[A-Z])\s*(\d[A-Z]\d)/i);
+  const postalCode = postalCodeMatch ? `${postalCodeMatch[1]} ${postalCodeMatch[2]}`.toUpperCase() : undefined;
+
+  const parts = address.split(',').map(p => p.trim()).filter(Boolean);
+  const hasStreet = /^\d/.test(parts[0] ?? '');
+  const locationParts = hasStreet ? parts.slice(1) : parts;
+
+  // First part after the street is typically the city
+  const city = locationParts[0]
+    ?.replace(/([A-Z]\d[A-Z])\s*(\d[A-Z]\d)/i, '')
+    .replace(/\b(QC|Québec|Quebec)\b/i, '')
+    .trim() || undefined;
+
+  return {
+    city,
+    postalCode,
+    location: locationParts.length > 0 ? locationParts.join(', ') : undefined,
+  };
+}
@@ -0,0 +1,60 @@
+import { KijijiRentalCurated } from '@/types/kijiji-rental-curated';
+import { CreateRentalInput } from '@/types/rental';
+
+/**
+ * Transform KijijiRentalCurated → CreateRentalInput
+ * Stage 2 of the two-stage pipeline
+ */
+export function transformCuratedToRental(
+  curated: KijijiRentalCurated
+): {
+  rentalInput: CreateRentalInput;
+  warnings: string[];
+  errors: string[];
+} {
+  const warnings: string[] = [];
+  const errors: string[] = [];
+
+  if (!curated.price) {
+    warnings.push('No monthly rent - this rental will not be used in rent comps');
+  }
+
+  // Utilities, parking and furnishing are amenities in the rentals table
+  const amenities = [
+    ...curated.utilities_included.map(utility => `${utility} included`),
+    ...(curated.parking_spots ? [`Parking included (${curated.parking_spots})`] : []),
+    ...(curated.furnished ? ['Furnished'] : []),
+    ...curated.amenities,
+  ];
+
+  const unitDetails = Object.entries(curated.attributes || {}).map(([label, value]) => `${label}: ${value}`);
+
+  const rentalInput: CreateRentalInput = {
+    source_url: curated.source_url,
+    source_name: 'kijiji',
+    kijiji_id: curated.kijiji_id,
+    extracted_date: curated.extracted_date,
+    title: curated.title,
+    address: curated.address || undefined,
+    city: curated.city || undefined,
+    postal_code: curated.postal_code || undefined,
+    rental_location: curated.rental_location || undefined,
+    monthly_rent: curated.price ?? undefined,
+    bedrooms: curated.bedrooms ?? undefined,
+    bathrooms: curated.bathrooms ?? undefined,
+    square_footage: curated.square_footage || undefined,
+    unit_type: curated.unit_type || undefined,
+    pet_policy: curated.pet_policy,
+    amenities,
+    unit_details_raw: unitDetails,
+    building_details: [],
+    description: curated.description || undefined,
+    seller_name: curated.seller_name || undefined,
+    seller_profile_url: curated.seller_profile_url || undefined,
+    // Images will be set from metadata by transform API
+    images: [],
+    videos: [],
+  };
+
+  return { rentalInput, warnings, errors };
+}
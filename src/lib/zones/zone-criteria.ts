@@ -0,0 +1,111 @@
+import type { ScrapingZone, ZoneCriteria } from "@/types/scraping-zone";
+
+const MONTH_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Numeric criteria, in the order they're described
+const RANGE_CRITERIA: {
+  min: keyof ZoneCriteria;
+  max: keyof ZoneCriteria;
+  format: (min: number | null, max: number | null) => string;
+}[] = [
+  { min: "min_year", max: "max_year", format: (min, max) => `built ${formatRange(min, max, "")}` },
+  { min: "min_floors", max: "max_floors", format: (min, max) => `${formatRange(min, max, "")} floors` },
+  { min: "min_land_area", max: "max_land_area", format: (min, max) => `land ${formatRange(min, max, " m²")}` },
+  { min: "min_building_area", max: "max_building_area", format: (min, max) => `building ${formatRange(min, max, " m²")}` },
+];
+
+function formatRange(min: number | null, max: number | null, unit: string): string {
+  if (min != null && max != null) return `${min}–${max}${unit}`;
+  if (min != null) return `${min}+${unit}`;
+  return `≤ ${max}${unit}`;
+}
+
+const toNumberOrNull = (value: unknown) => {
+  if (value === "" || value == null) return null;
+  const number = Number(value);
+  return isNaN(number) ? null : number;
+};
+
+// Arrays or comma separated strings
+const toList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value.map(String) : String(value ?? "").split(","))
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * Pick the zone criteria from a request body or form
+ *
+ * Empty values are dropped, so a zone without criteria stores {}.
+ *
+ * @example
+ * normalizeZoneCriteria({ min_year: "1950", categories: "Régulier", usage_codes: "1000, 1010" })
+ * // { min_year: 1950, categories: ["Régulier"], usage_codes: [1000, 1010] }
+ */
+export function normalizeZoneCriteria(input: unknown): ZoneCriteria {
+  const body = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+  const criteria: ZoneCriteria = {};
+
+  for (const { min, max } of RANGE_CRITERIA) {
+    for (const key of [min, max] as const) {
+      const value = toNumberOrNull(body[key]);
+      if (value != null) (criteria[key] as number) = value;
+    }
+  }
+
+  const categories = toList(body.categories);
+  if (categories.length > 0) criteria.categories = categories;
+
+  const usageCodes = toList(body.usage_codes).map(Number).filter((code) => Number.isInteger(code));
+  if (usageCodes.length > 0) criteria.usage_codes = usageCodes;
+
+  const months = toNumberOrNull(body.not_scraped_within_months);
+  if (months != null && months > 0) criteria.not_scraped_within_months = months;
+
+  return criteria;
+}
+
+/**
+ * Earliest scrape that still counts as scraped for a zone, or null when any scrape counts
+ */
+export function zoneScrapedSince(criteria: ZoneCriteria | null | undefined, now: Date = new Date()): string | null {
+  const months = criteria?.not_scraped_within_months;
+  return months ? new Date(now.getTime() - months * MONTH_MS).toISOString() : null;
+}
+
+/**
+ * Human readable list of a zone's selection criteria, units included
+ *
+ * @example
+ * describeZoneCriteria({ min_units: 3, max_units: null, criteria: { min_year: 1950, max_year: 1980 } })
+ * // ["3+ units", "built 1950–1980"]
+ */
+export function describeZoneCriteria(
+  zone: Pick<ScrapingZone, "min_units" | "max_units" | "criteria">
+): string[] {
+  const criteria = zone.criteria || {};
+  const descriptions: string[] = [];
+
+  if (zone.min_units || zone.max_units != null) {
+    descriptions.push(`${formatRange(zone.min_units || null, zone.max_units, "")} units`);
+  }
+
+  for (const { min, max, format } of RANGE_CRITERIA) {
+    const minValue = (criteria[min] as number | null | undefined) ?? null;
+    const maxValue = (criteria[max] as number | null | undefined) ?? null;
+    if (minValue != null || maxValue != null) {
+      descriptions.push(format(minValue, maxValue));
+    }
+  }
+
+  if (criteria.categories?.length) {
+    descriptions.push(criteria.categories.join(" or "));
+  }
+  if (criteria.usage_codes?.length) {
+    descriptions.push(`usage ${criteria.usage_codes.join(", ")}`);
+  }
+  if (criteria.not_scraped_within_months) {
+    descriptions.push(`not scraped in the last ${criteria.not_scraped_within_months} months`);
+  }
+
+  return descriptions;
+}
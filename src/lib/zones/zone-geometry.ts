@@ -0,0 +1,118 @@
+import type { ScrapingZone, ZoneBounds, ZoneGeometry } from "@/types/scraping-zone";
+
+// GeoJSON positions are [lng, lat]
+type Ring = number[][];
+
+const isPosition = (value: unknown): boolean =>
+  Array.isArray(value) &&
+  value.length >= 2 &&
+  typeof value[0] === "number" &&
+  typeof value[1] === "number" &&
+  Math.abs(value[0]) <= 180 &&
+  Math.abs(value[1]) <= 90;
+
+// A closed ring needs at least 4 positions (the first repeated last)
+const isRing = (value: unknown): boolean =>
+  Array.isArray(value) && value.length >= 4 && value.every(isPosition);
+
+const isPolygonCoordinates = (value: unknown): boolean =>
+  Array.isArray(value) && value.length > 0 && value.every(isRing);
+
+/**
+ * Check that a value is a GeoJSON Polygon or MultiPolygon with valid coordinates
+ */
+export function isZoneGeometry(value: unknown): value is ZoneGeometry {
+  if (!value || typeof value !== "object") return false;
+  const { type, coordinates } = value as { type?: unknown; coordinates?: unknown };
+
+  if (type === "Polygon") {
+    return isPolygonCoordinates(coordinates);
+  }
+  if (type === "MultiPolygon") {
+    return Array.isArray(coordinates) && coordinates.length > 0 && coordinates.every(isPolygonCoordinates);
+  }
+  return false;
+}
+
+function polygonsOf(geometry: ZoneGeometry): Ring[][] {
+  return geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+}
+
+/**
+ * Combine drawn shapes into one zone geometry; several shapes become a MultiPolygon
+ */
+export function combineZoneGeometries(geometries: ZoneGeometry[]): ZoneGeometry | null {
+  const polygons = geometries.flatMap(polygonsOf);
+
+  if (polygons.length === 0) return null;
+  if (polygons.length === 1) return { type: "Polygon", coordinates: polygons[0] };
+  return { type: "MultiPolygon", coordinates: polygons };
+}
+
+/**
+ * Bounding box of a geometry, stored on the zone to prefilter buildings in SQL
+ */
+export function geometryBounds(geometry: ZoneGeometry): ZoneBounds {
+  const positions = polygonsOf(geometry).flatMap((polygon) => polygon[0]);
+  const lats = positions.map(([, lat]) => lat);
+  const lngs = positions.map(([lng]) => lng);
+
+  return {
+    minLat: Math.min(...lats),
+    maxLat: Math.max(...lats),
+    minLng: Math.min(...lngs),
+    maxLng: Math.max(...lngs),
+  };
+}
+
+// Ray casting: count how many ring edges a ray going east from the point crosses
+function isInRing(lat: number, lng: number, ring: Ring): boolean {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lngI, latI] = ring[i];
+    const [lngJ, latJ] = ring[j];
+
+    if (latI > lat !== latJ > lat && lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Check whether a point is inside a Polygon or MultiPolygon (holes excluded)
+ */
+export function isPointInGeometry(lat: number, lng: number, geometry: ZoneGeometry): boolean {
+  return polygonsOf(geometry).some(
+    ([outer, ...holes]) => isInRing(lat, lng, outer) && !holes.some((hole) => isInRing(lat, lng, hole))
+  );
+}
+
+/**
+ * Check whether a point is inside a zone: its polygon when it has one, otherwise its bounding box
+ */
+export function isPointInZone(
+  lat: number,
+  lng: number,
+  zone: Pick<ScrapingZone, "min_lat" | "max_lat" | "min_lng" | "max_lng" | "geometry">
+): boolean {
+  if (lat < zone.min_lat || lat > zone.max_lat || lng < zone.min_lng || lng > zone.max_lng) {
+    return false;
+  }
+  return zone.geometry ? isPointInGeometry(lat, lng, zone.geometry) : true;
+}
+
+/**
+ * Short description of a zone's shape, e.g. "Polygon (12 points)" or "3 polygons"
+ */
+export function describeZoneShape(geometry: ZoneGeometry | null): string {
+  if (!geometry) return "Rectangle";
+
+  const polygons = polygonsOf(geometry);
+  if (polygons.length > 1) return `${polygons.length} polygons`;
+
+  // The closing position repeats the first one
+  return `Polygon (${polygons[0][0].length - 1} points)`;
+}
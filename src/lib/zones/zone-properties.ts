@@ -0,0 +1,143 @@
+import { createClient } from "@/lib/supabase/server";
+import { zoneScrapedSince } from "@/lib/zones/zone-criteria";
+import { isPointInZone } from "@/lib/zones/zone-geometry";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PropertyEvaluation } from "@/types/property-evaluation";
+import type { ScrapingZone } from "@/types/scraping-zone";
+
+const PAGE_SIZE = 1000; // PostgREST caps responses at 1000 rows
+const MATRICULE_BATCH_SIZE = 500; // Keeps .in() filters under URL length limits
+
+// What decides which buildings a zone contains
+export type ZoneFilter = Pick<
+  ScrapingZone,
+  "min_lat" | "max_lat" | "min_lng" | "max_lng" | "geometry" | "min_units" | "max_units" | "criteria"
+>;
+
+/**
+ * Fetch the evaluation roll buildings inside a zone that match its unit filters and criteria
+ *
+ * Buildings are prefiltered on the zone's bounding box in SQL, then checked
+ * against its polygon. Pages through the results, so zones with more than
+ * 1000 buildings are complete.
+ *
+ * @param columns - Columns to select; latitude and longitude are always added for the polygon check
+ * @param limit - Stop after this many buildings inside the zone
+ * @param supabaseClient - Optional Supabase client (for use outside of Next.js request context)
+ */
+export async function fetchZoneProperties(
+  zone: ZoneFilter,
+  columns = "*",
+  limit = Infinity,
+  supabaseClient?: SupabaseClient
+): Promise<PropertyEvaluation[]> {
+  const supabase = supabaseClient || await createClient();
+  const select = columns === "*" ? columns : `${columns},latitude,longitude`;
+  const properties: PropertyEvaluation[] = [];
+
+  for (let from = 0; properties.length < limit; from += PAGE_SIZE) {
+    let query = supabase
+      .from("property_evaluations")
+      .select(select)
+      .gte("latitude", zone.min_lat)
+      .lte("latitude", zone.max_lat)
+      .gte("longitude", zone.min_lng)
+      .lte("longitude", zone.max_lng)
+      .not("latitude", "is", null)
+      .not("longitude", "is", null)
+      .order("id_uev")
+      .range(from, from + PAGE_SIZE - 1);
+
+    // Apply unit filters from zone configuration
+    if (zone.min_units != null) {
+      query = query.gte("nombre_logement", zone.min_units);
+    }
+    if (zone.max_units != null) {
+      query = query.lte("nombre_logement", zone.max_units);
+    }
+
+    const criteria = zone.criteria || {};
+
+    // 9999 is the roll's "unknown" construction year
+    if (criteria.min_year != null || criteria.max_year != null) {
+      query = query.neq("annee_construction", 9999);
+    }
+    if (criteria.min_year != null) query = query.gte("annee_construction", criteria.min_year);
+    if (criteria.max_year != null) query = query.lte("annee_construction", criteria.max_year);
+    if (criteria.categories?.length) query = query.in("categorie_uef", criteria.categories);
+    if (criteria.usage_codes?.length) query = query.in("code_utilisation", criteria.usage_codes);
+    if (criteria.min_floors != null) query = query.gte("etage_hors_sol", criteria.min_floors);
+    if (criteria.max_floors != null) query = query.lte("etage_hors_sol", criteria.max_floors);
+    if (criteria.min_land_area != null) query = query.gte("superficie_terrain", criteria.min_land_area);
+    if (criteria.max_land_area != null) query = query.lte("superficie_terrain", criteria.max_land_area);
+    if (criteria.min_building_area != null) query = query.gte("superficie_batiment", criteria.min_building_area);
+    if (criteria.max_building_area != null) query = query.lte("superficie_batiment", criteria.max_building_area);
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const page = (data || []) as unknown as PropertyEvaluation[];
+    properties.push(...page.filter((p) => isPointInZone(p.latitude!, p.longitude!, zone)));
+
+    if (page.length < PAGE_SIZE) break;
+  }
+
+  return properties.slice(0, limit);
+}
+
+/**
+ * Which of the given matricules already have scraped evaluation details
+ *
+ * @param scrapedSince - Only count details scraped at or after this time (see zoneScrapedSince)
+ * @param supabaseClient - Optional Supabase client (for use outside of Next.js request context)
+ */
+export async function fetchScrapedMatricules(
+  matricules: string[],
+  scrapedSince: string | null = null,
+  supabaseClient?: SupabaseClient
+): Promise<Set<string>> {
+  const supabase = supabaseClient || await createClient();
+  const scraped = new Set<string>();
+
+  for (let i = 0; i < matricules.length; i += MATRICULE_BATCH_SIZE) {
+    let query = supabase
+      .from("montreal_evaluation_details")
+      .select("matricule")
+      .in("matricule", matricules.slice(i, i + MATRICULE_BATCH_SIZE));
+
+    if (scrapedSince) {
+      query = query.gte("scraped_at", scrapedSince);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    data?.forEach((row) => scraped.add(row.matricule));
+  }
+
+  return scraped;
+}
+
+/**
+ * Count a zone's buildings and how many of them are already scraped
+ * (within the zone's re-scrape window, if it has one)
+ *
+ * @param supabaseClient - Optional Supabase client (for use outside of Next.js request context)
+ */
+export async function computeZoneStats(
+  zone: ZoneFilter,
+  supabaseClient?: SupabaseClient
+): Promise<{ total_properties: number; scraped_count: number }> {
+  const supabase = supabaseClient || await createClient();
+
+  const properties = await fetchZoneProperties(zone, "matricule83", Infinity, supabase);
+  const matricules = [...new Set(properties.map((p) => p.matricule83).filter(Boolean))];
+  const scraped = await fetchScrapedMatricules(matricules, zoneScrapedSince(zone.criteria), supabase);
+
+  return { total_properties: properties.length, scraped_count: scraped.size };
+}
@@ -0,0 +1,262 @@
+import { createClient } from "@/lib/supabase/server";
+import { MontrealEvaluationScraper } from "@/lib/scrapers/montreal-evaluation-scraper";
+import { buildEvaluationInsert, saveEvaluation } from "@/lib/evaluations/evaluation-snapshots";
+import { zoneScrapedSince } from "@/lib/zones/zone-criteria";
+import { fetchScrapedMatricules, fetchZoneProperties } from "@/lib/zones/zone-properties";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ScrapingZone, ZoneScrapingJob, ZoneScrapingJobSummary } from "@/types/scraping-zone";
+
+const BUILDING_DELAY_MS = 2000; // Between buildings, so a long job doesn't hammer the evaluation site
+const STALE_JOB_MS = 10 * 60 * 1000; // A running job with no progress for this long has lost its worker
+
+export const ACTIVE_JOB_STATUSES = ["pending", "running"] as const;
+
+async function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Matricules of the zone's buildings (inside its shape, matching its criteria) without evaluation
+ * details yet, or whose details are older than the zone's re-scrape window
+ */
+async function fetchUnscrapedMatricules(
+  zone: ScrapingZone,
+  supabase: SupabaseClient
+): Promise<string[]> {
+  const properties = await fetchZoneProperties(zone, "matricule83", Infinity, supabase);
+  const matricules = [...new Set(properties.map((p) => p.matricule83).filter(Boolean))].sort();
+  const scraped = await fetchScrapedMatricules(matricules, zoneScrapedSince(zone.criteria), supabase);
+
+  return matricules.filter((matricule) => !scraped.has(matricule));
+}
+
+/**
+ * Claim the oldest pending job, or a running job whose worker stopped reporting progress
+ *
+ * The claim only succeeds if the job is unchanged since it was read, so two
+ * workers never run the same job.
+ *
+ * @param supabaseClient - Optional Supabase client (for use outside of Next.js request context)
+ */
+export async function claimNextZoneScrapingJob(
+  supabaseClient?: SupabaseClient
+): Promise<ZoneScrapingJob | null> {
+  const supabase = supabaseClient || await createClient();
+  const staleBefore = new Date(Date.now() - STALE_JOB_MS).toISOString();
+
+  const { data: candidates, error } = await supabase
+    .from("zone_scraping_jobs")
+    .select("*")
+    .or(`status.eq.pending,and(status.eq.running,updated_at.lt.${staleBefore})`)
+    .order("created_at", { ascending: true })
+    .limit(5);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  for (const candidate of (candidates || []) as ZoneScrapingJob[]) {
+    const { data: claimed, error: claimError } = await supabase
+      .from("zone_scraping_jobs")
+      .update({
+        status: "running",
+        started_at: candidate.started_at ?? new Date().toISOString(),
+        error_message: null,
+      })
+      .eq("id", candidate.id)
+      .eq("status", candidate.status)
+      .eq("updated_at", candidate.updated_at)
+      .select()
+      .maybeSingle();
+
+    if (claimError) {
+      throw new Error(claimError.message);
+    }
+    if (claimed) {
+      return claimed as ZoneScrapingJob;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Scrape a claimed job's zone, one unscraped building at a time
+ *
+ * Counts and the summary are saved after every building so the zone page can
+ * follow along. Cancelling only flips the job's status, which is checked
+ * between buildings. A resumed job keeps its counts and skips the matricules
+ * that already failed, so requested_limit caps the job across resumes.
+ *
+ * @param supabaseClient - Optional Supabase client (for use outside of Next.js request context)
+ */
+export async function runZoneScrapingJob(
+  job: ZoneScrapingJob,
+  supabaseClient?: SupabaseClient
+): Promise<ZoneScrapingJob> {
+  const supabase = supabaseClient || await createClient();
+
+  const summary: ZoneScrapingJobSummary = {
+    scraped: job.summary?.scraped ?? [],
+    failed: job.summary?.failed ?? [],
+  };
+  let scrapedCount = job.scraped_count;
+  let failedCount = job.failed_count;
+  let scrapedThisRun = 0;
+
+  const saveProgress = async (updates: Partial<ZoneScrapingJob> = {}) => {
+    const { data, error } = await supabase
+      .from("zone_scraping_jobs")
+      .update({ scraped_count: scrapedCount, failed_count: failedCount, summary, ...updates })
+      .eq("id", job.id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    return data as ZoneScrapingJob;
+  };
+
+  // Only a job that is still running may be finished; a cancel wins over completion
+  const finishJob = async (updates: Partial<ZoneScrapingJob>): Promise<ZoneScrapingJob> => {
+    const { data, error } = await supabase
+      .from("zone_scraping_jobs")
+      .update({ ...updates, completed_at: new Date().toISOString() })
+      .eq("id", job.id)
+      .eq("status", "running")
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    return (data as ZoneScrapingJob | null) ?? fetchJob(job.id, supabase);
+  };
+
+  try {
+    const { data: zone, error: zoneError } = await supabase
+      .from("scraping_zones")
+      .select("*")
+      .eq("id", job.zone_id)
+      .single();
+
+    if (zoneError) {
+      throw new Error(`Zone not found: ${zoneError.message}`);
+    }
+
+    const failedMatricules = new Set(summary.failed.map((f) => f.matricule));
+    const remaining = Math.max(job.requested_limit - scrapedCount - failedCount, 0);
+    const matricules = remaining > 0
+      ? (await fetchUnscrapedMatricules(zone as ScrapingZone, supabase))
+          .filter((matricule) => !failedMatricules.has(matricule))
+          .slice(0, remaining)
+      : [];
+
+    await saveProgress({ total_to_scrape: scrapedCount + failedCount + matricules.length });
+
+    const scraper = new MontrealEvaluationScraper();
+
+    for (const [index, matricule] of matricules.entries()) {
+      const current = await fetchJob(job.id, supabase);
+      if (current.status !== "running") {
+        console.log(`Zone scraping job ${job.id} is ${current.status}, stopping`);
+        return current;
+      }
+
+      try {
+        const scrapedData = await scraper.scrape(matricule);
+
+        // Buildings outside the zone's re-scrape window already have a row; changes get a snapshot
+        await saveEvaluation(buildEvaluationInsert(scrapedData), supabase);
+
+        scrapedCount++;
+        scrapedThisRun++;
+        summary.scraped.push(matricule);
+      } catch (scrapeError) {
+        console.error(`Error scraping ${matricule}:`, scrapeError);
+        failedCount++;
+        summary.failed.push({
+          matricule,
+          error: scrapeError instanceof Error ? scrapeError.message : "Unknown error",
+        });
+      }
+
+      await saveProgress();
+
+      if (index < matricules.length - 1) {
+        await sleep(BUILDING_DELAY_MS);
+      }
+    }
+
+    return await finishJob({ status: "completed" });
+  } catch (error) {
+    console.error(`Error running zone scraping job ${job.id}:`, error);
+    return finishJob({
+      status: "failed",
+      error_message: error instanceof Error ? error.message : "Failed to run zone scraping job",
+    });
+  } finally {
+    if (scrapedThisRun > 0) {
+      await updateZoneScrapedCount(job.zone_id, scrapedThisRun, supabase);
+    }
+  }
+}
+
+/**
+ * Run queued zone scraping jobs one at a time until none are left
+ *
+ * @param supabaseClient - Optional Supabase client (for use outside of Next.js request context)
+ */
+export async function runPendingZoneScrapingJobs(
+  supabaseClient?: SupabaseClient
+): Promise<ZoneScrapingJob[]> {
+  const supabase = supabaseClient || await createClient();
+  const results: ZoneScrapingJob[] = [];
+
+  let job = await claimNextZoneScrapingJob(supabase);
+  while (job) {
+    results.push(await runZoneScrapingJob(job, supabase));
+    job = await claimNextZoneScrapingJob(supabase);
+  }
+
+  return results;
+}
+
+async function fetchJob(id: string, supabase: SupabaseClient): Promise<ZoneScrapingJob> {
+  const { data, error } = await supabase
+    .from("zone_scraping_jobs")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data as ZoneScrapingJob;
+}
+
+// The zone page recomputes exact stats on load; this keeps the list page current meanwhile
+async function updateZoneScrapedCount(
+  zoneId: string,
+  scrapedThisRun: number,
+  supabase: SupabaseClient
+): Promise<void> {
+  const { data: zone } = await supabase
+    .from("scraping_zones")
+    .select("scraped_count")
+    .eq("id", zoneId)
+    .single();
+
+  const { error } = await supabase
+    .from("scraping_zones")
+    .update({
+      scraped_count: (zone?.scraped_count || 0) + scrapedThisRun,
+      last_scraped_at: new Date().toISOString(),
+    })
+    .eq("id", zoneId);
+
+  if (error) {
+    console.error("Error updating zone stats:", error);
+  }
+}
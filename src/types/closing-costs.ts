@@ -0,0 +1,43 @@
+// Types for the Quebec welcome tax (droits de mutation) and closing-cost estimator
+
+export interface WelcomeTaxBracket {
+  upTo: number | null; // Upper bound of the bracket, null = no limit
+  rate: number; // % applied to the portion within the bracket
+}
+
+export interface WelcomeTaxBracketAmount {
+  from: number;
+  to: number | null;
+  rate: number;
+  taxableAmount: number;
+  tax: number;
+}
+
+export type WelcomeTaxJurisdiction = "quebec" | "montreal";
+
+export interface ClosingCostInput {
+  price: number;
+  city: string | null;
+  arrondissement?: string | null;
+  units?: number | null;
+  financed?: boolean; // Include appraisal/mortgage fees
+}
+
+// Optional overrides for the fixed-fee estimates
+export interface ClosingCostOptions {
+  notaryFees?: number;
+  inspectionFees?: number;
+  financingFees?: number;
+}
+
+export interface ClosingCostEstimate {
+  price: number;
+  jurisdiction: WelcomeTaxJurisdiction;
+  welcomeTax: number;
+  welcomeTaxBrackets: WelcomeTaxBracketAmount[];
+  notaryFees: number;
+  inspectionFees: number;
+  financingFees: number;
+  totalClosingCosts: number;
+  totalAcquisitionCost: number; // price + closing costs
+}
@@ -0,0 +1,46 @@
+// Types for the deal pipeline (stages, history and tasks)
+
+export type DealStage =
+  | "sourced"
+  | "analyzing"
+  | "visited"
+  | "offer_sent"
+  | "accepted"
+  | "closed"
+  | "dead";
+
+export interface DealStageChange {
+  id: string;
+  created_at: string;
+  property_id: string;
+  from_stage: DealStage | null;
+  to_stage: DealStage;
+  note: string | null;
+}
+
+export interface DealTask {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  property_id: string;
+  title: string;
+  due_date: string | null; // YYYY-MM-DD
+  completed_at: string | null; // null = open
+  notes: string | null;
+}
+
+// API input formats
+export interface ChangeDealStageInput {
+  stage: DealStage;
+  note?: string | null;
+}
+
+export interface CreateDealTaskInput {
+  title: string;
+  due_date?: string | null;
+  notes?: string | null;
+}
+
+export interface UpdateDealTaskInput extends Partial<CreateDealTaskInput> {
+  completed?: boolean; // Sets or clears completed_at
+}
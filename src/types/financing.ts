@@ -0,0 +1,74 @@
+// Types for the financing scenario calculator
+
+// Mortgage insurance program
+// - conventional: ≥ 20% down, no insurance premium
+// - cmhc_standard: CMHC homeowner insurance (1–4 units)
+// - mli_select: CMHC MLI Select for multi-unit rentals (5+ units)
+export type InsuranceProgram = "conventional" | "cmhc_standard" | "mli_select";
+
+// Full database record
+export interface FinancingScenario {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  property_id: string;
+  name: string;
+  purchase_price: number | null; // Overrides the property's list price when set
+  down_payment_percent: number;
+  interest_rate: number; // Annual nominal rate, e.g. 4.89
+  amortization_years: number;
+  term_years: number;
+  insurance_program: InsuranceProgram;
+  mli_select_points: number | null; // MLI Select affordability/energy/accessibility points
+  closing_costs: number | null; // Notary, inspection, welcome tax, etc.
+  notes: string | null;
+}
+
+// API input format
+export interface CreateFinancingScenarioInput {
+  name: string;
+  purchase_price?: number | null;
+  down_payment_percent: number;
+  interest_rate: number;
+  amortization_years: number;
+  term_years?: number;
+  insurance_program?: InsuranceProgram;
+  mli_select_points?: number | null;
+  closing_costs?: number | null;
+  notes?: string | null;
+}
+
+export interface UpdateFinancingScenarioInput extends Partial<CreateFinancingScenarioInput> {
+  id: string;
+}
+
+export interface AmortizationRow {
+  year: number;
+  payments: number;
+  interest: number;
+  principal: number;
+  endingBalance: number;
+}
+
+// Computed result for a scenario
+export interface FinancingResult {
+  purchasePrice: number;
+  downPayment: number;
+  minimumDownPayment: number;
+  baseLoanAmount: number;
+  loanToValue: number; // % before premium
+  insurancePremiumRate: number; // % of base loan
+  insurancePremium: number; // Added to the loan
+  insurancePremiumTax: number; // Quebec 9% sales tax on the premium, paid at closing
+  totalLoanAmount: number;
+  monthlyPayment: number;
+  annualDebtService: number;
+  qualifyingRate: number; // Stress-test rate (%)
+  qualifyingMonthlyPayment: number;
+  balanceAtTermEnd: number;
+  cashToClose: number;
+  debtServiceCoverageRatio: number | null;
+  qualifyingDebtServiceCoverageRatio: number | null;
+  schedule: AmortizationRow[];
+  warnings: string[];
+}
@@ -0,0 +1,17 @@
+// Types for the shared scraper HTTP client's metrics
+
+export interface HostFetchMetrics {
+  requests: number; // Attempts sent over the network, retries included
+  cacheHits: number;
+  retries: number;
+  networkErrors: number;
+  blocked: number; // 403 and 429 responses
+  rateLimited: number; // 429 responses
+  statuses: Record<string, number>; // Response count by status code
+  lastBlockedAt: string | null;
+}
+
+export interface HttpMetrics {
+  since: string; // Metrics are kept in memory, per server process
+  hosts: Record<string, HostFetchMetrics>;
+}
@@ -0,0 +1,68 @@
+export interface KijijiRentalCurated {
+  id: string;
+  kijiji_id: string;
+  source_url: string;
+  extracted_date: string;
+  posted_date: string | null;
+  scraper_version: string | null;
+  raw_data_storage_path: string | null;
+  title: string;
+  address: string | null;
+  rental_location: string | null;
+  city: string | null;
+  postal_code: string | null;
+  price: number | null;
+  price_currency: string | null;
+  price_display: string | null;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  square_footage: number | null;
+  unit_type: string | null;
+  furnished: boolean | null;
+  parking_spots: number | null;
+  agreement_type: string | null;
+  move_in_date: string | null;
+  pet_policy: string[]; // JSONB array
+  utilities_included: string[]; // JSONB array
+  amenities: string[]; // JSONB array
+  attributes: Record<string, string>; // JSONB object
+  image_urls: string[];
+  description: string | null;
+  seller_name: string | null;
+  seller_profile_url: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateKijijiRentalCuratedInput {
+  kijiji_id: string;
+  source_url: string;
+  extracted_date: string;
+  posted_date?: string;
+  scraper_version?: string;
+  raw_data_storage_path?: string;
+  title: string;
+  address?: string;
+  rental_location?: string;
+  city?: string;
+  postal_code?: string;
+  price?: number;
+  price_currency?: string;
+  price_display?: string;
+  bedrooms?: number;
+  bathrooms?: number;
+  square_footage?: number;
+  unit_type?: string;
+  furnished?: boolean;
+  parking_spots?: number;
+  agreement_type?: string;
+  move_in_date?: string;
+  pet_policy?: string[];
+  utilities_included?: string[];
+  amenities?: string[];
+  attributes?: Record<string, string>;
+  image_urls?: string[];
+  description?: string;
+  seller_name?: string;
+  seller_profile_url?: string;
+}
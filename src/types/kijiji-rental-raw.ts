@@ -0,0 +1,29 @@
+/**
+ * Raw KijijiRental format from console scraper
+ * This is the exact structure saved to kijiji-raw-rentals bucket
+ */
+export interface KijijiRentalRaw {
+  kijiji_id: string;
+  source_url: string;
+  extracted_date: string; // ISO timestamp when script ran
+  scraper_version: string; // "console-v1"
+
+  raw_data: {
+    extractedDate: string;
+    id: string; // Same as kijiji_id
+    url: string;
+    title: string;
+    price: string; // "$1,850.00" or "1 850,00 $"
+    address: string;
+    attributes: Record<string, string>; // { "Bedrooms": "2", "Utilities Included": "Heat, Water", ... }
+    description: string;
+    postedDate: string | null; // ISO timestamp from the ad's <time> element
+    sellerInfo: {
+      name: string;
+      profileUrl: string;
+    };
+    media: {
+      images: string[]; // CDN URLs
+    };
+  };
+}
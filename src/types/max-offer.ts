@@ -0,0 +1,26 @@
+// Types for the maximum offer price back-solver
+
+export type MaxOfferConstraintKey = "cap_rate" | "cash_flow" | "dscr";
+
+// Leave a constraint null to ignore it
+export interface MaxOfferConstraints {
+  targetCapRate: number | null; // Minimum cap rate, % (e.g. 5 = 5%)
+  minMonthlyCashFlow: number | null; // After debt service, $/month
+  minDebtServiceCoverageRatio: number | null; // e.g. 1.2
+}
+
+export interface MaxOfferLimit {
+  constraint: MaxOfferConstraintKey;
+  maxPrice: number; // 0 when the constraint cannot be met at any price
+}
+
+export interface MaxOfferResult {
+  maxPrice: number | null; // Lowest limit across constraints; null when nothing can be solved
+  bindingConstraint: MaxOfferConstraintKey | null;
+  limits: MaxOfferLimit[];
+  netOperatingIncome: number;
+  listPrice: number | null;
+  gapToList: number | null; // listPrice - maxPrice (positive = listing is above the max offer)
+  gapPercent: number | null; // gapToList as % of listPrice
+  warnings: string[];
+}
@@ -181,3 +181,33 @@ export interface ScrapedMontrealData {
   };
   searchMethod: 'matricule' | 'address';
 }
+
+// One scrape that found new evaluation details for a matricule
+export interface MontrealEvaluationSnapshot {
+  id: string;
+  captured_at: string;
+  matricule: string;
+  data: MontrealEvaluationInsert;
+  changed_fields: string[]; // Empty for a building's first snapshot
+}
+
+// owner_registration_date changes when the building changes hands
+export type EvaluationChangeKind = 'owner' | 'sale' | 'valuation' | 'other';
+
+export interface EvaluationFieldChange {
+  field: keyof MontrealEvaluationInsert;
+  label: string;
+  kind: EvaluationChangeKind;
+  previous: string | number | null;
+  current: string | number | null;
+}
+
+// The differences a snapshot introduced over the one before it
+export interface EvaluationChangeSet {
+  snapshotId: string;
+  capturedAt: string;
+  previousCapturedAt: string;
+  changes: EvaluationFieldChange[];
+}
+
+export type EvaluationSaveStatus = 'created' | 'changed' | 'unchanged';
@@ -0,0 +1,54 @@
+// Types for listing price history and relisting detection
+
+export interface ListingObservation {
+  id: string;
+  observed_at: string;
+  property_id: string | null;
+  source_name: string | null;
+  source_url: string;
+  mls_number: string | null;
+  address: string | null;
+  normalized_address: string | null;
+  unit: string | null; // Condo unit number from the address, if any
+  price: number | null;
+}
+
+// What a scrape tells us about a listing at a point in time
+export interface ListingSnapshot {
+  source_url: string;
+  source_name: string | null;
+  mls_number: string | null;
+  address: string | null;
+  price: number | null;
+}
+
+export interface PriceChange {
+  observedAt: string;
+  mlsNumber: string | null;
+  previousPrice: number;
+  price: number;
+  change: number; // Negative = drop
+  changePercent: number;
+}
+
+// One MLS number's time on the market at an address
+export interface ListingPeriod {
+  mlsNumber: string | null;
+  firstSeen: string;
+  lastSeen: string;
+  initialPrice: number | null;
+  lastPrice: number | null;
+  observations: number;
+}
+
+export interface PriceHistoryAnalysis {
+  observations: ListingObservation[]; // Oldest first
+  priceChanges: PriceChange[];
+  priceDrops: PriceChange[];
+  listings: ListingPeriod[]; // Oldest first; more than one = relisted
+  relisted: boolean;
+  daysOnMarket: number | null; // Current MLS number only
+  cumulativeDaysOnMarket: number | null; // Since the address was first seen, across relistings
+  totalChange: number | null; // Last price - first price ever seen
+  totalChangePercent: number | null;
+}
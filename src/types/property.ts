@@ -1,3 +1,6 @@
+import type { DealStage } from "@/types/deal-pipeline";
+import type { UnitScheduleEntry } from "@/types/unit-mix";
+
 export interface Property {
   id: string;
   created_at: string;
@@ -17,6 +20,7 @@ export interface Property {
   property_type: PropertyType | null;
   units: number | null; // Number of units for multi-residential
   unit_details: string | null; // Unit breakdown (e.g., "2 x 4½, 1 x 5½")
+  unit_schedule: UnitScheduleEntry[]; // Structured breakdown parsed from unit_details
   mls_number: string | null;
   description: string | null;
   features: string[];
@@ -24,6 +28,9 @@ export interface Property {
   latitude: number | null;
   longitude: number | null;
   notes: string | null;
+  // Deal pipeline
+  deal_stage: DealStage;
+  deal_stage_changed_at: string;
   // Financial fields
   potential_revenue: number | null; // Annual potential revenue
   // Évaluation municipale
@@ -92,14 +99,21 @@ export interface ScrapedProperty {
   expenses: number | null;
   expense_electricity: number | null;
   expense_heating: number | null;
+  // How sure the scraper is of each populated field, from 0 to 1 (generic scraper only)
+  field_confidence?: FieldConfidence;
 }
 
+export type ScrapedField = Exclude<keyof ScrapedProperty, "source_url" | "source_name" | "field_confidence">;
+
+export type FieldConfidence = Partial<Record<ScrapedField, number>>;
+
 export interface PropertyFilters {
   city?: string;
   minPrice?: number;
   maxPrice?: number;
   bedrooms?: number;
   propertyType?: PropertyType;
+  stage?: DealStage;
   search?: string;
 }
 
@@ -119,6 +133,7 @@ export interface CreatePropertyInput {
   property_type?: PropertyType;
   units?: number;
   unit_details?: string;
+  unit_schedule?: UnitScheduleEntry[];
   mls_number?: string;
   description?: string;
   features?: string[];
@@ -0,0 +1,43 @@
+// Types for recent-sale detection from owner registration dates
+
+// How the estimated price was derived from the assessment roll
+export type SalePriceEstimateMethod =
+  | "current_valuation" // Sold on the current roll's market date
+  | "interpolated" // Between the previous and current market dates
+  | "extrapolated" // After the current market date, at the roll-to-roll growth rate
+  | "previous_valuation"; // On or before the previous roll's market date
+
+// A building whose current owner registered within the searched period
+export interface RecentTransaction {
+  matricule: string;
+  address: string | null;
+  arrondissement: string | null;
+  owner_name: string | null;
+  owner_status: string | null;
+  registration_date: string;
+  units: number | null;
+  building_year: number | null;
+  current_market_date: string | null;
+  current_total_value: number | null;
+  previous_market_date: string | null;
+  previous_total_value: number | null;
+  estimated_price: number | null;
+  estimate_method: SalePriceEstimateMethod | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface RecentTransactionFilters {
+  from: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive; no upper bound when omitted
+  arrondissement?: string; // Partial match on the evaluation's arrondissement
+  minUnits?: number;
+  maxUnits?: number;
+}
+
+export interface RecentTransactionSummary {
+  count: number;
+  total_estimated_volume: number;
+  median_estimated_price: number | null;
+  median_price_per_unit: number | null;
+}
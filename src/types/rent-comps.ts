@@ -0,0 +1,67 @@
+// Types for the rent comparables engine
+import type { Rental } from "@/types/rental";
+import type { UnitMixEntry } from "@/types/unit-mix";
+
+export interface RentCompsOptions {
+  radiusKm: number; // Search radius around the subject
+  monthsBack: number; // Only listings extracted within this window
+  sqftTolerancePercent: number; // Max size difference when both sides have square footage
+  minComparables: number; // Below this a unit type is flagged as low confidence
+}
+
+// Subject being analyzed (a saved property or an evaluation roll building)
+export interface RentCompsSubject {
+  latitude: number;
+  longitude: number;
+  unitMix: UnitMixEntry[];
+  unitSqft: number | null; // Average square footage per unit, if known
+  advertisedPotentialRevenue: number | null; // Annual, from the listing
+}
+
+export type ComparableRental = Pick<
+  Rental,
+  | "id"
+  | "title"
+  | "address"
+  | "source_name"
+  | "monthly_rent"
+  | "bedrooms"
+  | "square_footage"
+  | "latitude"
+  | "longitude"
+  | "extracted_date"
+  | "created_at"
+> & {
+  distanceKm: number;
+};
+
+export interface RentStats {
+  count: number;
+  min: number;
+  p25: number;
+  median: number;
+  p75: number;
+  max: number;
+  mean: number;
+}
+
+export interface UnitTypeRentEstimate {
+  label: string; // "4½"
+  bedrooms: number;
+  units: number;
+  stats: RentStats | null;
+  estimatedMonthlyRent: number | null; // Median of comparables
+  lowConfidence: boolean;
+  comparables: ComparableRental[];
+}
+
+export interface RentCompsResult {
+  options: RentCompsOptions;
+  unitTypes: UnitTypeRentEstimate[];
+  estimatedMonthlyRevenue: number | null;
+  estimatedGrossPotentialRevenue: number | null; // Annual
+  advertisedPotentialRevenue: number | null; // Annual
+  revenueGapPercent: number | null; // (estimated - advertised) / advertised
+  totalComparables: number;
+  warnings: string[];
+}
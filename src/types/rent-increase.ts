@@ -0,0 +1,91 @@
+// Types for the TAL (Tribunal administratif du logement) rent increase calculation
+
+export type HeatingFuel = "oil" | "gas" | "electricity";
+
+export interface TalParameters {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  year: number;
+  net_income_percent: number; // Ajustement du revenu net
+  heating_oil_percent: number;
+  heating_gas_percent: number;
+  heating_electricity_percent: number;
+  electricity_percent: number; // Electricity not used for heating
+  capex_rate_percent: number; // Applied to the cost of major repairs
+  notes: string | null;
+}
+
+export interface CapitalExpenditure {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  property_id: string;
+  unit_id: string | null; // null = whole building
+  year: number;
+  description: string;
+  amount: number;
+  completed_on: string | null;
+}
+
+// API input formats
+export interface CreateTalParametersInput {
+  year: number;
+  net_income_percent: number;
+  heating_oil_percent?: number;
+  heating_gas_percent?: number;
+  heating_electricity_percent?: number;
+  electricity_percent?: number;
+  capex_rate_percent: number;
+  notes?: string | null;
+}
+
+export interface CreateCapitalExpenditureInput {
+  unit_id?: string | null;
+  year: number;
+  description: string;
+  amount: number;
+  completed_on?: string | null;
+}
+
+// Building-level expenses compared between the two years
+export interface RentIncreaseExpenses {
+  taxesMunicipal: number; // Current year (properties.taxes_municipal)
+  previousTaxesMunicipal: number;
+  taxesSchool: number; // Current year (properties.taxes_school)
+  previousTaxesSchool: number;
+  insurance: number;
+  previousInsurance: number;
+  heating: number; // Annual heating cost (properties.expense_heating)
+  heatingFuel: HeatingFuel;
+  electricity: number; // Annual electricity cost (properties.expense_electricity)
+}
+
+export interface RentIncreaseComponent {
+  key: "taxes_municipal" | "taxes_school" | "insurance" | "heating" | "electricity" | "capex" | "net_income";
+  label: string;
+  basis: number; // Amount the rate or variation applies to (annual, building or unit)
+  monthlyIncrease: number;
+}
+
+export interface UnitRentIncrease {
+  unitId: string;
+  unitNumber: string;
+  leaseId: string;
+  tenantName: string;
+  currentRent: number;
+  share: number; // Unit rent / building rents (0-1)
+  components: RentIncreaseComponent[];
+  monthlyIncrease: number;
+  newRent: number;
+  increasePercent: number;
+}
+
+export interface RentIncreaseResult {
+  year: number;
+  parameters: TalParameters;
+  expenses: RentIncreaseExpenses;
+  totalMonthlyRents: number;
+  units: UnitRentIncrease[];
+  warnings: string[];
+}
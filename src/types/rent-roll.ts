@@ -0,0 +1,81 @@
+// Types for rent roll management (units, leases and renewals)
+
+export interface PropertyUnit {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  property_id: string;
+  unit_number: string;
+  rooms: number | null; // 4.5 for "4½"
+  bedrooms: number | null;
+  square_footage: number | null;
+  market_rent: number | null;
+  notes: string | null;
+}
+
+export interface Lease {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  unit_id: string;
+  property_id: string;
+  tenant_name: string;
+  tenant_email: string | null;
+  tenant_phone: string | null;
+  monthly_rent: number;
+  lease_start: string; // YYYY-MM-DD
+  lease_end: string | null; // null = indeterminate
+  includes_heating: boolean;
+  includes_electricity: boolean;
+  last_increase_date: string | null;
+  last_increase_percent: number | null;
+  notes: string | null;
+}
+
+export interface PropertyUnitWithLeases extends PropertyUnit {
+  leases: Lease[];
+}
+
+// API input formats
+export interface CreatePropertyUnitInput {
+  unit_number: string;
+  rooms?: number | null;
+  bedrooms?: number | null;
+  square_footage?: number | null;
+  market_rent?: number | null;
+  notes?: string | null;
+}
+
+export interface CreateLeaseInput {
+  tenant_name: string;
+  tenant_email?: string | null;
+  tenant_phone?: string | null;
+  monthly_rent: number;
+  lease_start: string;
+  lease_end?: string | null;
+  includes_heating?: boolean;
+  includes_electricity?: boolean;
+  last_increase_date?: string | null;
+  last_increase_percent?: number | null;
+  notes?: string | null;
+}
+
+export interface UpcomingRenewal {
+  unit: PropertyUnit;
+  lease: Lease;
+  daysUntilEnd: number;
+  noticeWindowStart: string; // Earliest date to send a modification notice
+  noticeWindowEnd: string; // Latest date to send a modification notice
+}
+
+export interface RentRollSummary {
+  totalUnits: number;
+  occupiedUnits: number;
+  vacantUnits: number;
+  monthlyInPlaceIncome: number;
+  annualInPlaceIncome: number;
+  annualMarketIncomeOnVacant: number; // Market rent of vacant units
+  potentialRevenue: number | null; // From properties.potential_revenue
+  varianceToPotential: number | null; // annualInPlaceIncome - potentialRevenue
+  upcomingRenewals: UpcomingRenewal[];
+}
@@ -7,6 +7,7 @@ export interface Rental {
   source_name: string | null;
   facebook_id: string | null;
   centris_id: string | null; // Centris listing ID for linking to raw data
+  kijiji_id: string | null; // Kijiji ad ID for linking to raw data
   raw_data_storage_path: string | null; // Path to raw JSON in storage bucket
   extracted_date: string | null;
   title: string;
@@ -35,7 +36,7 @@ export interface Rental {
 }
 
 // Facebook Marketplace JSON format (source-specific)
-// NOTE: Future sources (Kijiji, Craigslist) will have their own interfaces
+// Other sources have their own raw interfaces (e.g. KijijiRentalRaw in kijiji-rental-raw.ts)
 export interface FacebookRental {
   extractedDate: string;
   id: string;
@@ -63,6 +64,7 @@ export interface CreateRentalInput {
   source_name?: string;
   facebook_id?: string;
   centris_id?: string;
+  kijiji_id?: string;
   extracted_date?: string;
   title: string;
   address?: string;
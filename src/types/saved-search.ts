@@ -0,0 +1,99 @@
+// Types for saved listing searches, their scheduled runs and notifications
+
+export type SavedSearchSource = "centris";
+
+export interface SavedSearch {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  name: string;
+  source_name: SavedSearchSource;
+  search_url: string;
+  min_units: number | null;
+  max_price: number | null;
+  boroughs: string[];
+  max_listings: number;
+  is_active: boolean;
+  run_interval_hours: number;
+  last_run_at: string | null;
+  webhook_url: string | null;
+}
+
+export interface SavedSearchInsert {
+  name: string;
+  source_name?: SavedSearchSource;
+  search_url: string;
+  min_units?: number | null;
+  max_price?: number | null;
+  boroughs?: string[];
+  max_listings?: number;
+  is_active?: boolean;
+  run_interval_hours?: number;
+  webhook_url?: string | null;
+}
+
+export type SavedSearchUpdate = Partial<SavedSearchInsert>;
+
+export type SavedSearchRunStatus = "running" | "completed" | "failed";
+
+export interface SavedSearchRun {
+  id: string;
+  saved_search_id: string;
+  started_at: string;
+  completed_at: string | null;
+  status: SavedSearchRunStatus;
+  listings_seen: number;
+  new_listings: number;
+  price_drops: number;
+  error: string | null;
+}
+
+// A saved search with its most recent run, as listed on the searches page
+export interface SavedSearchWithLastRun extends SavedSearch {
+  last_run: SavedSearchRun | null;
+}
+
+export interface SavedSearchListing {
+  id: string;
+  saved_search_id: string;
+  first_seen_at: string;
+  last_seen_at: string;
+  source_url: string;
+  mls_number: string | null;
+  address: string | null;
+  price: number | null;
+  units: number | null;
+  matches_criteria: boolean;
+}
+
+export type NotificationType = "new_listing" | "price_drop";
+
+export interface ListingNotification {
+  id: string;
+  created_at: string;
+  type: NotificationType;
+  saved_search_id: string | null;
+  property_id: string | null;
+  source_url: string;
+  mls_number: string | null;
+  address: string | null;
+  price: number | null;
+  previous_price: number | null;
+  read_at: string | null;
+}
+
+// As returned by the notifications feed
+export interface ListingNotificationWithSearch extends ListingNotification {
+  saved_searches: Pick<SavedSearch, "name"> | null;
+}
+
+export type ListingNotificationInsert = Omit<ListingNotification, "id" | "created_at" | "read_at">;
+
+// Posted to a saved search's webhook after a run with notifications
+export interface SavedSearchDigest {
+  search: Pick<SavedSearch, "id" | "name" | "search_url">;
+  subject: string;
+  text: string; // Plain-text body, ready to forward as an email or chat message
+  newListings: ListingNotificationInsert[];
+  priceDrops: ListingNotificationInsert[];
+}
@@ -0,0 +1,51 @@
+// Types for scraper field coverage monitoring
+
+import type { ScrapedField } from "./property";
+
+// Every extracted listing field; source_url and source_name are always set
+export type CoverageField = ScrapedField;
+
+export interface ScrapeCoverage {
+  id: string;
+  scraped_at: string;
+  source_name: string;
+  scraper_version: string;
+  source_url: string;
+  populated_fields: CoverageField[];
+  field_count: number;
+}
+
+export interface CoverageTrendPoint {
+  date: string; // YYYY-MM-DD
+  scrapes: number;
+  fillRate: number; // Share of fields populated, 0-1
+}
+
+// Coverage of one scraper version of a source
+export interface SourceCoverage {
+  sourceName: string;
+  scraperVersion: string;
+  scrapes: number;
+  firstScrapedAt: string;
+  lastScrapedAt: string;
+  fillRate: number; // All fields, 0-1
+  fieldFillRates: Record<CoverageField, number>; // 0-1
+  trend: CoverageTrendPoint[]; // Oldest first, days with scrapes only
+}
+
+// A field whose recent fill rate fell well below its baseline for a source
+export interface CoverageAlert {
+  sourceName: string;
+  field: CoverageField;
+  baselineRate: number;
+  recentRate: number;
+  baselineScrapes: number;
+  recentScrapes: number;
+}
+
+export interface CoverageReport {
+  since: string;
+  recentSince: string; // Start of the window compared against the baseline for alerts
+  sources: SourceCoverage[];
+  alerts: CoverageAlert[]; // Largest drop first
+}
@@ -1,5 +1,25 @@
 // Types for zone-based scraping system
 
+// GeoJSON Polygon or MultiPolygon, positions as [lng, lat]
+export type ZoneGeometry =
+  | { type: "Polygon"; coordinates: number[][][] }
+  | { type: "MultiPolygon"; coordinates: number[][][][] };
+
+// Building selection criteria on top of the zone's shape and unit range
+export interface ZoneCriteria {
+  min_year?: number | null; // annee_construction (unknown years are excluded when set)
+  max_year?: number | null;
+  categories?: string[]; // categorie_uef, any of ("Régulier", "Condominium")
+  usage_codes?: number[]; // code_utilisation, any of
+  min_floors?: number | null; // etage_hors_sol
+  max_floors?: number | null;
+  min_land_area?: number | null; // superficie_terrain (m²)
+  max_land_area?: number | null;
+  min_building_area?: number | null; // superficie_batiment (m²)
+  max_building_area?: number | null;
+  not_scraped_within_months?: number | null; // Older scrapes count as unscraped, so the zone scrapes them again
+}
+
 export interface ScrapingZone {
   id: string;
   created_at: string;
@@ -10,12 +30,15 @@ export interface ScrapingZone {
   max_lat: number;
   min_lng: number;
   max_lng: number;
+  geometry: ZoneGeometry | null; // NULL = the bounding box itself
+  arrondissement: string | null; // Set when the zone was created from a borough boundary
   total_properties: number;
   scraped_count: number;
   last_scraped_at: string | null;
   target_limit: number | null;
   min_units: number;
   max_units: number | null;
+  criteria: ZoneCriteria;
 }
 
 export interface ScrapingZoneInsert {
@@ -25,9 +48,12 @@ export interface ScrapingZoneInsert {
   max_lat: number;
   min_lng: number;
   max_lng: number;
+  geometry?: ZoneGeometry | null;
+  arrondissement?: string | null;
   target_limit?: number;
   min_units?: number;
   max_units?: number | null;
+  criteria?: ZoneCriteria;
   total_properties?: number;
   scraped_count?: number;
 }
@@ -39,27 +65,39 @@ export interface ScrapingZoneUpdate {
   max_lat?: number;
   min_lng?: number;
   max_lng?: number;
+  geometry?: ZoneGeometry | null;
+  arrondissement?: string | null;
   target_limit?: number;
   min_units?: number;
   max_units?: number | null;
+  criteria?: ZoneCriteria;
   total_properties?: number;
   scraped_count?: number;
   last_scraped_at?: string;
 }
 
+export type ZoneScrapingJobStatus = "pending" | "running" | "completed" | "failed" | "cancelled";
+
 export interface ZoneScrapingJob {
   id: string;
   zone_id: string;
   created_at: string;
+  updated_at: string;
   started_at: string | null;
   completed_at: string | null;
   requested_limit: number;
-  status: "pending" | "running" | "completed" | "failed" | "cancelled";
+  status: ZoneScrapingJobStatus;
   total_to_scrape: number;
   scraped_count: number;
   failed_count: number;
   error_message: string | null;
-  summary: Record<string, any> | null;
+  summary: ZoneScrapingJobSummary | null;
+}
+
+// Matricules a job has attempted; failed ones are skipped when the job resumes
+export interface ZoneScrapingJobSummary {
+  scraped: string[];
+  failed: { matricule: string; error: string }[];
 }
 
 export interface ZoneBounds {
@@ -0,0 +1,47 @@
+// Types for importing every listing of a search results page
+
+import type { ScrapedProperty } from "./property";
+
+export type SearchImportStatus = "new" | "updated" | "unchanged";
+
+// Listing fields compared against the saved property to detect updates
+export type TrackedListingField =
+  | "price"
+  | "units"
+  | "unit_details"
+  | "potential_revenue"
+  | "municipal_assessment"
+  | "taxes"
+  | "expenses";
+
+export interface SearchImportChange {
+  field: TrackedListingField;
+  previous: string | number | null;
+  current: string | number | null;
+}
+
+export interface SearchImportItem {
+  status: SearchImportStatus;
+  listing: ScrapedProperty;
+  existingId: string | null; // Saved property with the same MLS number
+  changes: SearchImportChange[];
+}
+
+export interface SearchImportFailure {
+  url: string;
+  error: string;
+}
+
+// Listings found on a search results page; each one is scraped separately
+export interface SearchCrawlResult {
+  searchUrl: string;
+  totalResults: number | null; // As reported by the search page
+  listingUrls: string[];
+}
+
+export interface SearchImportPreview {
+  searchUrl: string;
+  totalResults: number | null;
+  items: SearchImportItem[];
+  failures: SearchImportFailure[];
+}
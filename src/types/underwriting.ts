@@ -0,0 +1,47 @@
+// Types for the investment underwriting engine
+
+// User-adjustable assumptions (percentages are whole numbers, e.g. 5 = 5%)
+export interface UnderwritingAssumptions {
+  vacancyPercent: number; // Vacancy & bad debt, % of gross revenue
+  managementPercent: number; // Property management, % of effective revenue
+  maintenancePercent: number; // Maintenance & repairs reserve, % of effective revenue
+  insurance: number; // Annual insurance premium
+  downPaymentPercent: number; // % of purchase price
+  interestRate: number; // Annual nominal rate, e.g. 5.25
+  amortizationYears: number;
+}
+
+// Annual pro-forma derived from the property's financial fields
+export interface ProForma {
+  grossPotentialRevenue: number;
+  vacancyLoss: number;
+  effectiveGrossIncome: number;
+  taxes: number;
+  utilities: number; // Électricité + chauffage (or the listing's expense total)
+  insurance: number;
+  management: number;
+  maintenance: number;
+  totalOperatingExpenses: number;
+  netOperatingIncome: number;
+}
+
+export interface UnderwritingMetrics {
+  capRate: number | null; // % (NOI / price)
+  grossRentMultiplier: number | null; // price / gross revenue
+  cashOnCashReturn: number | null; // % (cash flow / down payment)
+  debtServiceCoverageRatio: number | null; // NOI / annual debt service
+  expenseRatio: number | null; // % of effective gross income
+}
+
+export interface UnderwritingResult {
+  assumptions: UnderwritingAssumptions;
+  proForma: ProForma;
+  loanAmount: number;
+  downPayment: number;
+  monthlyMortgagePayment: number;
+  annualDebtService: number;
+  annualCashFlow: number;
+  monthlyCashFlow: number;
+  metrics: UnderwritingMetrics;
+  warnings: string[];
+}
@@ -0,0 +1,16 @@
+// Types for Quebec unit-mix strings (e.g., "2 x 4½, 1 x 5½")
+
+export interface UnitMixEntry {
+  count: number; // Number of units of this type
+  rooms: number; // Quebec room count (4.5 for "4½")
+  bedrooms: number; // Inferred from the room count (4½ → 2 bedrooms)
+  label: string; // Display label, e.g. "4½"
+}
+
+// Structured unit schedule stored on properties.unit_schedule
+export interface UnitScheduleEntry {
+  count: number;
+  rooms: number; // 4.5 for "4½"
+  bedrooms: number; // Inferred from rooms, can be overridden
+  current_rent: number | null; // Monthly rent per unit, if known
+}
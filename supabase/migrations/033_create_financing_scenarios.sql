@@ -0,0 +1,48 @@
+-- Create financing_scenarios table
+-- Named mortgage scenarios saved per property (down payment, rate, CMHC program)
+
+CREATE TABLE financing_scenarios (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+
+    -- Loan terms
+    purchase_price DECIMAL(12, 2), -- NULL = use properties.price
+    down_payment_percent DECIMAL(5, 2) NOT NULL DEFAULT 20,
+    interest_rate DECIMAL(5, 3) NOT NULL,
+    amortization_years INTEGER NOT NULL DEFAULT 25,
+    term_years INTEGER NOT NULL DEFAULT 5,
+
+    -- Mortgage insurance
+    insurance_program TEXT NOT NULL DEFAULT 'conventional', -- 'conventional', 'cmhc_standard', 'mli_select'
+    mli_select_points INTEGER,
+
+    -- Other cash needed at closing (notary, inspection, welcome tax...)
+    closing_costs DECIMAL(10, 2),
+
+    notes TEXT,
+
+    -- Constraints
+    CONSTRAINT valid_down_payment CHECK (down_payment_percent >= 0 AND down_payment_percent <= 100),
+    CONSTRAINT valid_interest_rate CHECK (interest_rate >= 0),
+    CONSTRAINT valid_amortization CHECK (amortization_years > 0 AND amortization_years <= 50),
+    CONSTRAINT valid_term CHECK (term_years > 0),
+    CONSTRAINT valid_insurance_program CHECK (insurance_program IN ('conventional', 'cmhc_standard', 'mli_select'))
+);
+
+CREATE INDEX idx_financing_scenarios_property_id ON financing_scenarios(property_id);
+
+-- Updated_at trigger (reuse existing function)
+CREATE TRIGGER update_financing_scenarios_updated_at
+    BEFORE UPDATE ON financing_scenarios
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security
+ALTER TABLE financing_scenarios ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations" ON financing_scenarios
+    FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,3 @@
+-- Add structured unit schedule parsed from unit_details (e.g., "2 x 4½, 1 x 5½")
+-- Each entry: { count, rooms, bedrooms, current_rent }
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS unit_schedule JSONB DEFAULT '[]'::JSONB;
@@ -0,0 +1,76 @@
+-- Rent roll: units of an owned property and their leases
+-- Migration: 035_create_property_units_and_leases
+
+CREATE TABLE property_units (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+    unit_number TEXT NOT NULL, -- Civic number or apartment (e.g., "4512" or "3")
+    rooms DECIMAL(3, 1), -- Quebec notation: 4.5 for 4½
+    bedrooms INTEGER,
+    square_footage INTEGER,
+    market_rent DECIMAL(10, 2), -- Target/asking rent when vacant
+    notes TEXT,
+
+    CONSTRAINT unique_property_unit_number UNIQUE (property_id, unit_number),
+    CONSTRAINT valid_unit_bedrooms CHECK (bedrooms IS NULL OR bedrooms >= 0),
+    CONSTRAINT valid_unit_market_rent CHECK (market_rent IS NULL OR market_rent >= 0)
+);
+
+CREATE TABLE leases (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    unit_id UUID NOT NULL REFERENCES property_units(id) ON DELETE CASCADE,
+    property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+
+    -- Tenant
+    tenant_name TEXT NOT NULL,
+    tenant_email TEXT,
+    tenant_phone TEXT,
+
+    -- Terms
+    monthly_rent DECIMAL(10, 2) NOT NULL,
+    lease_start DATE NOT NULL,
+    lease_end DATE, -- NULL = month-to-month / indeterminate
+    includes_heating BOOLEAN NOT NULL DEFAULT FALSE,
+    includes_electricity BOOLEAN NOT NULL DEFAULT FALSE,
+
+    -- Last increase (TAL-style renewal)
+    last_increase_date DATE,
+    last_increase_percent DECIMAL(5, 2),
+
+    notes TEXT,
+
+    CONSTRAINT valid_lease_rent CHECK (monthly_rent >= 0),
+    CONSTRAINT valid_lease_dates CHECK (lease_end IS NULL OR lease_end >= lease_start)
+);
+
+CREATE INDEX idx_property_units_property_id ON property_units(property_id);
+CREATE INDEX idx_leases_unit_id ON leases(unit_id);
+CREATE INDEX idx_leases_property_id ON leases(property_id);
+CREATE INDEX idx_leases_lease_end ON leases(lease_end);
+
+-- Updated_at triggers (reuse existing function)
+CREATE TRIGGER update_property_units_updated_at
+    BEFORE UPDATE ON property_units
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_leases_updated_at
+    BEFORE UPDATE ON leases
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security
+ALTER TABLE property_units ENABLE ROW LEVEL SECURITY;
+ALTER TABLE leases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations" ON property_units
+    FOR ALL USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations" ON leases
+    FOR ALL USING (true) WITH CHECK (true);
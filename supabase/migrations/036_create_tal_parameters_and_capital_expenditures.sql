@@ -0,0 +1,59 @@
+-- TAL rent increase calculation: yearly adjustment parameters and major work per property
+-- Migration: 036_create_tal_parameters_and_capital_expenditures
+
+-- Percentages published each winter by the Tribunal administratif du logement
+CREATE TABLE tal_parameters (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    year INTEGER NOT NULL UNIQUE, -- Year of the renewals (e.g., 2026 for leases renewing July 1st, 2026)
+
+    net_income_percent DECIMAL(5, 2) NOT NULL, -- Ajustement du revenu net
+    heating_oil_percent DECIMAL(5, 2) NOT NULL DEFAULT 0, -- Variation du coût du mazout
+    heating_gas_percent DECIMAL(5, 2) NOT NULL DEFAULT 0, -- Variation du coût du gaz
+    heating_electricity_percent DECIMAL(5, 2) NOT NULL DEFAULT 0, -- Variation du coût de l'électricité (chauffage)
+    electricity_percent DECIMAL(5, 2) NOT NULL DEFAULT 0, -- Variation du coût de l'électricité (éclairage, eau chaude)
+    capex_rate_percent DECIMAL(5, 2) NOT NULL, -- Taux applicable aux réparations majeures
+
+    notes TEXT
+);
+
+-- Major repairs and improvements (réparations majeures / améliorations) to pass on at renewal
+CREATE TABLE property_capital_expenditures (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+    unit_id UUID REFERENCES property_units(id) ON DELETE CASCADE, -- NULL = whole building
+    year INTEGER NOT NULL, -- Renewal year the work is claimed in
+    description TEXT NOT NULL,
+    amount DECIMAL(12, 2) NOT NULL,
+    completed_on DATE,
+
+    CONSTRAINT valid_capex_amount CHECK (amount >= 0)
+);
+
+CREATE INDEX idx_property_capex_property_year ON property_capital_expenditures(property_id, year);
+
+-- Updated_at triggers (reuse existing function)
+CREATE TRIGGER update_tal_parameters_updated_at
+    BEFORE UPDATE ON tal_parameters
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_property_capital_expenditures_updated_at
+    BEFORE UPDATE ON property_capital_expenditures
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security
+ALTER TABLE tal_parameters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE property_capital_expenditures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations" ON tal_parameters
+    FOR ALL USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations" ON property_capital_expenditures
+    FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,53 @@
+-- Deal pipeline: stage on each property, stage change history and due-dated tasks
+-- Migration: 037_create_deal_pipeline
+
+ALTER TABLE properties
+    ADD COLUMN deal_stage TEXT NOT NULL DEFAULT 'sourced',
+    ADD COLUMN deal_stage_changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    ADD CONSTRAINT valid_deal_stage CHECK (
+        deal_stage IN ('sourced', 'analyzing', 'visited', 'offer_sent', 'accepted', 'closed', 'dead')
+    );
+
+CREATE INDEX idx_properties_deal_stage ON properties(deal_stage);
+
+CREATE TABLE deal_stage_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+    from_stage TEXT, -- NULL for the first recorded stage
+    to_stage TEXT NOT NULL,
+    note TEXT
+);
+
+CREATE TABLE deal_tasks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    due_date DATE,
+    completed_at TIMESTAMPTZ, -- NULL = open
+    notes TEXT
+);
+
+CREATE INDEX idx_deal_stage_history_property_id ON deal_stage_history(property_id, created_at DESC);
+CREATE INDEX idx_deal_tasks_property_id ON deal_tasks(property_id);
+CREATE INDEX idx_deal_tasks_open_due ON deal_tasks(due_date) WHERE completed_at IS NULL;
+
+-- Updated_at trigger (reuse existing function)
+CREATE TRIGGER update_deal_tasks_updated_at
+    BEFORE UPDATE ON deal_tasks
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security
+ALTER TABLE deal_stage_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE deal_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations" ON deal_stage_history
+    FOR ALL USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations" ON deal_tasks
+    FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,26 @@
+-- Listing price history: one row per scrape of a listing, keyed by MLS number / source URL
+-- Migration: 038_create_listing_price_history
+
+CREATE TABLE listing_price_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    observed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    property_id UUID REFERENCES properties(id) ON DELETE SET NULL, -- NULL when scraped but never saved
+    source_name TEXT,
+    source_url TEXT NOT NULL,
+    mls_number TEXT,
+    address TEXT,
+    normalized_address TEXT, -- Lowercase, unaccented, no punctuation; used to match relistings
+    price DECIMAL(12, 2)
+);
+
+CREATE INDEX idx_listing_price_history_mls ON listing_price_history(mls_number);
+CREATE INDEX idx_listing_price_history_source_url ON listing_price_history(source_url);
+CREATE INDEX idx_listing_price_history_address ON listing_price_history(normalized_address);
+CREATE INDEX idx_listing_price_history_property_id ON listing_price_history(property_id);
+
+-- Row Level Security
+ALTER TABLE listing_price_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations" ON listing_price_history
+    FOR ALL USING (true) WITH CHECK (true);
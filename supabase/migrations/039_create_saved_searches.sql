@@ -0,0 +1,108 @@
+-- Saved listing searches: scheduled re-crawls, listings seen per search and in-app notifications
+-- Migration: 039_create_saved_searches
+
+CREATE TABLE saved_searches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    name TEXT NOT NULL,
+    source_name TEXT NOT NULL DEFAULT 'centris',
+    search_url TEXT NOT NULL,
+
+    -- Criteria applied on top of the search URL (NULL / empty = no filter)
+    min_units INTEGER,
+    max_price DECIMAL(12, 2),
+    boroughs TEXT[] NOT NULL DEFAULT '{}',
+    max_listings INTEGER NOT NULL DEFAULT 50,
+
+    -- Schedule
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    run_interval_hours INTEGER NOT NULL DEFAULT 24,
+    last_run_at TIMESTAMPTZ, -- NULL = never run; the first run only records what is already listed
+
+    -- Optional digest of each run's notifications (JSON POST)
+    webhook_url TEXT,
+
+    CONSTRAINT valid_saved_search_source CHECK (source_name IN ('centris')),
+    CONSTRAINT valid_run_interval CHECK (run_interval_hours > 0)
+);
+
+CREATE TABLE saved_search_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+
+    status TEXT NOT NULL DEFAULT 'running',
+    listings_seen INTEGER NOT NULL DEFAULT 0,
+    new_listings INTEGER NOT NULL DEFAULT 0,
+    price_drops INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+
+    CONSTRAINT valid_saved_search_run_status CHECK (status IN ('running', 'completed', 'failed'))
+);
+
+-- Every listing a search has returned, with what was last seen of it
+CREATE TABLE saved_search_listings (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+    first_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    source_url TEXT NOT NULL,
+    mls_number TEXT,
+    address TEXT,
+    price DECIMAL(12, 2),
+    units INTEGER, -- Only scraped when the search filters on units
+    matches_criteria BOOLEAN NOT NULL DEFAULT false,
+
+    UNIQUE (saved_search_id, source_url)
+);
+
+CREATE TABLE notifications (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    type TEXT NOT NULL,
+    saved_search_id UUID REFERENCES saved_searches(id) ON DELETE SET NULL,
+    property_id UUID REFERENCES properties(id) ON DELETE SET NULL, -- Saved property with the same MLS number
+    source_url TEXT NOT NULL,
+    mls_number TEXT,
+    address TEXT,
+    price DECIMAL(12, 2),
+    previous_price DECIMAL(12, 2), -- Price drops only
+    read_at TIMESTAMPTZ, -- NULL = unread
+
+    CONSTRAINT valid_notification_type CHECK (type IN ('new_listing', 'price_drop'))
+);
+
+CREATE INDEX idx_saved_searches_active ON saved_searches(is_active, last_run_at);
+CREATE INDEX idx_saved_search_runs_search_id ON saved_search_runs(saved_search_id, started_at DESC);
+CREATE INDEX idx_saved_search_listings_search_id ON saved_search_listings(saved_search_id);
+CREATE INDEX idx_notifications_created_at ON notifications(created_at DESC);
+CREATE INDEX idx_notifications_unread ON notifications(created_at DESC) WHERE read_at IS NULL;
+
+-- Updated_at trigger (reuse existing function)
+CREATE TRIGGER update_saved_searches_updated_at
+    BEFORE UPDATE ON saved_searches
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_search_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_search_listings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations" ON saved_searches
+    FOR ALL USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations" ON saved_search_runs
+    FOR ALL USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations" ON saved_search_listings
+    FOR ALL USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations" ON notifications
+    FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,22 @@
+-- Scraper field coverage: which listing fields each scrape populated, to catch broken selectors
+-- Migration: 040_create_scrape_field_coverage
+
+CREATE TABLE scrape_field_coverage (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    scraped_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    source_name TEXT NOT NULL,
+    scraper_version TEXT NOT NULL,
+    source_url TEXT NOT NULL,
+    populated_fields TEXT[] NOT NULL DEFAULT '{}', -- ScrapedProperty fields with a value
+    field_count INTEGER NOT NULL -- Fields checked, so fill rates stay comparable if fields are added
+);
+
+CREATE INDEX idx_scrape_field_coverage_source ON scrape_field_coverage(source_name, scraped_at DESC);
+CREATE INDEX idx_scrape_field_coverage_scraped_at ON scrape_field_coverage(scraped_at DESC);
+
+-- Row Level Security
+ALTER TABLE scrape_field_coverage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations" ON scrape_field_coverage
+    FOR ALL USING (true) WITH CHECK (true);
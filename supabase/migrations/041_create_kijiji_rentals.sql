@@ -0,0 +1,140 @@
+-- Kijiji rentals: raw JSON bucket, curated table and metadata, same pipeline as Facebook
+-- Migration: 041_create_kijiji_rentals
+
+-- Raw JSON from the console scraper
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('kijiji-raw-rentals', 'kijiji-raw-rentals', false);
+
+CREATE POLICY "Service role full access kijiji"
+ON storage.objects FOR ALL
+TO service_role
+USING (bucket_id = 'kijiji-raw-rentals')
+WITH CHECK (bucket_id = 'kijiji-raw-rentals');
+
+-- Curated listings
+CREATE TABLE "KijijiRentalCurated" (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    kijiji_id TEXT NOT NULL UNIQUE,
+    source_url TEXT NOT NULL,
+
+    -- Metadata
+    extracted_date TIMESTAMPTZ NOT NULL,
+    posted_date TIMESTAMPTZ,
+    scraper_version TEXT,
+    raw_data_storage_path TEXT,
+
+    -- Property details
+    title TEXT NOT NULL,
+    address TEXT,
+    rental_location TEXT,
+    city TEXT,
+    postal_code TEXT,
+
+    -- Price
+    price DECIMAL(10, 2),
+    price_currency TEXT DEFAULT 'CAD',
+    price_display TEXT,
+
+    -- Rooms
+    bedrooms INTEGER,
+    bathrooms DECIMAL(3, 1),
+    square_footage INTEGER,
+
+    -- Categorized details
+    unit_type TEXT,
+    furnished BOOLEAN,
+    parking_spots INTEGER,
+    agreement_type TEXT, -- "1 Year", "Month-to-month"
+    move_in_date TEXT,
+    pet_policy JSONB DEFAULT '[]'::JSONB,
+    utilities_included JSONB DEFAULT '[]'::JSONB,
+    amenities JSONB DEFAULT '[]'::JSONB,
+    attributes JSONB DEFAULT '{}'::JSONB, -- Every label/value pair of the listing, as shown
+
+    -- Media (original URLs)
+    image_urls TEXT[] DEFAULT ARRAY[]::TEXT[],
+
+    -- Other
+    description TEXT,
+    seller_name TEXT,
+    seller_profile_url TEXT,
+
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_kijiji_price CHECK (price IS NULL OR price >= 0),
+    CONSTRAINT valid_kijiji_bedrooms CHECK (bedrooms IS NULL OR bedrooms >= 0),
+    CONSTRAINT valid_kijiji_bathrooms CHECK (bathrooms IS NULL OR bathrooms >= 0)
+);
+
+CREATE INDEX idx_kijiji_rental_curated_kijiji_id ON "KijijiRentalCurated"(kijiji_id);
+CREATE INDEX idx_kijiji_rental_curated_extracted_date ON "KijijiRentalCurated"(extracted_date DESC);
+CREATE INDEX idx_kijiji_rental_curated_price ON "KijijiRentalCurated"(price);
+CREATE INDEX idx_kijiji_rental_curated_bedrooms ON "KijijiRentalCurated"(bedrooms);
+CREATE INDEX idx_kijiji_rental_curated_city ON "KijijiRentalCurated"(city);
+
+ALTER TABLE "KijijiRentalCurated" ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all" ON "KijijiRentalCurated" FOR ALL USING (true);
+
+CREATE TRIGGER update_kijiji_rental_curated_updated_at
+    BEFORE UPDATE ON "KijijiRentalCurated"
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Link rentals to their Kijiji listing
+ALTER TABLE rentals ADD COLUMN kijiji_id TEXT UNIQUE;
+CREATE INDEX idx_rentals_kijiji_id ON rentals(kijiji_id);
+COMMENT ON COLUMN rentals.kijiji_id IS 'Kijiji ad ID for linking to raw data in kijiji_rentals_metadata';
+
+-- Import and transformation tracking
+CREATE TABLE kijiji_rentals_metadata (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    kijiji_id TEXT NOT NULL UNIQUE,
+    source_url TEXT NOT NULL,
+    storage_path TEXT NOT NULL,
+    raw_data_size_bytes INTEGER,
+
+    -- Scraping status
+    scrape_status TEXT NOT NULL DEFAULT 'pending',
+    scrape_duration_ms INTEGER,
+    scrape_error TEXT,
+
+    -- Transformation status
+    transformation_status TEXT NOT NULL DEFAULT 'pending',
+    transformation_error TEXT,
+    transformation_attempts INTEGER NOT NULL DEFAULT 0,
+    transformed_at TIMESTAMPTZ,
+
+    -- Foreign keys
+    curated_id UUID REFERENCES "KijijiRentalCurated"(id) ON DELETE SET NULL,
+    rental_id UUID REFERENCES rentals(id) ON DELETE SET NULL,
+
+    -- Preview data
+    title_preview TEXT,
+    price_preview TEXT,
+    address_preview TEXT,
+
+    -- Media storage paths
+    images TEXT[] DEFAULT '{}'::TEXT[],
+
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_kijiji_scrape_status CHECK (scrape_status IN ('pending', 'success', 'partial', 'failed', 'backfilled')),
+    CONSTRAINT valid_kijiji_transformation_status CHECK (transformation_status IN ('pending', 'success', 'failed', 'skipped'))
+);
+
+CREATE INDEX idx_kijiji_rentals_metadata_kijiji_id ON kijiji_rentals_metadata(kijiji_id);
+CREATE INDEX idx_kijiji_rentals_metadata_transformation_status ON kijiji_rentals_metadata(transformation_status);
+CREATE INDEX idx_kijiji_rentals_metadata_curated_id ON kijiji_rentals_metadata(curated_id);
+CREATE INDEX idx_kijiji_rentals_metadata_rental_id ON kijiji_rentals_metadata(rental_id);
+
+ALTER TABLE kijiji_rentals_metadata ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all" ON kijiji_rentals_metadata FOR ALL USING (true);
+
+CREATE TRIGGER update_kijiji_rentals_metadata_updated_at
+    BEFORE UPDATE ON kijiji_rentals_metadata
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
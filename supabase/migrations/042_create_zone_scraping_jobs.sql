@@ -0,0 +1,51 @@
+-- Background zone scraping jobs, picked up by the zone scraping worker
+-- Migration: 042_create_zone_scraping_jobs
+
+CREATE TABLE zone_scraping_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  zone_id UUID NOT NULL REFERENCES scraping_zones(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- Bumped after every building; a stale running job has lost its worker
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+
+  requested_limit INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+
+  -- Progress, updated live by the worker
+  total_to_scrape INTEGER NOT NULL DEFAULT 0,
+  scraped_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+
+  error_message TEXT,
+  summary JSONB, -- { scraped: [matricule], failed: [{ matricule, error }] }
+
+  CONSTRAINT valid_zone_scraping_job_status CHECK (
+    status IN ('pending', 'running', 'completed', 'failed', 'cancelled')
+  ),
+  CONSTRAINT valid_requested_limit CHECK (requested_limit > 0)
+);
+
+-- Indexes
+CREATE INDEX idx_zone_scraping_jobs_zone_id ON zone_scraping_jobs(zone_id, created_at DESC);
+CREATE INDEX idx_zone_scraping_jobs_queue ON zone_scraping_jobs(created_at)
+  WHERE status IN ('pending', 'running');
+
+-- Updated_at trigger (reuse existing function)
+CREATE TRIGGER update_zone_scraping_jobs_updated_at
+  BEFORE UPDATE ON zone_scraping_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security
+ALTER TABLE zone_scraping_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations" ON zone_scraping_jobs
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- Comments
+COMMENT ON TABLE zone_scraping_jobs IS
+  'Batch scrapes of unscraped buildings in a zone, run by scripts/run-zone-scraping-jobs.ts';
+
+COMMENT ON COLUMN zone_scraping_jobs.requested_limit IS 'Maximum buildings to scrape, counting scraped and failed';
+COMMENT ON COLUMN zone_scraping_jobs.total_to_scrape IS 'Buildings the job will attempt (requested limit or fewer if the zone has fewer unscraped)';
@@ -0,0 +1,14 @@
+-- Polygon scraping zones
+-- Migration: 043_add_geometry_to_scraping_zones
+
+-- The bounding box columns stay: they are the zone's polygon's bounds and
+-- prefilter buildings in SQL before the point-in-polygon check
+ALTER TABLE scraping_zones
+  ADD COLUMN geometry JSONB,
+  ADD COLUMN arrondissement TEXT,
+  ADD CONSTRAINT valid_zone_geometry CHECK (
+    geometry IS NULL OR geometry->>'type' IN ('Polygon', 'MultiPolygon')
+  );
+
+COMMENT ON COLUMN scraping_zones.geometry IS 'GeoJSON Polygon or MultiPolygon ([lng, lat] positions); NULL = rectangular zone from the bounds';
+COMMENT ON COLUMN scraping_zones.arrondissement IS 'Borough the zone boundary was taken from, if any';
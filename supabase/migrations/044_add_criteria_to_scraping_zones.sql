@@ -0,0 +1,9 @@
+-- Building selection criteria for scraping zones
+-- Migration: 044_add_criteria_to_scraping_zones
+
+-- Typed as ZoneCriteria (src/types/scraping-zone.ts); unit counts stay in min_units / max_units
+ALTER TABLE scraping_zones
+  ADD COLUMN criteria JSONB NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN scraping_zones.criteria IS
+  'Construction year, category, usage code, floors, land/building area and re-scrape window filters (empty = no filter)';
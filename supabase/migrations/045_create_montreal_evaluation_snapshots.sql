@@ -0,0 +1,28 @@
+-- Evaluation detail history: one row per scrape that found new data for a matricule
+-- Migration: 045_create_montreal_evaluation_snapshots
+
+CREATE TABLE montreal_evaluation_snapshots (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    captured_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    matricule VARCHAR(50) NOT NULL,
+    data JSONB NOT NULL, -- The montreal_evaluation_details values at that scrape (MontrealEvaluationInsert)
+    changed_fields TEXT[] NOT NULL DEFAULT '{}' -- Fields that differ from the previous snapshot; empty for the first one
+);
+
+CREATE INDEX idx_montreal_eval_snapshots_matricule ON montreal_evaluation_snapshots(matricule, captured_at DESC);
+CREATE INDEX idx_montreal_eval_snapshots_changed_fields ON montreal_evaluation_snapshots USING GIN (changed_fields);
+
+-- Row Level Security
+ALTER TABLE montreal_evaluation_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations" ON montreal_evaluation_snapshots
+    FOR ALL USING (true) WITH CHECK (true);
+
+-- Existing details become each building's first snapshot
+INSERT INTO montreal_evaluation_snapshots (captured_at, matricule, data)
+SELECT
+    COALESCE(scraped_at, created_at),
+    matricule,
+    to_jsonb(d) - ARRAY['id', 'created_at', 'updated_at', 'scraped_at', 'multiple_results_info']
+FROM montreal_evaluation_details d;
@@ -0,0 +1,5 @@
+-- Recent transactions: buildings are looked up by when their current owner registered
+-- Migration: 046_index_owner_registration_date
+
+CREATE INDEX idx_montreal_eval_owner_registration_date
+    ON montreal_evaluation_details(owner_registration_date DESC);
@@ -0,0 +1,18 @@
+-- Listing price history: keep condo units apart when matching relistings by address
+-- Migration: 047_add_unit_to_listing_price_history
+
+ALTER TABLE listing_price_history
+ADD COLUMN unit TEXT; -- Unit number from the address ("app. 5", "#5", "5-1234 ..."); NULL for whole buildings
+
+-- Same rules as extractUnitNumber in src/lib/listings/price-history.ts
+UPDATE listing_price_history
+SET unit = CASE
+    WHEN address ~* '(\m(apt|app|appartement|unite|unité|unit|suite|bureau)\.?|#)\s*[0-9]+[a-z]?\M'
+        THEN lower(substring(address from '(?i)(?:\m(?:apt|app|appartement|unite|unité|unit|suite|bureau)\.?|#)\s*([0-9]+[a-z]?)\M'))
+    WHEN length(substring(address from '^\s*([0-9]+[A-Za-z]?)\s*-\s*[0-9]+'))
+        < length(substring(address from '^\s*[0-9]+[A-Za-z]?\s*-\s*([0-9]+)'))
+        THEN lower(substring(address from '^\s*([0-9]+[A-Za-z]?)\s*-\s*[0-9]+'))
+END
+WHERE address IS NOT NULL;
+
+CREATE INDEX idx_listing_price_history_address_unit ON listing_price_history(normalized_address, unit);